@@ -1,5 +1,7 @@
 const CACHE_NAME = 'nesttask-v3';
 const OFFLINE_URL = '/offline.html';
+// Study material files students saved for offline (see src/utils/offlineMaterials.ts)
+const OFFLINE_MATERIALS_CACHE = 'nesttask-offline-materials';
 
 // Assets to cache on install
 const STATIC_ASSETS = [
@@ -122,7 +124,7 @@ self.addEventListener('activate', (event) => {
     caches.keys().then((cacheNames) => {
       return Promise.all(
         cacheNames
-          .filter((cacheName) => cacheName !== CACHE_NAME && cacheName !== 'sw-metadata')
+          .filter((cacheName) => cacheName !== CACHE_NAME && cacheName !== 'sw-metadata' && cacheName !== OFFLINE_MATERIALS_CACHE)
           .map((cacheName) => caches.delete(cacheName))
       );
     })
@@ -239,6 +241,15 @@ self.addEventListener('fetch', (event) => {
       return;
     }
 
+    // Study material files saved for offline - cache first, other storage files go to network
+    if (url.hostname.includes('supabase.co') && url.pathname.includes('/storage/v1/object/public/')) {
+      event.respondWith(
+        safeCacheMatch(OFFLINE_MATERIALS_CACHE, event.request)
+          .then(cachedResponse => cachedResponse || fetch(event.request))
+      );
+      return;
+    }
+
     // Skip Supabase API requests (let them go to network)
     if (url.hostname.includes('supabase.co')) {
       return;
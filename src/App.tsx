@@ -4,6 +4,9 @@ import { useTasks } from './hooks/useTasks';
 import { useUsers } from './hooks/useUsers';
 import { useNotifications } from './hooks/useNotifications';
 import { useRoutines } from './hooks/useRoutines';
+import { useClassStatus } from './hooks/useClassStatus';
+import { useEnrollments } from './hooks/useEnrollments';
+import { useSharedRoutineOverrides, type RoutineOverrideView } from './hooks/useRoutineOverrides';
 import { AuthPage } from './pages/AuthPage';
 import { LoadingScreen } from './components/LoadingScreen';
 import { Navigation } from './components/Navigation';
@@ -16,6 +19,7 @@ import { OfflineToast } from './components/ui/OfflineToast';
 import { OfflineSyncManager } from './components/ui/OfflineSyncManager';
 import { ListTodo, CheckCircle2, Clock, AlertCircle } from 'lucide-react';
 import { TaskCategories } from './components/task/TaskCategories';
+import { NowNextClass } from './components/routine/NowNextClass';
 import { isOverdue, isSameDay } from './utils/dateUtils';
 import { useOfflineStatus } from './hooks/useOfflineStatus';
 import { usePredictivePreload } from './hooks/usePredictivePreload';
@@ -29,6 +33,7 @@ import type { User } from './types/user';
 import { ResetPasswordPage } from './pages/ResetPasswordPage';
 import { supabase } from './lib/supabase';
 import { preloadPredictedRoutes } from './utils/routePreloader';
+import { getAudienceSection } from './utils/audience';
 
 // Page import functions for prefetching
 const importAdminDashboard = () => import('./pages/AdminDashboard').then(module => ({ default: module.AdminDashboard }));
@@ -38,6 +43,8 @@ const importNotificationsPage = () => import('./pages/NotificationsPage').then(m
 const importCoursePage = () => import('./pages/CoursePage').then(module => ({ default: module.CoursePage }));
 const importStudyMaterialsPage = () => import('./pages/StudyMaterialsPage').then(module => ({ default: module.StudyMaterialsPage }));
 const importRoutinePage = () => import('./pages/RoutinePage').then(module => ({ default: module.RoutinePage }));
+const importRoomFinderPage = () => import('./pages/RoomFinderPage').then(module => ({ default: module.RoomFinderPage }));
+const importArchivePage = () => import('./pages/ArchivePage').then(module => ({ default: module.ArchivePage }));
 
 // Lazy-loaded components with instant loading config
 const AdminDashboard = lazy(importAdminDashboard);
@@ -47,6 +54,8 @@ const NotificationsPage = lazy(importNotificationsPage);
 const CoursePage = lazy(importCoursePage);
 const StudyMaterialsPage = lazy(importStudyMaterialsPage);
 const RoutinePage = lazy(importRoutinePage);
+const RoomFinderPage = lazy(importRoomFinderPage);
+const ArchivePage = lazy(importArchivePage);
 
 type StatFilter = 'all' | 'overdue' | 'in-progress' | 'completed';
 
@@ -60,21 +69,36 @@ export default function App() {
     createTask, 
     updateTask, 
     deleteTask,
+    updateTaskSeries,
+    deleteTaskSeries,
+    bulkAction,
+    bulkImportTasks,
+    closeSemester,
+    restoreTask,
+    toggleSubtask,
     refreshTasks,
     syncOfflineChanges
-  } = useTasks(user?.id);
+  } = useTasks(user?.id, getAudienceSection(user));
   const {
     routines,
     loading: routinesLoading,
     syncOfflineChanges: syncRoutineChanges
   } = useRoutines();
+  // Shared with the routine page so both use one load and one realtime channel
+  const { enrollments, saveEnrollments } = useEnrollments(user?.id);
+  const [routineView, setRoutineView] = useState<RoutineOverrideView | null>(null);
+  const { statusOverrides, viewOverrides } = useSharedRoutineOverrides(
+    routines.find(routine => routine.isActive)?.id,
+    routineView
+  );
+  const classStatus = useClassStatus(routines, statusOverrides, enrollments, user?.section);
   const { 
     notifications, 
     unreadCount,
     markAsRead, 
     markAllAsRead, 
     clearNotification 
-  } = useNotifications(user?.id);
+  } = useNotifications(user?.id, getAudienceSection(user));
   const isOffline = useOfflineStatus();
   
   const [activePage, setActivePage] = useState<NavPage>('home');
@@ -338,7 +362,7 @@ export default function App() {
       case 'courses':
         return (
           <Suspense fallback={<LoadingScreen minimumLoadTime={300} />}>
-            <CoursePage />
+            <CoursePage tasks={tasks} />
           </Suspense>
         );
       case 'study-materials':
@@ -350,7 +374,27 @@ export default function App() {
       case 'routine':
         return (
           <Suspense fallback={<LoadingScreen minimumLoadTime={300} />}>
-            <RoutinePage />
+            <RoutinePage
+              tasks={tasks}
+              enrollments={enrollments}
+              onSaveEnrollments={saveEnrollments}
+              overrides={viewOverrides.overrides}
+              onCreateOverride={viewOverrides.createOverride}
+              onDeleteOverride={viewOverrides.deleteOverride}
+              onViewChange={setRoutineView}
+            />
+          </Suspense>
+        );
+      case 'rooms':
+        return (
+          <Suspense fallback={<LoadingScreen minimumLoadTime={300} />}>
+            <RoomFinderPage />
+          </Suspense>
+        );
+      case 'archive':
+        return (
+          <Suspense fallback={<LoadingScreen minimumLoadTime={300} />}>
+            <ArchivePage />
           </Suspense>
         );
       default:
@@ -366,6 +410,9 @@ export default function App() {
               </p>
             </div>
 
+            {/* Current and next class */}
+            <NowNextClass status={classStatus} />
+
             {/* Task Stats */}
             <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
               <button
@@ -465,6 +512,7 @@ export default function App() {
               <TaskList
                 tasks={getFilteredTasks()}
                 showDeleteButton={false}
+                onToggleSubtask={toggleSubtask}
               />
             </div>
           </div>
@@ -504,6 +552,12 @@ export default function App() {
           onCreateTask={createTask}
           onDeleteTask={deleteTask}
           onUpdateTask={updateTask}
+          onUpdateTaskSeries={updateTaskSeries}
+          onDeleteTaskSeries={deleteTaskSeries}
+          onBulkTaskAction={bulkAction}
+          onBulkImportTasks={bulkImportTasks}
+          onCloseSemester={closeSemester}
+          onRestoreTask={restoreTask}
         />
       </Suspense>
     );
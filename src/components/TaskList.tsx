@@ -19,9 +19,15 @@ import {
   CheckCircle2,
   MoreVertical,
   Trash2,
-  WifiOff
+  WifiOff,
+  ListChecks,
+  Flag,
+  Timer,
+  Sparkles
 } from 'lucide-react';
 import { isOverdue } from '../utils/dateUtils';
+import { getSubtaskProgress } from '../utils/subtaskUtils';
+import { sortTasksByNextUp, getPriorityColor } from '../utils/taskPriority';
 import { parseLinks } from '../utils/linkParser';
 import { useState, useMemo } from 'react';
 import { TaskDetailsPopup } from './task/TaskDetailsPopup';
@@ -31,16 +37,34 @@ interface TaskListProps {
   tasks: Task[];
   onDeleteTask?: (taskId: string) => void;
   showDeleteButton?: boolean;
+  onToggleSubtask?: (taskId: string, subtaskId: string, completed: boolean) => Promise<unknown>;
 }
 
-export function TaskList({ tasks, onDeleteTask, showDeleteButton = false }: TaskListProps) {
+export function TaskList({ tasks, onDeleteTask, showDeleteButton = false, onToggleSubtask }: TaskListProps) {
   const [selectedTask, setSelectedTask] = useState<Task | null>(null);
   const [deletingTaskId, setDeletingTaskId] = useState<string | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [sortMode, setSortMode] = useState<'due-date' | 'next-up'>('due-date');
+  const [courseFilter, setCourseFilter] = useState('all');
   const isOffline = useOfflineStatus();
 
+  // Courses that appear on the current tasks
+  const courseOptions = useMemo(() => {
+    const options = new Map<string, string>();
+    tasks.forEach(task => {
+      if (task.courseId) options.set(task.courseId, task.courseCode || 'Course');
+    });
+    return [...options.entries()].sort((a, b) => a[1].localeCompare(b[1]));
+  }, [tasks]);
+
+  // Fall back to all courses once the selected course has no tasks left in view
+  const activeCourseFilter = courseOptions.some(([id]) => id === courseFilter) ? courseFilter : 'all';
+  const visibleTasks = activeCourseFilter === 'all'
+    ? tasks
+    : tasks.filter(task => task.courseId === activeCourseFilter);
+
   // Sort tasks to move completed tasks to the bottom and handle overdue tasks
-  const sortedTasks = [...tasks].sort((a, b) => {
+  const sortedTasks = sortMode === 'next-up' ? sortTasksByNextUp(visibleTasks) : [...visibleTasks].sort((a, b) => {
     // First, separate completed tasks from non-completed tasks
     if (a.status === 'completed' && b.status !== 'completed') return 1;
     if (a.status !== 'completed' && b.status === 'completed') return -1;
@@ -132,6 +156,45 @@ export function TaskList({ tasks, onDeleteTask, showDeleteButton = false }: Task
         </div>
       )}
       
+      <div className="flex justify-end gap-2 px-3 md:px-4 lg:px-6">
+        {courseOptions.length > 0 && (
+          <select
+            value={activeCourseFilter}
+            onChange={(e) => setCourseFilter(e.target.value)}
+            className="rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 px-2 py-1 text-xs font-medium text-gray-600 dark:text-gray-300"
+            aria-label="Filter by course"
+          >
+            <option value="all">All courses</option>
+            {courseOptions.map(([id, code]) => (
+              <option key={id} value={id}>{code}</option>
+            ))}
+          </select>
+        )}
+        <div className="inline-flex rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-0.5 text-xs font-medium">
+          <button
+            onClick={() => setSortMode('due-date')}
+            className={`inline-flex items-center gap-1 px-2.5 py-1 rounded-md transition-colors
+              ${sortMode === 'due-date'
+                ? 'bg-sky-100 text-sky-700 dark:bg-sky-900/40 dark:text-sky-300'
+                : 'text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200'}`}
+          >
+            <Calendar className="w-3.5 h-3.5" />
+            Due date
+          </button>
+          <button
+            onClick={() => setSortMode('next-up')}
+            className={`inline-flex items-center gap-1 px-2.5 py-1 rounded-md transition-colors
+              ${sortMode === 'next-up'
+                ? 'bg-sky-100 text-sky-700 dark:bg-sky-900/40 dark:text-sky-300'
+                : 'text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200'}`}
+            title="Weighs due date, priority and remaining effort"
+          >
+            <Sparkles className="w-3.5 h-3.5" />
+            Do next
+          </button>
+        </div>
+      </div>
+
       <div className="w-full max-w-7xl mx-auto bg-gray-50 dark:bg-gray-900 md:bg-transparent">
         {/* Mobile-optimized container */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3 p-3 md:gap-4 lg:gap-6 md:p-4 lg:p-6">
@@ -139,6 +202,7 @@ export function TaskList({ tasks, onDeleteTask, showDeleteButton = false }: Task
             const overdue = isOverdue(task.dueDate);
             const parsedLinks = parseLinks(task.description);
             const hasLinks = parsedLinks.some(part => part.type === 'link');
+            const subtaskProgress = getSubtaskProgress(task.subtasks);
 
             return (
               <div
@@ -219,6 +283,12 @@ export function TaskList({ tasks, onDeleteTask, showDeleteButton = false }: Task
                     </span>
                   </div>
 
+                  {task.courseCode && (
+                    <p className="text-xs font-medium text-gray-500 dark:text-gray-400 truncate">
+                      {task.courseCode}{task.courseName ? ` · ${task.courseName}` : ''}
+                    </p>
+                  )}
+
                   <p className="text-[15px] md:text-sm 
                     text-gray-600 dark:text-gray-300 
                     leading-relaxed 
@@ -280,6 +350,27 @@ export function TaskList({ tasks, onDeleteTask, showDeleteButton = false }: Task
                       </span>
                       {task.status === 'completed' ? 'Complete' : overdue ? 'Overdue' : 'In Progress'}
                     </span>
+
+                    {(task.priority === 'high' || task.priority === 'critical') && (
+                      <span className={`inline-flex items-center gap-1 px-1.5 py-0.5 rounded-full text-xs font-medium capitalize ${getPriorityColor(task.priority)}`}>
+                        <Flag className="w-3 h-3" />
+                        {task.priority}
+                      </span>
+                    )}
+
+                    {task.estimatedHours !== undefined && task.status !== 'completed' && (
+                      <span className="inline-flex items-center gap-1 text-sm md:text-xs font-medium text-gray-500 dark:text-gray-400">
+                        <Timer className="w-3.5 h-3.5 md:w-3 md:h-3" />
+                        {task.estimatedHours}h
+                      </span>
+                    )}
+
+                    {subtaskProgress.total > 0 && (
+                      <span className="inline-flex items-center gap-1 text-sm md:text-xs font-medium text-gray-500 dark:text-gray-400">
+                        <ListChecks className="w-3.5 h-3.5 md:w-3 md:h-3" />
+                        {subtaskProgress.done}/{subtaskProgress.total}
+                      </span>
+                    )}
                   </div>
 
                   {/* Due date display */}
@@ -320,8 +411,9 @@ export function TaskList({ tasks, onDeleteTask, showDeleteButton = false }: Task
       {/* Mobile-optimized modal */}
       {selectedTask && (
         <TaskDetailsPopup
-          task={selectedTask}
+          task={tasks.find(task => task.id === selectedTask.id) ?? selectedTask}
           onClose={() => setSelectedTask(null)}
+          onToggleSubtask={onToggleSubtask}
         />
       )}
     </div>
@@ -0,0 +1,92 @@
+import { useState } from 'react';
+import { Users, Plus, X } from 'lucide-react';
+
+interface AudienceSelectorProps {
+  value: string[];
+  onChange: (sections: string[]) => void;
+  sections: string[];
+}
+
+// An empty selection means the item is shown to every section
+export function AudienceSelector({ value, onChange, sections }: AudienceSelectorProps) {
+  const [customSection, setCustomSection] = useState('');
+  const options = Array.from(new Set([...sections, ...value]));
+
+  const toggleSection = (section: string) => {
+    onChange(value.includes(section)
+      ? value.filter(s => s !== section)
+      : [...value, section]);
+  };
+
+  const addCustomSection = () => {
+    const section = customSection.trim();
+    if (section && !value.includes(section)) {
+      onChange([...value, section]);
+    }
+    setCustomSection('');
+  };
+
+  return (
+    <div>
+      <label className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">
+        <Users className="w-4 h-4" />
+        Audience
+      </label>
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="button"
+          onClick={() => onChange([])}
+          aria-pressed={value.length === 0}
+          className={`px-3 py-1.5 text-xs font-medium rounded-full border transition-colors
+            ${value.length === 0
+              ? 'bg-blue-600 border-blue-600 text-white dark:bg-blue-500 dark:border-blue-500'
+              : 'bg-white border-gray-200 text-gray-600 hover:border-blue-300 dark:bg-gray-800 dark:border-gray-600 dark:text-gray-300'}`}
+        >
+          Everyone
+        </button>
+        {options.map(section => {
+          const selected = value.includes(section);
+          return (
+            <button
+              key={section}
+              type="button"
+              onClick={() => toggleSection(section)}
+              aria-pressed={selected}
+              className={`px-3 py-1.5 text-xs font-medium rounded-full border transition-colors
+                ${selected
+                  ? 'bg-blue-600 border-blue-600 text-white dark:bg-blue-500 dark:border-blue-500'
+                  : 'bg-white border-gray-200 text-gray-600 hover:border-blue-300 dark:bg-gray-800 dark:border-gray-600 dark:text-gray-300'}`}
+            >
+              Section {section}
+              {selected && <X className="inline w-3 h-3 ml-1" />}
+            </button>
+          );
+        })}
+      </div>
+      <div className="flex gap-2 mt-2">
+        <input
+          type="text"
+          value={customSection}
+          onChange={(e) => setCustomSection(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              addCustomSection();
+            }
+          }}
+          placeholder="Add another section"
+          className="flex-1 px-3 py-1.5 text-sm border dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+        />
+        <button
+          type="button"
+          onClick={addCustomSection}
+          disabled={!customSection.trim()}
+          className="p-2 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg disabled:opacity-50"
+          title="Add section"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,9 @@ import { useState, useEffect } from 'react';
 import { TaskForm } from './task/TaskForm';
 import { TaskTable } from './task/TaskTable';
 import { TaskStats } from './task/TaskStats';
+import { BulkTaskImport } from './task/BulkTaskImport';
+import { CloseSemesterPanel } from './task/CloseSemesterPanel';
+import { ArchivedTaskList } from '../task/ArchivedTaskList';
 import { 
   Plus, 
   ChevronUp, 
@@ -11,17 +14,27 @@ import {
   SortDesc, 
   Download,
   Search,
+  Upload,
+  Archive,
   X
 } from 'lucide-react';
 import type { Task } from '../../types';
-import type { NewTask } from '../../types/task';
+import type { NewTask, TaskUpdates, BulkTaskAction, BulkTaskResult } from '../../types/task';
+import type { Course } from '../../types/course';
 
 interface TaskManagerProps {
   tasks: Task[];
   onCreateTask: (task: NewTask) => void;
   onDeleteTask: (taskId: string) => void;
-  onUpdateTask: (taskId: string, updates: Partial<Task>) => void;
+  onUpdateTask: (taskId: string, updates: TaskUpdates) => void;
+  onUpdateTaskSeries?: (seriesId: string, updates: Partial<Task>) => Promise<void>;
+  onDeleteTaskSeries?: (seriesId: string) => Promise<void>;
+  onBulkAction?: (taskIds: string[], action: BulkTaskAction) => Promise<BulkTaskResult[]>;
+  onBulkImportTasks?: (tasks: NewTask[]) => Promise<{ success: number; errors: any[] }>;
+  onCloseSemester?: (cutoffDate: string) => Promise<number>;
+  onRestoreTask?: (taskId: string) => Promise<void>;
   showTaskForm?: boolean;
+  courses?: Course[];
 }
 
 export function TaskManager({ 
@@ -29,7 +42,14 @@ export function TaskManager({
   onCreateTask, 
   onDeleteTask, 
   onUpdateTask,
-  showTaskForm: initialShowTaskForm = false
+  onUpdateTaskSeries,
+  onDeleteTaskSeries,
+  onBulkAction,
+  onBulkImportTasks,
+  onCloseSemester,
+  onRestoreTask,
+  showTaskForm: initialShowTaskForm = false,
+  courses = []
 }: TaskManagerProps) {
   const [showTaskForm, setShowTaskForm] = useState(initialShowTaskForm);
   const [categoryFilter, setCategoryFilter] = useState<string>('all');
@@ -38,6 +58,8 @@ export function TaskManager({
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
   const [searchTerm, setSearchTerm] = useState('');
   const [showFilters, setShowFilters] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showArchive, setShowArchive] = useState(false);
 
   // Update showTaskForm when the prop changes
   useEffect(() => {
@@ -129,6 +151,34 @@ export function TaskManager({
             {showTaskForm ? 'Hide Form' : 'Create Task'}
           </button>
           
+          {onBulkImportTasks && (
+            <button
+              className={`
+                flex-1 sm:flex-none px-3 sm:px-4 py-2 rounded-xl flex items-center justify-center gap-2 transition-colors text-sm sm:text-base
+                ${showImport ? 
+                  'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300' : 
+                  'bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-800 dark:text-gray-300 dark:hover:bg-gray-700'}
+              `}
+              onClick={() => setShowImport(!showImport)}
+            >
+              <Upload className="w-4 h-4" />
+              <span className="sm:inline">Bulk Import</span>
+            </button>
+          )}
+          
+          <button
+            className={`
+              flex-1 sm:flex-none px-3 sm:px-4 py-2 rounded-xl flex items-center justify-center gap-2 transition-colors text-sm sm:text-base
+              ${showArchive ? 
+                'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300' : 
+                'bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-800 dark:text-gray-300 dark:hover:bg-gray-700'}
+            `}
+            onClick={() => setShowArchive(!showArchive)}
+          >
+            <Archive className="w-4 h-4" />
+            <span className="sm:inline">Archive</span>
+          </button>
+          
           <button
             className={`
               flex-1 sm:flex-none px-3 sm:px-4 py-2 rounded-xl flex items-center justify-center gap-2 transition-colors text-sm sm:text-base
@@ -302,7 +352,18 @@ export function TaskManager({
       )}
 
       {showTaskForm && (
-        <TaskForm onSubmit={onCreateTask} />
+        <TaskForm onSubmit={onCreateTask} courses={courses} />
+      )}
+
+      {showImport && onBulkImportTasks && (
+        <BulkTaskImport courses={courses} onImportTasks={onBulkImportTasks} />
+      )}
+
+      {showArchive && (
+        <div className="space-y-4">
+          {onCloseSemester && <CloseSemesterPanel onCloseSemester={onCloseSemester} />}
+          <ArchivedTaskList onRestore={onRestoreTask} />
+        </div>
       )}
       
       {/* Task Analytics - moved to appear after the task form */}
@@ -316,6 +377,10 @@ export function TaskManager({
           tasks={sortedTasks} 
           onDeleteTask={onDeleteTask} 
           onUpdateTask={onUpdateTask} 
+          onUpdateTaskSeries={onUpdateTaskSeries}
+          onDeleteTaskSeries={onDeleteTaskSeries}
+          onBulkAction={onBulkAction}
+          courses={courses}
         />
       </div>
     </div>
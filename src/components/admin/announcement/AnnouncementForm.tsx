@@ -1,15 +1,18 @@
 import { useState } from 'react';
 import { Send, Megaphone } from 'lucide-react';
+import { AudienceSelector } from '../AudienceSelector';
 import type { NewAnnouncement } from '../../../types/announcement';
 
 interface AnnouncementFormProps {
   onSubmit: (announcement: NewAnnouncement) => Promise<void>;
+  sections: string[];
 }
 
-export function AnnouncementForm({ onSubmit }: AnnouncementFormProps) {
+export function AnnouncementForm({ onSubmit, sections }: AnnouncementFormProps) {
   const [announcement, setAnnouncement] = useState<NewAnnouncement>({
     title: '',
-    content: ''
+    content: '',
+    targetSections: []
   });
   const [isSubmitting, setIsSubmitting] = useState(false);
 
@@ -18,7 +21,7 @@ export function AnnouncementForm({ onSubmit }: AnnouncementFormProps) {
     setIsSubmitting(true);
     try {
       await onSubmit(announcement);
-      setAnnouncement({ title: '', content: '' });
+      setAnnouncement({ title: '', content: '', targetSections: [] });
     } finally {
       setIsSubmitting(false);
     }
@@ -33,7 +36,7 @@ export function AnnouncementForm({ onSubmit }: AnnouncementFormProps) {
         <div>
           <h2 className="text-lg sm:text-xl font-semibold text-gray-900 dark:text-white">Create Announcement</h2>
           <p className="text-sm text-gray-500 dark:text-gray-400 mt-0.5">
-            Send important updates to all users
+            Send important updates to everyone or selected sections
           </p>
         </div>
       </div>
@@ -66,6 +69,12 @@ export function AnnouncementForm({ onSubmit }: AnnouncementFormProps) {
           />
         </div>
 
+        <AudienceSelector
+          value={announcement.targetSections || []}
+          onChange={(targetSections) => setAnnouncement(prev => ({ ...prev, targetSections }))}
+          sections={sections}
+        />
+
         <button
           type="submit"
           disabled={isSubmitting}
@@ -1,4 +1,4 @@
-import { Megaphone, Trash2, Calendar } from 'lucide-react';
+import { Megaphone, Trash2, Calendar, Users } from 'lucide-react';
 import type { Announcement } from '../../../types/announcement';
 import { parseLinks } from '../../../utils/linkParser';
 
@@ -71,6 +71,12 @@ export function AnnouncementList({ announcements, onDelete }: AnnouncementListPr
                           minute: '2-digit'
                         })}
                       </span>
+                      <Users className="w-4 h-4 ml-2" />
+                      <span>
+                        {announcement.targetSections?.length
+                          ? `Sections ${announcement.targetSections.join(', ')}`
+                          : 'Everyone'}
+                      </span>
                     </div>
                   </div>
                   <div className="flex sm:flex-col items-center gap-2">
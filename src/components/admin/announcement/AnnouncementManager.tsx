@@ -1,21 +1,25 @@
 import { AnnouncementForm } from './AnnouncementForm';
 import { AnnouncementList } from './AnnouncementList';
+import { getKnownSections } from '../../../utils/audience';
 import type { Announcement, NewAnnouncement } from '../../../types/announcement';
+import type { Course } from '../../../types/course';
 
 interface AnnouncementManagerProps {
   announcements: Announcement[];
   onCreateAnnouncement: (announcement: NewAnnouncement) => Promise<void>;
   onDeleteAnnouncement: (id: string) => Promise<void>;
+  courses: Course[];
 }
 
 export function AnnouncementManager({
   announcements,
   onCreateAnnouncement,
-  onDeleteAnnouncement
+  onDeleteAnnouncement,
+  courses
 }: AnnouncementManagerProps) {
   return (
     <div>
-      <AnnouncementForm onSubmit={onCreateAnnouncement} />
+      <AnnouncementForm onSubmit={onCreateAnnouncement} sections={getKnownSections(courses)} />
       <AnnouncementList 
         announcements={announcements}
         onDelete={onDeleteAnnouncement}
@@ -0,0 +1,104 @@
+import { useMemo, useState } from 'react';
+import { AlertTriangle, CheckCircle, Clock } from 'lucide-react';
+import { findRoutineClashes, CLASH_TYPE_LABELS } from '../../../utils/routineClashes';
+import type { Routine, RoutineSlot, RoutineClashType } from '../../../types/routine';
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+interface RoutineClashReportProps {
+  routines: Routine[];
+}
+
+export function RoutineClashReport({ routines }: RoutineClashReportProps) {
+  const [typeFilter, setTypeFilter] = useState<RoutineClashType | ''>('');
+
+  const activeRoutines = useMemo(() => routines.filter(routine => routine.isActive), [routines]);
+
+  const clashes = useMemo(() => {
+    return findRoutineClashes(activeRoutines).sort((a, b) =>
+      WEEKDAYS.indexOf(a.slot.dayOfWeek) - WEEKDAYS.indexOf(b.slot.dayOfWeek) ||
+      a.slot.startTime.localeCompare(b.slot.startTime)
+    );
+  }, [activeRoutines]);
+
+  const filteredClashes = typeFilter
+    ? clashes.filter(clash => clash.types.includes(typeFilter))
+    : clashes;
+
+  const renderSlot = (slot: RoutineSlot, routineName: string) => (
+    <div className="min-w-0">
+      <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+        {slot.courseName || 'Untitled class'}
+      </p>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        {[
+          slot.section && `Section ${slot.section}`,
+          slot.roomNumber && `Room ${slot.roomNumber}`,
+          slot.teacherName
+        ].filter(Boolean).join(' · ') || 'No details'}
+      </p>
+      <p className="text-xs text-gray-400 dark:text-gray-500">
+        {routineName} · {slot.startTime.slice(0, 5)}-{slot.endTime.slice(0, 5)}
+      </p>
+    </div>
+  );
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white">Schedule Clashes</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Teacher, room and section double bookings across {activeRoutines.length} active {activeRoutines.length === 1 ? 'routine' : 'routines'}
+          </p>
+        </div>
+        <select
+          value={typeFilter}
+          onChange={(e) => setTypeFilter(e.target.value as RoutineClashType | '')}
+          className="px-3 py-2 text-sm border dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+        >
+          <option value="">All clash types</option>
+          {(Object.keys(CLASH_TYPE_LABELS) as RoutineClashType[]).map(type => (
+            <option key={type} value={type}>{CLASH_TYPE_LABELS[type]}</option>
+          ))}
+        </select>
+      </div>
+
+      {filteredClashes.length === 0 ? (
+        <div className="flex items-center gap-2 p-4 rounded-lg bg-green-50 dark:bg-green-900/20 text-sm text-green-700 dark:text-green-400">
+          <CheckCircle className="w-5 h-5" />
+          No clashes found.
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {filteredClashes.map(clash => (
+            <div
+              key={`${clash.slot.id}-${clash.conflictingSlot.id}`}
+              className="p-4 bg-white dark:bg-gray-800 border border-yellow-200 dark:border-yellow-800 rounded-lg"
+            >
+              <div className="flex flex-wrap items-center gap-2 mb-3">
+                <AlertTriangle className="w-4 h-4 text-yellow-600 dark:text-yellow-400" />
+                <span className="flex items-center gap-1 text-sm text-gray-700 dark:text-gray-300">
+                  <Clock className="w-3.5 h-3.5" />
+                  {clash.slot.dayOfWeek}
+                </span>
+                {clash.types.map(type => (
+                  <span
+                    key={type}
+                    className="px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-300"
+                  >
+                    {CLASH_TYPE_LABELS[type]}
+                  </span>
+                ))}
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                {renderSlot(clash.slot, clash.routineName)}
+                {renderSlot(clash.conflictingSlot, clash.conflictingRoutineName)}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,359 @@
+import { useMemo, useState } from 'react';
+import { Copy, ChevronLeft, ChevronRight, Loader2, CheckCircle, Users, MapPin, User } from 'lucide-react';
+import type { Routine, RoutineCloneOptions } from '../../../types/routine';
+import type { Teacher } from '../../../types/teacher';
+
+interface RoutineCloneWizardProps {
+  routines: Routine[];
+  teachers: Teacher[];
+  semesters: string[];
+  initialRoutineId?: string;
+  onClone: (sourceRoutineId: string, options: RoutineCloneOptions) => Promise<Routine>;
+  onDone: (routine: Routine) => void;
+}
+
+type WizardStep = 'details' | 'remap' | 'review';
+
+const STEPS: { id: WizardStep; label: string }[] = [
+  { id: 'details', label: 'New routine' },
+  { id: 'remap', label: 'Remap' },
+  { id: 'review', label: 'Review' }
+];
+
+// Teacher select value that clears the teacher on the copied slots
+const NO_TEACHER = '__none__';
+
+const inputClass = 'w-full px-3 py-2 border dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm';
+const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+function uniqueValues(values: (string | undefined)[]) {
+  return [...new Set(values.filter((value): value is string => !!value))].sort();
+}
+
+export function RoutineCloneWizard({
+  routines,
+  teachers,
+  semesters,
+  initialRoutineId,
+  onClone,
+  onDone
+}: RoutineCloneWizardProps) {
+  const [step, setStep] = useState<WizardStep>('details');
+  const [sourceId, setSourceId] = useState(
+    initialRoutineId || routines.find(routine => routine.isActive)?.id || routines[0]?.id || ''
+  );
+  const source = routines.find(routine => routine.id === sourceId);
+
+  const [name, setName] = useState(source?.name || '');
+  const [semester, setSemester] = useState('');
+  const [description, setDescription] = useState(source?.description || '');
+  const [teacherMap, setTeacherMap] = useState<Record<string, string>>({});
+  const [roomMap, setRoomMap] = useState<Record<string, string>>({});
+  const [sectionMap, setSectionMap] = useState<Record<string, string>>({});
+  const [activate, setActivate] = useState(!!source?.isActive);
+  const [isCloning, setIsCloning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const slots = useMemo(() => source?.slots || [], [source]);
+  const teacherNames = useMemo(() => new Map(teachers.map(teacher => [teacher.id, teacher.name])), [teachers]);
+  const usedTeacherIds = useMemo(() => uniqueValues(slots.map(slot => slot.teacherId)), [slots]);
+  const usedRooms = useMemo(() => uniqueValues(slots.map(slot => slot.roomNumber)), [slots]);
+  const usedSections = useMemo(() => uniqueValues(slots.map(slot => slot.section)), [slots]);
+
+  const remappedCount =
+    Object.values(teacherMap).filter(Boolean).length +
+    Object.values(roomMap).filter(value => value.trim()).length +
+    Object.values(sectionMap).filter(value => value.trim()).length;
+
+  const handleSourceChange = (routineId: string) => {
+    const routine = routines.find(r => r.id === routineId);
+    setSourceId(routineId);
+    setName(routine?.name || '');
+    setDescription(routine?.description || '');
+    setActivate(!!routine?.isActive);
+    setTeacherMap({});
+    setRoomMap({});
+    setSectionMap({});
+  };
+
+  const goToRemap = () => {
+    if (!source) {
+      setError('Select a routine to copy');
+      return;
+    }
+    if (!name.trim() || !semester.trim()) {
+      setError('Enter a name and semester for the new routine');
+      return;
+    }
+    setError(null);
+    setStep('remap');
+  };
+
+  const handleClone = async () => {
+    if (!source) return;
+
+    setIsCloning(true);
+    setError(null);
+    try {
+      const trimmedEntries = (map: Record<string, string>) =>
+        Object.fromEntries(Object.entries(map).map(([from, to]) => [from, to.trim()]).filter(([, to]) => to));
+
+      const routine = await onClone(source.id, {
+        name: name.trim(),
+        semester: semester.trim(),
+        description: description.trim() || undefined,
+        teacherMap: Object.fromEntries(
+          Object.entries(teacherMap)
+            .filter(([, to]) => to)
+            .map(([from, to]) => [from, to === NO_TEACHER ? null : to])
+        ),
+        roomMap: trimmedEntries(roomMap),
+        sectionMap: trimmedEntries(sectionMap),
+        activate
+      });
+      onDone(routine);
+    } catch (err: any) {
+      setError(err.message || 'Failed to clone routine');
+    } finally {
+      setIsCloning(false);
+    }
+  };
+
+  if (routines.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-8">
+        Create a routine first, then copy it into later semesters here.
+      </p>
+    );
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-6">
+      <div>
+        <h3 className="text-lg font-medium text-gray-900 dark:text-white flex items-center gap-2">
+          <Copy className="w-5 h-5 text-blue-500" />
+          Clone Routine
+        </h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Start a new semester from an existing routine instead of importing every slot again.
+        </p>
+      </div>
+
+      <ol className="flex items-center gap-2 text-sm">
+        {STEPS.map((item, index) => (
+          <li key={item.id} className="flex items-center gap-2">
+            {index > 0 && <ChevronRight className="w-4 h-4 text-gray-300 dark:text-gray-600" />}
+            <span className={
+              step === item.id
+                ? 'font-medium text-blue-600 dark:text-blue-400'
+                : 'text-gray-500 dark:text-gray-400'
+            }>
+              {index + 1}. {item.label}
+            </span>
+          </li>
+        ))}
+      </ol>
+
+      {step === 'details' && (
+        <div className="space-y-4">
+          <div>
+            <label className={labelClass}>Copy from</label>
+            <select value={sourceId} onChange={(e) => handleSourceChange(e.target.value)} className={inputClass}>
+              {routines.map(routine => (
+                <option key={routine.id} value={routine.id}>
+                  {routine.name} - {routine.semester} ({routine.slots?.length || 0} slots){routine.isActive ? ' (Active)' : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>New name<span className="text-red-500">*</span></label>
+              <input type="text" value={name} onChange={(e) => setName(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>New semester<span className="text-red-500">*</span></label>
+              <input
+                type="text"
+                list="clone-routine-semesters"
+                value={semester}
+                onChange={(e) => setSemester(e.target.value)}
+                placeholder="e.g., Fall 2025"
+                className={inputClass}
+              />
+              <datalist id="clone-routine-semesters">
+                {semesters.map(option => <option key={option} value={option} />)}
+              </datalist>
+            </div>
+          </div>
+
+          {source && semester.trim() === source.semester && (
+            <p className="text-xs text-amber-600 dark:text-amber-400">
+              The copy will be in the same semester as {source.name}.
+            </p>
+          )}
+
+          <div>
+            <label className={labelClass}>Description</label>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+              className={inputClass}
+            />
+          </div>
+        </div>
+      )}
+
+      {step === 'remap' && (
+        <div className="space-y-6">
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Change anything that differs next semester. Leave a field empty to keep the current value.
+          </p>
+
+          {usedTeacherIds.length > 0 && (
+            <div>
+              <h4 className="flex items-center gap-2 text-sm font-medium text-gray-900 dark:text-white mb-2">
+                <User className="w-4 h-4 text-gray-400" />
+                Teachers
+              </h4>
+              <div className="space-y-2">
+                {usedTeacherIds.map(teacherId => (
+                  <div key={teacherId} className="grid grid-cols-2 gap-3 items-center">
+                    <span className="text-sm text-gray-700 dark:text-gray-300 truncate">
+                      {teacherNames.get(teacherId) || 'Unknown teacher'}
+                    </span>
+                    <select
+                      value={teacherMap[teacherId] || ''}
+                      onChange={(e) => setTeacherMap(prev => ({ ...prev, [teacherId]: e.target.value }))}
+                      className={inputClass}
+                    >
+                      <option value="">Keep</option>
+                      <option value={NO_TEACHER}>No teacher</option>
+                      {teachers.filter(teacher => teacher.id !== teacherId).map(teacher => (
+                        <option key={teacher.id} value={teacher.id}>{teacher.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {usedRooms.length > 0 && (
+            <div>
+              <h4 className="flex items-center gap-2 text-sm font-medium text-gray-900 dark:text-white mb-2">
+                <MapPin className="w-4 h-4 text-gray-400" />
+                Rooms
+              </h4>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {usedRooms.map(room => (
+                  <div key={room} className="grid grid-cols-2 gap-3 items-center">
+                    <span className="text-sm text-gray-700 dark:text-gray-300 truncate">{room}</span>
+                    <input
+                      type="text"
+                      value={roomMap[room] || ''}
+                      onChange={(e) => setRoomMap(prev => ({ ...prev, [room]: e.target.value }))}
+                      placeholder={room}
+                      className={inputClass}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {usedSections.length > 0 && (
+            <div>
+              <h4 className="flex items-center gap-2 text-sm font-medium text-gray-900 dark:text-white mb-2">
+                <Users className="w-4 h-4 text-gray-400" />
+                Sections
+              </h4>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {usedSections.map(section => (
+                  <div key={section} className="grid grid-cols-2 gap-3 items-center">
+                    <span className="text-sm text-gray-700 dark:text-gray-300 truncate">{section}</span>
+                    <input
+                      type="text"
+                      value={sectionMap[section] || ''}
+                      onChange={(e) => setSectionMap(prev => ({ ...prev, [section]: e.target.value }))}
+                      placeholder={section}
+                      className={inputClass}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {slots.length === 0 && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {source?.name} has no slots; only the routine details will be copied.
+            </p>
+          )}
+        </div>
+      )}
+
+      {step === 'review' && source && (
+        <div className="space-y-4">
+          <div className="p-4 bg-gray-50 dark:bg-gray-900/40 rounded-lg text-sm text-gray-700 dark:text-gray-300 space-y-1">
+            <p><span className="text-gray-500 dark:text-gray-400">From:</span> {source.name} - {source.semester}</p>
+            <p><span className="text-gray-500 dark:text-gray-400">To:</span> {name.trim()} - {semester.trim()}</p>
+            <p>{slots.length} slots will be copied{remappedCount > 0 && ` with ${remappedCount} replacement${remappedCount === 1 ? '' : 's'}`}.</p>
+          </div>
+
+          <label className="flex items-start gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={activate}
+              onChange={(e) => setActivate(e.target.checked)}
+              className="mt-0.5 w-4 h-4 rounded text-blue-600 focus:ring-blue-500"
+            />
+            <span>
+              Activate the new routine now
+              {source.isActive && ` and deactivate ${source.name}`}
+            </span>
+          </label>
+        </div>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      <div className="flex justify-between pt-2">
+        <button
+          type="button"
+          onClick={() => setStep(step === 'review' ? 'remap' : 'details')}
+          disabled={step === 'details' || isCloning}
+          className="flex items-center gap-1 px-4 py-2 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 rounded-lg font-medium text-sm transition-colors disabled:opacity-50"
+        >
+          <ChevronLeft className="w-4 h-4" />
+          Back
+        </button>
+
+        {step === 'review' ? (
+          <button
+            type="button"
+            onClick={handleClone}
+            disabled={isCloning}
+            className="flex items-center gap-2 px-5 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium text-sm transition-colors disabled:opacity-50"
+          >
+            {isCloning ? <Loader2 className="w-4 h-4 animate-spin" /> : <CheckCircle className="w-4 h-4" />}
+            Clone routine
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={step === 'details' ? goToRemap : () => setStep('review')}
+            className="flex items-center gap-1 px-5 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium text-sm transition-colors"
+          >
+            Next
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -13,10 +13,12 @@ import { Search, Trash2, Edit2, Plus, Clock, MapPin, Filter, Download, Printer,
   MoreHorizontal,
   Calendar,
   ListFilter,
-  Grid as GridIcon
+  Grid as GridIcon,
+  History
 } from 'lucide-react';
 import { RoutineSlotModal } from './RoutineSlotModal';
-import type { Routine, RoutineSlot } from '../../../types/routine';
+import { RoutineVersionHistory } from './RoutineVersionHistory';
+import type { Routine, RoutineSlot, RoutineSlotSaveOptions } from '../../../types/routine';
 import type { Course } from '../../../types/course';
 import type { Teacher } from '../../../types/teacher';
 
@@ -25,21 +27,24 @@ type GroupedRoutines = [string, Routine[]][];
 
 interface RoutineListProps {
   routines: Routine[];
+  allRoutines?: Routine[]; // every routine, for comparing across semesters
   courses: Course[];
   teachers: Teacher[];
   selectedRoutine: Routine | null;
   onSelectRoutine: (routine: Routine | null) => void;
   onUpdateRoutine: (id: string, updates: Partial<Routine>) => Promise<void>;
   onDeleteRoutine: (id: string) => Promise<void>;
-  onAddSlot: (routineId: string, slot: Omit<RoutineSlot, 'id' | 'routineId' | 'createdAt'>) => Promise<RoutineSlot>;
-  onUpdateSlot: (routineId: string, slotId: string, updates: Partial<RoutineSlot>) => Promise<void>;
+  onAddSlot: (routineId: string, slot: Omit<RoutineSlot, 'id' | 'routineId' | 'createdAt'>, options?: RoutineSlotSaveOptions) => Promise<RoutineSlot>;
+  onUpdateSlot: (routineId: string, slotId: string, updates: Partial<RoutineSlot>, options?: RoutineSlotSaveOptions) => Promise<void>;
   onDeleteSlot: (routineId: string, slotId: string) => Promise<void>;
   onActivateRoutine: (routineId: string) => Promise<void>;
   onDeactivateRoutine: (routineId: string) => Promise<void>;
+  onRevertRoutine?: (versionId: string) => Promise<number>;
 }
 
 export function RoutineList({
   routines,
+  allRoutines = routines,
   courses,
   teachers,
   selectedRoutine,
@@ -50,7 +55,8 @@ export function RoutineList({
   onUpdateSlot,
   onDeleteSlot,
   onActivateRoutine,
-  onDeactivateRoutine
+  onDeactivateRoutine,
+  onRevertRoutine
 }: RoutineListProps) {
   const [searchTerm, setSearchTerm] = useState('');
   const [showSlotModal, setShowSlotModal] = useState(false);
@@ -60,6 +66,7 @@ export function RoutineList({
   const [viewMode, setViewMode] = useState<ViewMode>('list');
   const [expandedRoutineId, setExpandedRoutineId] = useState<string | null>(null);
   const [groupBy, setGroupBy] = useState<'none' | 'semester'>('none');
+  const [historyRoutineId, setHistoryRoutineId] = useState<string | null>(null);
 
   const filteredRoutines = routines.filter(routine => {
     return (
@@ -124,6 +131,8 @@ export function RoutineList({
     setExpandedRoutineId(expandedRoutineId === routineId ? null : routineId);
   };
 
+  const historyRoutine = historyRoutineId ? allRoutines.find(routine => routine.id === historyRoutineId) : undefined;
+
   return (
     <>
       <div className="space-y-6">
@@ -302,6 +311,13 @@ export function RoutineList({
                                   <Power className="w-4 h-4" />
                                 </button>
                               )}
+                              <button
+                                onClick={() => setHistoryRoutineId(routine.id)}
+                                className="p-1.5 text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                                title="History and compare"
+                              >
+                                <History className="w-4 h-4" />
+                              </button>
                               <button
                                 onClick={() => handleDeleteRoutine(routine.id)}
                                 className="p-1.5 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
@@ -411,6 +427,16 @@ export function RoutineList({
                                     <Power className="w-4 h-4" />
                                   </button>
                                 )}
+                                <button
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    setHistoryRoutineId(routine.id);
+                                  }}
+                                  className="text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-200"
+                                  title="History and compare"
+                                >
+                                  <History className="w-4 h-4" />
+                                </button>
                                 <button
                                   onClick={(e) => {
                                     e.stopPropagation();
@@ -490,6 +516,13 @@ export function RoutineList({
                       >
                         <Edit2 className="w-4 h-4" />
                       </button>
+                      <button
+                        onClick={() => setHistoryRoutineId(routine.id)}
+                        className="p-2 text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                        title="History and compare"
+                      >
+                        <History className="w-4 h-4" />
+                      </button>
                       <button
                                 onClick={() => handleDeleteRoutine(routine.id)}
                         className="p-2 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
@@ -634,6 +667,17 @@ export function RoutineList({
           onSubmit={selectedSlot ? onUpdateSlot : onAddSlot}
         />
       )}
+
+      {historyRoutine && onRevertRoutine && (
+        <RoutineVersionHistory
+          routine={historyRoutine}
+          routines={allRoutines}
+          courses={courses}
+          teachers={teachers}
+          onRevert={onRevertRoutine}
+          onClose={() => setHistoryRoutineId(null)}
+        />
+      )}
     </>
   );
 }
\ No newline at end of file
@@ -2,13 +2,15 @@ import { useState } from 'react';
 import { RoutineForm } from './RoutineForm';
 import { RoutineList } from './RoutineList';
 import { BulkSlotImport } from './BulkSlotImport';
-import { Calendar, Plus, Download, Upload, List, Grid, Settings, FileText, Filter } from 'lucide-react';
-import type { Routine, RoutineSlot } from '../../../types/routine';
+import { RoutineClashReport } from './RoutineClashReport';
+import { RoutineCloneWizard } from './RoutineCloneWizard';
+import { Calendar, Plus, Download, Upload, List, Grid, Settings, FileText, Filter, AlertTriangle, Copy } from 'lucide-react';
+import type { Routine, RoutineSlot, RoutineSlotSaveOptions, RoutineCloneOptions } from '../../../types/routine';
 import type { Course } from '../../../types/course';
 import type { Teacher } from '../../../types/teacher';
 
 // Define tab types for better organization
-type RoutineTab = 'list' | 'create' | 'import' | 'export' | 'settings';
+type RoutineTab = 'list' | 'create' | 'clone' | 'import' | 'export' | 'clashes' | 'settings';
 
 interface RoutineManagerProps {
   routines: Routine[];
@@ -17,12 +19,14 @@ interface RoutineManagerProps {
   onCreateRoutine: (routine: Omit<Routine, 'id' | 'createdAt'>) => Promise<Routine>;
   onUpdateRoutine: (id: string, updates: Partial<Routine>) => Promise<void>;
   onDeleteRoutine: (id: string) => Promise<void>;
-  onAddSlot: (routineId: string, slot: Omit<RoutineSlot, 'id' | 'routineId' | 'createdAt'>) => Promise<RoutineSlot>;
-  onUpdateSlot: (routineId: string, slotId: string, updates: Partial<RoutineSlot>) => Promise<void>;
+  onAddSlot: (routineId: string, slot: Omit<RoutineSlot, 'id' | 'routineId' | 'createdAt'>, options?: RoutineSlotSaveOptions) => Promise<RoutineSlot>;
+  onUpdateSlot: (routineId: string, slotId: string, updates: Partial<RoutineSlot>, options?: RoutineSlotSaveOptions) => Promise<void>;
   onDeleteSlot: (routineId: string, slotId: string) => Promise<void>;
   onActivateRoutine: (routineId: string) => Promise<void>;
   onDeactivateRoutine: (routineId: string) => Promise<void>;
   onBulkImportSlots?: (routineId: string, slots: any[]) => Promise<{ success: number; errors: any[] }>;
+  onRevertRoutine?: (versionId: string) => Promise<number>;
+  onCloneRoutine?: (sourceRoutineId: string, options: RoutineCloneOptions) => Promise<Routine>;
 }
 
 export function RoutineManager({
@@ -37,7 +41,9 @@ export function RoutineManager({
   onDeleteSlot,
   onActivateRoutine,
   onDeactivateRoutine,
-  onBulkImportSlots
+  onBulkImportSlots,
+  onRevertRoutine,
+  onCloneRoutine
 }: RoutineManagerProps) {
   const [selectedRoutine, setSelectedRoutine] = useState<Routine | null>(null);
   const [activeTab, setActiveTab] = useState<RoutineTab>('list');
@@ -138,6 +144,20 @@ export function RoutineManager({
             <Plus className="w-4 h-4" />
             Create New
           </button>
+
+          {onCloneRoutine && (
+            <button
+              onClick={() => setActiveTab('clone')}
+              className={`flex items-center gap-2 px-4 py-3 text-sm font-medium transition-colors ${
+                activeTab === 'clone'
+                  ? 'border-b-2 border-blue-500 text-blue-600 dark:text-blue-400'
+                  : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200'
+              }`}
+            >
+              <Copy className="w-4 h-4" />
+              Clone
+            </button>
+          )}
           
           <button
             onClick={() => setActiveTab('import')}
@@ -169,6 +189,18 @@ export function RoutineManager({
             Export
           </button>
           
+          <button
+            onClick={() => setActiveTab('clashes')}
+            className={`flex items-center gap-2 px-4 py-3 text-sm font-medium transition-colors ${
+              activeTab === 'clashes'
+                ? 'border-b-2 border-blue-500 text-blue-600 dark:text-blue-400'
+                : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200'
+            }`}
+          >
+            <AlertTriangle className="w-4 h-4" />
+            Clashes
+          </button>
+          
           <button
             onClick={() => setActiveTab('settings')}
             className={`flex items-center gap-2 px-4 py-3 text-sm font-medium transition-colors ${
@@ -187,6 +219,7 @@ export function RoutineManager({
           {activeTab === 'list' && (
             <RoutineList 
               routines={filteredRoutines}
+              allRoutines={routines}
               courses={courses}
               teachers={teachers}
               selectedRoutine={selectedRoutine}
@@ -198,6 +231,7 @@ export function RoutineManager({
               onDeleteSlot={onDeleteSlot}
               onActivateRoutine={onActivateRoutine}
               onDeactivateRoutine={onDeactivateRoutine}
+              onRevertRoutine={onRevertRoutine}
             />
           )}
           
@@ -208,6 +242,20 @@ export function RoutineManager({
             </div>
           )}
           
+          {activeTab === 'clone' && onCloneRoutine && (
+            <RoutineCloneWizard
+              routines={routines}
+              teachers={teachers}
+              semesters={semesters}
+              initialRoutineId={selectedRoutine?.id}
+              onClone={onCloneRoutine}
+              onDone={(routine) => {
+                setSelectedRoutine(routine);
+                setActiveTab('list');
+              }}
+            />
+          )}
+          
           {activeTab === 'import' && selectedRoutine && onBulkImportSlots && (
             <div>
               <div className="mb-4">
@@ -268,6 +316,10 @@ export function RoutineManager({
             </div>
           )}
           
+          {activeTab === 'clashes' && (
+            <RoutineClashReport routines={routines} />
+          )}
+          
           {activeTab === 'settings' && (
             <div>
               <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">Routine Settings</h3>
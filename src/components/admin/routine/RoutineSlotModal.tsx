@@ -1,9 +1,11 @@
-import { useState, useEffect, useRef } from 'react';
-import { X, Clock, BookOpen, User, MapPin, Users, AlertCircle, Check, Info, Send, Plus } from 'lucide-react';
-import type { RoutineSlot } from '../../../types/routine';
+import { useState, useEffect, useRef, useMemo } from 'react';
+import { X, Clock, BookOpen, User, MapPin, Users, AlertCircle, AlertTriangle, Check, Info, Send, Plus } from 'lucide-react';
+import type { RoutineSlot, RoutineClash, RoutineSlotSaveOptions } from '../../../types/routine';
 import type { Course } from '../../../types/course';
 import type { Teacher } from '../../../types/teacher';
 import { supabase } from '../../../lib/supabase';
+import { findRoutineSlotClashes } from '../../../services/routine.service';
+import { describeClash } from '../../../utils/routineClashes';
 
 interface RoutineSlotModalProps {
   routineId: string;
@@ -11,8 +13,8 @@ interface RoutineSlotModalProps {
   courses: Course[];
   teachers: Teacher[];
   onClose: () => void;
-  onSubmit: ((routineId: string, slot: Omit<RoutineSlot, 'id' | 'routineId' | 'createdAt'>) => Promise<RoutineSlot>) | 
-            ((routineId: string, slotId: string, updates: Partial<RoutineSlot>) => Promise<void>);
+  onSubmit: ((routineId: string, slot: Omit<RoutineSlot, 'id' | 'routineId' | 'createdAt'>, options?: RoutineSlotSaveOptions) => Promise<RoutineSlot>) | 
+            ((routineId: string, slotId: string, updates: Partial<RoutineSlot>, options?: RoutineSlotSaveOptions) => Promise<void>);
 }
 
 interface ValidationError {
@@ -61,6 +63,66 @@ export function RoutineSlotModal({
   });
   const [courseCodeInput, setCourseCodeInput] = useState('');
   const [addingCourse, setAddingCourse] = useState(false);
+  const [clashes, setClashes] = useState<RoutineClash[]>([]);
+  const [checkingClashes, setCheckingClashes] = useState(false);
+  const [allowClashes, setAllowClashes] = useState(false);
+
+  // Only the fields that can clash, so typing elsewhere in the form doesn't re-run the check
+  const clashInput = useMemo(() => ({
+    dayOfWeek: formData.dayOfWeek,
+    startTime: formData.startTime,
+    endTime: formData.endTime,
+    teacherId: formData.teacherId,
+    teacherName: formData.teacherName,
+    roomNumber: formData.roomNumber,
+    section: formData.section,
+    courseName: formData.courseName
+  }), [
+    formData.dayOfWeek,
+    formData.startTime,
+    formData.endTime,
+    formData.teacherId,
+    formData.teacherName,
+    formData.roomNumber,
+    formData.section,
+    formData.courseName
+  ]);
+
+  // Check other active routines for teacher, room and section clashes as the form changes
+  useEffect(() => {
+    if (!clashInput.dayOfWeek || !clashInput.startTime || !clashInput.endTime || clashInput.startTime >= clashInput.endTime) {
+      setClashes([]);
+      setCheckingClashes(false);
+      return;
+    }
+
+    let cancelled = false;
+    setCheckingClashes(true);
+    const timer = setTimeout(() => {
+      findRoutineSlotClashes(routineId, clashInput, slot?.id)
+        .then(result => {
+          if (!cancelled) setClashes(result);
+        })
+        .catch(() => {
+          // Offline or transient failure; the server check on save still applies
+          if (!cancelled) setClashes([]);
+        })
+        .finally(() => {
+          if (!cancelled) setCheckingClashes(false);
+        });
+    }, 400);
+
+    // The next run sets it again if it checks; an early return must not leave it stuck
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      setCheckingClashes(false);
+    };
+  }, [routineId, slot?.id, clashInput]);
+
+  useEffect(() => {
+    setAllowClashes(false);
+  }, [clashes]);
 
   // Filter teachers based on the selected course
   useEffect(() => {
@@ -266,16 +328,16 @@ export function RoutineSlotModal({
       
       if (slot) {
         // Edit existing slot - need to use the 3-parameter version
-        const updateFn = onSubmit as (routineId: string, slotId: string, updates: Partial<RoutineSlot>) => Promise<void>;
-        await updateFn(routineId, slot.id, submissionData);
+        const updateFn = onSubmit as (routineId: string, slotId: string, updates: Partial<RoutineSlot>, options?: RoutineSlotSaveOptions) => Promise<void>;
+        await updateFn(routineId, slot.id, submissionData, { allowClashes });
         setStatusMessage({
           type: 'success', 
           message: 'Time slot updated successfully!'
         });
       } else {
         // Create new slot - need to use the 2-parameter version
-        const createFn = onSubmit as (routineId: string, slot: Omit<RoutineSlot, 'id' | 'routineId' | 'createdAt'>) => Promise<RoutineSlot>;
-        await createFn(routineId, submissionData);
+        const createFn = onSubmit as (routineId: string, slot: Omit<RoutineSlot, 'id' | 'routineId' | 'createdAt'>, options?: RoutineSlotSaveOptions) => Promise<RoutineSlot>;
+        await createFn(routineId, submissionData, { allowClashes });
         setStatusMessage({
           type: 'success', 
           message: 'Time slot created successfully!'
@@ -664,6 +726,30 @@ export function RoutineSlotModal({
                 </div>
               </div>
 
+              {/* Schedule clashes */}
+              {clashes.length > 0 && (
+                <div className="p-3 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-300 text-sm">
+                  <div className="flex items-center gap-2 font-medium mb-1">
+                    <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                    {clashes.length} schedule {clashes.length === 1 ? 'clash' : 'clashes'}
+                  </div>
+                  <ul className="list-disc pl-6 space-y-1">
+                    {clashes.map(clash => (
+                      <li key={clash.conflictingSlot.id}>{describeClash(clash)}</li>
+                    ))}
+                  </ul>
+                  <label className="flex items-center gap-2 mt-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={allowClashes}
+                      onChange={(e) => setAllowClashes(e.target.checked)}
+                      className="w-4 h-4 rounded text-yellow-600 focus:ring-yellow-500"
+                    />
+                    Save anyway (e.g. a combined class)
+                  </label>
+                </div>
+              )}
+
               {/* Action Buttons */}
               <div className="flex justify-end items-center gap-3 pt-2">
                 <button
@@ -677,7 +763,7 @@ export function RoutineSlotModal({
                 <button
                   type="submit"
                   className="flex items-center justify-center gap-2 px-5 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                  disabled={isSubmitting}
+                  disabled={isSubmitting || checkingClashes || (clashes.length > 0 && !allowClashes)}
                 >
                   {isSubmitting ? (
                     <>
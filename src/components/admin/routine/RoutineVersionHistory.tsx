@@ -0,0 +1,280 @@
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { X, History, RotateCcw, Loader2, Plus, Minus, ArrowRight } from 'lucide-react';
+import { useRoutineVersions } from '../../../hooks/useRoutineVersions';
+import { diffRoutineSnapshots, snapshotFromRoutine, isEmptyDiff } from '../../../utils/routineDiff';
+import type { Routine, RoutineSlot, RoutineSnapshot } from '../../../types/routine';
+import type { Course } from '../../../types/course';
+import type { Teacher } from '../../../types/teacher';
+
+interface RoutineVersionHistoryProps {
+  routine: Routine;
+  routines: Routine[];
+  courses: Course[];
+  teachers: Teacher[];
+  onRevert: (versionId: string) => Promise<number>;
+  onClose: () => void;
+}
+
+// Comparison sources are keyed as 'current', 'version:<id>' or 'routine:<id>'
+const CURRENT = 'current';
+
+export function RoutineVersionHistory({
+  routine,
+  routines,
+  courses,
+  teachers,
+  onRevert,
+  onClose
+}: RoutineVersionHistoryProps) {
+  const { versions, loading, error } = useRoutineVersions(routine.id);
+  const [compareFrom, setCompareFrom] = useState('');
+  const [compareTo, setCompareTo] = useState(CURRENT);
+  const [revertingId, setRevertingId] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const courseMap = useMemo(() => new Map(courses.map(course => [course.id, course])), [courses]);
+  const teacherMap = useMemo(() => new Map(teachers.map(teacher => [teacher.id, teacher.name])), [teachers]);
+
+  // Compare the previous version with the current routine until the admin picks something else
+  const fromKey = compareFrom || (versions[1] ? `version:${versions[1].id}` : CURRENT);
+
+  const resolveSnapshot = (key: string): RoutineSnapshot | undefined => {
+    if (key === CURRENT) return snapshotFromRoutine(routine);
+
+    const [kind, id] = key.split(':');
+    if (kind === 'version') return versions.find(version => version.id === id)?.snapshot;
+
+    const other = routines.find(r => r.id === id);
+    return other ? snapshotFromRoutine(other) : undefined;
+  };
+
+  const fromSnapshot = resolveSnapshot(fromKey);
+  const toSnapshot = resolveSnapshot(compareTo);
+  const diff = fromSnapshot && toSnapshot ? diffRoutineSnapshots(fromSnapshot, toSnapshot) : null;
+
+  const describeSlot = (slot: RoutineSlot) => {
+    const course = slot.courseId ? courseMap.get(slot.courseId) : undefined;
+    const teacherName = slot.teacherId ? teacherMap.get(slot.teacherId) : undefined;
+
+    return [
+      course ? course.code || course.name : slot.courseName || 'No course',
+      `${slot.dayOfWeek} ${slot.startTime.slice(0, 5)}-${slot.endTime.slice(0, 5)}`,
+      slot.roomNumber && `Room ${slot.roomNumber}`,
+      slot.section && `Section ${slot.section}`,
+      teacherName
+    ].filter(Boolean).join(' · ');
+  };
+
+  const handleRevert = async (versionId: string, versionNumber: number) => {
+    if (!window.confirm(`Revert "${routine.name}" to version ${versionNumber}? The current routine stays in the history.`)) {
+      return;
+    }
+
+    setRevertingId(versionId);
+    setMessage(null);
+    try {
+      const newVersion = await onRevert(versionId);
+      setMessage(`Restored version ${versionNumber} as version ${newVersion}`);
+      setCompareFrom('');
+      setCompareTo(CURRENT);
+    } catch (err: any) {
+      setMessage(err.message || 'Failed to revert routine');
+    } finally {
+      setRevertingId(null);
+    }
+  };
+
+  const renderSourceOptions = () => (
+    <>
+      <option value={CURRENT}>Current routine</option>
+      <optgroup label="Versions">
+        {versions.map(version => (
+          <option key={version.id} value={`version:${version.id}`}>
+            Version {version.versionNumber} ({format(new Date(version.updatedAt), 'MMM d, h:mm a')})
+          </option>
+        ))}
+      </optgroup>
+      <optgroup label="Other routines">
+        {routines.filter(r => r.id !== routine.id).map(r => (
+          <option key={r.id} value={`routine:${r.id}`}>
+            {r.name} - {r.semester}
+          </option>
+        ))}
+      </optgroup>
+    </>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div
+        className="bg-white dark:bg-gray-800 w-full max-w-4xl max-h-[90vh] rounded-xl shadow-xl flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b dark:border-gray-700">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+            <History className="w-5 h-5 mr-2 text-blue-500" />
+            History of {routine.name}
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full transition-colors"
+            aria-label="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto grid grid-cols-1 md:grid-cols-[260px_1fr] divide-y md:divide-y-0 md:divide-x dark:divide-gray-700">
+          <div className="p-4 space-y-2">
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="w-6 h-6 animate-spin text-blue-500" />
+              </div>
+            ) : error ? (
+              <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+            ) : versions.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No changes recorded yet.</p>
+            ) : (
+              versions.map((version, index) => (
+                <div
+                  key={version.id}
+                  className={`p-3 rounded-lg border ${
+                    fromKey === `version:${version.id}` || compareTo === `version:${version.id}`
+                      ? 'border-blue-300 bg-blue-50 dark:border-blue-700 dark:bg-blue-900/20'
+                      : 'border-gray-200 dark:border-gray-700'
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <button
+                      onClick={() => {
+                        setCompareFrom(`version:${version.id}`);
+                        setCompareTo(CURRENT);
+                      }}
+                      className="text-sm font-medium text-gray-900 dark:text-white hover:text-blue-600 dark:hover:text-blue-400 text-left"
+                      title="Compare with the current routine"
+                    >
+                      Version {version.versionNumber}
+                      {index === 0 && <span className="ml-1 text-xs font-normal text-green-600 dark:text-green-400">(latest)</span>}
+                    </button>
+                    {index > 0 && (
+                      <button
+                        onClick={() => handleRevert(version.id, version.versionNumber)}
+                        disabled={revertingId !== null}
+                        className="flex items-center gap-1 text-xs text-gray-500 hover:text-blue-600 dark:text-gray-400 dark:hover:text-blue-400 disabled:opacity-50"
+                        title="Revert to this version"
+                      >
+                        {revertingId === version.id
+                          ? <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                          : <RotateCcw className="w-3.5 h-3.5" />}
+                        Revert
+                      </button>
+                    )}
+                  </div>
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    {format(new Date(version.updatedAt), 'MMM d, yyyy h:mm a')}
+                    {version.changedByName && ` · ${version.changedByName}`}
+                  </p>
+                  <p className="text-xs text-gray-400 dark:text-gray-500">
+                    {version.revertedFrom
+                      ? `Restored version ${version.revertedFrom}`
+                      : version.changeCount === 0
+                        ? 'Starting point'
+                        : `${version.changeCount} change${version.changeCount === 1 ? '' : 's'} · ${version.snapshot.slots.length} slots`}
+                  </p>
+                </div>
+              ))
+            )}
+          </div>
+
+          <div className="p-4 space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-[1fr_auto_1fr] items-center gap-2">
+              <select
+                value={fromKey}
+                onChange={(e) => setCompareFrom(e.target.value)}
+                className="w-full px-3 py-2 border dark:border-gray-600 rounded-lg text-sm dark:bg-gray-700 dark:text-white"
+                aria-label="Compare from"
+              >
+                {renderSourceOptions()}
+              </select>
+              <ArrowRight className="w-4 h-4 text-gray-400 mx-auto rotate-90 sm:rotate-0" />
+              <select
+                value={compareTo}
+                onChange={(e) => setCompareTo(e.target.value)}
+                className="w-full px-3 py-2 border dark:border-gray-600 rounded-lg text-sm dark:bg-gray-700 dark:text-white"
+                aria-label="Compare to"
+              >
+                {renderSourceOptions()}
+              </select>
+            </div>
+
+            {message && (
+              <p className="text-sm text-blue-700 dark:text-blue-300 bg-blue-50 dark:bg-blue-900/20 p-2 rounded-lg">{message}</p>
+            )}
+
+            {!diff ? null : isEmptyDiff(diff) ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400 py-6 text-center">No differences.</p>
+            ) : (
+              <div className="space-y-4">
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {diff.added.length} added · {diff.removed.length} removed · {diff.moved.length} moved · {diff.unchanged} unchanged
+                </p>
+
+                {diff.detailChanges.length > 0 && (
+                  <ul className="text-sm text-gray-700 dark:text-gray-300 list-disc ml-5 space-y-0.5">
+                    {diff.detailChanges.map(change => <li key={change}>{change}</li>)}
+                  </ul>
+                )}
+
+                {diff.added.length > 0 && (
+                  <div>
+                    <h4 className="text-sm font-medium text-green-700 dark:text-green-400 mb-1">Added</h4>
+                    <ul className="space-y-1">
+                      {diff.added.map(slot => (
+                        <li key={slot.id} className="flex items-start gap-2 text-sm text-gray-700 dark:text-gray-300 bg-green-50 dark:bg-green-900/20 px-2 py-1 rounded">
+                          <Plus className="w-4 h-4 mt-0.5 text-green-600 shrink-0" />
+                          {describeSlot(slot)}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {diff.removed.length > 0 && (
+                  <div>
+                    <h4 className="text-sm font-medium text-red-700 dark:text-red-400 mb-1">Removed</h4>
+                    <ul className="space-y-1">
+                      {diff.removed.map(slot => (
+                        <li key={slot.id} className="flex items-start gap-2 text-sm text-gray-700 dark:text-gray-300 bg-red-50 dark:bg-red-900/20 px-2 py-1 rounded">
+                          <Minus className="w-4 h-4 mt-0.5 text-red-600 shrink-0" />
+                          {describeSlot(slot)}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {diff.moved.length > 0 && (
+                  <div>
+                    <h4 className="text-sm font-medium text-amber-700 dark:text-amber-400 mb-1">Moved or changed</h4>
+                    <ul className="space-y-1">
+                      {diff.moved.map(({ before, after }) => (
+                        <li key={`${before.id}-${after.id}`} className="text-sm text-gray-700 dark:text-gray-300 bg-amber-50 dark:bg-amber-900/20 px-2 py-1 rounded">
+                          <span className="line-through text-gray-400 dark:text-gray-500">{describeSlot(before)}</span>
+                          <span className="flex items-start gap-2">
+                            <ArrowRight className="w-4 h-4 mt-0.5 text-amber-600 shrink-0" />
+                            {describeSlot(after)}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
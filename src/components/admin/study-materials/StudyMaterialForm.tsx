@@ -7,7 +7,7 @@ import {
   X,
   Folder
 } from 'lucide-react';
-import { supabase } from '../../../lib/supabase';
+import { uploadStudyMaterialFile } from '../../../services/course.service';
 import type { Course, NewStudyMaterial, StudyMaterialCategory } from '../../../types/course';
 
 interface StudyMaterialFormProps {
@@ -62,44 +62,9 @@ export function StudyMaterialForm({ courses, onSubmit }: StudyMaterialFormProps)
       } else {
         // Upload files first
         const uploadedUrls = await Promise.all(
-          files.map(async (file) => {
-            const fileExt = file.name.split('.').pop();
-            const fileName = `${crypto.randomUUID()}.${fileExt}`;
-            const filePath = `${fileName}`;
-
-            // Upload file directly
-            const { data, error } = await supabase.storage
-              .from('task-attachments')
-              .upload(filePath, file, {
-                cacheControl: '3600',
-                upsert: false,
-                onUploadProgress: (progress) => {
-                  setUploadProgress(prev => ({
-                    ...prev,
-                    [file.name]: (progress.loaded / progress.total) * 100
-                  }));
-                }
-              });
-
-            if (error) {
-              console.error('Upload error:', error);
-              throw new Error(`File upload error: ${error.message}`);
-            }
-
-            if (!data) {
-              throw new Error('Upload completed but no data returned');
-            }
-
-            // Get public URL
-            const { data: { publicUrl } } = supabase.storage
-              .from('task-attachments')
-              .getPublicUrl(data.path);
-
-            return {
-              url: publicUrl,
-              originalFileName: file.name
-            };
-          })
+          files.map(file => uploadStudyMaterialFile(file, (percent) => {
+            setUploadProgress(prev => ({ ...prev, [file.name]: percent }));
+          }))
         );
 
         // Submit material with file URLs and original filenames
@@ -6,17 +6,21 @@ import {
   Book, 
   Download,
   Calendar,
-  Folder
+  Folder,
+  History
 } from 'lucide-react';
+import { StudyMaterialVersionModal } from './StudyMaterialVersionModal';
 import type { StudyMaterial } from '../../../types/course';
 
 interface StudyMaterialListProps {
   materials: StudyMaterial[];
+  onUpdate: (id: string, updates: Partial<StudyMaterial>) => Promise<void>;
   onDelete: (id: string) => Promise<void>;
 }
 
-export function StudyMaterialList({ materials = [], onDelete }: StudyMaterialListProps) {
+export function StudyMaterialList({ materials = [], onUpdate, onDelete }: StudyMaterialListProps) {
   const [searchTerm, setSearchTerm] = useState('');
+  const [versioningMaterial, setVersioningMaterial] = useState<StudyMaterial | null>(null);
 
   const filteredMaterials = materials.filter(material => 
     material.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -67,6 +71,11 @@ export function StudyMaterialList({ materials = [], onDelete }: StudyMaterialLis
                     <span className="px-2.5 py-0.5 text-xs font-medium rounded-full bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300">
                       {material.category}
                     </span>
+                    {(material.versionNumber || 1) > 1 && (
+                      <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+                        v{material.versionNumber}
+                      </span>
+                    )}
                   </div>
 
                   <p className="text-gray-600 dark:text-gray-300 text-sm sm:text-base break-words">
@@ -114,6 +123,13 @@ export function StudyMaterialList({ materials = [], onDelete }: StudyMaterialLis
                       ))}
                     </div>
                   )}
+                  <button
+                    onClick={() => setVersioningMaterial(material)}
+                    className="p-2 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
+                    title="Upload new version"
+                  >
+                    <History className="w-4 h-4" />
+                  </button>
                   <button
                     onClick={() => onDelete(material.id)}
                     className="p-2 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
@@ -137,6 +153,14 @@ export function StudyMaterialList({ materials = [], onDelete }: StudyMaterialLis
           )}
         </div>
       </div>
+
+      {versioningMaterial && (
+        <StudyMaterialVersionModal
+          material={versioningMaterial}
+          onClose={() => setVersioningMaterial(null)}
+          onUpdate={onUpdate}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
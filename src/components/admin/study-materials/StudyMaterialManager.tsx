@@ -1,11 +1,14 @@
+import { useEffect } from 'react';
 import { StudyMaterialForm } from './StudyMaterialForm';
 import { StudyMaterialList } from './StudyMaterialList';
+import { indexPendingStudyMaterials } from '../../../services/course.service';
 import type { Course, StudyMaterial, NewStudyMaterial } from '../../../types/course';
 
 interface StudyMaterialManagerProps {
   courses: Course[];
   materials: StudyMaterial[];
   onCreateMaterial: (material: NewStudyMaterial) => Promise<void>;
+  onUpdateMaterial: (id: string, updates: Partial<StudyMaterial>) => Promise<void>;
   onDeleteMaterial: (id: string) => Promise<void>;
 }
 
@@ -13,8 +16,14 @@ export function StudyMaterialManager({
   courses,
   materials,
   onCreateMaterial,
+  onUpdateMaterial,
   onDeleteMaterial
 }: StudyMaterialManagerProps) {
+  // Make older materials searchable by their file contents
+  useEffect(() => {
+    indexPendingStudyMaterials();
+  }, []);
+
   return (
     <div>
       <StudyMaterialForm 
@@ -23,6 +32,7 @@ export function StudyMaterialManager({
       />
       <StudyMaterialList 
         materials={materials}
+        onUpdate={onUpdateMaterial}
         onDelete={onDeleteMaterial}
       />
     </div>
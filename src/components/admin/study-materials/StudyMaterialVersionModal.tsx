@@ -0,0 +1,170 @@
+import { useState } from 'react';
+import { X, Upload, FileText, History } from 'lucide-react';
+import { uploadStudyMaterialFile } from '../../../services/course.service';
+import type { StudyMaterial } from '../../../types/course';
+
+interface StudyMaterialVersionModalProps {
+  material: StudyMaterial;
+  onClose: () => void;
+  onUpdate: (id: string, updates: Partial<StudyMaterial>) => Promise<void>;
+}
+
+// Replaces a material's files; the previous files are kept as an older version
+export function StudyMaterialVersionModal({ material, onClose, onUpdate }: StudyMaterialVersionModalProps) {
+  const [files, setFiles] = useState<File[]>([]);
+  const [changeNote, setChangeNote] = useState('');
+  const [uploadProgress, setUploadProgress] = useState<Record<string, number>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files) {
+      const newFiles = Array.from(e.target.files);
+      setFiles(prev => [...prev, ...newFiles]);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (files.length === 0) {
+      setError('Choose the files for the new version');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const uploaded = await Promise.all(
+        files.map(file => uploadStudyMaterialFile(file, (percent) => {
+          setUploadProgress(prev => ({ ...prev, [file.name]: percent }));
+        }))
+      );
+
+      await onUpdate(material.id, {
+        fileUrls: uploaded.map(f => f.url),
+        originalFileNames: uploaded.map(f => f.originalFileName),
+        changeNote: changeNote.trim()
+      });
+      onClose();
+    } catch (err: any) {
+      console.error('Error uploading new version:', err);
+      setError(err.message || 'Failed to upload new version');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center z-50">
+      <div className="fixed inset-0 bg-black/50 backdrop-blur-sm" onClick={onClose} />
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl w-full max-w-lg mx-4 relative z-10 animate-fadeIn"
+      >
+        <div className="flex items-center justify-between p-6 border-b dark:border-gray-700">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-blue-50 dark:bg-blue-900/20 rounded-xl">
+              <History className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Upload New Version</h2>
+              <p className="text-sm text-gray-500 dark:text-gray-400 truncate">
+                {material.title} · currently v{material.versionNumber || 1}
+              </p>
+            </div>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-2 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 rounded-lg"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              What changed?
+            </label>
+            <textarea
+              value={changeNote}
+              onChange={(e) => setChangeNote(e.target.value)}
+              placeholder="e.g. Fixed the formula on slide 12"
+              className="w-full px-4 py-2 border dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white h-24 resize-none"
+              required
+            />
+          </div>
+
+          <div>
+            <label className="flex items-center justify-center gap-2 px-4 py-2 bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400 rounded-xl cursor-pointer hover:bg-blue-100 dark:hover:bg-blue-900/30 transition-colors">
+              <Upload className="w-5 h-5" />
+              <span>Choose Files</span>
+              <input
+                type="file"
+                multiple
+                onChange={handleFileChange}
+                className="hidden"
+                accept=".pdf,.doc,.docx,.txt,.rtf,.md,.ppt,.pptx,.xls,.xlsx"
+              />
+            </label>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              These files replace all current files of the material.
+            </p>
+
+            {files.length > 0 && (
+              <div className="mt-3 space-y-2">
+                {files.map((file, index) => (
+                  <div key={index} className="flex items-center gap-3 p-3 bg-gray-50 dark:bg-gray-700/50 rounded-xl">
+                    <FileText className="w-5 h-5 text-gray-400 shrink-0" />
+                    <div className="min-w-0 flex-grow">
+                      <p className="text-sm text-gray-700 dark:text-gray-300 truncate">{file.name}</p>
+                      {uploadProgress[file.name] !== undefined && (
+                        <div className="w-full h-1 bg-gray-200 dark:bg-gray-600 rounded-full mt-1">
+                          <div
+                            className="h-full bg-blue-500 rounded-full transition-all duration-300"
+                            style={{ width: `${uploadProgress[file.name]}%` }}
+                          />
+                        </div>
+                      )}
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => setFiles(prev => prev.filter((_, i) => i !== index))}
+                      disabled={isSubmitting}
+                      className="p-1 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {error && (
+            <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 p-6 border-t dark:border-gray-700">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-xl transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white rounded-xl transition-colors"
+          >
+            {isSubmitting ? 'Uploading...' : 'Upload Version'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
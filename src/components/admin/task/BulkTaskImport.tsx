@@ -0,0 +1,383 @@
+import { useState, useRef } from 'react';
+import { Upload, CheckCircle, XCircle, File, Loader2, ListTodo } from 'lucide-react';
+import { isValid, parseISO, startOfDay } from 'date-fns';
+import { parseCSV } from '../../../utils/csv';
+import { isTaskCategory } from '../../../utils/taskCategories';
+import { TASK_PRIORITIES } from '../../../utils/taskPriority';
+import { getKnownSections } from '../../../utils/audience';
+import type { NewTask, TaskPriority } from '../../../types/task';
+import type { Course } from '../../../types/course';
+
+interface BulkTaskImportProps {
+  courses: Course[];
+  onImportTasks: (tasks: NewTask[]) => Promise<{ success: number; errors: any[] }>;
+}
+
+type ImportTask = {
+  name?: string;
+  category?: string;
+  due_date?: string;
+  description?: string;
+  course_code?: string;
+  priority?: string;
+  estimated_hours?: string | number;
+  sections?: string | string[];
+};
+
+type PreviewRow = {
+  index: number;
+  raw: ImportTask;
+  task?: NewTask;
+  errors: string[];
+};
+
+export function BulkTaskImport({ courses, onImportTasks }: BulkTaskImportProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [rows, setRows] = useState<PreviewRow[] | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [validating, setValidating] = useState(false);
+  const [importResult, setImportResult] = useState<{ success: number; errors: any[] } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const validateRow = (raw: ImportTask, index: number): PreviewRow => {
+    const errors: string[] = [];
+    const name = String(raw.name ?? '').trim();
+    const category = String(raw.category ?? '').trim().toLowerCase();
+    const dueDate = String(raw.due_date ?? '').trim();
+    const courseCode = String(raw.course_code ?? '').trim();
+    const priority = String(raw.priority ?? '').trim().toLowerCase();
+    const hours = raw.estimated_hours === undefined || raw.estimated_hours === '' ? undefined : Number(raw.estimated_hours);
+    const rawSections = Array.isArray(raw.sections)
+      ? raw.sections.map(section => String(section).trim()).filter(Boolean)
+      : String(raw.sections ?? '').split(';').map(section => section.trim()).filter(Boolean);
+
+    if (!name) errors.push('Missing name');
+    if (!category) {
+      errors.push('Missing category');
+    } else if (!isTaskCategory(category)) {
+      errors.push(`Unknown category "${category}"`);
+    }
+
+    if (!dueDate) {
+      errors.push('Missing due date');
+    } else if (!/^\d{4}-\d{2}-\d{2}$/.test(dueDate) || !isValid(parseISO(dueDate))) {
+      errors.push(`Invalid due date "${dueDate}" (expected YYYY-MM-DD)`);
+    } else if (parseISO(dueDate) < startOfDay(new Date())) {
+      errors.push('Due date is in the past');
+    }
+
+    const course = courseCode
+      ? courses.find(c => c.code.toLowerCase() === courseCode.toLowerCase())
+      : undefined;
+    if (courseCode && !course) errors.push(`Unknown course code "${courseCode}"`);
+
+    // Audiences compare exact values, so a misspelt section would hide the task from everyone
+    const knownSections = getKnownSections(courses);
+    const sections = rawSections.map(section =>
+      knownSections.find(known => known.toLowerCase() === section.toLowerCase()) ?? section
+    );
+    if (knownSections.length > 0) {
+      sections
+        .filter(section => !knownSections.includes(section))
+        .forEach(section => errors.push(`Unknown section "${section}"`));
+    }
+
+    if (priority && !TASK_PRIORITIES.some(p => p.value === priority)) {
+      errors.push(`Unknown priority "${priority}"`);
+    }
+    if (hours !== undefined && (isNaN(hours) || hours <= 0 || hours > 999)) {
+      errors.push('Estimated hours must be between 0 and 999');
+    }
+
+    if (errors.length > 0) return { index, raw, errors };
+
+    return {
+      index,
+      raw,
+      errors,
+      task: {
+        name,
+        category: category as NewTask['category'],
+        dueDate,
+        description: String(raw.description ?? '').trim(),
+        status: 'in-progress',
+        priority: (priority || 'normal') as TaskPriority,
+        estimatedHours: hours,
+        courseId: course?.id,
+        targetSections: sections
+      }
+    };
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    setImportResult(null);
+    setFileError(null);
+    setRows(null);
+
+    const files = e.target.files;
+    if (!files || files.length === 0) {
+      setFile(null);
+      return;
+    }
+
+    const selectedFile = files[0];
+    const isJson = selectedFile.name.toLowerCase().endsWith('.json') || selectedFile.type === 'application/json';
+    const isCsv = selectedFile.name.toLowerCase().endsWith('.csv') || selectedFile.type === 'text/csv';
+
+    if (!isJson && !isCsv) {
+      setFileError('Invalid file format. Only CSV and JSON files are supported.');
+      setFile(null);
+      return;
+    }
+
+    setFile(selectedFile);
+    setValidating(true);
+
+    try {
+      const text = await selectedFile.text();
+      const data: ImportTask[] = isJson ? JSON.parse(text) : parseCSV(text);
+
+      if (!Array.isArray(data)) {
+        throw new Error('Expected an array of tasks');
+      }
+      if (data.length === 0) {
+        throw new Error('No tasks to import');
+      }
+
+      setRows(data.map((raw, index) => validateRow(raw || {}, index)));
+    } catch (err: any) {
+      setFileError(`Could not read file: ${err.message}`);
+    } finally {
+      setValidating(false);
+    }
+  };
+
+  const validRows = rows?.filter(row => row.task) || [];
+  const invalidCount = (rows?.length || 0) - validRows.length;
+
+  const handleImport = async () => {
+    if (validRows.length === 0) return;
+
+    setLoading(true);
+    try {
+      const result = await onImportTasks(validRows.map(row => row.task!));
+      setImportResult(result);
+
+      if (result.success > 0 && result.errors.length === 0) {
+        if (fileInputRef.current) {
+          fileInputRef.current.value = '';
+        }
+        setFile(null);
+        setRows(null);
+      }
+    } catch (error: any) {
+      console.error('Import failed:', error);
+      setImportResult({
+        success: 0,
+        errors: [{ message: `Import failed: ${error.message}` }]
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReset = () => {
+    setFile(null);
+    setRows(null);
+    setFileError(null);
+    setImportResult(null);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 mb-6">
+      <h3 className="text-lg font-semibold mb-4 flex items-center text-gray-900 dark:text-gray-100">
+        <Upload className="w-5 h-5 mr-2 text-blue-500" />
+        Bulk Import Tasks
+      </h3>
+
+      <div className="mb-4">
+        <div className="text-sm text-gray-600 dark:text-gray-400 mb-2">
+          Import a term schedule from a CSV or JSON file. Only <code>name</code>, <code>category</code> and <code>due_date</code> are required;
+          separate several sections with semicolons.
+        </div>
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-3 mb-4">
+          <pre className="bg-gray-100 dark:bg-gray-700 p-3 rounded-md text-xs overflow-x-auto">
+{`name,category,due_date,course_code,priority,sections
+Quiz 1,quiz,2025-07-10,CSE321,high,63_A;63_B
+Lab Final,lab-final,2025-08-02,CSE322,,`}
+          </pre>
+          <pre className="bg-gray-100 dark:bg-gray-700 p-3 rounded-md text-xs overflow-x-auto">
+{`[
+  {
+    "name": "Quiz 1",
+    "category": "quiz",
+    "due_date": "2025-07-10",
+    "description": "Chapters 1-3",
+    "course_code": "CSE321",
+    "estimated_hours": 2,
+    "sections": ["63_A"]
+  }
+]`}
+          </pre>
+        </div>
+      </div>
+
+      <div className="mb-4">
+        <div className="flex items-center">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            onChange={handleFileChange}
+            className="w-full max-w-xs text-sm text-gray-500 dark:text-gray-400 file:rounded-lg file:bg-blue-500 file:border-0 file:text-white file:px-3 file:py-2 file:mr-3 file:text-sm hover:file:bg-blue-600 cursor-pointer"
+          />
+          {(rows || fileError || importResult) && (
+            <button
+              onClick={handleReset}
+              className="ml-2 text-sm text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300"
+            >
+              Reset
+            </button>
+          )}
+        </div>
+      </div>
+
+      {validating && (
+        <div className="flex items-center text-blue-500 text-sm mb-4">
+          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          Validating tasks...
+        </div>
+      )}
+
+      {fileError && (
+        <div className="mb-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-900/30 rounded-md p-3 text-sm text-red-600 dark:text-red-400 flex items-center">
+          <XCircle className="w-4 h-4 mr-2" />
+          {fileError}
+        </div>
+      )}
+
+      {rows && (
+        <div className="mb-4">
+          <div className="flex items-center gap-4 text-sm mb-2">
+            <span className="flex items-center text-green-500">
+              <CheckCircle className="w-4 h-4 mr-1" />
+              {validRows.length} valid
+            </span>
+            {invalidCount > 0 && (
+              <span className="flex items-center text-red-500">
+                <XCircle className="w-4 h-4 mr-1" />
+                {invalidCount} with errors (will be skipped)
+              </span>
+            )}
+          </div>
+
+          <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-900/30 rounded-md p-3 text-sm">
+            <div className="flex items-center mb-2 text-blue-700 dark:text-blue-400">
+              <File className="w-4 h-4 mr-2" />
+              <span className="font-medium">{file?.name}</span>
+              <span className="ml-2 text-xs text-blue-500 dark:text-blue-500">
+                {file ? `(${(file.size / 1024).toFixed(1)} KB)` : ''}
+              </span>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 mt-3">
+                <thead className="bg-gray-50 dark:bg-gray-800">
+                  <tr>
+                    <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">#</th>
+                    <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Name</th>
+                    <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Category</th>
+                    <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Due Date</th>
+                    <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Course</th>
+                    <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                  {rows.map(row => (
+                    <tr key={row.index} className={`text-xs ${row.errors.length ? 'bg-red-50/50 dark:bg-red-900/10' : ''}`}>
+                      <td className="px-3 py-2 text-gray-500 dark:text-gray-400">{row.index + 1}</td>
+                      <td className="px-3 py-2 text-gray-900 dark:text-white">{String(row.raw.name ?? '')}</td>
+                      <td className="px-3 py-2 whitespace-nowrap text-gray-900 dark:text-white">{String(row.raw.category ?? '')}</td>
+                      <td className="px-3 py-2 whitespace-nowrap text-gray-900 dark:text-white">{String(row.raw.due_date ?? '')}</td>
+                      <td className="px-3 py-2 whitespace-nowrap text-gray-900 dark:text-white">{String(row.raw.course_code ?? '') || '—'}</td>
+                      <td className="px-3 py-2">
+                        {row.errors.length === 0 ? (
+                          <span className="flex items-center text-green-600 dark:text-green-400">
+                            <CheckCircle className="w-3 h-3 mr-1" />
+                            Ready
+                          </span>
+                        ) : (
+                          <ul className="text-red-600 dark:text-red-400 space-y-0.5">
+                            {row.errors.map((error, idx) => (
+                              <li key={idx} className="flex items-start">
+                                <XCircle className="w-3 h-3 mr-1 mt-0.5 flex-shrink-0" />
+                                {error}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className="mt-4">
+            <button
+              onClick={handleImport}
+              disabled={loading || validRows.length === 0}
+              className={`text-sm px-4 py-2 rounded-lg shadow-sm flex items-center ${
+                loading || validRows.length === 0
+                  ? 'bg-gray-300 text-gray-500 cursor-not-allowed dark:bg-gray-700 dark:text-gray-400'
+                  : 'bg-blue-500 text-white hover:bg-blue-600 dark:bg-blue-600 dark:hover:bg-blue-700'
+              }`}
+            >
+              {loading ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Importing...
+                </>
+              ) : (
+                <>
+                  <ListTodo className="w-4 h-4 mr-2" />
+                  Import {validRows.length} {validRows.length === 1 ? 'Task' : 'Tasks'}
+                </>
+              )}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {importResult && (
+        <div className="mt-4">
+          {importResult.success > 0 && (
+            <div className="mb-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-900/30 rounded-md p-3 text-sm text-green-600 dark:text-green-400 flex items-center">
+              <CheckCircle className="w-4 h-4 mr-2" />
+              Successfully imported {importResult.success} {importResult.success === 1 ? 'task' : 'tasks'}
+            </div>
+          )}
+
+          {importResult.errors.length > 0 && (
+            <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-900/30 rounded-md p-3">
+              <div className="text-sm text-red-600 dark:text-red-400 flex items-center mb-2">
+                <XCircle className="w-4 h-4 mr-2" />
+                {importResult.errors.length} {importResult.errors.length === 1 ? 'error' : 'errors'} occurred during import
+              </div>
+              <ul className="text-xs space-y-1 ml-5 list-disc text-red-600 dark:text-red-400">
+                {importResult.errors.map((error, idx) => (
+                  <li key={idx}>{error.message}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import { Archive, Loader2, CheckCircle, AlertCircle } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface CloseSemesterPanelProps {
+  onCloseSemester: (cutoffDate: string) => Promise<number>;
+}
+
+export function CloseSemesterPanel({ onCloseSemester }: CloseSemesterPanelProps) {
+  const [cutoffDate, setCutoffDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [confirming, setConfirming] = useState(false);
+  const [isClosing, setIsClosing] = useState(false);
+  const [archivedCount, setArchivedCount] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleClose = async () => {
+    setIsClosing(true);
+    setError(null);
+    setArchivedCount(null);
+    try {
+      setArchivedCount(await onCloseSemester(cutoffDate));
+    } catch (err: any) {
+      setError(err.message || 'Failed to close semester');
+    } finally {
+      setIsClosing(false);
+      setConfirming(false);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-sm p-4 sm:p-6">
+      <h3 className="text-lg font-semibold text-gray-800 dark:text-white flex items-center gap-2 mb-1">
+        <Archive className="w-5 h-5 text-blue-500" />
+        Close Semester
+      </h3>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+        Archives every task due before the cutoff date, including students' personal tasks.
+        Archived tasks stay searchable in the archive.
+      </p>
+
+      <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+        <input
+          type="date"
+          value={cutoffDate}
+          onChange={(e) => {
+            setCutoffDate(e.target.value);
+            setConfirming(false);
+          }}
+          disabled={isClosing}
+          className="px-3 py-2 border dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm"
+          aria-label="Cutoff date"
+        />
+        {confirming ? (
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleClose}
+              disabled={isClosing}
+              className="flex items-center gap-2 px-4 py-2 text-sm rounded-xl bg-red-600 text-white hover:bg-red-700 disabled:opacity-50"
+            >
+              {isClosing && <Loader2 className="w-4 h-4 animate-spin" />}
+              Archive tasks due before {new Date(cutoffDate).toLocaleDateString()}
+            </button>
+            <button
+              onClick={() => setConfirming(false)}
+              disabled={isClosing}
+              className="px-4 py-2 text-sm rounded-xl text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              Cancel
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={() => setConfirming(true)}
+            disabled={!cutoffDate}
+            className="px-4 py-2 text-sm rounded-xl bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            Close semester
+          </button>
+        )}
+      </div>
+
+      {archivedCount !== null && (
+        <p className="mt-3 text-sm text-green-600 dark:text-green-400 flex items-center gap-1">
+          <CheckCircle className="w-4 h-4" />
+          Archived {archivedCount} {archivedCount === 1 ? 'task' : 'tasks'}
+        </p>
+      )}
+      {error && (
+        <p className="mt-3 text-sm text-red-600 dark:text-red-400 flex items-center gap-1">
+          <AlertCircle className="w-4 h-4" />
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { Plus, X, ChevronUp, ChevronDown, ListChecks } from 'lucide-react';
+import type { Subtask } from '../../../types/task';
+
+interface SubtaskEditorProps {
+  subtasks: Subtask[];
+  onChange: (subtasks: Subtask[]) => void;
+}
+
+export function SubtaskEditor({ subtasks, onChange }: SubtaskEditorProps) {
+  const [titleInput, setTitleInput] = useState('');
+
+  // Add checklist item
+  const addSubtask = () => {
+    const title = titleInput.trim();
+    if (!title) return;
+
+    onChange([
+      ...subtasks,
+      { id: crypto.randomUUID(), title, position: subtasks.length, completed: false }
+    ]);
+    setTitleInput('');
+  };
+
+  // Remove checklist item
+  const removeSubtask = (index: number) => {
+    onChange(subtasks.filter((_, i) => i !== index));
+  };
+
+  // Move checklist item up or down
+  const moveSubtask = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= subtasks.length) return;
+
+    const reordered = [...subtasks];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered.map((subtask, i) => ({ ...subtask, position: i })));
+  };
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-2 flex-wrap sm:flex-nowrap">
+        <div className="relative flex-1 min-w-0">
+          <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+            <ListChecks className="h-5 w-5 text-gray-400" />
+          </div>
+          <input
+            type="text"
+            value={titleInput}
+            onChange={(e) => setTitleInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                addSubtask();
+              }
+            }}
+            className="w-full pl-10 pr-4 py-2 border dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm sm:text-base"
+            placeholder="e.g. Collect data"
+          />
+        </div>
+        <button
+          type="button"
+          onClick={addSubtask}
+          className="inline-flex items-center px-3 py-2 border border-transparent text-sm sm:text-base leading-4 font-medium rounded-xl text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 dark:focus:ring-offset-gray-800 whitespace-nowrap"
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add Item
+        </button>
+      </div>
+
+      {subtasks.length > 0 && (
+        <ol className="mt-2 space-y-2">
+          {subtasks.map((subtask, index) => (
+            <li key={subtask.id} className="flex items-center justify-between gap-2 px-3 py-2 bg-gray-50 dark:bg-gray-700 rounded-lg">
+              <span className="text-sm text-gray-700 dark:text-gray-300 truncate">
+                {index + 1}. {subtask.title}
+              </span>
+              <div className="flex items-center gap-1 shrink-0">
+                <button
+                  type="button"
+                  onClick={() => moveSubtask(index, -1)}
+                  disabled={index === 0}
+                  className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 disabled:opacity-30"
+                  aria-label="Move up"
+                >
+                  <ChevronUp className="w-4 h-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => moveSubtask(index, 1)}
+                  disabled={index === subtasks.length - 1}
+                  className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 disabled:opacity-30"
+                  aria-label="Move down"
+                >
+                  <ChevronDown className="w-4 h-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => removeSubtask(index)}
+                  className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                  aria-label={`Remove ${subtask.title}`}
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
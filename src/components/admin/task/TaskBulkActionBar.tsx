@@ -0,0 +1,183 @@
+import { useState } from 'react';
+import { Trash2, Archive, Tag, CalendarClock, X, Loader2, CheckCircle, AlertCircle } from 'lucide-react';
+import { TASK_CATEGORY_OPTIONS } from '../../../utils/taskCategories';
+import type { Task, TaskCategory, BulkTaskAction, BulkTaskResult } from '../../../types/task';
+
+interface TaskBulkActionBarProps {
+  selectedTasks: Task[];
+  onAction: (taskIds: string[], action: BulkTaskAction) => Promise<BulkTaskResult[]>;
+  onClearSelection: () => void;
+  // Called with the ids that failed so they can stay selected for a retry
+  onComplete: (failedIds: string[]) => void;
+}
+
+export function TaskBulkActionBar({ selectedTasks, onAction, onClearSelection, onComplete }: TaskBulkActionBarProps) {
+  const [category, setCategory] = useState<TaskCategory>('assignment');
+  const [shiftDays, setShiftDays] = useState(7);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [results, setResults] = useState<{ label: string; results: BulkTaskResult[]; names: Map<string, string> } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const runAction = async (action: BulkTaskAction, label: string) => {
+    const names = new Map(selectedTasks.map(task => [task.id, task.name]));
+
+    setIsRunning(true);
+    setError(null);
+    setResults(null);
+    try {
+      const actionResults = await onAction(selectedTasks.map(task => task.id), action);
+      setResults({ label, results: actionResults, names });
+      onComplete(actionResults.filter(result => !result.success).map(result => result.taskId));
+    } catch (err: any) {
+      setError(err.message || 'Bulk action failed');
+    } finally {
+      setIsRunning(false);
+      setConfirmDelete(false);
+    }
+  };
+
+  const failed = results?.results.filter(result => !result.success) || [];
+  const succeededCount = (results?.results.length || 0) - failed.length;
+
+  if (selectedTasks.length === 0 && !results && !error) return null;
+
+  return (
+    <div className="p-4 border-b border-gray-200 dark:border-gray-700 bg-blue-50/60 dark:bg-blue-900/10">
+      {selectedTasks.length > 0 && (
+        <div className="flex flex-col lg:flex-row lg:items-center gap-3">
+          <div className="flex items-center gap-2 text-sm font-medium text-blue-700 dark:text-blue-300">
+            {isRunning && <Loader2 className="w-4 h-4 animate-spin" />}
+            {selectedTasks.length} selected
+            <button
+              onClick={onClearSelection}
+              disabled={isRunning}
+              className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 rounded-full"
+              aria-label="Clear selection"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2 lg:ml-auto">
+            <div className="flex items-center gap-1">
+              <Tag className="w-4 h-4 text-gray-400" />
+              <select
+                value={category}
+                onChange={(e) => setCategory(e.target.value as TaskCategory)}
+                disabled={isRunning}
+                className="px-2 py-1.5 border dark:border-gray-600 rounded-lg text-sm dark:bg-gray-700 dark:text-white"
+                aria-label="New category"
+              >
+                {TASK_CATEGORY_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => runAction({ type: 'set-category', category }, 'Category change')}
+                disabled={isRunning}
+                className="px-3 py-1.5 text-sm rounded-lg bg-white dark:bg-gray-700 border dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-600 disabled:opacity-50"
+              >
+                Set category
+              </button>
+            </div>
+
+            <div className="flex items-center gap-1">
+              <CalendarClock className="w-4 h-4 text-gray-400" />
+              <input
+                type="number"
+                value={shiftDays}
+                onChange={(e) => setShiftDays(parseInt(e.target.value, 10) || 0)}
+                disabled={isRunning}
+                className="w-20 px-2 py-1.5 border dark:border-gray-600 rounded-lg text-sm dark:bg-gray-700 dark:text-white"
+                aria-label="Days to shift due dates by"
+              />
+              <button
+                onClick={() => runAction({ type: 'shift-due-date', days: shiftDays }, 'Due date shift')}
+                disabled={isRunning || shiftDays === 0}
+                className="px-3 py-1.5 text-sm rounded-lg bg-white dark:bg-gray-700 border dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-600 disabled:opacity-50"
+              >
+                Shift days
+              </button>
+            </div>
+
+            <button
+              onClick={() => runAction({ type: 'archive' }, 'Archive')}
+              disabled={isRunning}
+              className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg bg-white dark:bg-gray-700 border dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-600 disabled:opacity-50"
+            >
+              <Archive className="w-4 h-4" />
+              Archive
+            </button>
+
+            {confirmDelete ? (
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => runAction({ type: 'delete' }, 'Delete')}
+                  disabled={isRunning}
+                  className="px-3 py-1.5 text-sm rounded-lg bg-red-600 text-white hover:bg-red-700 disabled:opacity-50"
+                >
+                  Delete {selectedTasks.length}
+                </button>
+                <button
+                  onClick={() => setConfirmDelete(false)}
+                  disabled={isRunning}
+                  className="px-3 py-1.5 text-sm rounded-lg text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                >
+                  Cancel
+                </button>
+              </div>
+            ) : (
+              <button
+                onClick={() => setConfirmDelete(true)}
+                disabled={isRunning}
+                className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg bg-white dark:bg-gray-700 border border-red-200 dark:border-red-800 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50"
+              >
+                <Trash2 className="w-4 h-4" />
+                Delete
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <p className="mt-3 text-sm text-red-600 dark:text-red-400 flex items-center gap-1">
+          <AlertCircle className="w-4 h-4" />
+          {error}
+        </p>
+      )}
+
+      {results && (
+        <div className="mt-3 text-sm">
+          <div className="flex items-center gap-2">
+            {failed.length === 0 ? (
+              <CheckCircle className="w-4 h-4 text-green-600 dark:text-green-400" />
+            ) : (
+              <AlertCircle className="w-4 h-4 text-yellow-600 dark:text-yellow-400" />
+            )}
+            <span className="text-gray-700 dark:text-gray-300">
+              {results.label}: {succeededCount} succeeded{failed.length > 0 && `, ${failed.length} failed`}
+            </span>
+            <button
+              onClick={() => setResults(null)}
+              className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 rounded-full"
+              aria-label="Dismiss results"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+          {failed.length > 0 && (
+            <ul className="mt-2 space-y-1 pl-6 list-disc text-red-600 dark:text-red-400">
+              {failed.map(result => (
+                <li key={result.taskId}>
+                  {results.names.get(result.taskId) || result.taskId}: {result.error}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
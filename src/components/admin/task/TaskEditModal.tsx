@@ -1,40 +1,56 @@
 import { useState, useEffect } from 'react';
-import { X, Tag, Calendar, AlignLeft, Link2, Upload, CheckCircle } from 'lucide-react';
-import type { Task } from '../../../types';
+import { X, Tag, Calendar, AlignLeft, Link2, Upload, CheckCircle, Repeat, Flag, Timer, BookOpen } from 'lucide-react';
+import { SubtaskEditor } from './SubtaskEditor';
+import { AudienceSelector } from '../AudienceSelector';
+import { TASK_PRIORITIES } from '../../../utils/taskPriority';
+import { getKnownSections } from '../../../utils/audience';
+import type { Task, TaskAttachment, TaskUpdates } from '../../../types';
+import type { Course } from '../../../types/course';
 
 interface TaskEditModalProps {
   task: Task;
   onClose: () => void;
-  onUpdate: (updates: Partial<Task>) => void;
+  onUpdate: (updates: TaskUpdates) => void;
+  onUpdateSeries?: (updates: Partial<Task>) => Promise<void>;
+  onCancelSeries?: () => Promise<void>;
+  courses?: Course[];
 }
 
-export function TaskEditModal({ task, onClose, onUpdate }: TaskEditModalProps) {
+export function TaskEditModal({ task, onClose, onUpdate, onUpdateSeries, onCancelSeries, courses = [] }: TaskEditModalProps) {
   const [formData, setFormData] = useState<Partial<Task>>({
     name: task.name,
     category: task.category,
     dueDate: task.dueDate,
     description: task.description,
     status: task.status,
+    priority: task.priority || 'normal',
+    estimatedHours: task.estimatedHours,
+    courseId: task.courseId || '',
+    targetSections: task.targetSections || [],
+    subtasks: task.subtasks || [],
   });
   
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [files, setFiles] = useState<File[]>([]);
   const [fileUrls, setFileUrls] = useState<string[]>([]);
-  const [attachments, setAttachments] = useState<string[]>([]);
+  const [attachments, setAttachments] = useState<TaskAttachment[]>(task.attachments || []);
   const [linkInput, setLinkInput] = useState('');
   const [links, setLinks] = useState<string[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showSuccess, setShowSuccess] = useState(false);
+  const [editScope, setEditScope] = useState<'occurrence' | 'series'>('occurrence');
+  const [confirmCancelSeries, setConfirmCancelSeries] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const isRecurring = Boolean(task.seriesId && onUpdateSeries);
   
-  // Extract existing attachments from description and clean description
+  // Extract existing links from description and clean description
   useEffect(() => {
     if (task.description) {
       const regex = /\[([^\]]+)\]\(([^)]+)\)/g;
-      const matches: string[] = [];
       const existingLinks: string[] = [];
       
-      // Replace description with clean version (without attachment links)
-      let cleanDescription = task.description.replace(
+      // Replace description with clean version (without link and legacy attachment lists)
+      const cleanDescription = task.description.replace(
         /\n\n\*\*Attachments:\*\*\n((?:- \[[^\]]+\]\([^)]+\)\n)*)/g, 
         ''
       ).replace(
@@ -45,16 +61,13 @@ export function TaskEditModal({ task, onClose, onUpdate }: TaskEditModalProps) {
       // Extract links
       let match;
       while ((match = regex.exec(task.description)) !== null) {
-        const [fullMatch, text, url] = match;
+        const [, text, url] = match;
         
-        if (url.startsWith('attachment:')) {
-          matches.push(text);
-        } else if (!url.startsWith('attachment:') && text === url) {
+        if (!url.startsWith('attachment:') && text === url) {
           existingLinks.push(url);
         }
       }
       
-      setAttachments(matches);
       setLinks(existingLinks);
       setFormData(prev => ({ ...prev, description: cleanDescription }));
     }
@@ -89,6 +102,11 @@ export function TaskEditModal({ task, onClose, onUpdate }: TaskEditModalProps) {
       isValid = false;
     }
     
+    if (formData.estimatedHours !== undefined && (formData.estimatedHours <= 0 || formData.estimatedHours > 999)) {
+      newErrors.estimatedHours = 'Estimated hours must be between 0 and 999';
+      isValid = false;
+    }
+    
     setErrors(newErrors);
     return isValid;
   };
@@ -110,6 +128,19 @@ export function TaskEditModal({ task, onClose, onUpdate }: TaskEditModalProps) {
     }
   };
   
+  // Handle estimated hours; an empty field clears the estimate
+  const handleEstimatedHoursChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { value } = e.target;
+    setFormData(prev => ({
+      ...prev,
+      estimatedHours: value === '' ? undefined : Number(value),
+    }));
+    
+    if (errors.estimatedHours) {
+      setErrors(prev => ({ ...prev, estimatedHours: '' }));
+    }
+  };
+  
   // Add link
   const addLink = () => {
     if (linkInput.trim() && !links.includes(linkInput)) {
@@ -156,10 +187,10 @@ export function TaskEditModal({ task, onClose, onUpdate }: TaskEditModalProps) {
     if (!validate()) return;
     
     setIsSubmitting(true);
+    setSubmitError(null);
     
     try {
-      // In a real app, you would upload files to a server and get URLs
-      // For now, we'll just add placeholder URLs to the description
+      // Links go into the description; files are uploaded as attachments
       let enhancedDescription = formData.description || '';
       
       // Add links to description
@@ -170,38 +201,35 @@ export function TaskEditModal({ task, onClose, onUpdate }: TaskEditModalProps) {
         });
       }
       
-      // Add existing attachments
-      if (attachments.length > 0) {
-        enhancedDescription += '\n\n**Attachments:**\n';
-        attachments.forEach(attachment => {
-          enhancedDescription += `- [${attachment}](attachment:${attachment})\n`;
-        });
-      }
-      
-      // Add new files
-      if (files.length > 0) {
-        if (attachments.length === 0) {
-          enhancedDescription += '\n\n**Attachments:**\n';
-        }
-        files.forEach(file => {
-          enhancedDescription += `- [${file.name}](attachment:${file.name})\n`;
-        });
-      }
-      
-      const updates: Partial<Task> = {
+      const updates: TaskUpdates = {
         ...formData,
         description: enhancedDescription,
+        attachments,
+        files,
       };
       
-      onUpdate(updates);
+      if (isRecurring && editScope === 'series' && onUpdateSeries) {
+        // Each occurrence keeps its own due date and checklist when the whole series is edited,
+        // and students keep their own status in task_progress
+        const seriesUpdates = { ...updates };
+        delete seriesUpdates.status;
+        delete seriesUpdates.dueDate;
+        delete seriesUpdates.subtasks;
+        delete seriesUpdates.attachments;
+        delete seriesUpdates.files;
+        await onUpdateSeries(seriesUpdates);
+      } else {
+        onUpdate(updates);
+      }
       setShowSuccess(true);
       
       // Close modal after success message
       setTimeout(() => {
         onClose();
       }, 1500);
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error updating task:', error);
+      setSubmitError(error.message || 'Failed to update task');
     } finally {
       setIsSubmitting(false);
     }
@@ -275,6 +303,49 @@ export function TaskEditModal({ task, onClose, onUpdate }: TaskEditModalProps) {
               </div>
             </div>
 
+            {isRecurring && (
+              <div className="md:col-span-2 p-4 bg-blue-50 dark:bg-blue-900/20 rounded-xl">
+                <div className="flex items-center gap-2 mb-3 text-sm font-medium text-blue-700 dark:text-blue-300">
+                  <Repeat className="w-4 h-4" />
+                  This task is part of a recurring series
+                </div>
+                <div className="flex flex-col sm:flex-row sm:items-center gap-3 text-sm text-gray-700 dark:text-gray-300">
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="radio"
+                      name="editScope"
+                      checked={editScope === 'occurrence'}
+                      onChange={() => setEditScope('occurrence')}
+                    />
+                    This occurrence only
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="radio"
+                      name="editScope"
+                      checked={editScope === 'series'}
+                      onChange={() => setEditScope('series')}
+                    />
+                    All upcoming occurrences
+                  </label>
+                  {onCancelSeries && (
+                    <button
+                      type="button"
+                      onClick={() => setConfirmCancelSeries(true)}
+                      className="sm:ml-auto px-3 py-1.5 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors text-left"
+                    >
+                      Cancel series
+                    </button>
+                  )}
+                </div>
+                {editScope === 'series' && (
+                  <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                    Name, category, course, priority, estimate and description will change on every upcoming occurrence. Due dates, checklists and attachments stay as they are.
+                  </p>
+                )}
+              </div>
+            )}
+
             <div>
               <label htmlFor="category" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                 Category<span className="text-red-500">*</span>
@@ -320,6 +391,7 @@ export function TaskEditModal({ task, onClose, onUpdate }: TaskEditModalProps) {
                   type="date"
                   id="dueDate"
                   name="dueDate"
+                  disabled={isRecurring && editScope === 'series'}
                   value={formData.dueDate || ''}
                   min={formData.status === 'completed' ? undefined : getMinDate()}
                   onChange={handleChange}
@@ -349,6 +421,88 @@ export function TaskEditModal({ task, onClose, onUpdate }: TaskEditModalProps) {
               </select>
             </div>
 
+            <div>
+              <label htmlFor="priority" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Priority
+              </label>
+              <div className="relative">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <Flag className="h-5 w-5 text-gray-400" />
+                </div>
+                <select
+                  id="priority"
+                  name="priority"
+                  value={formData.priority || 'normal'}
+                  onChange={handleChange}
+                  className="w-full pl-10 pr-4 py-2 border dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                >
+                  {TASK_PRIORITIES.map(priority => (
+                    <option key={priority.value} value={priority.value}>{priority.label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="estimatedHours" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Estimated Hours
+              </label>
+              <div className="relative">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <Timer className="h-5 w-5 text-gray-400" />
+                </div>
+                <input
+                  type="number"
+                  id="estimatedHours"
+                  name="estimatedHours"
+                  min="0.5"
+                  max="999"
+                  step="0.5"
+                  value={formData.estimatedHours ?? ''}
+                  onChange={handleEstimatedHoursChange}
+                  className={`w-full pl-10 pr-4 py-2 border dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white
+                    ${errors.estimatedHours ? 'border-red-500 dark:border-red-500' : ''}`}
+                  placeholder="e.g. 3"
+                />
+                {errors.estimatedHours && (
+                  <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.estimatedHours}</p>
+                )}
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="courseId" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Course
+              </label>
+              <div className="relative">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <BookOpen className="h-5 w-5 text-gray-400" />
+                </div>
+                <select
+                  id="courseId"
+                  name="courseId"
+                  value={formData.courseId || ''}
+                  onChange={handleChange}
+                  className="w-full pl-10 pr-4 py-2 border dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                >
+                  <option value="">No course</option>
+                  {courses.map(course => (
+                    <option key={course.id} value={course.id}>{course.code} - {course.name}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {task.isAdminTask && (
+              <div className="md:col-span-2">
+                <AudienceSelector
+                  value={formData.targetSections || []}
+                  onChange={(targetSections) => setFormData(prev => ({ ...prev, targetSections }))}
+                  sections={getKnownSections(courses)}
+                />
+              </div>
+            )}
+
             <div className="md:col-span-2">
               <label htmlFor="description" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                 Description<span className="text-red-500">*</span>
@@ -373,6 +527,16 @@ export function TaskEditModal({ task, onClose, onUpdate }: TaskEditModalProps) {
               </div>
             </div>
             
+            <div className="md:col-span-2">
+              <div className="pb-4 border-b border-gray-200 dark:border-gray-700">
+                <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">Checklist</h4>
+                <SubtaskEditor
+                  subtasks={formData.subtasks || []}
+                  onChange={(subtasks) => setFormData(prev => ({ ...prev, subtasks }))}
+                />
+              </div>
+            </div>
+            
             <div className="md:col-span-2">
               <div className="pb-4 border-b border-gray-200 dark:border-gray-700">
                 <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">Links</h4>
@@ -435,9 +599,14 @@ export function TaskEditModal({ task, onClose, onUpdate }: TaskEditModalProps) {
                     <h5 className="text-xs text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-2">Current Attachments</h5>
                     <div className="space-y-2">
                       {attachments.map((attachment, index) => (
-                        <div key={index} className="flex items-center justify-between px-3 py-2 bg-gray-50 dark:bg-gray-700 rounded-lg">
-                          <div className="text-sm text-gray-700 dark:text-gray-300 truncate max-w-[calc(100%-30px)]">
-                            {attachment}
+                        <div key={attachment.id} className="flex items-center justify-between px-3 py-2 bg-gray-50 dark:bg-gray-700 rounded-lg">
+                          <div className="flex items-center text-sm min-w-0">
+                            <div className="text-gray-700 dark:text-gray-300 truncate">
+                              {attachment.fileName}
+                            </div>
+                            <div className="ml-2 text-gray-500 dark:text-gray-400 text-xs shrink-0">
+                              {(attachment.fileSize / 1024).toFixed(1)} KB
+                            </div>
                           </div>
                           <button
                             type="button"
@@ -531,6 +700,10 @@ export function TaskEditModal({ task, onClose, onUpdate }: TaskEditModalProps) {
               </button>
           </div>
           
+          {submitError && (
+            <p className="mt-4 text-sm text-red-600 dark:text-red-400">{submitError}</p>
+          )}
+
           {showSuccess && (
             <div className="mt-4 p-3 bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-300 rounded-xl text-sm flex items-center gap-2">
               <CheckCircle className="w-5 h-5" />
@@ -539,6 +712,44 @@ export function TaskEditModal({ task, onClose, onUpdate }: TaskEditModalProps) {
           )}
         </form>
       </div>
+
+      {/* Cancel Series Confirmation */}
+      {confirmCancelSeries && onCancelSeries && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white dark:bg-gray-800 rounded-2xl p-6 max-w-md w-full shadow-xl">
+            <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
+              Cancel Series
+            </h3>
+            <p className="text-gray-700 dark:text-gray-300 mb-6">
+              All upcoming occurrences of this task will be deleted. Past occurrences are kept. This action cannot be undone.
+            </p>
+            <div className="flex justify-end gap-3">
+              <button
+                onClick={() => setConfirmCancelSeries(false)}
+                className="px-4 py-2 bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600 rounded-lg transition-colors"
+              >
+                Keep Series
+              </button>
+              <button
+                onClick={async () => {
+                  setConfirmCancelSeries(false);
+                  setSubmitError(null);
+                  try {
+                    await onCancelSeries();
+                    onClose();
+                  } catch (error: any) {
+                    console.error('Error cancelling task series:', error);
+                    setSubmitError(error.message || 'Failed to cancel task series');
+                  }
+                }}
+                className="px-4 py-2 bg-red-600 text-white hover:bg-red-700 rounded-lg transition-colors"
+              >
+                Cancel Series
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
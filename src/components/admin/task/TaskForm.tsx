@@ -1,4 +1,5 @@
 import { useState } from 'react';
+import { parseISO } from 'date-fns';
 import { 
   Tag, 
   Calendar, 
@@ -11,21 +12,35 @@ import {
   ChevronDown,
   ChevronUp,
   AlertCircle,
-  CheckCircle
+  CheckCircle,
+  Repeat,
+  Flag,
+  Timer,
+  BookOpen
 } from 'lucide-react';
-import type { NewTask } from '../../../types/task';
+import { SubtaskEditor } from './SubtaskEditor';
+import { AudienceSelector } from '../AudienceSelector';
+import { generateOccurrenceDates, exceedsMaxOccurrences, describeRecurrence, MAX_OCCURRENCES } from '../../../utils/recurrence';
+import { TASK_PRIORITIES } from '../../../utils/taskPriority';
+import { getKnownSections } from '../../../utils/audience';
+import type { NewTask, TaskRecurrence, RecurrenceFrequency, Subtask } from '../../../types/task';
+import type { Course } from '../../../types/course';
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
 
 interface TaskFormProps {
   onSubmit: (task: NewTask) => void;
+  courses?: Course[];
 }
 
-export function TaskForm({ onSubmit }: TaskFormProps) {
+export function TaskForm({ onSubmit, courses = [] }: TaskFormProps) {
   const [taskDetails, setTaskDetails] = useState<NewTask>({
     name: '',
     category: 'task',
     dueDate: '',
     description: '',
     status: 'in-progress',
+    priority: 'normal',
   });
   
   const [errors, setErrors] = useState<Partial<Record<keyof NewTask, string>>>({});
@@ -33,9 +48,39 @@ export function TaskForm({ onSubmit }: TaskFormProps) {
   const [fileUrls, setFileUrls] = useState<string[]>([]);
   const [linkInput, setLinkInput] = useState('');
   const [links, setLinks] = useState<string[]>([]);
+  const [subtasks, setSubtasks] = useState<Subtask[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [success, setSuccess] = useState(false);
   const [showAdvanced, setShowAdvanced] = useState(false);
+  const [repeatMode, setRepeatMode] = useState<'none' | RecurrenceFrequency>('none');
+  // Unset until chosen, so weekly series start on the due date's weekday
+  const [repeatWeekday, setRepeatWeekday] = useState<number | null>(null);
+  const [repeatInterval, setRepeatInterval] = useState(7);
+  const [repeatEnd, setRepeatEnd] = useState<'until' | 'count'>('count');
+  const [repeatUntil, setRepeatUntil] = useState('');
+  const [repeatCount, setRepeatCount] = useState(4);
+  const [recurrenceError, setRecurrenceError] = useState<string | null>(null);
+
+  const weeklyDay = repeatWeekday ?? (taskDetails.dueDate ? parseISO(taskDetails.dueDate).getDay() : new Date().getDay());
+
+  // Build the recurrence rule from the repeat controls
+  const getRecurrence = (): TaskRecurrence | undefined => {
+    if (repeatMode === 'none') return undefined;
+    
+    return {
+      frequency: repeatMode,
+      weekday: repeatMode === 'weekly' ? weeklyDay : undefined,
+      intervalDays: repeatMode === 'interval' ? repeatInterval : undefined,
+      untilDate: repeatEnd === 'until' ? repeatUntil : undefined,
+      occurrences: repeatEnd === 'count' ? repeatCount : undefined,
+    };
+  };
+  
+  const recurrence = getRecurrence();
+  const occurrenceCount = recurrence && taskDetails.dueDate
+    ? generateOccurrenceDates(taskDetails.dueDate, recurrence).length
+    : 0;
+  const tooManyOccurrences = !!recurrence && !!taskDetails.dueDate && exceedsMaxOccurrences(taskDetails.dueDate, recurrence);
   
   // Validation function
   const validate = (): boolean => {
@@ -66,7 +111,30 @@ export function TaskForm({ onSubmit }: TaskFormProps) {
       isValid = false;
     }
     
+    if (taskDetails.estimatedHours !== undefined && (taskDetails.estimatedHours <= 0 || taskDetails.estimatedHours > 999)) {
+      newErrors.estimatedHours = 'Estimated hours must be between 0 and 999';
+      isValid = false;
+    }
+    
+    let newRecurrenceError: string | null = null;
+    if (repeatMode === 'interval' && (!repeatInterval || repeatInterval < 1)) {
+      newRecurrenceError = 'Repeat interval must be at least 1 day';
+    } else if (repeatMode !== 'none' && repeatEnd === 'until' && !repeatUntil) {
+      newRecurrenceError = 'Choose the date the series ends';
+    } else if (repeatMode !== 'none' && repeatEnd === 'count' && (repeatCount < 1 || repeatCount > MAX_OCCURRENCES)) {
+      newRecurrenceError = `Number of occurrences must be between 1 and ${MAX_OCCURRENCES}`;
+    } else if (repeatMode !== 'none' && taskDetails.dueDate && occurrenceCount === 0) {
+      newRecurrenceError = 'The series ends before its first occurrence';
+    } else if (tooManyOccurrences) {
+      newRecurrenceError = `The series would create more than ${MAX_OCCURRENCES} tasks. Choose an earlier end date.`;
+    }
+    
+    if (newRecurrenceError) {
+      isValid = false;
+    }
+    
     setErrors(newErrors);
+    setRecurrenceError(newRecurrenceError);
     return isValid;
   };
   
@@ -87,6 +155,19 @@ export function TaskForm({ onSubmit }: TaskFormProps) {
     }
   };
   
+  // Handle estimated hours; an empty field means no estimate
+  const handleEstimatedHoursChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { value } = e.target;
+    setTaskDetails(prev => ({
+      ...prev,
+      estimatedHours: value === '' ? undefined : Number(value),
+    }));
+    
+    if (errors.estimatedHours) {
+      setErrors(prev => ({ ...prev, estimatedHours: undefined }));
+    }
+  };
+  
   // Handle file upload
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
@@ -128,8 +209,7 @@ export function TaskForm({ onSubmit }: TaskFormProps) {
     setIsSubmitting(true);
     
     try {
-      // In a real app, you would upload files to a server here
-      // For now, we'll just add the links to the description
+      // Links go into the description; files are uploaded as attachments
       let enhancedDescription = taskDetails.description;
       
       // Add links to description
@@ -140,17 +220,12 @@ export function TaskForm({ onSubmit }: TaskFormProps) {
         });
       }
       
-      // Add file references (in a real app, these would be uploaded and proper URLs would be used)
-      if (files.length > 0) {
-        enhancedDescription += '\n\n**Attachments:**\n';
-        files.forEach(file => {
-          enhancedDescription += `- [${file.name}](attachment:${file.name})\n`;
-        });
-      }
-      
       const finalTask: NewTask = {
         ...taskDetails,
         description: enhancedDescription,
+        recurrence,
+        subtasks,
+        files,
       };
       
       onSubmit(finalTask);
@@ -162,11 +237,16 @@ export function TaskForm({ onSubmit }: TaskFormProps) {
         dueDate: '',
         description: '',
         status: 'in-progress',
+        priority: 'normal',
       });
       setFiles([]);
       setFileUrls([]);
       setLinks([]);
+      setSubtasks([]);
       setErrors({});
+      setRepeatMode('none');
+      setRepeatWeekday(null);
+      setRecurrenceError(null);
       setSuccess(true);
       
       // Clear success message after 3 seconds
@@ -297,6 +377,89 @@ export function TaskForm({ onSubmit }: TaskFormProps) {
             )}
           </div>
           
+          <div>
+            <label htmlFor="priority" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Priority
+            </label>
+            <div className="relative">
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                <Flag className="h-5 w-5 text-gray-400" />
+              </div>
+              <select
+                id="priority"
+                name="priority"
+                value={taskDetails.priority}
+                onChange={handleChange}
+                className="w-full pl-10 pr-4 py-2 border dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm sm:text-base"
+              >
+                {TASK_PRIORITIES.map(priority => (
+                  <option key={priority.value} value={priority.value}>{priority.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          
+          <div>
+            <label htmlFor="estimatedHours" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Estimated Hours
+            </label>
+            <div className="relative">
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                <Timer className="h-5 w-5 text-gray-400" />
+              </div>
+              <input
+                type="number"
+                id="estimatedHours"
+                name="estimatedHours"
+                min="0.5"
+                max="999"
+                step="0.5"
+                value={taskDetails.estimatedHours ?? ''}
+                onChange={handleEstimatedHoursChange}
+                className={`w-full pl-10 pr-4 py-2 border rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm sm:text-base
+                  ${errors.estimatedHours ? 'border-red-500 dark:border-red-500' : 'dark:border-gray-600 dark:bg-gray-700 dark:text-white'}`}
+                placeholder="e.g. 3"
+              />
+            </div>
+            {errors.estimatedHours && (
+              <p className="mt-1 text-sm text-red-600 dark:text-red-400 flex items-center gap-1">
+                <AlertCircle className="w-4 h-4" />
+                {errors.estimatedHours}
+              </p>
+            )}
+          </div>
+          
+          <div className="sm:col-span-2">
+            <label htmlFor="courseId" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Course
+            </label>
+            <div className="relative">
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                <BookOpen className="h-5 w-5 text-gray-400" />
+              </div>
+              <select
+                id="courseId"
+                name="courseId"
+                value={taskDetails.courseId || ''}
+                onChange={handleChange}
+                className="w-full pl-10 pr-4 py-2 border dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm sm:text-base"
+              >
+                <option value="">No course</option>
+                {courses.map(course => (
+                  <option key={course.id} value={course.id}>{course.code} - {course.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          
+          <div className="sm:col-span-2">
+            <AudienceSelector
+              value={taskDetails.targetSections || []}
+              onChange={(targetSections) => setTaskDetails(prev => ({ ...prev, targetSections }))}
+              sections={getKnownSections(courses)}
+            />
+          </div>
+          
           <div className="sm:col-span-2">
             <label htmlFor="description" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
               Description*
@@ -324,6 +487,13 @@ export function TaskForm({ onSubmit }: TaskFormProps) {
             )}
           </div>
           
+          <div className="sm:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Checklist
+            </label>
+            <SubtaskEditor subtasks={subtasks} onChange={setSubtasks} />
+          </div>
+          
           {showAdvanced && (
             <>
               <div className="sm:col-span-2">
@@ -427,6 +597,107 @@ export function TaskForm({ onSubmit }: TaskFormProps) {
                 )}
               </div>
               
+              <div className="sm:col-span-2">
+                <label htmlFor="repeat" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Repeat
+                </label>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  <div className="relative">
+                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                      <Repeat className="h-5 w-5 text-gray-400" />
+                    </div>
+                    <select
+                      id="repeat"
+                      value={repeatMode}
+                      onChange={(e) => {
+                        setRepeatMode(e.target.value as 'none' | RecurrenceFrequency);
+                        setRecurrenceError(null);
+                      }}
+                      className="w-full pl-10 pr-4 py-2 border dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm sm:text-base"
+                    >
+                      <option value="none">Does not repeat</option>
+                      <option value="weekly">Weekly</option>
+                      <option value="interval">Every N days</option>
+                    </select>
+                  </div>
+                  
+                  {repeatMode === 'weekly' && (
+                    <select
+                      value={weeklyDay}
+                      onChange={(e) => setRepeatWeekday(Number(e.target.value))}
+                      className="w-full px-4 py-2 border dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm sm:text-base"
+                    >
+                      {WEEKDAYS.map((day, index) => (
+                        <option key={day} value={index}>On {day}</option>
+                      ))}
+                    </select>
+                  )}
+                  
+                  {repeatMode === 'interval' && (
+                    <input
+                      type="number"
+                      min={1}
+                      value={repeatInterval}
+                      onChange={(e) => setRepeatInterval(Number(e.target.value))}
+                      className="w-full px-4 py-2 border dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm sm:text-base"
+                      placeholder="Days between occurrences"
+                    />
+                  )}
+                </div>
+                
+                {repeatMode !== 'none' && (
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mt-3">
+                    <select
+                      value={repeatEnd}
+                      onChange={(e) => setRepeatEnd(e.target.value as 'until' | 'count')}
+                      className="w-full px-4 py-2 border dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm sm:text-base"
+                    >
+                      <option value="count">Ends after</option>
+                      <option value="until">Ends on date</option>
+                    </select>
+                    
+                    {repeatEnd === 'count' ? (
+                      <input
+                        type="number"
+                        min={1}
+                        max={MAX_OCCURRENCES}
+                        value={repeatCount}
+                        onChange={(e) => setRepeatCount(Number(e.target.value))}
+                        className="w-full px-4 py-2 border dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm sm:text-base"
+                        placeholder="Number of occurrences"
+                      />
+                    ) : (
+                      <input
+                        type="date"
+                        min={taskDetails.dueDate || getMinDate()}
+                        value={repeatUntil}
+                        onChange={(e) => setRepeatUntil(e.target.value)}
+                        className="w-full px-4 py-2 border dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm sm:text-base"
+                      />
+                    )}
+                  </div>
+                )}
+                
+                {recurrence && taskDetails.dueDate && !recurrenceError && (recurrence.untilDate || recurrence.occurrences) && (
+                  tooManyOccurrences ? (
+                    <p className="mt-2 text-sm text-amber-600 dark:text-amber-400">
+                      {describeRecurrence(recurrence)} &middot; more than {MAX_OCCURRENCES} tasks, choose an earlier end date
+                    </p>
+                  ) : (
+                    <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+                      {describeRecurrence(recurrence)} &middot; {occurrenceCount} {occurrenceCount === 1 ? 'task' : 'tasks'} will be created
+                    </p>
+                  )
+                )}
+                
+                {recurrenceError && (
+                  <p className="mt-1 text-sm text-red-600 dark:text-red-400 flex items-center gap-1">
+                    <AlertCircle className="w-4 h-4" />
+                    {recurrenceError}
+                  </p>
+                )}
+              </div>
+              
               <div className="sm:col-span-2">
                 <label htmlFor="status" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                   Status
@@ -14,13 +14,13 @@ import {
   X
 } from 'lucide-react';
 import type { Task } from '../../../types';
-import type { NewTask } from '../../../types/task';
+import type { NewTask, TaskUpdates } from '../../../types/task';
 
 interface TaskManagerProps {
   tasks: Task[];
   onCreateTask: (task: NewTask) => void;
   onDeleteTask: (taskId: string) => void;
-  onUpdateTask: (taskId: string, task: Partial<Task>) => void;
+  onUpdateTask: (taskId: string, task: TaskUpdates) => void;
 }
 
 export function TaskManager({ tasks, onCreateTask, onDeleteTask, onUpdateTask }: TaskManagerProps) {
@@ -3,7 +3,7 @@ import {
   BarChart2, PieChart, Clock, CheckCircle, ListTodo, Calendar, 
   TrendingUp, Archive, AlertCircle, Download, Share2, Zap,
   BarChart, PieChartIcon, LineChart, ArrowUpRight,
-  FileText, CheckSquare, XCircle, Filter
+  FileText, CheckSquare, XCircle, Filter, BookOpen
 } from 'lucide-react';
 import { Chart as ChartJS, ArcElement, Tooltip, Legend, 
   CategoryScale, LinearScale, BarElement, Title, 
@@ -30,7 +30,7 @@ interface TaskStatsProps {
 }
 
 export function TaskStats({ tasks }: TaskStatsProps) {
-  const [activeChart, setActiveChart] = useState<'status' | 'category' | 'timeline' | 'trend'>('category');
+  const [activeChart, setActiveChart] = useState<'status' | 'category' | 'course' | 'timeline' | 'trend'>('category');
   const [animateChart, setAnimateChart] = useState(false);
   const [timeFilter, setTimeFilter] = useState<'all' | '30days' | '7days'>('all');
   const [isExporting, setIsExporting] = useState(false);
@@ -101,6 +101,21 @@ export function TaskStats({ tasks }: TaskStatsProps) {
     categoryStats[task.category]++;
   });
 
+  // Workload per course; tasks without a course are grouped together
+  const courseStats: Record<string, { open: number; completed: number; hours: number }> = {};
+  filteredTasks.forEach(task => {
+    const course = task.courseCode || 'No course';
+    if (!courseStats[course]) {
+      courseStats[course] = { open: 0, completed: 0, hours: 0 };
+    }
+    if (task.status === 'completed') {
+      courseStats[course].completed++;
+    } else {
+      courseStats[course].open++;
+      courseStats[course].hours += task.estimatedHours || 0;
+    }
+  });
+
   // Calculate timeline statistics - improved date handling
   const now = new Date();
   const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
@@ -240,6 +255,11 @@ export function TaskStats({ tasks }: TaskStatsProps) {
     );
     categoryData.unshift(['Category', 'Count', 'Percentage']);
     
+    const courseData: (string | number)[][] = Object.entries(courseStats).map(([course, stats]) => 
+      [course, stats.open, stats.completed, stats.hours]
+    );
+    courseData.unshift(['Course', 'Open', 'Completed', 'Open Hours']);
+    
     const timelineData = [
       ['Timeline', 'Count', 'Percentage'],
       ['Today', timelineStats.today, getPercentage(timelineStats.today) + '%'],
@@ -253,6 +273,7 @@ export function TaskStats({ tasks }: TaskStatsProps) {
     return {
       statusData,
       categoryData,
+      courseData,
       timelineData
     };
   };
@@ -315,6 +336,28 @@ export function TaskStats({ tasks }: TaskStatsProps) {
     };
   };
   
+  const getCourseChartData = () => {
+    const courses = Object.keys(courseStats);
+    
+    return {
+      labels: courses,
+      datasets: [
+        {
+          label: 'Open',
+          data: courses.map(course => courseStats[course].open),
+          backgroundColor: 'rgba(59, 130, 246, 0.7)',
+          borderWidth: 1,
+        },
+        {
+          label: 'Completed',
+          data: courses.map(course => courseStats[course].completed),
+          backgroundColor: 'rgba(16, 185, 129, 0.7)',
+          borderWidth: 1,
+        },
+      ],
+    };
+  };
+  
   const getTimelineChartData = () => {
     return {
       labels: ['Today', 'Tomorrow', 'This Week', 'Later', 'Overdue'],
@@ -423,7 +466,9 @@ export function TaskStats({ tasks }: TaskStatsProps) {
                   ? prepareCSVData().statusData 
                   : activeChart === 'category' 
                     ? prepareCSVData().categoryData 
-                    : prepareCSVData().timelineData
+                    : activeChart === 'course'
+                      ? prepareCSVData().courseData
+                      : prepareCSVData().timelineData
               }
               filename={`task-analytics-${activeChart}-${new Date().toISOString().split('T')[0]}.csv`}
               className="p-1.5 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors"
@@ -470,6 +515,17 @@ export function TaskStats({ tasks }: TaskStatsProps) {
             >
               <BarChart2 className="w-4 h-4" />
             </button>
+            <button 
+              className={`p-1.5 rounded-md transition-all duration-150 ${
+                activeChart === 'course' 
+                  ? 'bg-white dark:bg-gray-800 text-blue-600 dark:text-blue-400 shadow-sm'
+                  : 'text-gray-500 hover:bg-gray-200/50 dark:text-gray-400 dark:hover:bg-gray-700'
+              }`}
+              onClick={() => setActiveChart('course')}
+              title="Workload by Course"
+            >
+              <BookOpen className="w-4 h-4" />
+            </button>
             <button 
               className={`p-1.5 rounded-md transition-all duration-150 ${
                 activeChart === 'timeline' 
@@ -701,6 +757,64 @@ export function TaskStats({ tasks }: TaskStatsProps) {
               </div>
             )}
 
+            {/* Course Chart */}
+            {activeChart === 'course' && (
+              <div className="space-y-4">
+                <div className="flex justify-between items-center">
+                  <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300">Workload by Course</h4>
+                  <div className="text-xs font-medium text-gray-500 dark:text-gray-400">
+                    {Object.keys(courseStats).length} courses
+                  </div>
+                </div>
+                
+                <div className="h-[350px] w-full">
+                  <Bar data={getCourseChartData()} options={{
+                    ...chartOptions,
+                    indexAxis: 'y' as const,
+                    scales: {
+                      y: {
+                        stacked: true,
+                        grid: {
+                          display: false
+                        }
+                      },
+                      x: {
+                        stacked: true,
+                        grid: {
+                          color: 'rgba(156, 163, 175, 0.1)'
+                        }
+                      }
+                    }
+                  }} />
+                </div>
+                
+                <div className="max-h-[180px] overflow-y-auto pr-1 custom-scrollbar mt-3">
+                  <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-2">
+                    {Object.entries(courseStats)
+                      .sort((a, b) => b[1].open - a[1].open)
+                      .map(([course, stats], index) => (
+                        <div key={course} className="bg-gray-50 dark:bg-gray-800/80 p-2 rounded-lg border border-gray-100 dark:border-gray-700 shadow-sm hover:shadow-md transition-all duration-200">
+                          <div className="flex justify-between items-center">
+                            <div className="flex items-center">
+                              <div className={`w-3 h-3 rounded-full ${getCategoryColor(index)} mr-2`}></div>
+                              <span className="text-xs font-medium text-gray-700 dark:text-gray-300 truncate max-w-[130px]">
+                                {course}
+                              </span>
+                            </div>
+                            <div className="flex items-center bg-white dark:bg-gray-700 px-1.5 py-0.5 rounded-md shadow-sm">
+                              <span className="text-xs font-medium text-gray-700 dark:text-gray-300 mr-1">{stats.open} open</span>
+                              {stats.hours > 0 && (
+                                <span className="text-[10px] text-gray-500 dark:text-gray-400">({stats.hours}h)</span>
+                              )}
+                            </div>
+                          </div>
+                        </div>
+                      ))}
+                  </div>
+                </div>
+              </div>
+            )}
+
             {/* Timeline Chart */}
             {activeChart === 'timeline' && (
               <div className="space-y-4">
@@ -1,21 +1,38 @@
 import { useState, useEffect } from 'react';
 import { Search, Trash2, CheckCircle, Clock, ListTodo, Edit2, X, ChevronLeft, ChevronRight } from 'lucide-react';
 import { TaskEditModal } from './TaskEditModal';
-import type { Task } from '../../../types';
+import { TaskBulkActionBar } from './TaskBulkActionBar';
+import type { Task, TaskUpdates } from '../../../types';
+import type { BulkTaskAction, BulkTaskResult } from '../../../types/task';
+import type { Course } from '../../../types/course';
 
 interface TaskTableProps {
   tasks: Task[];
   onDeleteTask: (taskId: string) => void;
-  onUpdateTask: (taskId: string, task: Partial<Task>) => void;
+  onUpdateTask: (taskId: string, task: TaskUpdates) => void;
+  onUpdateTaskSeries?: (seriesId: string, updates: Partial<Task>) => Promise<void>;
+  onDeleteTaskSeries?: (seriesId: string) => Promise<void>;
+  onBulkAction?: (taskIds: string[], action: BulkTaskAction) => Promise<BulkTaskResult[]>;
+  courses?: Course[];
 }
 
-export function TaskTable({ tasks, onDeleteTask, onUpdateTask }: TaskTableProps) {
+export function TaskTable({ 
+  tasks, 
+  onDeleteTask, 
+  onUpdateTask, 
+  onUpdateTaskSeries, 
+  onDeleteTaskSeries,
+  onBulkAction,
+  courses = []
+}: TaskTableProps) {
   const [searchTerm, setSearchTerm] = useState('');
+  const [courseFilter, setCourseFilter] = useState('all');
   const [editingTask, setEditingTask] = useState<Task | null>(null);
   const [taskToDelete, setTaskToDelete] = useState<string | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
   const [tasksPerPage, setTasksPerPage] = useState(10);
   const [isMobileView, setIsMobileView] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   
   // Check viewport width on mount and window resize
   useEffect(() => {
@@ -36,10 +53,21 @@ export function TaskTable({ tasks, onDeleteTask, onUpdateTask }: TaskTableProps)
   // Reset current page when tasks change
   useEffect(() => {
     setCurrentPage(1);
-  }, [tasks.length]);
+  }, [tasks.length, courseFilter]);
 
-  // Filter tasks based on search term
+  // Drop selections for tasks that are no longer listed
+  useEffect(() => {
+    setSelectedIds(prev => {
+      const ids = new Set(tasks.map(task => task.id));
+      const next = new Set([...prev].filter(id => ids.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [tasks]);
+
+  // Filter tasks based on course and search term
   const filteredTasks = tasks.filter(task => {
+    if (courseFilter === 'none' && task.courseId) return false;
+    if (courseFilter !== 'all' && courseFilter !== 'none' && task.courseId !== courseFilter) return false;
     if (!searchTerm) return true;
     
     const term = searchTerm.toLowerCase();
@@ -56,6 +84,29 @@ export function TaskTable({ tasks, onDeleteTask, onUpdateTask }: TaskTableProps)
   const currentTasks = filteredTasks.slice(indexOfFirstTask, indexOfLastTask);
   const totalPages = Math.ceil(filteredTasks.length / tasksPerPage);
   
+  const selectedTasks = tasks.filter(task => selectedIds.has(task.id));
+  const allOnPageSelected = currentTasks.length > 0 && currentTasks.every(task => selectedIds.has(task.id));
+
+  const toggleSelected = (taskId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(taskId)) {
+        next.delete(taskId);
+      } else {
+        next.add(taskId);
+      }
+      return next;
+    });
+  };
+
+  const togglePageSelected = () => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      currentTasks.forEach(task => allOnPageSelected ? next.delete(task.id) : next.add(task.id));
+      return next;
+    });
+  };
+
   // Change page
   const goToPage = (pageNumber: number) => {
     setCurrentPage(Math.max(1, Math.min(pageNumber, totalPages)));
@@ -120,27 +171,53 @@ export function TaskTable({ tasks, onDeleteTask, onUpdateTask }: TaskTableProps)
       <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex flex-col sm:flex-row justify-between gap-4">
         <h3 className="text-lg font-semibold text-gray-800 dark:text-white">Tasks</h3>
         
-        {/* Search Bar */}
-        <div className="relative max-w-xs w-full">
-          <input
-            type="text"
-            placeholder="Search tasks..."
-            value={searchTerm}
-            onChange={(e) => setSearchTerm(e.target.value)}
-            className="w-full pl-10 pr-10 py-2 border dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm"
-          />
-          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
-          {searchTerm && (
-            <button
-              onClick={() => setSearchTerm('')}
-              className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+        <div className="flex flex-col sm:flex-row gap-2 sm:max-w-lg w-full sm:justify-end">
+          {courses.length > 0 && (
+            <select
+              value={courseFilter}
+              onChange={(e) => setCourseFilter(e.target.value)}
+              className="px-3 py-2 border dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm"
+              aria-label="Filter by course"
             >
-              <X className="w-4 h-4" />
-            </button>
+              <option value="all">All courses</option>
+              <option value="none">No course</option>
+              {courses.map(course => (
+                <option key={course.id} value={course.id}>{course.code}</option>
+              ))}
+            </select>
           )}
+          
+          {/* Search Bar */}
+          <div className="relative sm:max-w-xs w-full">
+            <input
+              type="text"
+              placeholder="Search tasks..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="w-full pl-10 pr-10 py-2 border dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm"
+            />
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+            {searchTerm && (
+              <button
+                onClick={() => setSearchTerm('')}
+                className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            )}
+          </div>
         </div>
       </div>
 
+      {onBulkAction && (
+        <TaskBulkActionBar
+          selectedTasks={selectedTasks}
+          onAction={onBulkAction}
+          onClearSelection={() => setSelectedIds(new Set())}
+          onComplete={(failedIds) => setSelectedIds(new Set(failedIds))}
+        />
+      )}
+
       {filteredTasks.length === 0 ? (
         <div className="py-12 text-center">
           <p className="text-gray-500 dark:text-gray-400">
@@ -159,9 +236,20 @@ export function TaskTable({ tasks, onDeleteTask, onUpdateTask }: TaskTableProps)
                     className="p-4 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl shadow-sm"
                   >
                     <div className="flex items-start justify-between mb-2">
-                      <h4 className="font-medium text-gray-900 dark:text-white break-words pr-2">
-                        {truncateText(task.name, 40)}
-                      </h4>
+                      <div className="flex items-start gap-2">
+                        {onBulkAction && (
+                          <input
+                            type="checkbox"
+                            checked={selectedIds.has(task.id)}
+                            onChange={() => toggleSelected(task.id)}
+                            className="mt-1 w-4 h-4 rounded text-blue-600 focus:ring-blue-500"
+                            aria-label={`Select ${task.name}`}
+                          />
+                        )}
+                        <h4 className="font-medium text-gray-900 dark:text-white break-words pr-2">
+                          {truncateText(task.name, 40)}
+                        </h4>
+                      </div>
                       <span className={`inline-flex items-center gap-1 px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(task.status)} shrink-0`}>
                         {getStatusIcon(task.status)}
                         {getStatusLabel(task.status)}
@@ -209,6 +297,17 @@ export function TaskTable({ tasks, onDeleteTask, onUpdateTask }: TaskTableProps)
               <table className="w-full">
                 <thead>
                   <tr className="bg-gray-50 dark:bg-gray-700/50">
+                    {onBulkAction && (
+                      <th className="pl-4 py-3 w-8">
+                        <input
+                          type="checkbox"
+                          checked={allOnPageSelected}
+                          onChange={togglePageSelected}
+                          className="w-4 h-4 rounded text-blue-600 focus:ring-blue-500"
+                          aria-label="Select all tasks on this page"
+                        />
+                      </th>
+                    )}
                     <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
                       Task Name
                     </th>
@@ -230,8 +329,19 @@ export function TaskTable({ tasks, onDeleteTask, onUpdateTask }: TaskTableProps)
                   {currentTasks.map(task => (
                     <tr 
                       key={task.id} 
-                      className="hover:bg-gray-50 dark:hover:bg-gray-700/30 transition-colors"
+                      className={`hover:bg-gray-50 dark:hover:bg-gray-700/30 transition-colors ${selectedIds.has(task.id) ? 'bg-blue-50/50 dark:bg-blue-900/10' : ''}`}
                     >
+                      {onBulkAction && (
+                        <td className="pl-4 py-3">
+                          <input
+                            type="checkbox"
+                            checked={selectedIds.has(task.id)}
+                            onChange={() => toggleSelected(task.id)}
+                            className="w-4 h-4 rounded text-blue-600 focus:ring-blue-500"
+                            aria-label={`Select ${task.name}`}
+                          />
+                        </td>
+                      )}
                       <td className="px-4 py-3 text-sm font-medium text-gray-900 dark:text-white">
                         {task.name}
                       </td>
@@ -401,11 +511,19 @@ export function TaskTable({ tasks, onDeleteTask, onUpdateTask }: TaskTableProps)
       {editingTask && (
         <TaskEditModal
           task={editingTask}
+          courses={courses}
           onClose={() => setEditingTask(null)}
           onUpdate={(updates) => {
             onUpdateTask(editingTask.id, updates);
             setEditingTask(null);
           }}
+          onUpdateSeries={editingTask.seriesId && onUpdateTaskSeries ? async (updates) => {
+            await onUpdateTaskSeries(editingTask.seriesId!, updates);
+            setEditingTask(null);
+          } : undefined}
+          onCancelSeries={editingTask.seriesId && onDeleteTaskSeries
+            ? () => onDeleteTaskSeries(editingTask.seriesId!)
+            : undefined}
         />
       )}
 
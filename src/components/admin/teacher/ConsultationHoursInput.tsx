@@ -0,0 +1,66 @@
+import { Plus, Trash2 } from 'lucide-react';
+import { WEEK } from '../../../utils/routineGrid';
+import type { ConsultationHour } from '../../../types/teacher';
+
+interface ConsultationHoursInputProps {
+  value: ConsultationHour[];
+  onChange: (hours: ConsultationHour[]) => void;
+  error?: string;
+}
+
+export function ConsultationHoursInput({ value, onChange, error }: ConsultationHoursInputProps) {
+  const updateHour = (index: number, changes: Partial<ConsultationHour>) => {
+    onChange(value.map((hour, i) => (i === index ? { ...hour, ...changes } : hour)));
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.map((hour, index) => (
+        <div key={index} className="grid grid-cols-[1fr_auto_auto_auto] gap-2 items-center">
+          <select
+            value={hour.dayOfWeek}
+            onChange={(e) => updateHour(index, { dayOfWeek: e.target.value })}
+            className="w-full px-3 py-2 rounded-xl border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            aria-label="Day"
+          >
+            {WEEK.map(day => <option key={day} value={day}>{day}</option>)}
+          </select>
+          <input
+            type="time"
+            value={hour.startTime}
+            onChange={(e) => updateHour(index, { startTime: e.target.value })}
+            className="px-3 py-2 rounded-xl border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            aria-label="Start time"
+          />
+          <input
+            type="time"
+            value={hour.endTime}
+            onChange={(e) => updateHour(index, { endTime: e.target.value })}
+            className="px-3 py-2 rounded-xl border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            aria-label="End time"
+          />
+          <button
+            type="button"
+            onClick={() => onChange(value.filter((_, i) => i !== index))}
+            className="p-2 text-gray-400 hover:text-red-500 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+            aria-label="Remove consultation hour"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={() => onChange([...value, { dayOfWeek: WEEK[0], startTime: '14:00', endTime: '16:00' }])}
+        className="flex items-center gap-1.5 text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700"
+      >
+        <Plus className="w-4 h-4" />
+        Add consultation hours
+      </button>
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </div>
+  );
+}
+
@@ -1,7 +1,9 @@
 import { useState, useEffect, useRef, useMemo } from 'react';
-import { X, User, Mail, Phone, Building, GraduationCap, Save, CheckCircle } from 'lucide-react';
+import { X, User, Mail, Phone, Building, GraduationCap, Save, CheckCircle, Clock } from 'lucide-react';
 import type { Teacher } from '../../../types/teacher';
 import type { Course } from '../../../types/course';
+import { ConsultationHoursInput } from './ConsultationHoursInput';
+import { validateConsultationHours } from '../../../utils/teacherAvailability';
 
 interface TeacherEditModalProps {
   teacher: Teacher;
@@ -27,6 +29,7 @@ export const TeacherEditModal: React.FC<TeacherEditModalProps> = ({
   const [selectedCourses, setSelectedCourses] = useState<string[]>(
     teacher.courses?.map(course => course.id) || []
   );
+  const [consultationHours, setConsultationHours] = useState(teacher.consultationHours || []);
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
@@ -43,6 +46,7 @@ export const TeacherEditModal: React.FC<TeacherEditModalProps> = ({
       officeRoom: teacher.officeRoom || ''
     });
     setSelectedCourses(teacher.courses?.map(c => c.id) || []);
+    setConsultationHours(teacher.consultationHours || []);
     setErrors({});
   }, [teacher]);
 
@@ -64,6 +68,11 @@ export const TeacherEditModal: React.FC<TeacherEditModalProps> = ({
       newErrors.phone = 'Invalid phone number format';
     }
 
+    const consultationError = validateConsultationHours(consultationHours);
+    if (consultationError) {
+      newErrors.consultationHours = consultationError;
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -83,7 +92,8 @@ export const TeacherEditModal: React.FC<TeacherEditModalProps> = ({
         email: formData.get('email') as string,
         phone: formData.get('phone') as string,
         department: formData.get('department') as string,
-        officeRoom: formData.get('officeRoom') as string
+        officeRoom: formData.get('officeRoom') as string,
+        consultationHours
       };
       
       onSave(teacher.id, updates, selectedCourses);
@@ -220,6 +230,22 @@ export const TeacherEditModal: React.FC<TeacherEditModalProps> = ({
               </div>
             </div>
 
+            {/* Consultation Hours */}
+            <div className="space-y-4">
+              <h3 className="text-sm font-medium text-gray-500 dark:text-gray-400 flex items-center gap-2">
+                <Clock className="w-4 h-4" />
+                Consultation Hours
+              </h3>
+              <ConsultationHoursInput
+                value={consultationHours}
+                onChange={(hours) => {
+                  setConsultationHours(hours);
+                  setErrors(prev => ({ ...prev, consultationHours: '' }));
+                }}
+                error={errors.consultationHours}
+              />
+            </div>
+
             {/* Contact Information */}
             <div className="space-y-4">
               <h3 className="text-sm font-medium text-gray-500 dark:text-gray-400 flex items-center gap-2">
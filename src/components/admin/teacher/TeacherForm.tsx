@@ -3,6 +3,8 @@ import { User, Mail, Phone, Building, GraduationCap, Plus, ChevronUp, ChevronDow
 import type { NewTeacher } from '../../../types/teacher';
 import type { Course } from '../../../types/course';
 import type { Teacher } from '../../../types/teacher';
+import { ConsultationHoursInput } from './ConsultationHoursInput';
+import { validateConsultationHours } from '../../../utils/teacherAvailability';
 
 interface TeacherFormProps {
   courses: Course[];
@@ -15,7 +17,8 @@ export function TeacherForm({ courses, onSubmit }: TeacherFormProps) {
     email: '',
     phone: '',
     department: '',
-    officeRoom: ''
+    officeRoom: '',
+    consultationHours: []
   });
   const [selectedCourses, setSelectedCourses] = useState<string[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -82,6 +85,11 @@ export function TeacherForm({ courses, onSubmit }: TeacherFormProps) {
     if (teacher.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(teacher.email)) {
       newErrors.email = 'Please enter a valid email address';
     }
+
+    const consultationError = validateConsultationHours(teacher.consultationHours || []);
+    if (consultationError) {
+      newErrors.consultationHours = consultationError;
+    }
     
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
@@ -114,7 +122,8 @@ export function TeacherForm({ courses, onSubmit }: TeacherFormProps) {
         email: '',
         phone: '',
         department: '',
-        officeRoom: ''
+        officeRoom: '',
+        consultationHours: []
       });
       setSelectedCourses([]);
       setErrors({});
@@ -551,6 +560,21 @@ export function TeacherForm({ courses, onSubmit }: TeacherFormProps) {
                   <Building className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
                 </div>
               </div>
+
+              {/* Consultation Hours */}
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">
+                  Consultation Hours <span className="ml-1 text-xs text-gray-500">(Optional)</span>
+                </label>
+                <ConsultationHoursInput
+                  value={teacher.consultationHours || []}
+                  onChange={(consultationHours) => {
+                    setTeacher(prev => ({ ...prev, consultationHours }));
+                    setErrors(prev => ({ ...prev, consultationHours: '' }));
+                  }}
+                  error={errors.consultationHours}
+                />
+              </div>
             </div>
 
             <button
@@ -1,9 +1,10 @@
-import { useState } from 'react';
-import { Mail, Lock, User, Phone, Car as IdCard, Loader2 } from 'lucide-react';
+import { useState, useEffect } from 'react';
+import { Mail, Lock, User, Phone, Car as IdCard, Users, Loader2 } from 'lucide-react';
 import { AuthError } from './AuthError';
 import { AuthInput } from './AuthInput';
 import { AuthSubmitButton } from './AuthSubmitButton';
 import { validateEmail, validatePassword, validatePhone, validateStudentId } from '../../utils/authErrors';
+import { fetchKnownSections } from '../../services/auth.service';
 import type { SignupCredentials } from '../../types/auth';
 
 interface SignupFormProps {
@@ -18,8 +19,11 @@ export function SignupForm({ onSubmit, onSwitchToLogin, error }: SignupFormProps
     email: '',
     password: '',
     phone: '',
-    studentId: ''
+    studentId: '',
+    section: ''
   });
+  // null while loading; empty when no course has a section yet, then any section can be typed
+  const [sections, setSections] = useState<string[] | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [localError, setLocalError] = useState<string | null>(null);
   const [touched, setTouched] = useState({
@@ -27,9 +31,16 @@ export function SignupForm({ onSubmit, onSwitchToLogin, error }: SignupFormProps
     email: false,
     password: false,
     phone: false,
-    studentId: false
+    studentId: false,
+    section: false
   });
 
+  useEffect(() => {
+    fetchKnownSections()
+      .then(setSections)
+      .catch(() => setSections([]));
+  }, []);
+
   const validateForm = () => {
     if (!credentials.name.trim()) {
       setLocalError('Name is required');
@@ -51,6 +62,10 @@ export function SignupForm({ onSubmit, onSwitchToLogin, error }: SignupFormProps
       setLocalError('Please enter a valid student ID');
       return false;
     }
+    if (!credentials.section.trim()) {
+      setLocalError('Section is required');
+      return false;
+    }
     return true;
   };
 
@@ -62,7 +77,7 @@ export function SignupForm({ onSubmit, onSwitchToLogin, error }: SignupFormProps
 
     setIsLoading(true);
     try {
-      await onSubmit(credentials);
+      await onSubmit({ ...credentials, section: credentials.section.trim() });
     } catch (err: any) {
       setLocalError(err.message);
     } finally {
@@ -130,6 +145,48 @@ export function SignupForm({ onSubmit, onSwitchToLogin, error }: SignupFormProps
           error={touched.studentId && !validateStudentId(credentials.studentId) ? 'Please enter a valid student ID' : ''}
         />
 
+        {sections && sections.length > 0 ? (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Section
+            </label>
+            <div className="relative">
+              <Users className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 dark:text-gray-500 w-5 h-5" />
+              <select
+                value={credentials.section}
+                onChange={(e) => handleInputChange('section', e.target.value)}
+                className={`
+                  w-full pl-10 pr-4 py-2.5 rounded-xl transition-colors
+                  ${touched.section && !credentials.section
+                    ? 'border-red-500 dark:border-red-500 focus:ring-red-500 focus:border-red-500'
+                    : 'border-gray-300 dark:border-gray-600 focus:ring-blue-500 focus:border-blue-500'
+                  }
+                  dark:bg-gray-700 dark:text-white
+                `}
+                required
+              >
+                <option value="">Select your section</option>
+                {sections.map(section => (
+                  <option key={section} value={section}>{section}</option>
+                ))}
+              </select>
+            </div>
+            {touched.section && !credentials.section && (
+              <p className="mt-1 text-sm text-red-600 dark:text-red-400">Section is required</p>
+            )}
+          </div>
+        ) : (
+          <AuthInput
+            type="text"
+            value={credentials.section}
+            onChange={(value) => handleInputChange('section', value)}
+            label="Section"
+            placeholder={sections ? 'Enter your section (e.g. 63_A)' : 'Loading sections...'}
+            icon={Users}
+            error={touched.section && !credentials.section.trim() ? 'Section is required' : ''}
+          />
+        )}
+
         <AuthInput
           type="password"
           value={credentials.password}
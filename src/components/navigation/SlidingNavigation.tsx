@@ -3,7 +3,7 @@ import {
   Home, Calendar, Bell, Search, X, Settings, Users, LogOut,
   User, ChevronRight, BarChart2, CheckCircle2, Clock, AlertCircle,
   HelpCircle, Share2, Download, Star, Book, FileText, File, Notebook,
-  GraduationCap, ShieldCheck, FolderPlus, BookPlus, BookOpen, CalendarDays
+  GraduationCap, ShieldCheck, FolderPlus, BookPlus, BookOpen, CalendarDays, Archive, DoorOpen
 } from 'lucide-react';
 import { useTheme } from '../../hooks/useTheme';
 import type { NavPage } from '../../types';
@@ -56,6 +56,8 @@ export function SlidingNavigation({
     { id: 'study-materials' as const, label: 'Study Materials', icon: BookOpen },
     { id: 'courses' as const, label: 'Courses', icon: GraduationCap },
     { id: 'routine' as const, label: 'Routine', icon: CalendarDays },
+    { id: 'rooms' as const, label: 'Find a Room', icon: DoorOpen },
+    { id: 'archive' as const, label: 'Archive', icon: Archive },
     { 
       id: 'admin' as const,
       icon: ShieldCheck,
@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import { CalendarPlus, Download, Link, Copy, Check, RefreshCw, Loader2, X } from 'lucide-react';
+import { useAuth } from '../../hooks/useAuth';
+import { buildCalendar, downloadCalendar, type CalendarSlot } from '../../utils/ical';
+import { getCalendarFeedUrl, resetCalendarFeedUrl } from '../../services/calendar.service';
+import type { Task } from '../../types/task';
+
+interface CalendarExportProps {
+  routineName: string;
+  slots: CalendarSlot[];
+  tasks: Task[];
+}
+
+export function CalendarExport({ routineName, slots, tasks }: CalendarExportProps) {
+  const { user } = useAuth();
+  const [isOpen, setIsOpen] = useState(false);
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [loadingFeed, setLoadingFeed] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDownload = () => {
+    const calendar = buildCalendar({
+      name: routineName,
+      slots,
+      tasks: tasks.filter(task => task.status !== 'completed'),
+      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone
+    });
+    downloadCalendar(calendar, `routine-${routineName.replace(/\s+/g, '-')}`);
+  };
+
+  const loadFeed = async (reset = false) => {
+    if (!user) return;
+
+    setLoadingFeed(true);
+    setError(null);
+    setCopied(false);
+    try {
+      setFeedUrl(reset ? await resetCalendarFeedUrl(user.id) : await getCalendarFeedUrl(user.id));
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoadingFeed(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      setError('Could not copy the link. Select it and copy manually.');
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="flex items-center gap-2 px-3 py-2 bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-xl text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors"
+        aria-expanded={isOpen}
+      >
+        <CalendarPlus className="w-4 h-4" />
+        Add to Calendar
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 max-w-[calc(100vw-2rem)] bg-white dark:bg-gray-800 border dark:border-gray-700 rounded-xl shadow-lg z-20 p-4 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white">Add to Calendar</h3>
+            <button
+              onClick={() => setIsOpen(false)}
+              className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 rounded-full"
+              aria-label="Close"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div>
+            <button
+              onClick={handleDownload}
+              className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-medium transition-colors"
+            >
+              <Download className="w-4 h-4" />
+              Download .ics
+            </button>
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              A one-time copy of this routine and your open task deadlines.
+            </p>
+          </div>
+
+          <div className="pt-3 border-t dark:border-gray-700">
+            {!feedUrl ? (
+              <button
+                onClick={() => loadFeed()}
+                disabled={loadingFeed}
+                className="w-full flex items-center justify-center gap-2 px-3 py-2 border border-gray-200 dark:border-gray-600 rounded-lg text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors disabled:opacity-50"
+              >
+                {loadingFeed ? <Loader2 className="w-4 h-4 animate-spin" /> : <Link className="w-4 h-4" />}
+                Get subscription link
+              </button>
+            ) : (
+              <div className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={feedUrl}
+                    readOnly
+                    onFocus={(e) => e.target.select()}
+                    className="flex-1 min-w-0 px-2 py-1.5 border dark:border-gray-600 rounded-lg text-xs dark:bg-gray-700 dark:text-white"
+                  />
+                  <button
+                    onClick={handleCopy}
+                    className="p-2 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg"
+                    title="Copy link"
+                  >
+                    {copied ? <Check className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+                  </button>
+                </div>
+                <button
+                  onClick={() => loadFeed(true)}
+                  disabled={loadingFeed}
+                  className="flex items-center gap-1 text-xs text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400 disabled:opacity-50"
+                >
+                  <RefreshCw className={`w-3 h-3 ${loadingFeed ? 'animate-spin' : ''}`} />
+                  Reset link
+                </button>
+              </div>
+            )}
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Paste this private link into Google or Apple Calendar to stay in sync with the active routine. Keep it secret; reset it if it leaks.
+            </p>
+          </div>
+
+          {error && (
+            <p className="text-xs text-red-600 dark:text-red-400">{error}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+import { useMemo, useState } from 'react';
+import { X, UserCheck, Users, Loader2 } from 'lucide-react';
+import type { RoutineSlot } from '../../types/routine';
+import type { CourseEnrollment } from '../../types/course';
+
+interface MyRoutineSetupProps {
+  slots: (RoutineSlot & { courseCode?: string })[];
+  section?: string;
+  enrollments: CourseEnrollment[];
+  onSave: (section: string, enrollments: CourseEnrollment[]) => Promise<void>;
+  onClose: () => void;
+}
+
+interface CourseOption {
+  courseId: string;
+  label: string;
+  sections: string[];
+}
+
+export function MyRoutineSetup({ slots, section = '', enrollments, onSave, onClose }: MyRoutineSetupProps) {
+  const [mySection, setMySection] = useState(section);
+  const [selected, setSelected] = useState<Map<string, string>>(
+    () => new Map(enrollments.map(enrollment => [enrollment.courseId, enrollment.section || '']))
+  );
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const allSections = useMemo(
+    () => [...new Set(slots.map(slot => slot.section).filter((s): s is string => !!s))].sort(),
+    [slots]
+  );
+
+  // One entry per course in the routine, with the sections that teach it
+  const courseOptions = useMemo(() => {
+    const options = new Map<string, CourseOption>();
+
+    slots.forEach(slot => {
+      if (!slot.courseId) return;
+
+      const option = options.get(slot.courseId) || {
+        courseId: slot.courseId,
+        label: slot.courseCode ? `${slot.courseCode} - ${slot.courseName}` : slot.courseName || 'Untitled course',
+        sections: []
+      };
+      if (slot.section && !option.sections.includes(slot.section)) {
+        option.sections.push(slot.section);
+      }
+      options.set(slot.courseId, option);
+    });
+
+    return [...options.values()].sort((a, b) => a.label.localeCompare(b.label));
+  }, [slots]);
+
+  const toggleCourse = (courseId: string) => {
+    setSelected(prev => {
+      const next = new Map(prev);
+      if (next.has(courseId)) {
+        next.delete(courseId);
+      } else {
+        next.set(courseId, '');
+      }
+      return next;
+    });
+  };
+
+  const setCourseSection = (courseId: string, courseSection: string) => {
+    setSelected(prev => new Map(prev).set(courseId, courseSection));
+  };
+
+  // Pre-select every course taught to the student's own section
+  const selectMySectionCourses = () => {
+    const next = new Map(selected);
+    courseOptions
+      .filter(option => option.sections.some(s => s === mySection.trim()))
+      .forEach(option => {
+        if (!next.has(option.courseId)) next.set(option.courseId, '');
+      });
+    setSelected(next);
+  };
+
+  const handleSave = async () => {
+    if (!mySection.trim()) {
+      setError('Enter your section');
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave(
+        mySection.trim(),
+        [...selected.entries()].map(([courseId, courseSection]) => ({
+          courseId,
+          // Taking a course with your own section is the default, so store nothing
+          section: courseSection && courseSection !== mySection.trim() ? courseSection : undefined
+        }))
+      );
+      onClose();
+    } catch (err: any) {
+      setError(err.message || 'Failed to save your routine');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div
+        className="bg-white dark:bg-gray-800 w-full max-w-lg max-h-[90vh] rounded-xl shadow-xl flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b dark:border-gray-700">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+            <UserCheck className="w-5 h-5 mr-2 text-blue-500" />
+            Set Up My Routine
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full transition-colors"
+            aria-label="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4 overflow-y-auto">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              My section<span className="text-red-500">*</span>
+            </label>
+            <div className="relative">
+              <Users className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+              <input
+                type="text"
+                list="my-routine-sections"
+                value={mySection}
+                onChange={(e) => setMySection(e.target.value)}
+                placeholder="e.g., A1, B2, 01"
+                className="w-full pl-10 pr-3 py-2 border dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm"
+              />
+              <datalist id="my-routine-sections">
+                {allSections.map(s => <option key={s} value={s} />)}
+              </datalist>
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                My courses ({selected.size})
+              </span>
+              <button
+                type="button"
+                onClick={selectMySectionCourses}
+                disabled={!mySection.trim()}
+                className="text-xs text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50 disabled:no-underline"
+              >
+                Add all my section's courses
+              </button>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+              Taking a course with another section, like a retake? Pick that section next to the course.
+            </p>
+
+            {courseOptions.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">This routine has no courses yet.</p>
+            ) : (
+              <div className="space-y-1">
+                {courseOptions.map(option => {
+                  const isSelected = selected.has(option.courseId);
+                  return (
+                    <div
+                      key={option.courseId}
+                      className={`flex items-center gap-2 p-2 rounded-lg ${isSelected ? 'bg-blue-50 dark:bg-blue-900/20' : ''}`}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={isSelected}
+                        onChange={() => toggleCourse(option.courseId)}
+                        className="w-4 h-4 rounded text-blue-600 focus:ring-blue-500"
+                        aria-label={option.label}
+                      />
+                      <span className="flex-1 min-w-0 text-sm text-gray-800 dark:text-gray-200 truncate">
+                        {option.label}
+                      </span>
+                      {isSelected && option.sections.length > 0 && (
+                        <select
+                          value={selected.get(option.courseId) || ''}
+                          onChange={(e) => setCourseSection(option.courseId, e.target.value)}
+                          className="px-2 py-1 border dark:border-gray-600 rounded-lg text-xs dark:bg-gray-700 dark:text-white"
+                          aria-label={`Section for ${option.label}`}
+                        >
+                          <option value="">My section</option>
+                          {option.sections.filter(s => s !== mySection.trim()).map(s => (
+                            <option key={s} value={s}>Section {s}</option>
+                          ))}
+                        </select>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          {error && (
+            <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 p-4 border-t dark:border-gray-700">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isSaving}
+            className="px-4 py-2 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 rounded-lg font-medium text-sm transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={isSaving}
+            className="flex items-center gap-2 px-5 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium text-sm transition-colors disabled:opacity-50"
+          >
+            {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
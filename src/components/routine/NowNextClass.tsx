@@ -0,0 +1,97 @@
+import { Clock, MapPin, User, ArrowRight, Bell, BellOff } from 'lucide-react';
+import { slotLabel, type useClassStatus } from '../../hooks/useClassStatus';
+import { formatDuration } from '../../utils/nowNext';
+
+interface NowNextClassProps {
+  status: ReturnType<typeof useClassStatus>;
+}
+
+// Home screen card for the class running now and the next one
+export function NowNextClass({ status }: NowNextClassProps) {
+  const { hasClasses, current, next, nextWhen, notify, notifyError, toggleNotification } = status;
+
+  if (!hasClasses) return null;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-2xl p-5 shadow-sm">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+          <Clock className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+          Classes
+        </h2>
+        <button
+          onClick={toggleNotification}
+          className={`p-2 rounded-lg transition-colors ${
+            notify
+              ? 'text-blue-600 bg-blue-50 dark:text-blue-400 dark:bg-blue-900/20'
+              : 'text-gray-400 hover:text-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700'
+          }`}
+          title={notify ? 'Stop showing in notifications' : 'Show in notifications'}
+          aria-pressed={notify}
+        >
+          {notify ? <Bell className="w-4 h-4" /> : <BellOff className="w-4 h-4" />}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div className={`rounded-xl p-4 ${current ? 'bg-blue-600 text-white' : 'bg-gray-50 dark:bg-gray-700/50'}`}>
+          <p className={`text-xs font-medium uppercase tracking-wide ${current ? 'text-blue-100' : 'text-gray-500 dark:text-gray-400'}`}>
+            Now
+          </p>
+          {current ? (
+            <>
+              <p className="mt-1 text-lg font-bold truncate">
+                {slotLabel(current.slot)}
+                {current.slot.courseCode && current.slot.courseName && (
+                  <span className="ml-2 text-sm font-normal text-blue-100">{current.slot.courseName}</span>
+                )}
+              </p>
+              <p className="text-2xl font-bold mt-2">{formatDuration(current.minutesLeft)} left</p>
+              <div className="mt-2 flex flex-wrap gap-x-3 gap-y-1 text-sm text-blue-100">
+                {current.slot.roomNumber && (
+                  <span className="flex items-center gap-1"><MapPin className="w-3.5 h-3.5" />Room {current.slot.roomNumber}</span>
+                )}
+                {current.slot.teacherName && (
+                  <span className="flex items-center gap-1"><User className="w-3.5 h-3.5" />{current.slot.teacherName}</span>
+                )}
+              </div>
+              {current.slot.override?.type === 'room-changed' && (
+                <p className="mt-1 text-xs text-yellow-200">Room changed today</p>
+              )}
+            </>
+          ) : (
+            <p className="mt-1 text-sm text-gray-600 dark:text-gray-300">No class right now</p>
+          )}
+        </div>
+
+        <div className="rounded-xl p-4 bg-gray-50 dark:bg-gray-700/50">
+          <p className="text-xs font-medium uppercase tracking-wide text-gray-500 dark:text-gray-400 flex items-center gap-1">
+            Next <ArrowRight className="w-3 h-3" />
+          </p>
+          {next ? (
+            <>
+              <p className="mt-1 text-lg font-bold text-gray-900 dark:text-white truncate">{slotLabel(next.slot)}</p>
+              <p className="text-sm text-gray-700 dark:text-gray-300">
+                {nextWhen} · in {formatDuration(next.minutesUntil)}
+              </p>
+              <div className="mt-2 flex flex-wrap gap-x-3 gap-y-1 text-sm text-gray-500 dark:text-gray-400">
+                {next.slot.roomNumber && (
+                  <span className="flex items-center gap-1"><MapPin className="w-3.5 h-3.5" />Room {next.slot.roomNumber}</span>
+                )}
+                {next.slot.teacherName && (
+                  <span className="flex items-center gap-1"><User className="w-3.5 h-3.5" />{next.slot.teacherName}</span>
+                )}
+              </div>
+            </>
+          ) : (
+            <p className="mt-1 text-sm text-gray-600 dark:text-gray-300">No more classes this week</p>
+          )}
+        </div>
+      </div>
+
+      {notifyError && (
+        <p className="mt-3 text-xs text-red-600 dark:text-red-400">{notifyError}</p>
+      )}
+    </div>
+  );
+}
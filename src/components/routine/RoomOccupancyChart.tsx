@@ -0,0 +1,79 @@
+import { formatClassTime } from '../../utils/nowNext';
+import { toMinutes } from '../../utils/routineClashes';
+import type { DayOccupancy } from '../../utils/roomAvailability';
+import type { RoutineSlot } from '../../types/routine';
+
+interface RoomOccupancyChartProps {
+  room: string;
+  occupancy: DayOccupancy<RoutineSlot & { courseCode?: string }>[];
+  teachingDay: { start: number; end: number };
+  highlight?: { day: string; startTime: string; endTime: string }; // the range being searched
+}
+
+// Weekly timeline for one room: a row per day with its classes placed along the teaching day
+export function RoomOccupancyChart({ room, occupancy, teachingDay, highlight }: RoomOccupancyChartProps) {
+  const dayLength = Math.max(1, teachingDay.end - teachingDay.start);
+  const position = (start: number, end: number) => ({
+    left: `${Math.max(0, ((start - teachingDay.start) / dayLength) * 100)}%`,
+    width: `${Math.max(0, Math.min(end, teachingDay.end) - Math.max(start, teachingDay.start)) / dayLength * 100}%`
+  });
+
+  const firstHour = Math.ceil(teachingDay.start / 60);
+  const lastHour = Math.floor(teachingDay.end / 60);
+  const hours = Array.from({ length: Math.max(0, lastHour - firstHour + 1) }, (_, i) => firstHour + i);
+  const totalBooked = occupancy.reduce((sum, day) => sum + day.bookedMinutes, 0);
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-4 sm:p-5">
+      <div className="flex items-baseline justify-between mb-4">
+        <h3 className="text-base font-semibold text-gray-900 dark:text-white">Room {room} this week</h3>
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          {Math.round(totalBooked / 60 * 10) / 10}h booked
+        </span>
+      </div>
+
+      <div className="grid grid-cols-[72px_1fr_40px] gap-x-2 gap-y-2 items-center">
+        <div />
+        <div className="relative h-4">
+          {hours.map(hour => (
+            <span
+              key={hour}
+              className="absolute -translate-x-1/2 text-[10px] text-gray-400 dark:text-gray-500"
+              style={{ left: `${((hour * 60 - teachingDay.start) / dayLength) * 100}%` }}
+            >
+              {hour % 12 || 12}{hour >= 12 ? 'p' : 'a'}
+            </span>
+          ))}
+        </div>
+        <div />
+
+        {occupancy.map(({ day, slots, percent }) => (
+          <div key={day} className="contents">
+            <span className="text-xs font-medium text-gray-600 dark:text-gray-300">{day.slice(0, 3)}</span>
+            <div className="relative h-8 bg-gray-100 dark:bg-gray-700/50 rounded-md overflow-hidden">
+              {highlight?.day === day && (
+                <div
+                  className="absolute inset-y-0 bg-green-200/60 dark:bg-green-800/40 border-x border-green-500"
+                  style={position(toMinutes(highlight.startTime), toMinutes(highlight.endTime))}
+                />
+              )}
+              {slots.map(slot => (
+                <div
+                  key={slot.id}
+                  className="absolute inset-y-1 bg-blue-500/80 dark:bg-blue-500/70 rounded px-1 overflow-hidden"
+                  style={position(toMinutes(slot.startTime), toMinutes(slot.endTime))}
+                  title={`${slot.courseCode || slot.courseName || 'Class'}${slot.section ? ` (${slot.section})` : ''} · ${formatClassTime(slot.startTime)} - ${formatClassTime(slot.endTime)}`}
+                >
+                  <span className="text-[10px] leading-6 text-white whitespace-nowrap">
+                    {slot.courseCode || slot.courseName}
+                  </span>
+                </div>
+              ))}
+            </div>
+            <span className="text-xs text-right text-gray-500 dark:text-gray-400">{percent}%</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import { useMemo, useState } from 'react';
+import { LayoutGrid, FileImage, FileText, Loader2, X } from 'lucide-react';
+import { renderRoutineGrid, canvasToPng, canvasToPdf, downloadBlob, type GridSlot } from '../../utils/routineGrid';
+
+interface RoutineGridExportProps {
+  routineName: string;
+  semester: string;
+  slots: GridSlot[];
+  mySlots?: GridSlot[]; // the student's own routine, when they have set one up
+}
+
+// Scopes are 'all', 'mine' or 'section:<name>'; empty picks My Routine when there is one
+export function RoutineGridExport({ routineName, semester, slots, mySlots = [] }: RoutineGridExportProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [selectedScope, setScope] = useState('');
+  const [exporting, setExporting] = useState<'png' | 'pdf' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const sections = useMemo(
+    () => [...new Set(slots.map(slot => slot.section).filter((s): s is string => !!s))].sort(),
+    [slots]
+  );
+
+  const defaultScope = mySlots.length > 0 ? 'mine' : 'all';
+  const scope = selectedScope === 'mine' && mySlots.length === 0 ? 'all' : selectedScope || defaultScope;
+
+  const scopeSlots = () => {
+    if (scope === 'mine') return mySlots;
+    if (scope.startsWith('section:')) {
+      const section = scope.slice('section:'.length);
+      return slots.filter(slot => !slot.section || slot.section === section);
+    }
+    return slots;
+  };
+
+  const scopeLabel = scope === 'mine'
+    ? 'My Routine'
+    : scope.startsWith('section:')
+      ? `Section ${scope.slice('section:'.length)}`
+      : 'All sections';
+
+  const handleExport = async (type: 'png' | 'pdf') => {
+    const exportSlots = scopeSlots();
+    if (exportSlots.length === 0) {
+      setError('There are no classes to export');
+      return;
+    }
+
+    setExporting(type);
+    setError(null);
+    try {
+      const canvas = renderRoutineGrid(exportSlots, {
+        title: routineName,
+        subtitle: `${semester} · ${scopeLabel}`,
+        showSections: scope === 'all' || scope === 'mine'
+      });
+      const filename = `routine-${routineName}-${scopeLabel}`.replace(/\s+/g, '-');
+
+      if (type === 'png') {
+        downloadBlob(await canvasToPng(canvas), `${filename}.png`);
+      } else {
+        downloadBlob(canvasToPdf(canvas), `${filename}.pdf`);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to export the routine');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="flex items-center gap-2 px-3 py-2 bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-xl text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors"
+        aria-expanded={isOpen}
+      >
+        <LayoutGrid className="w-4 h-4" />
+        Export Grid
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-72 max-w-[calc(100vw-2rem)] bg-white dark:bg-gray-800 border dark:border-gray-700 rounded-xl shadow-lg z-20 p-4 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white">Export Week Grid</h3>
+            <button
+              onClick={() => setIsOpen(false)}
+              className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 rounded-full"
+              aria-label="Close"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          <select
+            value={scope}
+            onChange={(e) => setScope(e.target.value)}
+            className="w-full px-3 py-2 border dark:border-gray-600 rounded-lg text-sm dark:bg-gray-700 dark:text-white"
+            aria-label="Classes to include"
+          >
+            {mySlots.length > 0 && <option value="mine">My Routine</option>}
+            <option value="all">All sections</option>
+            {sections.map(section => (
+              <option key={section} value={`section:${section}`}>Section {section}</option>
+            ))}
+          </select>
+
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={() => handleExport('png')}
+              disabled={exporting !== null}
+              className="flex items-center justify-center gap-2 px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+            >
+              {exporting === 'png' ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileImage className="w-4 h-4" />}
+              PNG
+            </button>
+            <button
+              onClick={() => handleExport('pdf')}
+              disabled={exporting !== null}
+              className="flex items-center justify-center gap-2 px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+            >
+              {exporting === 'pdf' ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileText className="w-4 h-4" />}
+              PDF
+            </button>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            PNG for sharing in chats, PDF for printing on A4.
+          </p>
+
+          {error && (
+            <p className="text-xs text-red-600 dark:text-red-400">{error}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
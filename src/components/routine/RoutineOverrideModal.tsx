@@ -0,0 +1,245 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { X, CalendarClock, Loader2 } from 'lucide-react';
+import { OVERRIDE_TYPE_LABELS } from '../../utils/routineOverrides';
+import type { RoutineSlot, RoutineOverrideType, NewRoutineSlotOverride } from '../../types/routine';
+import type { Course } from '../../types/course';
+import type { Teacher } from '../../types/teacher';
+
+interface RoutineOverrideModalProps {
+  routineId: string;
+  date: string; // yyyy-MM-dd
+  slot?: RoutineSlot & { courseName?: string }; // leave out to add an extra class
+  courses: Course[];
+  teachers: Teacher[];
+  onSubmit: (override: NewRoutineSlotOverride) => Promise<void>;
+  onClose: () => void;
+}
+
+const SLOT_OVERRIDE_TYPES: RoutineOverrideType[] = ['cancelled', 'rescheduled', 'room-changed'];
+
+const inputClass = 'w-full px-3 py-2 border dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm';
+const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+export function RoutineOverrideModal({
+  routineId,
+  date,
+  slot,
+  courses,
+  teachers,
+  onSubmit,
+  onClose
+}: RoutineOverrideModalProps) {
+  const [type, setType] = useState<RoutineOverrideType>(slot ? 'cancelled' : 'extra');
+  const [newDate, setNewDate] = useState(date);
+  const [startTime, setStartTime] = useState(slot?.startTime.slice(0, 5) || '08:00');
+  const [endTime, setEndTime] = useState(slot?.endTime.slice(0, 5) || '09:30');
+  const [roomNumber, setRoomNumber] = useState(slot?.roomNumber || '');
+  const [courseId, setCourseId] = useState('');
+  const [teacherId, setTeacherId] = useState('');
+  const [section, setSection] = useState('');
+  const [note, setNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const needsTimes = type === 'rescheduled' || type === 'extra';
+  const needsRoom = type !== 'cancelled';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (needsTimes && startTime >= endTime) {
+      setError('End time must be after start time');
+      return;
+    }
+    if (type === 'room-changed' && !roomNumber.trim()) {
+      setError('Enter the new room');
+      return;
+    }
+    if (type === 'rescheduled' && newDate === date && startTime === slot?.startTime.slice(0, 5)) {
+      setError('Pick a different date or time');
+      return;
+    }
+    if (type === 'extra' && !courseId) {
+      setError('Select a course');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await onSubmit({
+        routineId,
+        slotId: slot?.id,
+        date,
+        type,
+        newDate: type === 'rescheduled' ? newDate : undefined,
+        startTime: needsTimes ? startTime : undefined,
+        endTime: needsTimes ? endTime : undefined,
+        roomNumber: needsRoom ? roomNumber.trim() || undefined : undefined,
+        courseId: type === 'extra' ? courseId : undefined,
+        teacherId: type === 'extra' ? teacherId || undefined : undefined,
+        section: type === 'extra' ? section.trim() || undefined : undefined,
+        note: note.trim() || undefined
+      });
+      onClose();
+    } catch (err: any) {
+      setError(err.message || 'Failed to save the change');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4 overflow-y-auto" onClick={onClose}>
+      <div
+        className="bg-white dark:bg-gray-800 w-full max-w-md rounded-xl shadow-xl overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b dark:border-gray-700">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+            <CalendarClock className="w-5 h-5 mr-2 text-blue-500" />
+            {slot ? 'Change Class' : 'Add Extra Class'}
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full transition-colors"
+            aria-label="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-5 space-y-4">
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {slot ? `${slot.courseName || 'Class'} · ` : ''}{format(parseISO(date), 'EEEE, MMMM d')}
+          </p>
+
+          {slot && (
+            <div className="flex flex-wrap gap-2">
+              {SLOT_OVERRIDE_TYPES.map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setType(option)}
+                  aria-pressed={type === option}
+                  className={`px-3 py-1.5 text-xs font-medium rounded-full border transition-colors ${
+                    type === option
+                      ? 'bg-blue-600 border-blue-600 text-white'
+                      : 'bg-white border-gray-200 text-gray-600 hover:border-blue-300 dark:bg-gray-800 dark:border-gray-600 dark:text-gray-300'
+                  }`}
+                >
+                  {OVERRIDE_TYPE_LABELS[option]}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {type === 'extra' && (
+            <>
+              <div>
+                <label className={labelClass}>Course<span className="text-red-500">*</span></label>
+                <select value={courseId} onChange={(e) => setCourseId(e.target.value)} className={inputClass} required>
+                  <option value="">Select a course</option>
+                  {courses.map(course => (
+                    <option key={course.id} value={course.id}>{course.code} - {course.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className={labelClass}>Teacher</label>
+                  <select value={teacherId} onChange={(e) => setTeacherId(e.target.value)} className={inputClass}>
+                    <option value="">Select a teacher</option>
+                    {teachers.map(teacher => (
+                      <option key={teacher.id} value={teacher.id}>{teacher.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className={labelClass}>Section</label>
+                  <input
+                    type="text"
+                    value={section}
+                    onChange={(e) => setSection(e.target.value)}
+                    placeholder="Everyone"
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+            </>
+          )}
+
+          {type === 'rescheduled' && (
+            <div>
+              <label className={labelClass}>New date<span className="text-red-500">*</span></label>
+              <input type="date" value={newDate} onChange={(e) => setNewDate(e.target.value)} className={inputClass} required />
+            </div>
+          )}
+
+          {needsTimes && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className={labelClass}>Start time<span className="text-red-500">*</span></label>
+                <input type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} className={inputClass} required />
+              </div>
+              <div>
+                <label className={labelClass}>End time<span className="text-red-500">*</span></label>
+                <input type="time" value={endTime} onChange={(e) => setEndTime(e.target.value)} className={inputClass} required />
+              </div>
+            </div>
+          )}
+
+          {needsRoom && (
+            <div>
+              <label className={labelClass}>
+                Room{type === 'room-changed' && <span className="text-red-500">*</span>}
+              </label>
+              <input
+                type="text"
+                value={roomNumber}
+                onChange={(e) => setRoomNumber(e.target.value)}
+                placeholder="e.g., KT-512, Lab-3"
+                className={inputClass}
+              />
+            </div>
+          )}
+
+          <div>
+            <label className={labelClass}>Note for students</label>
+            <input
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Optional"
+              className={inputClass}
+            />
+          </div>
+
+          {error && (
+            <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+          )}
+
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={isSubmitting}
+              className="px-4 py-2 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 rounded-lg font-medium text-sm transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="flex items-center gap-2 px-5 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium text-sm transition-colors disabled:opacity-50"
+            >
+              {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+              Save and notify
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,9 @@
-import { useState } from 'react';
-import { Bell, Loader2, AlertCircle } from 'lucide-react';
+import { useState, useEffect } from 'react';
+import { Bell, Loader2, AlertCircle, AlarmClock } from 'lucide-react';
 import { usePushNotifications } from '../../hooks/usePushNotifications';
+import { useAuth } from '../../hooks/useAuth';
+import { fetchReminderPreferences, saveReminderPreferences, DEFAULT_REMINDER_OFFSETS } from '../../services/reminder.service';
+import { ReminderOffsetPicker } from './ReminderOffsetPicker';
 
 export function NotificationSettings() {
   const { 
@@ -11,7 +14,36 @@ export function NotificationSettings() {
     unsubscribe 
   } = usePushNotifications();
 
+  const { user } = useAuth();
   const [isUpdating, setIsUpdating] = useState(false);
+  const [reminderOffsets, setReminderOffsets] = useState<number[]>(DEFAULT_REMINDER_OFFSETS);
+  const [savingReminders, setSavingReminders] = useState(false);
+  const [reminderError, setReminderError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user || !isSubscribed) return;
+
+    fetchReminderPreferences(user.id)
+      .then(setReminderOffsets)
+      .catch(err => setReminderError(err.message));
+  }, [user, isSubscribed]);
+
+  const handleReminderChange = async (offsets: number[]) => {
+    if (!user) return;
+
+    const previous = reminderOffsets;
+    setReminderOffsets(offsets);
+    setSavingReminders(true);
+    setReminderError(null);
+    try {
+      await saveReminderPreferences(user.id, offsets);
+    } catch (err: any) {
+      setReminderOffsets(previous);
+      setReminderError(err.message);
+    } finally {
+      setSavingReminders(false);
+    }
+  };
 
   const handleToggle = async () => {
     setIsUpdating(true);
@@ -130,6 +162,33 @@ export function NotificationSettings() {
           </ul>
         </div>
       )}
+
+      {isSubscribed && (
+        <div className="pt-4 border-t border-gray-100 dark:border-gray-700">
+          <div className="flex items-center gap-2 mb-1">
+            <AlarmClock className="w-4 h-4 text-blue-600 dark:text-blue-400" />
+            <h4 className="text-sm font-medium text-gray-900 dark:text-white">
+              Deadline reminders
+            </h4>
+            {savingReminders && (
+              <Loader2 className="w-3.5 h-3.5 text-gray-400 animate-spin" />
+            )}
+          </div>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+            {reminderOffsets.length > 0
+              ? 'Remind me before a task is due. You can change this for individual tasks.'
+              : 'Deadline reminders are off. Pick when you want to be reminded.'}
+          </p>
+          <ReminderOffsetPicker
+            offsets={reminderOffsets}
+            onChange={handleReminderChange}
+            disabled={savingReminders}
+          />
+          {reminderError && (
+            <p className="mt-2 text-sm text-red-600 dark:text-red-400">{reminderError}</p>
+          )}
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
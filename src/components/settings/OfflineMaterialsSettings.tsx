@@ -0,0 +1,111 @@
+import { useState, useEffect } from 'react';
+import { HardDrive, Trash2, FileText } from 'lucide-react';
+import { usePinnedMaterials } from '../../hooks/usePinnedMaterials';
+import {
+  formatBytes,
+  getStorageEstimate,
+  isOfflineStorageSupported,
+  removeMissingPinnedMaterials,
+  type StorageEstimate
+} from '../../utils/offlineMaterials';
+
+export function OfflineMaterialsSettings() {
+  const { pinned, error, remove, removeAll } = usePinnedMaterials();
+  const [estimate, setEstimate] = useState<StorageEstimate | null>(null);
+
+  useEffect(() => {
+    removeMissingPinnedMaterials().catch(err => {
+      console.error('Error checking offline files:', err);
+    });
+  }, []);
+
+  // Re-estimated whenever files are saved or removed
+  useEffect(() => {
+    getStorageEstimate()
+      .then(setEstimate)
+      .catch(err => console.error('Error estimating storage:', err));
+  }, [pinned]);
+
+  const savedBytes = pinned.reduce(
+    (total, material) => total + material.files.reduce((sum, file) => sum + file.size, 0),
+    0
+  );
+  const usedPercent = estimate && estimate.quota > 0
+    ? Math.min(100, (estimate.usage / estimate.quota) * 100)
+    : 0;
+
+  if (!isOfflineStorageSupported()) return null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-blue-900/10 dark:bg-blue-100/10 rounded-lg">
+            <HardDrive className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+          </div>
+          <div>
+            <h3 className="font-medium text-gray-900 dark:text-gray-100">Offline Files</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {pinned.length === 0
+                ? 'Save study materials for offline from their cards'
+                : `${pinned.length} ${pinned.length === 1 ? 'material' : 'materials'} · ${formatBytes(savedBytes)}`}
+            </p>
+          </div>
+        </div>
+        {pinned.length > 0 && (
+          <button
+            onClick={removeAll}
+            className="text-sm text-red-600 dark:text-red-400 hover:underline"
+          >
+            Remove all
+          </button>
+        )}
+      </div>
+
+      {estimate && estimate.quota > 0 && (
+        <div>
+          <div className="w-full h-2 bg-gray-200 dark:bg-dark-600 rounded-full overflow-hidden">
+            <div
+              className={`h-full rounded-full transition-all duration-300 ${
+                usedPercent > 90 ? 'bg-red-500' : usedPercent > 70 ? 'bg-yellow-500' : 'bg-blue-600'
+              }`}
+              style={{ width: `${usedPercent}%` }}
+            />
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            {formatBytes(estimate.usage)} of {formatBytes(estimate.quota)} used by the app on this device
+          </p>
+        </div>
+      )}
+
+      {pinned.length > 0 && (
+        <ul className="max-h-48 overflow-y-auto divide-y divide-gray-100 dark:divide-dark-600">
+          {pinned.map(material => (
+            <li key={material.materialId} className="flex items-center gap-3 py-2">
+              <FileText className="w-4 h-4 text-gray-400 shrink-0" />
+              <div className="min-w-0 flex-grow">
+                <p className="text-sm text-gray-900 dark:text-gray-100 truncate">{material.title}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                  {material.courseName ? `${material.courseName} · ` : ''}
+                  {material.files.length} {material.files.length === 1 ? 'file' : 'files'} ·{' '}
+                  {formatBytes(material.files.reduce((sum, file) => sum + file.size, 0))}
+                </p>
+              </div>
+              <button
+                onClick={() => remove(material.materialId)}
+                className="p-1.5 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                aria-label={`Remove offline copy of ${material.title}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { REMINDER_OFFSET_OPTIONS } from '../../services/reminder.service';
+
+interface ReminderOffsetPickerProps {
+  offsets: number[];
+  onChange: (offsets: number[]) => void;
+  disabled?: boolean;
+}
+
+export function ReminderOffsetPicker({ offsets, onChange, disabled = false }: ReminderOffsetPickerProps) {
+  const toggleOffset = (minutes: number) => {
+    const next = offsets.includes(minutes)
+      ? offsets.filter(offset => offset !== minutes)
+      : [...offsets, minutes];
+    onChange(next.sort((a, b) => b - a));
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {REMINDER_OFFSET_OPTIONS.map(option => {
+        const selected = offsets.includes(option.minutes);
+        return (
+          <button
+            key={option.minutes}
+            type="button"
+            onClick={() => toggleOffset(option.minutes)}
+            disabled={disabled}
+            aria-pressed={selected}
+            className={`px-3 py-1.5 text-xs font-medium rounded-full border transition-colors disabled:opacity-50 disabled:cursor-not-allowed
+              ${selected
+                ? 'bg-blue-600 border-blue-600 text-white dark:bg-blue-500 dark:border-blue-500'
+                : 'bg-white border-gray-200 text-gray-600 hover:border-blue-300 dark:bg-gray-800 dark:border-gray-600 dark:text-gray-300'}`}
+          >
+            {option.label} before
+          </button>
+        );
+      })}
+    </div>
+  );
+}
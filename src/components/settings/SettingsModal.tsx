@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { X, Bell, Moon, Shield } from 'lucide-react';
 import { useAuth } from '../../hooks/useAuth';
 import { NotificationSettings } from './NotificationSettings';
+import { OfflineMaterialsSettings } from './OfflineMaterialsSettings';
 
 interface SettingsModalProps {
   onClose: () => void;
@@ -51,7 +52,7 @@ export function SettingsModal({ onClose }: SettingsModalProps) {
           </div>
 
           {/* Settings Content */}
-          <div className="p-6 space-y-6">
+          <div className="p-6 space-y-6 max-h-[75vh] overflow-y-auto">
             {/* Notifications */}
             <NotificationSettings />
 
@@ -83,6 +84,9 @@ export function SettingsModal({ onClose }: SettingsModalProps) {
               </label>
             </div>
 
+            {/* Offline Files */}
+            <OfflineMaterialsSettings />
+
             {/* Account Type */}
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-3">
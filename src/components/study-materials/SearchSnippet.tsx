@@ -0,0 +1,42 @@
+import { FileText } from 'lucide-react';
+import type { StudyMaterialSearchMatch } from '../../types/course';
+
+interface SearchSnippetProps {
+  match: StudyMaterialSearchMatch;
+  fileUrl?: string;
+}
+
+// Renders <mark> highlights from the search as React elements; snippets come from uploaded files, so never as HTML
+function highlight(snippet: string) {
+  return snippet.split(/(<mark>.*?<\/mark>)/g).map((part, index) =>
+    part.startsWith('<mark>')
+      ? <mark key={index} className="bg-yellow-200 dark:bg-yellow-700/60 text-inherit rounded px-0.5">{part.slice(6, -7)}</mark>
+      : part
+  );
+}
+
+export function SearchSnippet({ match, fileUrl }: SearchSnippetProps) {
+  // PDF viewers open at #page=N
+  const pageUrl = fileUrl && match.pageNumber && fileUrl.toLowerCase().endsWith('.pdf')
+    ? `${fileUrl}#page=${match.pageNumber}`
+    : fileUrl;
+
+  return (
+    <div className="text-xs text-gray-600 dark:text-gray-300 bg-gray-50 dark:bg-gray-700/50 rounded-lg p-2">
+      {match.fileName && (
+        <a
+          href={pageUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          onClick={(e) => e.stopPropagation()}
+          className="flex items-center gap-1 mb-1 font-medium text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          <FileText className="w-3 h-3 shrink-0" />
+          <span className="truncate">{match.fileName}</span>
+          {match.pageNumber && <span className="shrink-0">· page {match.pageNumber}</span>}
+        </a>
+      )}
+      <p className="line-clamp-3">{highlight(match.snippet)}</p>
+    </div>
+  );
+}
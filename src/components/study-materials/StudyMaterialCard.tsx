@@ -7,17 +7,45 @@ import {
   ExternalLink,
   Eye,
   Clock,
-  Tag
+  Tag,
+  RefreshCw,
+  HardDriveDownload,
+  CheckCircle,
+  Loader2
 } from 'lucide-react';
 import { motion } from 'framer-motion';
-import type { StudyMaterial } from '../../types/course';
+import { SearchSnippet } from './SearchSnippet';
+import type { PinStatus } from '../../utils/offlineMaterials';
+import type { StudyMaterial, StudyMaterialSearchMatch } from '../../types/course';
+
+// How long a material stays flagged as updated after new files are uploaded
+const UPDATED_BADGE_DAYS = 14;
 
 interface StudyMaterialCardProps {
   material: StudyMaterial;
+  matches?: StudyMaterialSearchMatch[]; // where the current search matched
+  pinStatus?: PinStatus; // whether the files are saved for offline
+  isSaving?: boolean;
+  onToggleOffline?: () => void;
   onClick?: () => void;
 }
 
-export function StudyMaterialCard({ material, onClick }: StudyMaterialCardProps) {
+export function StudyMaterialCard({
+  material,
+  matches = [],
+  pinStatus = 'none',
+  isSaving = false,
+  onToggleOffline,
+  onClick
+}: StudyMaterialCardProps) {
+  const handleOfflineClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!isSaving) onToggleOffline?.();
+  };
+
+  const isRecentlyUpdated = (material.versionNumber || 1) > 1 && !!material.updatedAt &&
+    Date.now() - new Date(material.updatedAt).getTime() < UPDATED_BADGE_DAYS * 24 * 60 * 60 * 1000;
+
   const getCategoryColor = (category: string) => {
     switch (category.toLowerCase()) {
       case 'task':
@@ -163,6 +191,16 @@ export function StudyMaterialCard({ material, onClick }: StudyMaterialCardProps)
                 {getCategoryIcon(material.category)}
                 <span className="truncate max-w-[80px]">{material.category}</span>
               </span>
+              {isRecentlyUpdated && (
+                <span
+                  className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium
+                    bg-green-50 text-green-700 dark:bg-green-900/20 dark:text-green-400 shrink-0"
+                  title={material.changeNote ? `v${material.versionNumber}: ${material.changeNote}` : `Version ${material.versionNumber}`}
+                >
+                  <RefreshCw className="w-3 h-3" />
+                  Updated
+                </span>
+              )}
             </div>
 
             <p className="text-gray-600 dark:text-gray-300 text-sm mb-4 line-clamp-2">
@@ -171,6 +209,24 @@ export function StudyMaterialCard({ material, onClick }: StudyMaterialCardProps)
           </div>
         </div>
 
+        {/* Search matches */}
+        {matches.length > 0 && (
+          <div className="space-y-2">
+            {matches.slice(0, 2).map((match, index) => (
+              <SearchSnippet
+                key={`${match.fileIndex ?? 'details'}-${match.pageNumber ?? index}`}
+                match={match}
+                fileUrl={match.fileIndex !== undefined ? material.fileUrls[match.fileIndex] : undefined}
+              />
+            ))}
+            {matches.length > 2 && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                +{matches.length - 2} more {matches.length - 2 === 1 ? 'match' : 'matches'}
+              </p>
+            )}
+          </div>
+        )}
+
         {/* Footer */}
         <div className="flex items-center justify-between pt-4 border-t border-gray-100 dark:border-gray-700">
           <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
@@ -189,6 +245,34 @@ export function StudyMaterialCard({ material, onClick }: StudyMaterialCardProps)
               <span className="text-sm text-gray-500 dark:text-gray-400">
                 {material.fileUrls.length} {material.fileUrls.length === 1 ? 'file' : 'files'}
               </span>
+              <motion.button
+                whileHover={{ scale: 1.1 }}
+                whileTap={{ scale: 0.9 }}
+                onClick={handleOfflineClick}
+                disabled={isSaving || (pinStatus !== 'saved' && !navigator.onLine)}
+                className={`p-2 rounded-lg transition-colors disabled:opacity-50 ${
+                  pinStatus === 'saved'
+                    ? 'text-green-600 dark:text-green-400 hover:bg-green-50 dark:hover:bg-green-900/20'
+                    : 'text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20'
+                }`}
+                title={
+                  isSaving ? 'Saving for offline...'
+                    : pinStatus === 'saved' ? 'Saved for offline - click to remove'
+                    : pinStatus === 'outdated' ? 'Files changed - save the new version for offline'
+                    : 'Save for offline'
+                }
+                aria-label={pinStatus === 'saved' ? 'Remove offline copy' : 'Save for offline'}
+              >
+                {isSaving ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : pinStatus === 'saved' ? (
+                  <CheckCircle className="w-4 h-4" />
+                ) : pinStatus === 'outdated' ? (
+                  <RefreshCw className="w-4 h-4" />
+                ) : (
+                  <HardDriveDownload className="w-4 h-4" />
+                )}
+              </motion.button>
               <motion.button
                 whileHover={{ scale: 1.1 }}
                 whileTap={{ scale: 0.9 }}
@@ -1,5 +1,7 @@
 import { X, Book, Calendar, Download, ExternalLink, FileText, Link, Lock, Clock, Tag, Eye } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { StudyMaterialVersionHistory } from './StudyMaterialVersionHistory';
+import { isFilePinned, openPinnedFile } from '../../utils/offlineMaterials';
 import type { StudyMaterial } from '../../types/course';
 
 interface StudyMaterialDetailsModalProps {
@@ -40,7 +42,16 @@ export function StudyMaterialDetailsModal({ material, isOpen, onClose }: StudyMa
     return '2.5 MB';
   };
 
+  // Offline, only a copy saved with "Save for offline" can be opened
+  const openOfflineCopy = (url: string) => {
+    if (navigator.onLine || !isFilePinned(url)) return false;
+    openPinnedFile(url).catch(() => undefined);
+    return true;
+  };
+
   const handleDownload = async (url: string, index: number) => {
+    if (openOfflineCopy(url)) return;
+
     try {
       // Create a temporary anchor element
       const link = document.createElement('a');
@@ -58,6 +69,8 @@ export function StudyMaterialDetailsModal({ material, isOpen, onClose }: StudyMa
   };
 
   const handlePreview = (url: string, index: number) => {
+    if (openOfflineCopy(url)) return;
+
     const extension = url.split('.').pop()?.toLowerCase();
     const isImage = ['jpg', 'jpeg', 'png', 'gif', 'webp'].includes(extension || '');
     const isPdf = extension === 'pdf';
@@ -381,6 +394,8 @@ export function StudyMaterialDetailsModal({ material, isOpen, onClose }: StudyMa
                       </div>
                     </div>
                   )}
+
+                  <StudyMaterialVersionHistory material={material} />
                 </div>
               </motion.div>
             </div>
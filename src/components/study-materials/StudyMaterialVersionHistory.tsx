@@ -0,0 +1,114 @@
+import { History, Download, User } from 'lucide-react';
+import { useStudyMaterialVersions } from '../../hooks/useStudyMaterialVersions';
+import type { StudyMaterial } from '../../types/course';
+
+interface StudyMaterialVersionHistoryProps {
+  material: StudyMaterial;
+}
+
+interface VersionEntryProps {
+  versionNumber: number;
+  date: string;
+  uploadedByName?: string;
+  changeNote?: string;
+  isCurrent?: boolean;
+  children?: React.ReactNode;
+}
+
+function formatVersionDate(date: string) {
+  return new Date(date).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric'
+  });
+}
+
+function VersionEntry({ versionNumber, date, uploadedByName, changeNote, isCurrent, children }: VersionEntryProps) {
+  return (
+    <li className="relative pl-6">
+      <span className={`absolute left-0 top-1.5 w-2.5 h-2.5 rounded-full ${
+        isCurrent ? 'bg-blue-600 dark:bg-blue-400' : 'bg-gray-300 dark:bg-gray-600'
+      }`} />
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="font-medium text-gray-900 dark:text-white">v{versionNumber}</span>
+        {isCurrent && (
+          <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300">
+            Current
+          </span>
+        )}
+        <span className="text-gray-500 dark:text-gray-400">{formatVersionDate(date)}</span>
+        {uploadedByName && (
+          <span className="flex items-center gap-1 text-gray-500 dark:text-gray-400">
+            <User className="w-3.5 h-3.5" />
+            {uploadedByName}
+          </span>
+        )}
+      </div>
+      {changeNote && (
+        <p className="text-sm text-gray-600 dark:text-gray-300 mt-1 whitespace-pre-wrap">{changeNote}</p>
+      )}
+      {children}
+    </li>
+  );
+}
+
+export function StudyMaterialVersionHistory({ material }: StudyMaterialVersionHistoryProps) {
+  const { versions, loading, error } = useStudyMaterialVersions(material.id, material.versionNumber);
+
+  // Nothing to show until the files have been replaced at least once
+  if (!material.versionNumber || material.versionNumber <= 1) return null;
+
+  return (
+    <div className="space-y-4">
+      <h3 className="flex items-center gap-2 text-lg font-medium text-gray-900 dark:text-white">
+        <History className="w-5 h-5" />
+        Version History
+      </h3>
+
+      <ol className="space-y-4">
+        <VersionEntry
+          versionNumber={material.versionNumber}
+          date={material.updatedAt || material.createdAt}
+          uploadedByName={material.updatedByName}
+          changeNote={material.changeNote}
+          isCurrent
+        />
+
+        {versions.map(version => (
+          <VersionEntry
+            key={version.id}
+            versionNumber={version.versionNumber}
+            date={version.uploadedAt}
+            uploadedByName={version.uploadedByName}
+            changeNote={version.changeNote}
+          >
+            <div className="flex flex-wrap gap-2 mt-2">
+              {version.fileUrls.map((url, index) => (
+                <a
+                  key={url}
+                  href={url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  download={version.originalFileNames[index]}
+                  className="flex items-center gap-1.5 px-2.5 py-1 text-xs text-blue-600 dark:text-blue-400 bg-gray-50 dark:bg-gray-700/50 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
+                >
+                  <Download className="w-3.5 h-3.5" />
+                  <span className="truncate max-w-[200px]">
+                    {version.originalFileNames[index] || decodeURIComponent(url.split('/').pop() || 'file')}
+                  </span>
+                </a>
+              ))}
+            </div>
+          </VersionEntry>
+        ))}
+      </ol>
+
+      {loading && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading earlier versions...</p>
+      )}
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400">Could not load earlier versions: {error}</p>
+      )}
+    </div>
+  );
+}
@@ -2,17 +2,25 @@ import { useState } from 'react';
 import { Book } from 'lucide-react';
 import { StudyMaterialCard } from './StudyMaterialCard';
 import { StudyMaterialDetailsModal } from './StudyMaterialDetailsModal';
-import type { StudyMaterial } from '../../types/course';
+import { usePinnedMaterials } from '../../hooks/usePinnedMaterials';
+import { getPinStatus } from '../../utils/offlineMaterials';
+import type { StudyMaterial, StudyMaterialSearchMatch } from '../../types/course';
 
 interface StudyMaterialsGridProps {
   materials: StudyMaterial[];
+  searchMatches?: Map<string, StudyMaterialSearchMatch[]>;
 }
 
-export function StudyMaterialsGrid({ materials }: StudyMaterialsGridProps) {
+export function StudyMaterialsGrid({ materials, searchMatches }: StudyMaterialsGridProps) {
   const [selectedMaterial, setSelectedMaterial] = useState<StudyMaterial | null>(null);
+  const offline = usePinnedMaterials();
 
   return (
     <div className="space-y-6">
+      {offline.error && (
+        <p className="text-sm text-red-600 dark:text-red-400">{offline.error}</p>
+      )}
+
       {/* Materials Grid */}
       {materials.length === 0 ? (
         <div className="text-center py-12">
@@ -26,13 +34,22 @@ export function StudyMaterialsGrid({ materials }: StudyMaterialsGridProps) {
         </div>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {materials.map((material) => (
-            <StudyMaterialCard
-              key={material.id}
-              material={material}
-              onClick={() => setSelectedMaterial(material)}
-            />
-          ))}
+          {materials.map((material) => {
+            const pinStatus = getPinStatus(material, offline.pinned);
+            return (
+              <StudyMaterialCard
+                key={material.id}
+                material={material}
+                matches={searchMatches?.get(material.id)}
+                pinStatus={pinStatus}
+                isSaving={offline.savingIds.includes(material.id)}
+                onToggleOffline={() => pinStatus === 'saved'
+                  ? offline.remove(material.id)
+                  : offline.save(material)}
+                onClick={() => setSelectedMaterial(material)}
+              />
+            );
+          })}
         </div>
       )}
 
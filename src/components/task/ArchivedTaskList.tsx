@@ -0,0 +1,159 @@
+import { useState, useEffect } from 'react';
+import { Search, Archive, Calendar, BookOpen, RotateCcw, Loader2, X } from 'lucide-react';
+import { useAuth } from '../../hooks/useAuth';
+import { useOfflineStatus } from '../../hooks/useOfflineStatus';
+import { fetchArchivedTasks } from '../../services/task.service';
+import { isInAudience, getAudienceSection } from '../../utils/audience';
+import type { Task } from '../../types/task';
+
+interface ArchivedTaskListProps {
+  // Admins can move a task back to the active list
+  onRestore?: (taskId: string) => Promise<void>;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+export function ArchivedTaskList({ onRestore }: ArchivedTaskListProps) {
+  const { user } = useAuth();
+  const isOffline = useOfflineStatus();
+  const [search, setSearch] = useState('');
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    if (!user || isOffline) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const timeout = setTimeout(() => {
+      fetchArchivedTasks(user.id, search)
+        .then(data => {
+          const section = getAudienceSection(user);
+          setTasks(data.filter(task => !task.isAdminTask || isInAudience(task.targetSections, section)));
+          setError(null);
+        })
+        .catch(err => setError(err.message))
+        .finally(() => setLoading(false));
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timeout);
+  }, [user, search, isOffline, reloadKey]);
+
+  const handleRestore = async (taskId: string) => {
+    if (!onRestore) return;
+
+    setRestoringId(taskId);
+    try {
+      await onRestore(taskId);
+      setReloadKey(key => key + 1);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  // Group by the year and month the task was due
+  const groups = tasks.reduce((acc, task) => {
+    const label = new Date(task.dueDate).toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+    (acc[label] = acc[label] || []).push(task);
+    return acc;
+  }, {} as Record<string, Task[]>);
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-sm p-4 sm:p-6">
+      <div className="relative mb-4">
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search archived tasks..."
+          className="w-full pl-10 pr-10 py-2 border dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm"
+        />
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+        {search && (
+          <button
+            onClick={() => setSearch('')}
+            className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+            aria-label="Clear search"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {isOffline ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-8">
+          The archive is only available while online.
+        </p>
+      ) : loading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="w-6 h-6 text-blue-500 animate-spin" />
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-600 dark:text-red-400 text-center py-8">{error}</p>
+      ) : tasks.length === 0 ? (
+        <div className="text-center py-12">
+          <Archive className="w-12 h-12 text-gray-300 dark:text-gray-600 mx-auto mb-3" />
+          <p className="text-gray-500 dark:text-gray-400">
+            {search ? 'No archived tasks match your search' : 'No archived tasks yet'}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {Object.entries(groups).map(([label, groupTasks]) => (
+            <div key={label}>
+              <h3 className="text-sm font-semibold text-gray-500 dark:text-gray-400 mb-2">{label}</h3>
+              <div className="space-y-2">
+                {groupTasks.map(task => (
+                  <div
+                    key={task.id}
+                    className="p-3 rounded-xl border border-gray-100 dark:border-gray-700 flex items-start justify-between gap-3"
+                  >
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900 dark:text-white break-words">{task.name}</p>
+                      {task.description && (
+                        <p className="text-sm text-gray-600 dark:text-gray-300 line-clamp-2 mt-0.5">{task.description}</p>
+                      )}
+                      <div className="flex flex-wrap items-center gap-3 mt-1 text-xs text-gray-500 dark:text-gray-400">
+                        <span className="capitalize">{task.category.replace(/-/g, ' ')}</span>
+                        <span className="flex items-center gap-1">
+                          <Calendar className="w-3 h-3" />
+                          {new Date(task.dueDate).toLocaleDateString()}
+                        </span>
+                        {task.courseCode && (
+                          <span className="flex items-center gap-1">
+                            <BookOpen className="w-3 h-3" />
+                            {task.courseCode}
+                          </span>
+                        )}
+                        <span className={task.status === 'completed' ? 'text-green-600 dark:text-green-400' : ''}>
+                          {task.status === 'completed' ? 'Completed' : 'Not completed'}
+                        </span>
+                      </div>
+                    </div>
+                    {onRestore && (
+                      <button
+                        onClick={() => handleRestore(task.id)}
+                        disabled={restoringId !== null}
+                        className="flex items-center gap-1 px-2 py-1 text-xs text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg disabled:opacity-50 flex-shrink-0"
+                      >
+                        {restoringId === task.id ? <Loader2 className="w-3 h-3 animate-spin" /> : <RotateCcw className="w-3 h-3" />}
+                        Restore
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
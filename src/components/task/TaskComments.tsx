@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { formatDistanceToNow, parseISO } from 'date-fns';
+import { MessageSquare, Pin, PinOff, Trash2, Send, Loader2 } from 'lucide-react';
+import { useAuth } from '../../hooks/useAuth';
+import { useTaskComments } from '../../hooks/useTaskComments';
+import type { TaskComment } from '../../types/task';
+
+interface TaskCommentsProps {
+  taskId: string;
+}
+
+export function TaskComments({ taskId }: TaskCommentsProps) {
+  const { user } = useAuth();
+  const { comments, pinnedComment, loading, error, addComment, deleteComment, togglePin } = useTaskComments(taskId, user?.id);
+  const [draft, setDraft] = useState('');
+  const [posting, setPosting] = useState(false);
+  const isAdmin = user?.role === 'admin';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim()) return;
+
+    setPosting(true);
+    try {
+      await addComment(draft);
+      setDraft('');
+    } catch {
+      // Error is shown by the hook; keep the draft so it can be resent
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  if (!user) return null;
+
+  const renderComment = (comment: TaskComment, highlighted = false) => (
+    <div
+      key={comment.id}
+      className={`p-3 rounded-xl ${highlighted
+        ? 'bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800'
+        : 'bg-gray-50 dark:bg-gray-700/50'}`}
+    >
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="text-sm font-medium text-gray-900 dark:text-white">
+            {comment.userName}
+            {highlighted && (
+              <span className="ml-2 text-xs font-medium text-green-700 dark:text-green-400">
+                Official answer
+              </span>
+            )}
+          </p>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {formatDistanceToNow(parseISO(comment.createdAt), { addSuffix: true })}
+          </p>
+        </div>
+        <div className="flex items-center gap-1 shrink-0">
+          {isAdmin && (
+            <button
+              onClick={() => togglePin(comment)}
+              className="p-1.5 text-gray-400 hover:text-green-600 dark:hover:text-green-400 rounded-lg transition-colors"
+              title={comment.isPinned ? 'Unpin answer' : 'Pin as official answer'}
+            >
+              {comment.isPinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+            </button>
+          )}
+          {(isAdmin || comment.userId === user.id) && (
+            <button
+              onClick={() => deleteComment(comment.id)}
+              className="p-1.5 text-gray-400 hover:text-red-600 dark:hover:text-red-400 rounded-lg transition-colors"
+              title="Delete comment"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </div>
+      <p className="mt-2 text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap break-words">
+        {comment.content}
+      </p>
+    </div>
+  );
+
+  return (
+    <div className="mt-6">
+      <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-3 flex items-center gap-2">
+        <MessageSquare className="w-5 h-5" />
+        Discussion
+        {comments.length > 0 && (
+          <span className="text-sm font-normal text-gray-500 dark:text-gray-400">({comments.length})</span>
+        )}
+        {loading && <Loader2 className="w-4 h-4 text-gray-400 animate-spin" />}
+      </h3>
+
+      {pinnedComment && (
+        <div className="mb-3">
+          {renderComment(pinnedComment, true)}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {comments.filter(comment => !comment.isPinned).map(comment => renderComment(comment))}
+      </div>
+
+      {!loading && comments.length === 0 && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          No questions yet. Ask here if anything about this task is unclear.
+        </p>
+      )}
+
+      <form onSubmit={handleSubmit} className="mt-3 flex items-end gap-2">
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Ask a question or add a comment..."
+          rows={2}
+          className="flex-1 px-3 py-2 border dark:border-gray-600 rounded-xl text-sm dark:bg-gray-700 dark:text-white resize-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+        <button
+          type="submit"
+          disabled={posting || !draft.trim()}
+          className="p-2.5 bg-blue-600 text-white rounded-xl hover:bg-blue-700 transition-colors disabled:opacity-50"
+          title="Post comment"
+        >
+          {posting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+        </button>
+      </form>
+
+      {error && (
+        <p className="mt-2 text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+    </div>
+  );
+}
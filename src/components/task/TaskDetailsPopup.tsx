@@ -1,11 +1,18 @@
-import { X, Calendar, Tag, Clock, Crown, Download, CheckCircle2 } from 'lucide-react';
+import { useState } from 'react';
+import { X, Calendar, Tag, Clock, Crown, Download, CheckCircle2, ListChecks, Eye, Paperclip, Flag, Timer } from 'lucide-react';
 import { parseLinks } from '../../utils/linkParser';
-import type { Task, TaskStatus } from '../../types';
+import { getSubtaskProgress } from '../../utils/subtaskUtils';
+import { getRemainingHours } from '../../utils/taskPriority';
+import { getTaskAttachmentUrl, downloadTaskAttachment } from '../../services/task.service';
+import { TaskReminderSettings } from './TaskReminderSettings';
+import { TaskComments } from './TaskComments';
+import type { Task, TaskStatus, TaskAttachment } from '../../types';
 
 interface TaskDetailsPopupProps {
   task: Task;
   onClose: () => void;
   onStatusUpdate?: (taskId: string, newStatus: TaskStatus) => Promise<void>;
+  onToggleSubtask?: (taskId: string, subtaskId: string, completed: boolean) => Promise<unknown>;
   isUpdating?: boolean;
 }
 
@@ -13,8 +20,16 @@ export function TaskDetailsPopup({
   task, 
   onClose,
   onStatusUpdate,
+  onToggleSubtask,
   isUpdating = false
 }: TaskDetailsPopupProps) {
+  const [togglingSubtaskId, setTogglingSubtaskId] = useState<string | null>(null);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+  const [previewAttachment, setPreviewAttachment] = useState<TaskAttachment | null>(null);
+  const subtasks = task.subtasks || [];
+  const attachments = task.attachments || [];
+  const subtaskProgress = getSubtaskProgress(subtasks);
+
   // Split description into regular content and file attachments
   const descriptionParts = task.description.split('\nAttached Files:');
   const regularDescription = descriptionParts[0];
@@ -41,6 +56,49 @@ export function TaskDetailsPopup({
     }
   };
 
+  const handleAttachmentDownload = async (attachment: TaskAttachment) => {
+    try {
+      setDownloadingId(attachment.id);
+      const blob = await downloadTaskAttachment(attachment);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = attachment.fileName;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error downloading attachment:', error);
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  // Images and PDFs open inline, anything else in a new tab
+  const canPreview = (attachment: TaskAttachment) =>
+    attachment.mimeType.startsWith('image/') || attachment.mimeType === 'application/pdf';
+
+  const handleAttachmentPreview = (attachment: TaskAttachment) => {
+    if (canPreview(attachment)) {
+      setPreviewAttachment(attachment);
+    } else {
+      window.open(getTaskAttachmentUrl(attachment), '_blank', 'noopener,noreferrer');
+    }
+  };
+
+  const handleSubtaskToggle = async (subtaskId: string, completed: boolean) => {
+    if (!onToggleSubtask) return;
+    try {
+      setTogglingSubtaskId(subtaskId);
+      await onToggleSubtask(task.id, subtaskId, completed);
+    } catch (error) {
+      console.error('Error updating checklist item:', error);
+    } finally {
+      setTogglingSubtaskId(null);
+    }
+  };
+
   const extractFileInfo = (line: string) => {
     const matches = line.match(/\[(.*?)\]\((.*?)\)/);
     if (matches) {
@@ -140,6 +198,20 @@ export function TaskDetailsPopup({
                 {overdue && ' (Overdue)'}
               </span>
             </div>
+            <div className="flex items-center gap-1.5">
+              <Flag className="w-4 h-4" />
+              <span className="capitalize">{task.priority || 'normal'} priority</span>
+            </div>
+            {task.estimatedHours !== undefined && (
+              <div className="flex items-center gap-1.5">
+                <Timer className="w-4 h-4" />
+                <span>
+                  Est. {task.estimatedHours}h
+                  {subtaskProgress.total > 0 && task.status !== 'completed' &&
+                    ` (${getRemainingHours(task).toFixed(1)}h left)`}
+                </span>
+              </div>
+            )}
             <div className="flex items-center gap-1.5">
               <Clock className="w-4 h-4" />
               <span>
@@ -152,6 +224,50 @@ export function TaskDetailsPopup({
             </div>
           </div>
 
+          {/* Checklist */}
+          {subtasks.length > 0 && (
+            <div className="mb-6">
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="text-lg font-medium text-gray-900 dark:text-white flex items-center gap-2">
+                  <ListChecks className="w-5 h-5" />
+                  Checklist
+                </h3>
+                <span className="text-sm text-gray-500 dark:text-gray-400">
+                  {subtaskProgress.done}/{subtaskProgress.total} done
+                </span>
+              </div>
+              <div className="h-1.5 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden mb-3">
+                <div
+                  className="h-full bg-green-500 transition-all duration-300"
+                  style={{ width: `${(subtaskProgress.done / subtaskProgress.total) * 100}%` }}
+                />
+              </div>
+              <ul className="space-y-2">
+                {subtasks.map(subtask => (
+                  <li key={subtask.id}>
+                    <label className={`flex items-center gap-3 p-3 bg-gray-50 dark:bg-gray-700/50 rounded-xl transition-colors
+                      ${onToggleSubtask ? 'cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700' : ''}`}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={subtask.completed}
+                        disabled={!onToggleSubtask || togglingSubtaskId !== null}
+                        onChange={(e) => handleSubtaskToggle(subtask.id, e.target.checked)}
+                        className="w-4 h-4 rounded text-green-600 focus:ring-green-500 disabled:opacity-50"
+                      />
+                      <span className={`text-sm ${subtask.completed
+                        ? 'line-through text-gray-400 dark:text-gray-500'
+                        : 'text-gray-700 dark:text-gray-300'}`}
+                      >
+                        {subtask.title}
+                      </span>
+                    </label>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {/* Description */}
           {regularDescription && (
             <div className="prose dark:prose-invert max-w-none">
@@ -187,7 +303,56 @@ export function TaskDetailsPopup({
             </div>
           )}
 
-          {/* Attached Files */}
+          {/* Deadline reminders */}
+          {task.status !== 'completed' && !overdue && (
+            <TaskReminderSettings taskId={task.id} />
+          )}
+
+          {/* Attachments */}
+          {attachments.length > 0 && (
+            <div className="mt-6">
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-3 flex items-center gap-2">
+                <Paperclip className="w-5 h-5" />
+                Attachments
+              </h3>
+              <div className="space-y-2">
+                {attachments.map(attachment => (
+                  <div
+                    key={attachment.id}
+                    className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-700/50 rounded-xl hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm text-gray-700 dark:text-gray-300 truncate">
+                        {attachment.fileName}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {(attachment.fileSize / 1024).toFixed(1)} KB
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      <button
+                        onClick={() => handleAttachmentPreview(attachment)}
+                        className="p-2 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600 rounded-lg transition-colors"
+                        title="Preview file"
+                      >
+                        <Eye className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleAttachmentDownload(attachment)}
+                        disabled={downloadingId === attachment.id}
+                        className="p-2 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors disabled:opacity-50"
+                        title="Download file"
+                      >
+                        <Download className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Attached Files (legacy tasks with links in the description) */}
           {fileSection.length > 0 && (
             <div className="mt-6">
               <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-3">
@@ -219,8 +384,51 @@ export function TaskDetailsPopup({
               </div>
             </div>
           )}
+
+          {/* Clarification thread */}
+          <TaskComments taskId={task.id} />
         </div>
       </div>
+
+      {/* Attachment preview */}
+      {previewAttachment && (
+        <div
+          className="fixed inset-0 bg-black/70 z-[60] flex items-center justify-center p-4"
+          onClick={() => setPreviewAttachment(null)}
+        >
+          <div
+            className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col overflow-hidden"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between px-4 py-3 border-b dark:border-gray-700">
+              <span className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                {previewAttachment.fileName}
+              </span>
+              <button
+                onClick={() => setPreviewAttachment(null)}
+                className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+              >
+                <X className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+              </button>
+            </div>
+            <div className="flex-1 overflow-auto bg-gray-50 dark:bg-gray-900">
+              {previewAttachment.mimeType.startsWith('image/') ? (
+                <img
+                  src={getTaskAttachmentUrl(previewAttachment)}
+                  alt={previewAttachment.fileName}
+                  className="max-w-full mx-auto"
+                />
+              ) : (
+                <iframe
+                  src={getTaskAttachmentUrl(previewAttachment)}
+                  title={previewAttachment.fileName}
+                  className="w-full h-[75vh]"
+                />
+              )}
+            </div>
+          </div>
+        </div>
+      )}
     </>
   );
 }
\ No newline at end of file
@@ -0,0 +1,92 @@
+import { useState, useEffect } from 'react';
+import { AlarmClock, Loader2 } from 'lucide-react';
+import { useAuth } from '../../hooks/useAuth';
+import {
+  fetchReminderPreferences,
+  fetchTaskReminderOffsets,
+  saveTaskReminderOffsets,
+  DEFAULT_REMINDER_OFFSETS
+} from '../../services/reminder.service';
+import { ReminderOffsetPicker } from '../settings/ReminderOffsetPicker';
+
+interface TaskReminderSettingsProps {
+  taskId: string;
+}
+
+export function TaskReminderSettings({ taskId }: TaskReminderSettingsProps) {
+  const { user } = useAuth();
+  const [defaultOffsets, setDefaultOffsets] = useState<number[]>(DEFAULT_REMINDER_OFFSETS);
+  const [customOffsets, setCustomOffsets] = useState<number[] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    setLoading(true);
+    Promise.all([
+      fetchReminderPreferences(user.id),
+      fetchTaskReminderOffsets(taskId, user.id)
+    ])
+      .then(([defaults, custom]) => {
+        setDefaultOffsets(defaults);
+        setCustomOffsets(custom);
+      })
+      .catch(err => setError(err.message))
+      .finally(() => setLoading(false));
+  }, [user, taskId]);
+
+  const save = async (offsets: number[] | null) => {
+    if (!user) return;
+
+    const previous = customOffsets;
+    setCustomOffsets(offsets);
+    setSaving(true);
+    setError(null);
+    try {
+      await saveTaskReminderOffsets(taskId, user.id, offsets);
+    } catch (err: any) {
+      setCustomOffsets(previous);
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!user) return null;
+
+  return (
+    <div className="mt-6">
+      <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-3 flex items-center gap-2">
+        <AlarmClock className="w-5 h-5" />
+        Reminders
+        {(loading || saving) && <Loader2 className="w-4 h-4 text-gray-400 animate-spin" />}
+      </h3>
+
+      <label className="flex items-center gap-2 mb-3 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={customOffsets === null}
+          disabled={loading || saving}
+          onChange={(e) => save(e.target.checked ? null : defaultOffsets)}
+          className="w-4 h-4 rounded text-blue-600 focus:ring-blue-500"
+        />
+        Use my default reminders
+      </label>
+
+      <ReminderOffsetPicker
+        offsets={customOffsets ?? defaultOffsets}
+        onChange={save}
+        disabled={loading || saving || customOffsets === null}
+      />
+
+      {customOffsets !== null && customOffsets.length === 0 && (
+        <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">No reminders for this task.</p>
+      )}
+      {error && (
+        <p className="mt-2 text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+    </div>
+  );
+}
@@ -1,13 +1,15 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { supabase } from '../lib/supabase';
 import { 
   fetchAnnouncements, 
   createAnnouncement, 
   deleteAnnouncement 
 } from '../services/announcement.service';
+import { isInAudience } from '../utils/audience';
 import type { Announcement, NewAnnouncement } from '../types/announcement';
 
-export function useAnnouncements() {
+// Pass the user's section to hide announcements aimed at other sections
+export function useAnnouncements(section?: string | null) {
   const [announcements, setAnnouncements] = useState<Announcement[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -70,8 +72,13 @@ export function useAnnouncements() {
     }
   };
 
+  const visibleAnnouncements = useMemo(
+    () => announcements.filter(announcement => isInAudience(announcement.targetSections, section)),
+    [announcements, section]
+  );
+
   return {
-    announcements,
+    announcements: visibleAnnouncements,
     loading,
     error,
     createAnnouncement: handleCreateAnnouncement,
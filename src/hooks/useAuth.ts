@@ -57,6 +57,7 @@ export function useAuth() {
         email: authUser.email!,
         name: authUser.user_metadata?.name || authUser.email?.split('@')[0] || '',
         role: authUser.user_metadata?.role || 'user',
+        section: authUser.user_metadata?.section,
         createdAt: authUser.created_at,
       });
     } catch (err) {
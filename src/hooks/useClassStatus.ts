@@ -0,0 +1,118 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format, isToday, isTomorrow } from 'date-fns';
+import { buildMyRoutine } from '../utils/myRoutine';
+import { getClassStatus, formatClassTime, formatDuration } from '../utils/nowNext';
+import {
+  requestNotificationPermission,
+  showClassStatusNotification,
+  clearClassStatusNotification
+} from '../utils/pushNotifications';
+import type { Routine, RoutineSlot, RoutineSlotOverride } from '../types/routine';
+import type { CourseEnrollment } from '../types/course';
+
+export type NamedSlot = RoutineSlot & { courseCode?: string };
+
+const NOTIFICATION_KEY = 'nesttask_class_notification';
+
+export function slotLabel(slot: NamedSlot) {
+  return slot.courseCode || slot.courseName || 'Class';
+}
+
+function slotDetails(slot: NamedSlot) {
+  return [slot.roomNumber && `Room ${slot.roomNumber}`, slot.teacherName].filter(Boolean).join(' · ');
+}
+
+/**
+ * Tracks the class running now and the next one from the active routine, refreshed every minute.
+ * Works from the routines cached in IndexedDB, so it keeps counting down offline, and mirrors
+ * the status into a persistent notification when the student turns that on.
+ * `overrides` should cover the active routine from today to six days ahead.
+ */
+export function useClassStatus(
+  routines: Routine[],
+  overrides: RoutineSlotOverride[],
+  enrollments: CourseEnrollment[],
+  section?: string
+) {
+  const [now, setNow] = useState(() => new Date());
+  const [notify, setNotify] = useState(() => localStorage.getItem(NOTIFICATION_KEY) === 'on');
+  const [notifyError, setNotifyError] = useState<string | null>(null);
+
+  const routine = routines.find(r => r.isActive);
+
+  // Tick on the minute boundary so the countdown matches the clock
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout>;
+    const schedule = () => {
+      timer = setTimeout(() => {
+        setNow(new Date());
+        schedule();
+      }, 60000 - (Date.now() % 60000));
+    };
+    schedule();
+
+    return () => clearTimeout(timer);
+  }, []);
+
+  // Without a personal routine every class of the active routine counts
+  const slots = useMemo(() => {
+    const all = (routine?.slots || []) as NamedSlot[];
+    const mine = buildMyRoutine(all, section, enrollments);
+    return section || enrollments.length > 0 ? mine : all;
+  }, [routine, section, enrollments]);
+
+  const { current, next } = useMemo(() => getClassStatus(slots, overrides, now), [slots, overrides, now]);
+
+  const nextWhen = next
+    ? `${isToday(next.date) ? '' : isTomorrow(next.date) ? 'Tomorrow ' : `${format(next.date, 'EEEE')} `}at ${formatClassTime(next.slot.startTime)}`
+    : '';
+
+  const notificationTitle = current
+    ? `Now: ${slotLabel(current.slot)} · ${formatDuration(current.minutesLeft)} left`
+    : next && isToday(next.date)
+      ? `Next: ${slotLabel(next.slot)} in ${formatDuration(next.minutesUntil)}`
+      : '';
+  const notificationBody = [
+    current && slotDetails(current.slot),
+    current && next && `Next: ${slotLabel(next.slot)} ${nextWhen}`,
+    !current && next && slotDetails(next.slot)
+  ].filter(Boolean).join('\n');
+
+  // Keep the ongoing notification in step with the widget while the app is open
+  useEffect(() => {
+    if (notify && notificationTitle) {
+      showClassStatusNotification(notificationTitle, notificationBody);
+    } else {
+      clearClassStatusNotification();
+    }
+  }, [notify, notificationTitle, notificationBody]);
+
+  const toggleNotification = async () => {
+    setNotifyError(null);
+
+    if (notify) {
+      setNotify(false);
+      localStorage.setItem(NOTIFICATION_KEY, 'off');
+      return;
+    }
+
+    const granted = await requestNotificationPermission();
+    if (!granted) {
+      setNotifyError('Allow notifications in your browser to keep the class status in your notifications');
+      return;
+    }
+
+    setNotify(true);
+    localStorage.setItem(NOTIFICATION_KEY, 'on');
+  };
+
+  return {
+    hasClasses: !!routine && slots.length > 0,
+    current,
+    next,
+    nextWhen,
+    notify,
+    notifyError,
+    toggleNotification
+  };
+}
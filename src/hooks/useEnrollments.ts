@@ -0,0 +1,59 @@
+import { useState, useEffect, useCallback } from 'react';
+import { fetchEnrollments, saveEnrollments } from '../services/enrollment.service';
+import type { CourseEnrollment } from '../types/course';
+
+// Last loaded enrollments, so the personal routine still works offline
+const cacheKey = (userId: string) => `nesttask_enrollments_${userId}`;
+
+export function useEnrollments(userId: string | undefined) {
+  const [enrollments, setEnrollments] = useState<CourseEnrollment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadEnrollments = useCallback(async () => {
+    if (!userId) {
+      setEnrollments([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const data = await fetchEnrollments(userId);
+      setEnrollments(data);
+      setError(null);
+      localStorage.setItem(cacheKey(userId), JSON.stringify(data));
+    } catch (err: any) {
+      const cached = localStorage.getItem(cacheKey(userId));
+      if (cached) setEnrollments(JSON.parse(cached));
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadEnrollments();
+  }, [loadEnrollments]);
+
+  const handleSaveEnrollments = async (next: CourseEnrollment[]) => {
+    if (!userId) return;
+
+    try {
+      setError(null);
+      await saveEnrollments(userId, next);
+      setEnrollments(next);
+      localStorage.setItem(cacheKey(userId), JSON.stringify(next));
+    } catch (err: any) {
+      setError(err.message);
+      throw err;
+    }
+  };
+
+  return {
+    enrollments,
+    loading,
+    error,
+    saveEnrollments: handleSaveEnrollments
+  };
+}
@@ -2,6 +2,7 @@ import { useEffect, useState } from 'react';
 import { supabase } from '../lib/supabase';
 import type { Task } from '../types';
 import type { Announcement } from '../types/announcement';
+import { isInAudience } from '../utils/audience';
 
 export interface Notification {
   id: string;
@@ -15,22 +16,85 @@ export interface Notification {
   isAnnouncement: boolean;
 }
 
-export function useNotifications(userId: string | undefined) {
-  const [notifications, setNotifications] = useState<Notification[]>([]);
-  const [unreadCount, setUnreadCount] = useState(0);
+function sortNotifications(notifs: Notification[]): Notification[] {
+  return [...notifs].sort((a, b) => {
+    if (a.read !== b.read) return a.read ? 1 : -1;
+    return b.timestamp.getTime() - a.timestamp.getTime();
+  });
+}
 
-  const sortNotifications = (notifs: Notification[]): Notification[] => {
-    return [...notifs].sort((a, b) => {
-      if (a.read !== b.read) return a.read ? 1 : -1;
-      return b.timestamp.getTime() - a.timestamp.getTime();
-    });
+function buildCommentNotification(comment: any): Notification {
+  return {
+    id: crypto.randomUUID(),
+    title: 'New Comment',
+    message: `${comment.users?.name || 'Someone'} commented on "${comment.tasks?.name || 'your task'}": ${comment.content}`,
+    timestamp: new Date(comment.created_at),
+    read: false,
+    taskId: comment.task_id,
+    isAdminTask: false,
+    isAnnouncement: false
   };
+}
+
+export function useNotifications(userId: string | undefined, section?: string | null) {
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
 
   useEffect(() => {
     if (!userId) return;
 
+    const handleNewTask = (task: any) => {
+      if ((task.is_admin_task && isInAudience(task.target_sections, section)) || task.user_id === userId) {
+        const notification: Notification = {
+          id: crypto.randomUUID(),
+          title: task.is_admin_task ? 'New Admin Task' : 'New Task',
+          message: `Task "${task.name}" has been created`,
+          timestamp: new Date(),
+          read: false,
+          taskId: task.id,
+          isAdminTask: task.is_admin_task,
+          isAnnouncement: false
+        };
+
+        setNotifications(prev => sortNotifications([notification, ...prev]));
+        setUnreadCount(prev => prev + 1);
+      }
+    };
+
+    const handleNewAnnouncement = (announcement: any) => {
+      if (!isInAudience(announcement.target_sections, section)) return;
+
+      const notification: Notification = {
+        id: crypto.randomUUID(),
+        title: announcement.title,
+        message: announcement.content, // Use the content field from announcement
+        timestamp: new Date(),
+        read: false,
+        announcementId: announcement.id,
+        isAdminTask: false,
+        isAnnouncement: true
+      };
+
+      setNotifications(prev => sortNotifications([notification, ...prev]));
+      setUnreadCount(prev => prev + 1);
+    };
+
+    const handleNewComment = async (comment: any) => {
+      if (comment.user_id === userId) return;
+
+      // The realtime payload has no joins, so look up the commenter and task names
+      const { data } = await supabase
+        .from('task_comments')
+        .select('*, users(name), tasks(name)')
+        .eq('id', comment.id)
+        .maybeSingle();
+
+      setNotifications(prev => sortNotifications([buildCommentNotification(data || comment), ...prev]));
+      setUnreadCount(prev => prev + 1);
+    };
+
     const loadExistingItems = async () => {
-      const [{ data: tasks }, { data: announcements }] = await Promise.all([
+      const [{ data: tasks }, { data: announcements }, { data: comments }] = await Promise.all([
         supabase
           .from('tasks')
           .select('*')
@@ -39,13 +103,20 @@ export function useNotifications(userId: string | undefined) {
         supabase
           .from('announcements')
           .select('*')
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('task_comments')
+          .select('*, users(name), tasks(name)')
+          .eq('task_owner_id', userId)
+          .neq('user_id', userId)
           .order('created_at', { ascending: false })
+          .limit(50)
       ]);
 
       const newNotifications: Notification[] = [];
 
       if (tasks) {
-        tasks.forEach(task => {
+        tasks.filter(task => !task.is_admin_task || isInAudience(task.target_sections, section)).forEach(task => {
           newNotifications.push({
             id: crypto.randomUUID(),
             title: task.is_admin_task ? 'New Admin Task' : 'New Task',
@@ -60,7 +131,7 @@ export function useNotifications(userId: string | undefined) {
       }
 
       if (announcements) {
-        announcements.forEach(announcement => {
+        announcements.filter(announcement => isInAudience(announcement.target_sections, section)).forEach(announcement => {
           newNotifications.push({
             id: crypto.randomUUID(),
             title: announcement.title,
@@ -74,6 +145,12 @@ export function useNotifications(userId: string | undefined) {
         });
       }
 
+      if (comments) {
+        comments.forEach(comment => {
+          newNotifications.push(buildCommentNotification(comment));
+        });
+      }
+
       const sortedNotifications = sortNotifications(newNotifications);
       setNotifications(sortedNotifications);
       setUnreadCount(newNotifications.filter(n => !n.read).length);
@@ -124,45 +201,29 @@ export function useNotifications(userId: string | undefined) {
       )
       .subscribe();
 
+    // Let task creators know when someone asks about their task
+    const commentSubscription = supabase
+      .channel('task_comment_notifications')
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'task_comments',
+          filter: `task_owner_id=eq.${userId}`
+        },
+        (payload) => {
+          handleNewComment(payload.new as any);
+        }
+      )
+      .subscribe();
+
     return () => {
       taskSubscription.unsubscribe();
       announcementSubscription.unsubscribe();
+      commentSubscription.unsubscribe();
     };
-  }, [userId]);
-
-  const handleNewTask = (task: any) => {
-    if (task.is_admin_task || task.user_id === userId) {
-      const notification: Notification = {
-        id: crypto.randomUUID(),
-        title: task.is_admin_task ? 'New Admin Task' : 'New Task',
-        message: `Task "${task.name}" has been created`,
-        timestamp: new Date(),
-        read: false,
-        taskId: task.id,
-        isAdminTask: task.is_admin_task,
-        isAnnouncement: false
-      };
-
-      setNotifications(prev => sortNotifications([notification, ...prev]));
-      setUnreadCount(prev => prev + 1);
-    }
-  };
-
-  const handleNewAnnouncement = (announcement: any) => {
-    const notification: Notification = {
-      id: crypto.randomUUID(),
-      title: announcement.title,
-      message: announcement.content, // Use the content field from announcement
-      timestamp: new Date(),
-      read: false,
-      announcementId: announcement.id,
-      isAdminTask: false,
-      isAnnouncement: true
-    };
-
-    setNotifications(prev => sortNotifications([notification, ...prev]));
-    setUnreadCount(prev => prev + 1);
-  };
+  }, [userId, section]);
 
   const markAsRead = (notificationId: string) => {
     setNotifications(prev => 
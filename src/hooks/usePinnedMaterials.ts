@@ -0,0 +1,61 @@
+import { useState, useEffect } from 'react';
+import {
+  getPinnedMaterials,
+  pinMaterial,
+  unpinMaterial,
+  unpinAllMaterials,
+  subscribeToPinnedMaterials,
+  type PinnedMaterial
+} from '../utils/offlineMaterials';
+import type { StudyMaterial } from '../types/course';
+
+// Materials saved for offline; mount once per screen and pass the result down
+export function usePinnedMaterials() {
+  const [pinned, setPinned] = useState<PinnedMaterial[]>(getPinnedMaterials);
+  const [savingIds, setSavingIds] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Stays in step when files are saved or removed on another screen
+  useEffect(() => {
+    return subscribeToPinnedMaterials(() => setPinned(getPinnedMaterials()));
+  }, []);
+
+  const save = async (material: StudyMaterial) => {
+    setSavingIds(prev => [...prev, material.id]);
+    setError(null);
+    try {
+      await pinMaterial(material);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSavingIds(prev => prev.filter(id => id !== material.id));
+    }
+  };
+
+  const remove = async (materialId: string) => {
+    try {
+      setError(null);
+      await unpinMaterial(materialId);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const removeAll = async () => {
+    try {
+      setError(null);
+      await unpinAllMaterials();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return {
+    pinned,
+    savingIds,
+    error,
+    save,
+    remove,
+    removeAll
+  };
+}
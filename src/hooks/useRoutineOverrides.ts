@@ -0,0 +1,114 @@
+import { useState, useEffect, useCallback } from 'react';
+import { addDays, format } from 'date-fns';
+import { supabase } from '../lib/supabase';
+import {
+  fetchRoutineOverrides,
+  createRoutineOverride,
+  deleteRoutineOverride
+} from '../services/routine.service';
+import type { RoutineSlotOverride, NewRoutineSlotOverride } from '../types/routine';
+
+// The routine and week the routine page is showing
+export interface RoutineOverrideView {
+  routineId?: string;
+  fromDate: string;
+  toDate: string;
+}
+
+// Loads one-off routine changes for a date range (yyyy-MM-dd) and keeps them in sync
+export function useRoutineOverrides(routineId: string | undefined, fromDate: string, toDate: string) {
+  const [overrides, setOverrides] = useState<RoutineSlotOverride[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadOverrides = useCallback(async () => {
+    if (!routineId) {
+      setOverrides([]);
+      return;
+    }
+
+    try {
+      const data = await fetchRoutineOverrides(routineId, fromDate, toDate);
+      setOverrides(data);
+      setError(null);
+    } catch (err: any) {
+      // Offline: show the plain weekly routine
+      setError(err.message);
+    }
+  }, [routineId, fromDate, toDate]);
+
+  useEffect(() => {
+    loadOverrides();
+    if (!routineId) return;
+
+    // Subscribe to realtime updates
+    const subscription = supabase
+      .channel(`routine_overrides_${routineId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'routine_slot_overrides',
+          filter: `routine_id=eq.${routineId}`
+        },
+        () => {
+          loadOverrides();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [routineId, loadOverrides]);
+
+  const handleCreateOverride = async (override: NewRoutineSlotOverride) => {
+    setError(null);
+    await createRoutineOverride(override);
+    await loadOverrides();
+  };
+
+  const handleDeleteOverride = async (overrideId: string) => {
+    try {
+      setError(null);
+      await deleteRoutineOverride(overrideId);
+      setOverrides(prev => prev.filter(override => override.id !== overrideId));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return {
+    overrides,
+    error,
+    createOverride: handleCreateOverride,
+    deleteOverride: handleDeleteOverride
+  };
+}
+
+/**
+ * Overrides for the class-status widget (the active routine, today and the next six days) and,
+ * while it is open, the routine page. Both share one load and one realtime channel when the page
+ * shows the active routine, since supabase-js can't hold two channels on the same topic.
+ */
+export function useSharedRoutineOverrides(activeRoutineId: string | undefined, view: RoutineOverrideView | null) {
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const weekEnd = format(addDays(new Date(), 6), 'yyyy-MM-dd');
+  const sharesActive = !view || !view.routineId || view.routineId === activeRoutineId;
+
+  const active = useRoutineOverrides(
+    activeRoutineId,
+    sharesActive && view && view.fromDate < today ? view.fromDate : today,
+    sharesActive && view && view.toDate > weekEnd ? view.toDate : weekEnd
+  );
+  const other = useRoutineOverrides(
+    sharesActive ? undefined : view?.routineId,
+    view?.fromDate ?? today,
+    view?.toDate ?? weekEnd
+  );
+
+  return {
+    statusOverrides: active.overrides,
+    viewOverrides: sharesActive ? active : other
+  };
+}
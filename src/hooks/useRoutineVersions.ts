@@ -0,0 +1,62 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { fetchRoutineVersions } from '../services/routine.service';
+import type { RoutineVersion } from '../types/routine';
+
+export function useRoutineVersions(routineId: string | undefined) {
+  const [versions, setVersions] = useState<RoutineVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadVersions = useCallback(async () => {
+    if (!routineId) {
+      setVersions([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const data = await fetchRoutineVersions(routineId);
+      setVersions(data);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  }, [routineId]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadVersions();
+    if (!routineId) return;
+
+    // Subscribe to realtime updates
+    const subscription = supabase
+      .channel(`routine_versions_${routineId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'routine_versions',
+          filter: `routine_id=eq.${routineId}`
+        },
+        () => {
+          loadVersions();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [routineId, loadVersions]);
+
+  return {
+    versions,
+    loading,
+    error,
+    reload: loadVersions
+  };
+}
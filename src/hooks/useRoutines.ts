@@ -13,9 +13,11 @@ import {
   bulkImportRoutineSlots as bulkImportRoutineSlotsService,
   exportRoutineWithSlots as exportRoutineWithSlotsService,
   getAllSemesters as getAllSemestersService,
-  getRoutinesBySemester as getRoutinesBySemesterService
+  getRoutinesBySemester as getRoutinesBySemesterService,
+  revertRoutineVersion as revertRoutineVersionService,
+  cloneRoutine as cloneRoutineService
 } from '../services/routine.service';
-import type { Routine, RoutineSlot } from '../types/routine';
+import type { Routine, RoutineSlot, RoutineSlotSaveOptions, RoutineCloneOptions } from '../types/routine';
 import { useOfflineStatus } from './useOfflineStatus';
 import { saveToIndexedDB, getAllFromIndexedDB, STORES, getByIdFromIndexedDB, clearIndexedDBStore } from '../utils/offlineStorage';
 
@@ -298,7 +300,8 @@ export function useRoutines() {
             if (slot._isOffline) {
               try {
                 const { _isOffline, id, routineId, createdAt, ...slotData } = slot;
-                const newSlot = await addRoutineSlotService(routine.id, slotData);
+                // Clashes could not be checked while offline; they show up in the admin clash report
+                const newSlot = await addRoutineSlotService(routine.id, slotData, { allowClashes: true });
                 
                 // Replace temp slot with server one
                 const slotIndex = syncedSlots.findIndex(s => s.id === slot.id);
@@ -318,7 +321,7 @@ export function useRoutines() {
             if (slot._isOfflineUpdated) {
               try {
                 const { _isOfflineUpdated, _isOffline, ...slotData } = slot;
-                await updateRoutineSlotService(routine.id, slot.id, slotData);
+                await updateRoutineSlotService(routine.id, slot.id, slotData, { allowClashes: true });
                 
                 // Update slot in synced version
                 const slotIndex = syncedSlots.findIndex(s => s.id === slot.id);
@@ -504,7 +507,11 @@ export function useRoutines() {
     }
   };
 
-  const addRoutineSlot = async (routineId: string, slot: Omit<RoutineSlot, 'id' | 'routineId' | 'createdAt'>) => {
+  const addRoutineSlot = async (
+    routineId: string,
+    slot: Omit<RoutineSlot, 'id' | 'routineId' | 'createdAt'>,
+    options?: RoutineSlotSaveOptions
+  ) => {
     try {
       setError(null);
       console.log('Adding routine slot:', { routineId, slot }); // Debug log
@@ -551,7 +558,7 @@ export function useRoutines() {
         }
       } else {
         // Online mode - add slot on server
-        const newSlot = await addRoutineSlotService(routineId, slot);
+        const newSlot = await addRoutineSlotService(routineId, slot, options);
         console.log('New slot created:', newSlot); // Debug log
         
         // Update routine in state
@@ -591,7 +598,12 @@ export function useRoutines() {
     }
   };
 
-  const updateRoutineSlot = async (routineId: string, slotId: string, updates: Partial<RoutineSlot>) => {
+  const updateRoutineSlot = async (
+    routineId: string,
+    slotId: string,
+    updates: Partial<RoutineSlot>,
+    options?: RoutineSlotSaveOptions
+  ) => {
     try {
       setError(null);
       
@@ -629,7 +641,7 @@ export function useRoutines() {
         }
       } else {
         // Online mode
-        await updateRoutineSlotService(routineId, slotId, updates);
+        await updateRoutineSlotService(routineId, slotId, updates, options);
         
         setRoutines(prev =>
           prev.map(routine =>
@@ -671,6 +683,41 @@ export function useRoutines() {
     }
   };
 
+  const cloneRoutine = async (sourceRoutineId: string, options: RoutineCloneOptions) => {
+    try {
+      setError(null);
+
+      if (isOffline) {
+        throw new Error('Cloning a routine needs an internet connection');
+      }
+
+      const routine = await cloneRoutineService(sourceRoutineId, options);
+      await loadRoutines(true);
+      return routine;
+    } catch (err: any) {
+      setError(err.message);
+      throw err;
+    }
+  };
+
+  // Reverting rewrites the routine's slots on the server, so reload instead of patching state
+  const revertRoutine = async (versionId: string) => {
+    try {
+      setError(null);
+
+      if (isOffline) {
+        throw new Error('Reverting a routine needs an internet connection');
+      }
+
+      const versionNumber = await revertRoutineVersionService(versionId);
+      await loadRoutines(true);
+      return versionNumber;
+    } catch (err: any) {
+      setError(err.message);
+      throw err;
+    }
+  };
+
   const deleteRoutineSlot = async (routineId: string, slotId: string) => {
     try {
       setError(null);
@@ -840,6 +887,8 @@ export function useRoutines() {
     addRoutineSlot,
     updateRoutineSlot,
     deleteRoutineSlot,
+    revertRoutine,
+    cloneRoutine,
     activateRoutine: async (routineId: string) => {
       try {
         setError(null);
@@ -0,0 +1,41 @@
+import { useState, useEffect, useCallback } from 'react';
+import { fetchStudyMaterialVersions } from '../services/course.service';
+import type { StudyMaterialVersion } from '../types/course';
+
+// Reloads when the material's version changes, since that is when a new older version appears
+export function useStudyMaterialVersions(materialId: string, versionNumber = 1) {
+  const [versions, setVersions] = useState<StudyMaterialVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadVersions = useCallback(async () => {
+    // A first version has no history to load
+    if (versionNumber <= 1) {
+      setVersions([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const data = await fetchStudyMaterialVersions(materialId);
+      setVersions(data);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  }, [materialId, versionNumber]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadVersions();
+  }, [loadVersions]);
+
+  return {
+    versions,
+    loading,
+    error,
+    reload: loadVersions
+  };
+}
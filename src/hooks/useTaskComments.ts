@@ -0,0 +1,96 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import {
+  fetchTaskComments,
+  addTaskComment,
+  deleteTaskComment,
+  setTaskCommentPinned
+} from '../services/comment.service';
+import type { TaskComment } from '../types/task';
+
+export function useTaskComments(taskId: string, userId: string | undefined) {
+  const [comments, setComments] = useState<TaskComment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadComments = useCallback(async () => {
+    try {
+      const data = await fetchTaskComments(taskId);
+      setComments(data);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  }, [taskId]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadComments();
+
+    // Subscribe to realtime updates
+    const subscription = supabase
+      .channel(`task_comments_${taskId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'task_comments',
+          filter: `task_id=eq.${taskId}`
+        },
+        () => {
+          loadComments();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [taskId, loadComments]);
+
+  const handleAddComment = async (content: string) => {
+    if (!userId) return;
+
+    try {
+      setError(null);
+      const comment = await addTaskComment(taskId, userId, content);
+      setComments(prev => prev.some(c => c.id === comment.id) ? prev : [...prev, comment]);
+    } catch (err: any) {
+      setError(err.message);
+      throw err;
+    }
+  };
+
+  const handleDeleteComment = async (commentId: string) => {
+    try {
+      setError(null);
+      await deleteTaskComment(commentId);
+      setComments(prev => prev.filter(c => c.id !== commentId));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleTogglePin = async (comment: TaskComment) => {
+    try {
+      setError(null);
+      await setTaskCommentPinned(taskId, comment.id, !comment.isPinned);
+      await loadComments();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return {
+    comments,
+    pinnedComment: comments.find(c => c.isPinned),
+    loading,
+    error,
+    addComment: handleAddComment,
+    deleteComment: handleDeleteComment,
+    togglePin: handleTogglePin
+  };
+}
@@ -1,9 +1,28 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { supabase, testConnection } from '../lib/supabase';
-import { fetchTasks, createTask, updateTask, deleteTask } from '../services/task.service';
+import { 
+  fetchTasks, 
+  createTask, 
+  createTaskSeries, 
+  updateTask, 
+  updateTaskProgress, 
+  updateTaskSeries, 
+  setSubtaskCompleted,
+  deleteTask, 
+  deleteTaskSeries,
+  bulkDeleteTasks,
+  bulkArchiveTasks,
+  bulkUpdateTaskCategory,
+  bulkShiftTaskDueDates,
+  bulkImportTasks,
+  closeSemester,
+  restoreArchivedTask
+} from '../services/task.service';
+import { getStatusFromSubtasks } from '../utils/subtaskUtils';
+import { isInAudience } from '../utils/audience';
 import { useOfflineStatus } from './useOfflineStatus';
 import { saveToIndexedDB, getAllFromIndexedDB, getByIdFromIndexedDB, deleteFromIndexedDB, STORES, refreshUserCache } from '../utils/offlineStorage';
-import type { Task, NewTask } from '../types/task';
+import type { Task, NewTask, TaskUpdates, BulkTaskAction, BulkTaskResult } from '../types/task';
 
 // Extended Task type with userId for offline storage
 interface OfflineTask extends Task {
@@ -14,10 +33,22 @@ interface OfflineTask extends Task {
   _isOfflineDeleted?: boolean;
 }
 
+// Server responses don't know which checklist items the user ticked, so carry them over
+function withSubtaskCompletions(updated: Task, previous?: Task): Task {
+  const completedIds = new Set(
+    (previous?.subtasks || []).filter(subtask => subtask.completed).map(subtask => subtask.id)
+  );
+  return {
+    ...updated,
+    subtasks: updated.subtasks?.map(subtask => ({ ...subtask, completed: completedIds.has(subtask.id) }))
+  };
+}
+
 // Define timestamp for cached tasks data
 const TASKS_CACHE_TIMESTAMP_KEY = 'tasks_last_fetched';
 
-export function useTasks(userId: string | undefined) {
+// Pass the user's section to hide admin tasks aimed at other sections (see getAudienceSection)
+export function useTasks(userId: string | undefined, section?: string | null) {
   const [tasks, setTasks] = useState<Task[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -143,6 +174,14 @@ export function useTasks(userId: string | undefined) {
         }, () => {
           loadTasks(true); // Force refresh on database changes
         })
+        .on('postgres_changes', {
+          event: '*',
+          schema: 'public',
+          table: 'task_progress',
+          filter: `user_id=eq.${userId}`
+        }, () => {
+          loadTasks(true); // Keep per-user admin task status in sync across devices
+        })
         .subscribe();
 
       // Additional event listener for page visibility changes
@@ -171,7 +210,23 @@ export function useTasks(userId: string | undefined) {
       setError(null);
       let result: Task;
       
-      if (isOffline) {
+      if (newTask.recurrence) {
+        if (isOffline) {
+          throw new Error('Recurring tasks can only be created while online');
+        }
+
+        // Generate every occurrence of the series on the server
+        const createdTasks = await createTaskSeries(userId, newTask);
+        if (createdTasks.length === 0) {
+          throw new Error('No tasks were created for this series');
+        }
+
+        setTasks(prev => [...prev, ...createdTasks]);
+        await saveToIndexedDB(STORES.TASKS, createdTasks.map(task => ({ ...task, userId })));
+        localStorage.setItem(`${TASKS_CACHE_TIMESTAMP_KEY}_${userId}`, Date.now().toString());
+
+        result = createdTasks[0];
+      } else if (isOffline) {
         // Create a temporary ID for offline mode
         const tempId = `temp_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
         const offlineTask: OfflineTask = {
@@ -218,7 +273,25 @@ export function useTasks(userId: string | undefined) {
     }
   };
 
-  const handleUpdateTask = async (taskId: string, updates: Partial<Task>) => {
+  // Admin tasks are shared rows, so their status is saved per user in task_progress
+  const persistTaskUpdate = async (taskId: string, updates: TaskUpdates, task?: Task): Promise<Task> => {
+    if (!task?.isAdminTask || !userId) {
+      return withSubtaskCompletions(await updateTask(taskId, updates), task);
+    }
+
+    const { status, ...rowUpdates } = updates;
+    if (status !== undefined) {
+      await updateTaskProgress(taskId, userId, status);
+    }
+
+    const result = Object.keys(rowUpdates).length > 0
+      ? withSubtaskCompletions(await updateTask(taskId, rowUpdates), task)
+      : task;
+
+    return { ...result, status: status ?? task.status };
+  };
+
+  const handleUpdateTask = async (taskId: string, updates: TaskUpdates) => {
     try {
       setError(null);
       
@@ -247,7 +320,8 @@ export function useTasks(userId: string | undefined) {
         return updatedTask as Task;
       } else {
         // Update task online
-        const result = await updateTask(taskId, updates);
+        const currentTask = tasks.find(task => task.id === taskId);
+        const result = await persistTaskUpdate(taskId, updates, currentTask);
         
         // Update local state
         setTasks(prev => prev.map(task => task.id === taskId ? result : task));
@@ -325,6 +399,187 @@ export function useTasks(userId: string | undefined) {
     }
   };
 
+  const handleUpdateTaskSeries = async (seriesId: string, updates: Partial<Task>) => {
+    if (isOffline) {
+      throw new Error('Task series can only be edited while online');
+    }
+
+    try {
+      setError(null);
+      const updatedTasks = await updateTaskSeries(seriesId, updates);
+      const updatedById = new Map(updatedTasks.map(task => [task.id, task]));
+
+      // Keep each user's own status on admin tasks rather than the shared row's
+      setTasks(prev => prev.map(task => {
+        const updated = updatedById.get(task.id);
+        return updated ? {
+          ...withSubtaskCompletions(updated, task),
+          status: task.isAdminTask ? task.status : updated.status
+        } : task;
+      }));
+      await saveToIndexedDB(STORES.TASKS, updatedTasks.map(task => ({ ...task, userId })));
+    } catch (err: any) {
+      console.error('Error updating task series:', err);
+      setError(err.message || 'Failed to update task series');
+      throw err;
+    }
+  };
+
+  const handleDeleteTaskSeries = async (seriesId: string) => {
+    if (isOffline) {
+      throw new Error('Task series can only be cancelled while online');
+    }
+
+    try {
+      setError(null);
+      await deleteTaskSeries(seriesId);
+
+      // Past occurrences are kept on the server, so reload rather than filtering locally
+      await loadTasks(true);
+    } catch (err: any) {
+      console.error('Error deleting task series:', err);
+      setError(err.message || 'Failed to cancel task series');
+      throw err;
+    }
+  };
+
+  // Applies an admin bulk action and reports the outcome for each selected task
+  const handleBulkAction = async (taskIds: string[], action: BulkTaskAction): Promise<BulkTaskResult[]> => {
+    if (isOffline) {
+      throw new Error('Bulk actions are only available while online');
+    }
+
+    try {
+      setError(null);
+      let results: BulkTaskResult[];
+
+      switch (action.type) {
+        case 'delete':
+          results = await bulkDeleteTasks(taskIds);
+          break;
+        case 'archive':
+          results = await bulkArchiveTasks(taskIds);
+          break;
+        case 'set-category':
+          results = await bulkUpdateTaskCategory(taskIds, action.category);
+          break;
+        case 'shift-due-date':
+          results = await bulkShiftTaskDueDates(tasks.filter(task => taskIds.includes(task.id)), action.days);
+          break;
+      }
+
+      // Removed rows would otherwise linger in the offline cache until it expires
+      if (action.type === 'delete' || action.type === 'archive') {
+        await Promise.all(results
+          .filter(result => result.success)
+          .map(result => deleteFromIndexedDB(STORES.TASKS, result.taskId)));
+      }
+
+      await loadTasks(true);
+      return results;
+    } catch (err: any) {
+      console.error('Error running bulk task action:', err);
+      setError(err.message || 'Failed to run bulk action');
+      throw err;
+    }
+  };
+
+  const handleBulkImportTasks = async (newTasks: NewTask[]): Promise<{ success: number; errors: any[] }> => {
+    if (!userId) {
+      return { success: 0, errors: [{ message: 'User ID is required' }] };
+    }
+    if (isOffline) {
+      return { success: 0, errors: [{ message: 'Bulk import is not available in offline mode' }] };
+    }
+
+    try {
+      const result = await bulkImportTasks(userId, newTasks);
+      await loadTasks(true);
+      return result;
+    } catch (err: any) {
+      console.error('Error bulk importing tasks:', err);
+      return { success: 0, errors: [{ message: err.message || 'Failed to import tasks' }] };
+    }
+  };
+
+  // Archives everything due before the cutoff and returns how many tasks were archived
+  const handleCloseSemester = async (cutoffDate: string) => {
+    if (isOffline) {
+      throw new Error('Closing a semester is only available while online');
+    }
+
+    try {
+      setError(null);
+      const archivedCount = await closeSemester(cutoffDate);
+
+      await Promise.all(tasks
+        .filter(task => task.dueDate < cutoffDate)
+        .map(task => deleteFromIndexedDB(STORES.TASKS, task.id)));
+      await loadTasks(true);
+
+      return archivedCount;
+    } catch (err: any) {
+      console.error('Error closing semester:', err);
+      setError(err.message || 'Failed to close semester');
+      throw err;
+    }
+  };
+
+  const handleRestoreTask = async (taskId: string) => {
+    if (isOffline) {
+      throw new Error('Archived tasks can only be restored while online');
+    }
+
+    try {
+      setError(null);
+      await restoreArchivedTask(taskId);
+      await loadTasks(true);
+    } catch (err: any) {
+      console.error('Error restoring task:', err);
+      setError(err.message || 'Failed to restore task');
+      throw err;
+    }
+  };
+
+  // Ticks a checklist item for the current user and moves the task status along with it
+  const handleToggleSubtask = async (taskId: string, subtaskId: string, completed: boolean) => {
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+    if (isOffline) {
+      throw new Error('Checklist items can only be updated while online');
+    }
+
+    try {
+      setError(null);
+      const task = tasks.find(t => t.id === taskId);
+      if (!task) {
+        throw new Error('Task not found');
+      }
+
+      await setSubtaskCompleted(subtaskId, userId, completed);
+
+      const subtasks = (task.subtasks || []).map(subtask =>
+        subtask.id === subtaskId ? { ...subtask, completed } : subtask
+      );
+      const status = getStatusFromSubtasks(subtasks);
+
+      let updatedTask: Task = { ...task, subtasks };
+      if (status !== task.status) {
+        updatedTask = { ...await persistTaskUpdate(taskId, { status }, task), subtasks };
+      }
+
+      setTasks(prev => prev.map(t => t.id === taskId ? updatedTask : t));
+      await saveToIndexedDB(STORES.TASKS, { ...updatedTask, userId });
+
+      return updatedTask;
+    } catch (err: any) {
+      console.error('Error updating subtask:', err);
+      setError(err.message || 'Failed to update checklist');
+      throw err;
+    }
+  };
+
   // Enhanced sync function to handle all offline changes
   const syncOfflineChanges = async () => {
     if (isOffline || syncInProgress || !userId) {
@@ -387,8 +642,8 @@ export function useTasks(userId: string | undefined) {
           // Create a clean version without offline flags
           const { _isOffline, _isOfflineUpdated, _isOfflineDeleted, userId: _, ...taskData } = task;
           
-          // Update task on server
-          await updateTask(task.id, taskData);
+          // Update task on server (only the user's own status for admin tasks)
+          await persistTaskUpdate(task.id, task.isAdminTask ? { status: taskData.status } : taskData, task);
           
           // Update in IndexedDB without offline flags
           await saveToIndexedDB(STORES.TASKS, { ...taskData, userId, id: task.id });
@@ -427,13 +682,26 @@ export function useTasks(userId: string | undefined) {
     return loadTasks(true);
   }, [userId, loadTasks]);
 
+  // RLS already filters online results, but the offline cache may hold tasks from before a section change
+  const visibleTasks = useMemo(
+    () => tasks.filter(task => !task.isAdminTask || isInAudience(task.targetSections, section)),
+    [tasks, section]
+  );
+
   return {
-    tasks,
+    tasks: visibleTasks,
     loading,
     error,
     createTask: handleCreateTask,
     updateTask: handleUpdateTask,
     deleteTask: handleDeleteTask,
+    updateTaskSeries: handleUpdateTaskSeries,
+    deleteTaskSeries: handleDeleteTaskSeries,
+    bulkAction: handleBulkAction,
+    bulkImportTasks: handleBulkImportTasks,
+    closeSemester: handleCloseSemester,
+    restoreTask: handleRestoreTask,
+    toggleSubtask: handleToggleSubtask,
     refreshTasks,
     syncOfflineChanges,
     isSyncing: syncInProgress,
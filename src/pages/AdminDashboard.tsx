@@ -21,7 +21,7 @@ import { showErrorToast } from '../utils/notifications';
 import { isOverdue } from '../utils/dateUtils';
 import type { User } from '../types/auth';
 import type { Task } from '../types/index';
-import type { NewTask } from '../types/task';
+import type { NewTask, TaskUpdates, BulkTaskAction, BulkTaskResult } from '../types/task';
 import type { Teacher, NewTeacher } from '../types/teacher';
 import type { AdminTab } from '../types/admin';
 
@@ -31,7 +31,13 @@ interface AdminDashboardProps {
   onLogout: () => void;
   onCreateTask: (task: NewTask) => void;
   onDeleteTask: (taskId: string) => void;
-  onUpdateTask: (taskId: string, updates: Partial<Task>) => void;
+  onUpdateTask: (taskId: string, updates: TaskUpdates) => void;
+  onUpdateTaskSeries: (seriesId: string, updates: Partial<Task>) => Promise<void>;
+  onDeleteTaskSeries: (seriesId: string) => Promise<void>;
+  onBulkTaskAction: (taskIds: string[], action: BulkTaskAction) => Promise<BulkTaskResult[]>;
+  onBulkImportTasks: (tasks: NewTask[]) => Promise<{ success: number; errors: any[] }>;
+  onCloseSemester: (cutoffDate: string) => Promise<number>;
+  onRestoreTask: (taskId: string) => Promise<void>;
 }
 
 export function AdminDashboard({
@@ -41,6 +47,12 @@ export function AdminDashboard({
   onCreateTask,
   onDeleteTask,
   onUpdateTask,
+  onUpdateTaskSeries,
+  onDeleteTaskSeries,
+  onBulkTaskAction,
+  onBulkImportTasks,
+  onCloseSemester,
+  onRestoreTask,
 }: AdminDashboardProps) {
   const [activeTab, setActiveTab] = useState<AdminTab>('dashboard');
   const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false);
@@ -75,7 +87,9 @@ export function AdminDashboard({
     deleteRoutineSlot,
     activateRoutine,
     deactivateRoutine,
-    bulkImportSlots
+    bulkImportSlots,
+    revertRoutine,
+    cloneRoutine
   } = useRoutines();
 
   const {
@@ -216,7 +230,14 @@ export function AdminDashboard({
                 onCreateTask={onCreateTask}
                 onDeleteTask={onDeleteTask}
                 onUpdateTask={onUpdateTask}
+                onUpdateTaskSeries={onUpdateTaskSeries}
+                onDeleteTaskSeries={onDeleteTaskSeries}
+                onBulkAction={onBulkTaskAction}
+                onBulkImportTasks={onBulkImportTasks}
+                onCloseSemester={onCloseSemester}
+                onRestoreTask={onRestoreTask}
                 showTaskForm={showTaskForm}
+                courses={courses}
               />
             )}
 
@@ -254,6 +275,7 @@ export function AdminDashboard({
                   announcements={announcements}
                   onCreateAnnouncement={createAnnouncement}
                   onDeleteAnnouncement={deleteAnnouncement}
+                  courses={courses}
                 />
               </div>
             )}
@@ -285,6 +307,7 @@ export function AdminDashboard({
                 courses={courses}
                 materials={materials}
                 onCreateMaterial={createMaterial}
+                onUpdateMaterial={updateMaterial}
                 onDeleteMaterial={deleteMaterial}
               />
             )}
@@ -303,6 +326,8 @@ export function AdminDashboard({
                 onActivateRoutine={activateRoutine}
                 onDeactivateRoutine={deactivateRoutine}
                 onBulkImportSlots={bulkImportSlots}
+                onRevertRoutine={revertRoutine}
+                onCloneRoutine={cloneRoutine}
               />
             )}
           </div>
@@ -0,0 +1,20 @@
+import { Archive } from 'lucide-react';
+import { ArchivedTaskList } from '../components/task/ArchivedTaskList';
+
+export function ArchivePage() {
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <div className="flex items-center gap-3">
+        <div className="p-2 bg-blue-50 dark:bg-blue-900/20 rounded-xl">
+          <Archive className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+        </div>
+        <div>
+          <h1 className="text-xl sm:text-2xl font-bold text-gray-900 dark:text-white">Archive</h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400">Tasks from past semesters</p>
+        </div>
+      </div>
+
+      <ArchivedTaskList />
+    </div>
+  );
+}
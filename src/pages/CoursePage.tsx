@@ -1,9 +1,15 @@
 import { useState } from 'react';
-import { Book, Calendar, User, GitBranch as BrandTelegram, Link, Lock, Search, ExternalLink, MapPin } from 'lucide-react';
+import { Book, Calendar, User, GitBranch as BrandTelegram, Link, Lock, Search, ExternalLink, MapPin, ListTodo } from 'lucide-react';
 import { useCourses } from '../hooks/useCourses';
+import { isOverdue } from '../utils/dateUtils';
 import type { Course } from '../types/course';
+import type { Task } from '../types';
 
-export function CoursePage() {
+interface CoursePageProps {
+  tasks?: Task[];
+}
+
+export function CoursePage({ tasks = [] }: CoursePageProps) {
   const { courses, loading } = useCourses();
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedCourse, setSelectedCourse] = useState<Course | null>(null);
@@ -15,6 +21,11 @@ export function CoursePage() {
     course.teacher.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
+  // Open tasks for a course, soonest due first
+  const getCourseTasks = (courseId: string) => tasks
+    .filter(task => task.courseId === courseId && task.status !== 'completed')
+    .sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime());
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -105,6 +116,29 @@ export function CoursePage() {
                   ))}
                 </div>
 
+                {/* Course Tasks */}
+                {getCourseTasks(course.id).length > 0 && (
+                  <div className="pt-4 border-t border-gray-100 dark:border-gray-700">
+                    <div className="flex items-center gap-2 mb-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+                      <ListTodo className="w-4 h-4 text-blue-500 dark:text-blue-400" />
+                      <span>{getCourseTasks(course.id).length} open {getCourseTasks(course.id).length === 1 ? 'task' : 'tasks'}</span>
+                    </div>
+                    <ul className="space-y-1.5">
+                      {getCourseTasks(course.id).slice(0, 3).map(task => (
+                        <li key={task.id} className="flex items-center justify-between gap-2 text-sm">
+                          <span className="truncate text-gray-600 dark:text-gray-300">{task.name}</span>
+                          <span className={`flex-shrink-0 text-xs ${isOverdue(task.dueDate)
+                            ? 'text-red-600 dark:text-red-400 font-medium'
+                            : 'text-gray-500 dark:text-gray-400'}`}
+                          >
+                            {new Date(task.dueDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
                 {/* Course Links */}
                 <div className="pt-4 space-y-2 border-t border-gray-100 dark:border-gray-700">
                   {course.blcLink && (
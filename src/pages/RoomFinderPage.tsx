@@ -0,0 +1,194 @@
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { DoorOpen, Clock, AlertCircle, Loader2 } from 'lucide-react';
+import { useRoutines } from '../hooks/useRoutines';
+import { RoomOccupancyChart } from '../components/routine/RoomOccupancyChart';
+import { indexSlotsByRoom, findFreeRooms, getTeachingDay, getRoomOccupancy } from '../utils/roomAvailability';
+import { WEEK } from '../utils/routineGrid';
+import { formatClassTime } from '../utils/nowNext';
+import type { RoutineSlot } from '../types/routine';
+
+type NamedSlot = RoutineSlot & { courseCode?: string };
+
+// Starts the search at the current half hour for a typical 90 minute class
+function defaultRange() {
+  const now = new Date();
+  const start = Math.min(now.getHours() * 60 + (now.getMinutes() < 30 ? 0 : 30), 22 * 60);
+  const end = start + 90;
+  const toTime = (minutes: number) => `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+  return { startTime: toTime(start), endTime: toTime(end) };
+}
+
+export function RoomFinderPage() {
+  const { routines, loading } = useRoutines();
+  const [day, setDay] = useState(() => {
+    const today = format(new Date(), 'EEEE');
+    return WEEK.includes(today) ? today : WEEK[0];
+  });
+  const [range, setRange] = useState(defaultRange);
+  const [selectedRoom, setSelectedRoom] = useState('');
+
+  // Rooms are shared between departments, so every active routine counts as a booking
+  const slots = useMemo(
+    () => routines.filter(routine => routine.isActive).flatMap(routine => routine.slots || []) as NamedSlot[],
+    [routines]
+  );
+  const rooms = useMemo(() => indexSlotsByRoom(slots), [slots]);
+  const teachingDay = useMemo(() => getTeachingDay(slots), [slots]);
+  const days = useMemo(() => WEEK.filter(d => d !== 'Friday' || slots.some(slot => slot.dayOfWeek === 'Friday')), [slots]);
+
+  const isValidRange = !!range.startTime && !!range.endTime && range.startTime < range.endTime;
+  const { free, busy } = useMemo(
+    () => (isValidRange ? findFreeRooms(rooms, day, range.startTime, range.endTime) : { free: [], busy: [] }),
+    [rooms, day, range, isValidRange]
+  );
+
+  const chartRoom = rooms.find(schedule => schedule.room === selectedRoom) || free[0] || rooms[0];
+  const occupancy = useMemo(
+    () => (chartRoom ? getRoomOccupancy(chartRoom, days, teachingDay) : []),
+    [chartRoom, days, teachingDay]
+  );
+
+  if (loading && routines.length === 0) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-500" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      <div className="flex items-center gap-3">
+        <div className="p-2 bg-blue-50 dark:bg-blue-900/20 rounded-xl">
+          <DoorOpen className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+        </div>
+        <div>
+          <h1 className="text-xl sm:text-2xl font-bold text-gray-900 dark:text-white">Find a Room</h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400">Free rooms from the active routine</p>
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-4 grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <label className="block">
+          <span className="text-xs font-medium text-gray-500 dark:text-gray-400">Day</span>
+          <select
+            value={day}
+            onChange={(e) => setDay(e.target.value)}
+            className="mt-1 w-full px-3 py-2 border dark:border-gray-600 rounded-lg text-sm dark:bg-gray-700 dark:text-white"
+          >
+            {days.map(d => <option key={d} value={d}>{d}</option>)}
+          </select>
+        </label>
+        <label className="block">
+          <span className="text-xs font-medium text-gray-500 dark:text-gray-400">From</span>
+          <input
+            type="time"
+            value={range.startTime}
+            onChange={(e) => setRange(prev => ({ ...prev, startTime: e.target.value }))}
+            className="mt-1 w-full px-3 py-2 border dark:border-gray-600 rounded-lg text-sm dark:bg-gray-700 dark:text-white"
+          />
+        </label>
+        <label className="block">
+          <span className="text-xs font-medium text-gray-500 dark:text-gray-400">To</span>
+          <input
+            type="time"
+            value={range.endTime}
+            onChange={(e) => setRange(prev => ({ ...prev, endTime: e.target.value }))}
+            className="mt-1 w-full px-3 py-2 border dark:border-gray-600 rounded-lg text-sm dark:bg-gray-700 dark:text-white"
+          />
+        </label>
+      </div>
+
+      {rooms.length === 0 ? (
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-8 text-center text-sm text-gray-500 dark:text-gray-400">
+          No rooms are booked in the active routine yet.
+        </div>
+      ) : !isValidRange ? (
+        <div className="flex items-center gap-2 p-3 bg-yellow-50 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-300 rounded-lg text-sm">
+          <AlertCircle className="w-4 h-4 shrink-0" />
+          The end time must be after the start time.
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            <div>
+              <h2 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">
+                Free on {day}, {formatClassTime(range.startTime)} - {formatClassTime(range.endTime)}
+                <span className="ml-2 font-normal text-gray-500 dark:text-gray-400">{free.length} of {rooms.length} rooms</span>
+              </h2>
+              {free.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">Every room has a class in this time.</p>
+              ) : (
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                  {free.map(room => (
+                    <button
+                      key={room.room}
+                      onClick={() => setSelectedRoom(room.room)}
+                      className={`text-left p-3 rounded-lg border transition-colors ${
+                        chartRoom?.room === room.room
+                          ? 'border-green-500 bg-green-50 dark:bg-green-900/20'
+                          : 'border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 hover:border-green-400'
+                      }`}
+                    >
+                      <span className="block text-sm font-semibold text-gray-900 dark:text-white">Room {room.room}</span>
+                      <span className="flex items-center gap-1 text-xs text-green-700 dark:text-green-400">
+                        <Clock className="w-3 h-3" />
+                        {room.freeUntil ? `Free until ${formatClassTime(room.freeUntil)}` : 'Free for the rest of the day'}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {busy.length > 0 && (
+              <div>
+                <h2 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Booked</h2>
+                <ul className="divide-y dark:divide-gray-700 bg-white dark:bg-gray-800 rounded-lg shadow-sm">
+                  {busy.map(room => (
+                    <li key={room.room}>
+                      <button
+                        onClick={() => setSelectedRoom(room.room)}
+                        className="w-full flex items-start justify-between gap-3 px-3 py-2 text-left hover:bg-gray-50 dark:hover:bg-gray-700/50"
+                      >
+                        <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Room {room.room}</span>
+                        <span className="text-xs text-gray-500 dark:text-gray-400 text-right">
+                          {room.conflicts.map(slot => (
+                            <span key={slot.id} className="block">
+                              {slot.courseCode || slot.courseName || 'Class'}{slot.section && ` (${slot.section})`} · {formatClassTime(slot.startTime)} - {formatClassTime(slot.endTime)}
+                            </span>
+                          ))}
+                        </span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+
+          {chartRoom && (
+            <div className="space-y-2">
+              <select
+                value={chartRoom.room}
+                onChange={(e) => setSelectedRoom(e.target.value)}
+                className="w-full px-3 py-2 border dark:border-gray-600 rounded-lg text-sm dark:bg-gray-700 dark:text-white"
+                aria-label="Room to chart"
+              >
+                {rooms.map(room => <option key={room.room} value={room.room}>Room {room.room}</option>)}
+              </select>
+              <RoomOccupancyChart
+                room={chartRoom.room}
+                occupancy={occupancy}
+                teachingDay={teachingDay}
+                highlight={{ day, ...range }}
+              />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,7 +4,8 @@ import { useCourses } from '../hooks/useCourses';
 import { useTeachers } from '../hooks/useTeachers';
 import { useAuth } from '../hooks/useAuth';
 import { useOfflineStatus } from '../hooks/useOfflineStatus';
-import { format, addDays, startOfWeek } from 'date-fns';
+import type { RoutineOverrideView } from '../hooks/useRoutineOverrides';
+import { format, addDays, startOfWeek, parseISO } from 'date-fns';
 import { 
   Calendar, 
   Clock, 
@@ -21,10 +22,25 @@ import {
   Code,
   ExternalLink,
   Plus,
-  WifiOff
+  WifiOff,
+  CalendarClock,
+  Undo2,
+  UserCheck,
+  Settings2,
+  AlertTriangle
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import type { Teacher } from '../types/teacher';
+import type { RoutineSlot, RoutineSlotOverride, NewRoutineSlotOverride } from '../types/routine';
+import type { Task } from '../types/task';
+import { CalendarExport } from '../components/routine/CalendarExport';
+import { RoutineGridExport } from '../components/routine/RoutineGridExport';
+import { RoutineOverrideModal } from '../components/routine/RoutineOverrideModal';
+import { MyRoutineSetup } from '../components/routine/MyRoutineSetup';
+import { applyRoutineOverrides, OVERRIDE_TYPE_LABELS, type ScheduledSlot } from '../utils/routineOverrides';
+import { buildMyRoutine, findMyRoutineClashes } from '../utils/myRoutine';
+import { updateUserSection } from '../services/auth.service';
+import type { CourseEnrollment } from '../types/course';
 import { getInitials } from '../utils/stringUtils';
 import React from 'react';
 
@@ -34,7 +50,28 @@ const TeacherDetailsModal = lazy(() => import('./TeacherDetailsModal').then(modu
 // Create a memoized TeacherDetailsModal component to prevent unnecessary re-renders
 const MemoizedTeacherDetailsModal = React.memo(TeacherDetailsModal);
 
-export function RoutinePage() {
+const ROUTINE_VIEW_KEY = 'nesttask_routine_view';
+
+// Enrollments and overrides come from App, which also needs them for the class-status widget
+interface RoutinePageProps {
+  tasks?: Task[];
+  enrollments: CourseEnrollment[];
+  onSaveEnrollments: (enrollments: CourseEnrollment[]) => Promise<void>;
+  overrides: RoutineSlotOverride[];
+  onCreateOverride: (override: NewRoutineSlotOverride) => Promise<void>;
+  onDeleteOverride: (overrideId: string) => Promise<void>;
+  onViewChange: (view: RoutineOverrideView | null) => void;
+}
+
+export function RoutinePage({
+  tasks = [],
+  enrollments,
+  onSaveEnrollments: saveEnrollments,
+  overrides,
+  onCreateOverride: createOverride,
+  onDeleteOverride: deleteOverride,
+  onViewChange
+}: RoutinePageProps) {
   const { routines, loading, error, prefetchRoutineData } = useRoutines();
   const { courses } = useCourses();
   const { teachers } = useTeachers();
@@ -46,6 +83,10 @@ export function RoutinePage() {
   const [enrichedSlots, setEnrichedSlots] = useState<any[]>([]);
   const [showMobileSearch, setShowMobileSearch] = useState(false);
   const [selectedRoutineId, setSelectedRoutineId] = useState<string>('');
+  // undefined: closed, null: new extra class, slot: change that slot
+  const [overrideTarget, setOverrideTarget] = useState<ScheduledSlot | null | undefined>(undefined);
+  const [showMyRoutine, setShowMyRoutine] = useState(() => localStorage.getItem(ROUTINE_VIEW_KEY) === 'mine');
+  const [showMyRoutineSetup, setShowMyRoutineSetup] = useState(false);
 
   const isAdmin = useMemo(() => user?.role === 'admin', [user]);
 
@@ -88,6 +129,39 @@ export function RoutinePage() {
     });
   }, [selectedDate]);
 
+  const selectedDateKey = format(selectedDate, 'yyyy-MM-dd');
+  const weekFrom = format(weekDays[0].date, 'yyyy-MM-dd');
+  const weekTo = format(weekDays[weekDays.length - 1].date, 'yyyy-MM-dd');
+
+  // Tell App which routine and week to load overrides for; it stops when the page closes
+  useEffect(() => {
+    onViewChange({ routineId: currentRoutine?.id, fromDate: weekFrom, toDate: weekTo });
+    return () => onViewChange(null);
+  }, [currentRoutine?.id, weekFrom, weekTo, onViewChange]);
+
+  // Create lookup maps for faster access
+  const courseMap = useMemo(() => new Map(courses.map(course => [course.id, course])), [courses]);
+  const teacherMap = useMemo(() => new Map(teachers.map(teacher => [teacher.id, teacher])), [teachers]);
+
+  const enrichSlot = useCallback(<T extends RoutineSlot>(slot: T) => {
+    // Use map lookup instead of array.find (O(1) vs O(n))
+    const course = slot.courseId ? courseMap.get(slot.courseId) : undefined;
+    const teacher = slot.teacherId ? teacherMap.get(slot.teacherId) : undefined;
+    
+    const courseName = slot.courseName || (course ? course.name : 'Unknown Course');
+    const courseCode = course?.code || 'N/A';
+    const teacherName = slot.teacherName || (teacher ? teacher.name : 'Unknown Teacher');
+    
+    return {
+      ...slot,
+      course,
+      teacher,
+      courseName,
+      courseCode,
+      teacherName
+    };
+  }, [courseMap, teacherMap]);
+
   // Optimize slot enrichment process
   useEffect(() => {
     if (!currentRoutine?.slots) {
@@ -95,48 +169,67 @@ export function RoutinePage() {
       return;
     }
 
-    // Create lookup maps for faster access
-    const courseMap = new Map();
-    const teacherMap = new Map();
-    
-    courses.forEach(course => courseMap.set(course.id, course));
-    teachers.forEach(teacher => teacherMap.set(teacher.id, teacher));
+    setEnrichedSlots(currentRoutine.slots.map(enrichSlot));
+  }, [currentRoutine, enrichSlot]);
 
-    const enriched = currentRoutine.slots.map(slot => {
-      // Use map lookup instead of array.find (O(1) vs O(n))
-      const course = slot.courseId ? courseMap.get(slot.courseId) : undefined;
-      const teacher = slot.teacherId ? teacherMap.get(slot.teacherId) : undefined;
-      
-      const courseName = slot.courseName || (course ? course.name : 'Unknown Course');
-      const courseCode = course?.code || 'N/A';
-      const teacherName = slot.teacherName || (teacher ? teacher.name : 'Unknown Teacher');
-      
-      return {
-        ...slot,
-        course,
-        teacher,
-        courseName,
-        courseCode,
-        teacherName
-      };
-    });
+  useEffect(() => {
+    localStorage.setItem(ROUTINE_VIEW_KEY, showMyRoutine ? 'mine' : 'all');
+  }, [showMyRoutine]);
 
-    setEnrichedSlots(enriched);
-  }, [currentRoutine, courses, teachers]);
+  const hasMyRoutine = !!user?.section || enrollments.length > 0;
+
+  const myRoutineSlots = useMemo(
+    () => buildMyRoutine(currentRoutine?.slots || [], user?.section, enrollments),
+    [currentRoutine, user?.section, enrollments]
+  );
 
+  // Retakes taken with another section can overlap the student's regular classes
+  const myRoutineClashes = useMemo(() => findMyRoutineClashes(myRoutineSlots), [myRoutineSlots]);
+  const clashingSlotIds = useMemo(
+    () => new Set(myRoutineClashes.flatMap(clash => [clash.slot.id, clash.conflictingSlot.id])),
+    [myRoutineClashes]
+  );
+
+  // The selected date's classes, with cancellations, makeups and room changes applied
   const filteredSlots = useMemo(() => {
-    return enrichedSlots.filter(slot => {
+    let daySlots = applyRoutineOverrides(currentRoutine?.slots || [], overrides, selectedDateKey);
+    if (showMyRoutine) {
+      daySlots = buildMyRoutine(daySlots, user?.section, enrollments);
+    }
+
+    return daySlots.map(enrichSlot).filter(slot => {
       const matchesSearch = searchTerm === '' || 
         slot.courseName?.toLowerCase().includes(searchTerm.toLowerCase()) ||
         slot.courseCode?.toLowerCase().includes(searchTerm.toLowerCase()) ||
         slot.roomNumber?.toLowerCase().includes(searchTerm.toLowerCase()) ||
         slot.teacherName?.toLowerCase().includes(searchTerm.toLowerCase());
       
-      const matchesDay = format(selectedDate, 'EEEE') === slot.dayOfWeek;
-      
-      return matchesSearch && matchesDay;
+      return matchesSearch;
     });
-  }, [enrichedSlots, searchTerm, selectedDate]);
+  }, [currentRoutine, overrides, selectedDateKey, showMyRoutine, user?.section, enrollments, enrichSlot, searchTerm]);
+
+  const namedSlots = useMemo(
+    () => enrichedSlots.map(slot => ({ ...slot, courseCode: slot.courseCode === 'N/A' ? undefined : slot.courseCode })),
+    [enrichedSlots]
+  );
+
+  const myNamedSlots = useMemo(
+    () => buildMyRoutine(namedSlots, user?.section, enrollments),
+    [namedSlots, user?.section, enrollments]
+  );
+
+  // Calendar exports follow the student's own routine; fall back to everything if it is empty
+  const calendarSlots = myNamedSlots.length > 0 ? myNamedSlots : namedSlots;
+
+  const handleSaveMyRoutine = useCallback(async (section: string, next: CourseEnrollment[]) => {
+    if (!user) return;
+
+    if (section !== user.section) {
+      await updateUserSection(user.id, section);
+    }
+    await saveEnrollments(next);
+    setShowMyRoutine(true);
+  }, [user, saveEnrollments]);
 
   // Create a memoized handler for day selection
   const handleDaySelect = useCallback((day: Date) => {
@@ -153,6 +246,17 @@ export function RoutinePage() {
     setSelectedTeacher(null);
   }, []);
 
+  // A teacher can teach in several active routines, e.g. for different batches
+  const selectedTeacherSlots = useMemo(
+    () => selectedTeacher
+      ? routines
+          .filter(routine => routine.isActive)
+          .flatMap(routine => routine.slots || [])
+          .filter(slot => slot.teacherId === selectedTeacher.id)
+      : [],
+    [routines, selectedTeacher]
+  );
+
   // Create a memoized handler for mobile search toggle
   const toggleMobileSearch = useCallback(() => {
     setShowMobileSearch(prev => !prev);
@@ -205,13 +309,22 @@ export function RoutinePage() {
               <h1 className="text-base sm:text-lg font-bold text-gray-900 dark:text-white">Class Routine</h1>
             </div>
             
-            <button 
-              onClick={toggleMobileSearch}
-              className="p-2 bg-white dark:bg-gray-700 rounded-lg border border-gray-200 dark:border-gray-600"
-              aria-label={showMobileSearch ? "Hide search" : "Show search"}
-            >
-              <Search className="w-5 h-5 text-gray-500 dark:text-gray-400" />
-            </button>
+            <div className="flex items-center gap-2">
+              <CalendarExport routineName={currentRoutine.name} slots={calendarSlots} tasks={tasks} />
+              <RoutineGridExport
+                routineName={currentRoutine.name}
+                semester={currentRoutine.semester}
+                slots={namedSlots}
+                mySlots={myNamedSlots}
+              />
+              <button 
+                onClick={toggleMobileSearch}
+                className="p-2 bg-white dark:bg-gray-700 rounded-lg border border-gray-200 dark:border-gray-600"
+                aria-label={showMobileSearch ? "Hide search" : "Show search"}
+              >
+                <Search className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+              </button>
+            </div>
           </div>
           
           <p className="text-sm text-gray-500 dark:text-gray-400">
@@ -309,6 +422,14 @@ export function RoutinePage() {
               />
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
             </div>
+
+            <CalendarExport routineName={currentRoutine.name} slots={calendarSlots} tasks={tasks} />
+            <RoutineGridExport
+              routineName={currentRoutine.name}
+              semester={currentRoutine.semester}
+              slots={namedSlots}
+              mySlots={myNamedSlots}
+            />
           </div>
         </div>
       </div>
@@ -342,6 +463,64 @@ export function RoutinePage() {
           </button>
         </div>
 
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+          <div className="flex items-center gap-2">
+            <div className="inline-flex p-0.5 bg-gray-100 dark:bg-gray-800 rounded-lg">
+              {[false, true].map(mine => (
+                <button
+                  key={String(mine)}
+                  onClick={() => setShowMyRoutine(mine)}
+                  aria-pressed={showMyRoutine === mine}
+                  className={`px-3 py-1 text-xs sm:text-sm font-medium rounded-md transition-colors ${
+                    showMyRoutine === mine
+                      ? 'bg-white dark:bg-gray-700 text-blue-600 dark:text-blue-400 shadow-sm'
+                      : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'
+                  }`}
+                >
+                  {mine ? 'My Routine' : 'All classes'}
+                </button>
+              ))}
+            </div>
+            {showMyRoutine && hasMyRoutine && (
+              <button
+                onClick={() => setShowMyRoutineSetup(true)}
+                className="p-1.5 text-gray-500 hover:text-blue-600 dark:text-gray-400 dark:hover:text-blue-400 rounded-lg"
+                title="Edit my section and courses"
+                aria-label="Edit my section and courses"
+              >
+                <Settings2 className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+
+          {isAdmin && !isOffline && (
+            <button
+              onClick={() => setOverrideTarget(null)}
+              className="flex items-center gap-1 text-xs sm:text-sm text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              <Plus className="w-4 h-4" />
+              Add extra class on {format(selectedDate, 'EEE, MMM d')}
+            </button>
+          )}
+        </div>
+
+        {showMyRoutine && myRoutineClashes.length > 0 && (
+          <div className="mb-3 p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg">
+            <p className="flex items-center gap-2 text-sm font-medium text-yellow-800 dark:text-yellow-300">
+              <AlertTriangle className="w-4 h-4 shrink-0" />
+              Some of your classes overlap
+            </p>
+            <ul className="mt-1 ml-6 list-disc text-xs text-yellow-700 dark:text-yellow-400 space-y-0.5">
+              {myRoutineClashes.map(({ slot, conflictingSlot }) => (
+                <li key={`${slot.id}-${conflictingSlot.id}`}>
+                  {enrichSlot(slot).courseName} and {enrichSlot(conflictingSlot).courseName} on {slot.dayOfWeek}{' '}
+                  ({slot.startTime.slice(0, 5)}-{slot.endTime.slice(0, 5)} / {conflictingSlot.startTime.slice(0, 5)}-{conflictingSlot.endTime.slice(0, 5)})
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         <div className="grid grid-cols-6 gap-1.5 sm:gap-2 mb-4">
           {weekDays.map((day, i) => (
             <button 
@@ -369,7 +548,23 @@ export function RoutinePage() {
       </div>
 
       <div className="space-y-2 sm:space-y-3">
-        {filteredSlots.length === 0 ? (
+        {showMyRoutine && !hasMyRoutine ? (
+          <div className="text-center py-8 sm:py-12 bg-white dark:bg-gray-800 rounded-xl shadow-sm">
+            <UserCheck className="w-10 h-10 sm:w-12 sm:h-12 text-gray-400 dark:text-gray-500 mx-auto mb-3 sm:mb-4" />
+            <h3 className="text-base sm:text-lg font-medium text-gray-900 dark:text-white mb-1 sm:mb-2">
+              Set Up My Routine
+            </h3>
+            <p className="text-sm sm:text-base text-gray-500 dark:text-gray-400 px-4 mb-4">
+              Save your section and courses to see only the classes you attend, including retakes.
+            </p>
+            <button
+              onClick={() => setShowMyRoutineSetup(true)}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-medium transition-colors"
+            >
+              Get started
+            </button>
+          </div>
+        ) : filteredSlots.length === 0 ? (
           <div className="text-center py-8 sm:py-12 bg-white dark:bg-gray-800 rounded-xl shadow-sm">
             <Clock className="w-10 h-10 sm:w-12 sm:h-12 text-gray-400 dark:text-gray-500 mx-auto mb-3 sm:mb-4" />
             <h3 className="text-base sm:text-lg font-medium text-gray-900 dark:text-white mb-1 sm:mb-2">
@@ -388,7 +583,9 @@ export function RoutinePage() {
                 key={slot.id}
                 initial={{ opacity: 0, y: 20 }}
                 animate={{ opacity: 1, y: 0 }}
-                className="bg-white dark:bg-gray-800 rounded-lg sm:rounded-xl overflow-hidden shadow-sm hover:shadow-md transition-all duration-300 border border-gray-100 dark:border-gray-700/50"
+                className={`bg-white dark:bg-gray-800 rounded-lg sm:rounded-xl overflow-hidden shadow-sm hover:shadow-md transition-all duration-300 border border-gray-100 dark:border-gray-700/50 ${
+                  slot.isCancelled ? 'opacity-60' : ''
+                }`}
               >
                 <div className="flex flex-row items-stretch h-full">
                   <div className="w-[85px] sm:w-[120px] md:w-[180px] bg-gray-50 dark:bg-gray-800/40 flex flex-col justify-between items-center py-4 sm:py-6 md:py-8 px-2 sm:px-3 md:px-4 border-r border-gray-100 dark:border-gray-700/50">
@@ -414,7 +611,58 @@ export function RoutinePage() {
                   </div>
 
                   <div className="flex-1 p-2.5 xs:p-3 sm:p-4 md:p-6 lg:p-8">
-                    <h3 className="text-sm sm:text-lg md:text-xl lg:text-2xl font-medium text-slate-600 dark:text-slate-300 mb-2 sm:mb-3 md:mb-4 lg:mb-6 line-clamp-2">
+                    {showMyRoutine && clashingSlotIds.has(slot.id) && (
+                      <span className="inline-flex items-center gap-1 mb-2 px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300">
+                        <AlertTriangle className="w-3 h-3" />
+                        Clash
+                      </span>
+                    )}
+                    {(slot.override || isAdmin) && (
+                      <div className="flex items-start justify-between gap-2 mb-2">
+                        {slot.override ? (
+                          <div className="min-w-0">
+                            <span className={`inline-block px-2 py-0.5 rounded-full text-xs font-medium ${
+                              slot.isCancelled
+                                ? 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400'
+                                : 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400'
+                            }`}>
+                              {slot.movedFrom
+                                ? `Moved from ${format(parseISO(slot.movedFrom), 'EEE, MMM d')}`
+                                : slot.override.type === 'rescheduled'
+                                  ? `Moved to ${format(parseISO(slot.override.newDate!), 'EEE, MMM d')}`
+                                  : OVERRIDE_TYPE_LABELS[slot.override.type]}
+                            </span>
+                            {slot.override.note && (
+                              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{slot.override.note}</p>
+                            )}
+                          </div>
+                        ) : <span />}
+                        {isAdmin && !isOffline && (
+                          slot.override ? (
+                            <button
+                              onClick={() => deleteOverride(slot.override!.id)}
+                              className="flex items-center gap-1 text-xs text-gray-500 hover:text-blue-600 dark:text-gray-400 dark:hover:text-blue-400 shrink-0"
+                              title="Undo this change"
+                            >
+                              <Undo2 className="w-3.5 h-3.5" />
+                              Undo
+                            </button>
+                          ) : (
+                            <button
+                              onClick={() => setOverrideTarget(slot)}
+                              className="flex items-center gap-1 text-xs text-gray-500 hover:text-blue-600 dark:text-gray-400 dark:hover:text-blue-400 shrink-0"
+                              title="Cancel, reschedule or move this class for this date"
+                            >
+                              <CalendarClock className="w-3.5 h-3.5" />
+                              Change
+                            </button>
+                          )
+                        )}
+                      </div>
+                    )}
+                    <h3 className={`text-sm sm:text-lg md:text-xl lg:text-2xl font-medium text-slate-600 dark:text-slate-300 mb-2 sm:mb-3 md:mb-4 lg:mb-6 line-clamp-2 ${
+                      slot.isCancelled ? 'line-through' : ''
+                    }`}>
                       {slot.courseName || 'No Course Name'}
                     </h3>
                     
@@ -434,7 +682,7 @@ export function RoutinePage() {
                         <span className="text-[11px] xs:text-xs sm:text-sm md:text-base lg:text-lg font-medium">
                           {slot.teacher && (
                             <button
-                              onClick={() => handleTeacherSelect(slot.teacher)}
+                              onClick={() => slot.teacher && handleTeacherSelect(slot.teacher)}
                               className="text-blue-600 dark:text-blue-400 hover:underline inline-flex items-center text-xs sm:text-sm"
                             >
                               {getInitials(slot.teacherName || 'Unknown')}
@@ -455,12 +703,35 @@ export function RoutinePage() {
         )}
       </div>
 
+      {overrideTarget !== undefined && currentRoutine && (
+        <RoutineOverrideModal
+          routineId={currentRoutine.id}
+          date={selectedDateKey}
+          slot={overrideTarget || undefined}
+          courses={courses}
+          teachers={teachers}
+          onSubmit={createOverride}
+          onClose={() => setOverrideTarget(undefined)}
+        />
+      )}
+
+      {showMyRoutineSetup && (
+        <MyRoutineSetup
+          slots={namedSlots}
+          section={user?.section}
+          enrollments={enrollments}
+          onSave={handleSaveMyRoutine}
+          onClose={() => setShowMyRoutineSetup(false)}
+        />
+      )}
+
       {selectedTeacher && (
         <Suspense fallback={<div className="fixed inset-0 flex items-center justify-center bg-black/30 backdrop-blur-sm z-50">
           <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-white"></div>
         </div>}>
           <MemoizedTeacherDetailsModal
             teacher={selectedTeacher}
+            slots={selectedTeacherSlots}
             onClose={handleCloseTeacherModal}
           />
         </Suspense>
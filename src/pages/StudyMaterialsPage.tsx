@@ -1,9 +1,14 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { useCourses } from '../hooks/useCourses';
+import { useOfflineStatus } from '../hooks/useOfflineStatus';
+import { searchStudyMaterials } from '../services/course.service';
 import { StudyMaterialsGrid } from '../components/study-materials/StudyMaterialsGrid';
 import { LoadingScreen } from '../components/LoadingScreen';
-import { Book, Search, Filter, FileText } from 'lucide-react';
-import type { Course, StudyMaterialCategory } from '../types/course';
+import { Book, Search, Filter, FileText, Loader2 } from 'lucide-react';
+import type { Course, StudyMaterialCategory, StudyMaterialSearchResult } from '../types/course';
+
+// Shorter queries match too much of the document text to be useful
+const MIN_CONTENT_SEARCH_LENGTH = 3;
 
 export function StudyMaterialsPage() {
   const { courses, materials, loading } = useCourses();
@@ -11,12 +16,65 @@ export function StudyMaterialsPage() {
   const [selectedCategory, setSelectedCategory] = useState<StudyMaterialCategory | 'all'>('all');
   const [searchTerm, setSearchTerm] = useState('');
   const [filteredMaterials, setFilteredMaterials] = useState(materials || []);
+  const [searchResults, setSearchResults] = useState<StudyMaterialSearchResult[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  const isOffline = useOfflineStatus();
+
+  // Search file contents on the server; offline, or if it fails, fall back to matching titles
+  useEffect(() => {
+    const query = searchTerm.trim();
+    if (query.length < MIN_CONTENT_SEARCH_LENGTH || isOffline) {
+      setSearchResults(null);
+      setSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setSearching(true);
+      try {
+        const results = await searchStudyMaterials(query);
+        if (!cancelled) setSearchResults(results);
+      } catch {
+        if (!cancelled) setSearchResults(null);
+      } finally {
+        if (!cancelled) setSearching(false);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchTerm, isOffline]);
+
+  const searchMatches = useMemo(
+    () => searchResults ? new Map(searchResults.map(result => [result.materialId, result.matches])) : undefined,
+    [searchResults]
+  );
 
   // Update filtered materials whenever dependencies change
   useEffect(() => {
     if (!materials) return;
 
-    const filtered = materials.filter(material => {
+    const query = searchTerm.toLowerCase();
+    const matchesText = (material: typeof materials[number]) =>
+      material.title.toLowerCase().includes(query) ||
+      material.description.toLowerCase().includes(query);
+
+    // Content search hits come first, best match first; partial-word title and description
+    // matches the full-text search misses (e.g. "calc" for "Calculus") follow
+    const hitIds = new Set(searchResults?.map(result => result.materialId));
+    const candidates = searchResults
+      ? [
+          ...searchResults
+            .map(result => materials.find(material => material.id === result.materialId))
+            .filter((material): material is NonNullable<typeof material> => !!material),
+          ...materials.filter(material => !hitIds.has(material.id) && matchesText(material))
+        ]
+      : materials;
+
+    const filtered = candidates.filter(material => {
       // First check if material matches the selected course
       if (selectedCourse) {
         if (material.courseid !== selectedCourse.id) {
@@ -25,9 +83,7 @@ export function StudyMaterialsPage() {
       }
 
       // Then check other filters
-      const matchesSearch = searchTerm === '' || 
-        material.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        material.description.toLowerCase().includes(searchTerm.toLowerCase());
+      const matchesSearch = searchTerm === '' || hitIds.has(material.id) || matchesText(material);
       
       const matchesCategory = selectedCategory === 'all' || material.category === selectedCategory;
       
@@ -35,7 +91,7 @@ export function StudyMaterialsPage() {
     });
 
     setFilteredMaterials(filtered);
-  }, [materials, selectedCourse, selectedCategory, searchTerm]);
+  }, [materials, selectedCourse, selectedCategory, searchTerm, searchResults]);
 
   // Handle course change
   const handleCourseChange = useCallback((courseId: string) => {
@@ -165,12 +221,16 @@ export function StudyMaterialsPage() {
             <div className="relative w-full sm:w-full lg:w-64">
               <input
                 type="text"
-                placeholder={`Search ${selectedCourse ? selectedCourse.code : ''} materials...`}
+                placeholder={`Search ${selectedCourse ? selectedCourse.code : ''} materials and files...`}
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
                 className="w-full pl-10 pr-4 py-2 border dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm"
               />
-              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+              {searching ? (
+                <Loader2 className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4 animate-spin" />
+              ) : (
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+              )}
             </div>
           </div>
         </div>
@@ -195,7 +255,7 @@ export function StudyMaterialsPage() {
       )}
 
       {/* Materials Grid */}
-      <StudyMaterialsGrid materials={filteredMaterials} />
+      <StudyMaterialsGrid materials={filteredMaterials} searchMatches={searchMatches} />
     </div>
   );
 }
\ No newline at end of file
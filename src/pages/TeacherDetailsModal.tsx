@@ -1,13 +1,45 @@
-import { X, Mail, Phone, Building, GraduationCap } from 'lucide-react';
+import { useMemo } from 'react';
+import { isToday, isTomorrow, format } from 'date-fns';
+import { X, Mail, Phone, Building, GraduationCap, DoorOpen, CalendarDays, Clock } from 'lucide-react';
 import { motion } from 'framer-motion';
+import { getTeacherAvailability } from '../utils/teacherAvailability';
+import { formatClassTime } from '../utils/nowNext';
+import { WEEK } from '../utils/routineGrid';
 import type { Teacher } from '../types/teacher';
+import type { RoutineSlot } from '../types/routine';
 
 interface TeacherDetailsModalProps {
   teacher: Teacher;
+  slots?: (RoutineSlot & { courseCode?: string })[]; // the teacher's classes in the active routine
   onClose: () => void;
 }
 
-export function TeacherDetailsModal({ teacher, onClose }: TeacherDetailsModalProps) {
+function minutesToTime(minutes: number) {
+  return formatClassTime(`${Math.floor(minutes / 60)}:${minutes % 60}`);
+}
+
+export function TeacherDetailsModal({ teacher, slots = [], onClose }: TeacherDetailsModalProps) {
+  const consultationHours = useMemo(() => teacher.consultationHours || [], [teacher.consultationHours]);
+  const { teachingNow, freeNow, nextFree } = useMemo(
+    () => getTeacherAvailability(slots, consultationHours, new Date()),
+    [slots, consultationHours]
+  );
+
+  const timetable = useMemo(
+    () => WEEK
+      .map(day => ({
+        day,
+        slots: slots.filter(slot => slot.dayOfWeek === day).sort((a, b) => a.startTime.localeCompare(b.startTime)),
+        hours: consultationHours.filter(hour => hour.dayOfWeek === day)
+      }))
+      .filter(day => day.slots.length > 0 || day.hours.length > 0),
+    [slots, consultationHours]
+  );
+
+  const nextFreeDay = nextFree
+    ? isToday(nextFree.date) ? 'Today' : isTomorrow(nextFree.date) ? 'Tomorrow' : format(nextFree.date, 'EEEE')
+    : '';
+
   return (
     <>
       <div 
@@ -19,7 +51,7 @@ export function TeacherDetailsModal({ teacher, onClose }: TeacherDetailsModalPro
         animate={{ opacity: 1, scale: 1, y: 0 }}
         exit={{ opacity: 0, scale: 0.95, y: 20 }}
         transition={{ type: "spring", duration: 0.5 }}
-        className="fixed inset-x-4 top-[5%] md:inset-x-auto md:left-1/2 md:-translate-x-1/2 md:w-full md:max-w-2xl bg-white dark:bg-gray-800 rounded-2xl shadow-xl z-50 max-h-[90vh] overflow-hidden"
+        className="fixed inset-x-4 top-[5%] md:inset-x-auto md:left-1/2 md:-translate-x-1/2 md:w-full md:max-w-2xl bg-white dark:bg-gray-800 rounded-2xl shadow-xl z-50 max-h-[90vh] overflow-y-auto"
       >
         {/* Header */}
         <div className="relative h-32 bg-gradient-to-r from-blue-600 to-indigo-600">
@@ -49,6 +81,35 @@ export function TeacherDetailsModal({ teacher, onClose }: TeacherDetailsModalPro
               </p>
             )}
 
+            {/* Availability */}
+            <div className="mb-6 space-y-1.5">
+              {teachingNow && (
+                <p className="flex items-center gap-2 text-sm text-amber-700 dark:text-amber-400">
+                  <span className="w-2 h-2 rounded-full bg-amber-500" />
+                  In class until {formatClassTime(teachingNow.endTime)}
+                  {teachingNow.roomNumber && ` in Room ${teachingNow.roomNumber}`}
+                </p>
+              )}
+              {freeNow && nextFree ? (
+                <p className="flex items-center gap-2 text-sm font-medium text-green-700 dark:text-green-400">
+                  <span className="w-2 h-2 rounded-full bg-green-500 animate-pulse" />
+                  Free now until {minutesToTime(nextFree.end)}
+                  {teacher.officeRoom && ` in ${teacher.officeRoom}`}
+                </p>
+              ) : nextFree ? (
+                <p className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+                  <span className="w-2 h-2 rounded-full bg-gray-400" />
+                  Next free slot: {nextFreeDay} {minutesToTime(nextFree.start)} - {minutesToTime(nextFree.end)}
+                  {teacher.officeRoom && ` in ${teacher.officeRoom}`}
+                </p>
+              ) : !teachingNow && (
+                <p className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+                  <span className="w-2 h-2 rounded-full bg-gray-400" />
+                  {consultationHours.length > 0 ? 'No free consultation time this week' : 'Not in class right now'}
+                </p>
+              )}
+            </div>
+
             {/* Contact Information */}
             <div className="space-y-4 mb-8">
               {teacher.email && (
@@ -79,6 +140,17 @@ export function TeacherDetailsModal({ teacher, onClose }: TeacherDetailsModalPro
                 </div>
               )}
 
+              {teacher.officeRoom && (
+                <div className="flex items-center gap-3">
+                  <div className="p-2 bg-amber-50 dark:bg-amber-900/20 rounded-lg">
+                    <DoorOpen className="w-5 h-5 text-amber-600 dark:text-amber-400" />
+                  </div>
+                  <span className="text-gray-600 dark:text-gray-300">
+                    {teacher.officeRoom}
+                  </span>
+                </div>
+              )}
+
               {teacher.department && (
                 <div className="flex items-center gap-3">
                   <div className="p-2 bg-purple-50 dark:bg-purple-900/20 rounded-lg">
@@ -91,6 +163,38 @@ export function TeacherDetailsModal({ teacher, onClose }: TeacherDetailsModalPro
               )}
             </div>
 
+            {/* Weekly Timetable */}
+            {timetable.length > 0 && (
+              <div className="mb-8">
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4 flex items-center gap-2">
+                  <CalendarDays className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+                  Weekly Timetable
+                </h3>
+                <div className="space-y-3">
+                  {timetable.map(({ day, slots: daySlots, hours }) => (
+                    <div key={day} className="grid grid-cols-[88px_1fr] gap-3">
+                      <span className="text-sm font-medium text-gray-700 dark:text-gray-300 pt-1">{day}</span>
+                      <div className="flex flex-wrap gap-2">
+                        {daySlots.map(slot => (
+                          <span key={slot.id} className="px-2.5 py-1 bg-blue-50 dark:bg-blue-900/20 text-blue-800 dark:text-blue-300 rounded-lg text-xs">
+                            {formatClassTime(slot.startTime)} - {formatClassTime(slot.endTime)} · {slot.courseCode || slot.courseName || 'Class'}
+                            {slot.section && ` (${slot.section})`}
+                            {slot.roomNumber && ` · Room ${slot.roomNumber}`}
+                          </span>
+                        ))}
+                        {hours.map(hour => (
+                          <span key={`${hour.startTime}-${hour.endTime}`} className="flex items-center gap-1 px-2.5 py-1 bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-300 rounded-lg text-xs">
+                            <Clock className="w-3 h-3" />
+                            {formatClassTime(hour.startTime)} - {formatClassTime(hour.endTime)} · Consultation
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Courses */}
             {teacher.courses && teacher.courses.length > 0 && (
               <div>
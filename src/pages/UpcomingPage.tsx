@@ -1,10 +1,12 @@
 import { useState, useMemo, useEffect } from 'react';
 import { format, addDays, startOfWeek, isSameDay, parseISO, isAfter, isBefore, startOfDay, endOfDay, formatDistanceToNow } from 'date-fns';
-import { Crown, Calendar, Clock, Tag, CheckCircle2, AlertCircle, BookOpen, FileText, PenTool, FlaskConical, GraduationCap, CalendarDays, Folder, Activity, Building, Users } from 'lucide-react';
+import { Crown, Calendar, Clock, Tag, CheckCircle2, AlertCircle, BookOpen, FileText, PenTool, FlaskConical, GraduationCap, CalendarDays, Folder, Activity, Building, Users, Flag, Sparkles } from 'lucide-react';
 import { useTasks } from '../hooks/useTasks';
 import { useAuth } from '../hooks/useAuth';
 import { TaskDetailsPopup } from '../components/task/TaskDetailsPopup';
 import { MonthlyCalendar } from '../components/MonthlyCalendar';
+import { sortTasksByNextUp, getPriorityColor } from '../utils/taskPriority';
+import { getAudienceSection } from '../utils/audience';
 import type { Task } from '../types';
 
 interface UpcomingPageProps {
@@ -13,13 +15,15 @@ interface UpcomingPageProps {
 
 export function UpcomingPage() {
   const { user } = useAuth();
-  const { tasks: allTasks, loading, error: taskError, updateTask } = useTasks(user?.id);
+  const { tasks: allTasks, loading, error: taskError, updateTask, toggleSubtask } = useTasks(user?.id, getAudienceSection(user));
   const [tasks, setTasks] = useState<Task[]>([]);
   const [selectedDate, setSelectedDate] = useState(new Date());
   const [selectedTask, setSelectedTask] = useState<Task | null>(null);
   const [isUpdating, setIsUpdating] = useState(false);
   const [operationError, setOperationError] = useState<string | null>(null);
   const [isMonthlyCalendarOpen, setIsMonthlyCalendarOpen] = useState(false);
+  const [sortMode, setSortMode] = useState<'default' | 'next-up'>('default');
+  const [courseFilter, setCourseFilter] = useState('all');
   // Flag to prevent auto-selection of tasks after date change
   const [preventTaskSelection, setPreventTaskSelection] = useState(false);
 
@@ -133,7 +137,8 @@ export function UpcomingPage() {
     const selectedMonth = selectedDate.getMonth();
     const selectedDay = selectedDate.getDate();
     
-    return tasks.filter(task => {
+    const dayTasks = tasks.filter(task => {
+      if (courseFilter !== 'all' && task.courseId !== courseFilter) return false;
       try {
         const taskDate = parseISO(task.dueDate);
         return (
@@ -145,7 +150,18 @@ export function UpcomingPage() {
         return false;
       }
     });
-  }, [tasks, selectedDate]);
+
+    return sortMode === 'next-up' ? sortTasksByNextUp(dayTasks) : dayTasks;
+  }, [tasks, selectedDate, sortMode, courseFilter]);
+
+  // Courses that appear on any loaded task
+  const courseOptions = useMemo(() => {
+    const options = new Map<string, string>();
+    tasks.forEach(task => {
+      if (task.courseId) options.set(task.courseId, task.courseCode || 'Course');
+    });
+    return [...options.entries()].sort((a, b) => a[1].localeCompare(b[1]));
+  }, [tasks]);
 
   // Get task status
   const getTaskStatus = (task: Task) => {
@@ -284,6 +300,27 @@ export function UpcomingPage() {
     }
   };
 
+  // Handle checklist item toggle
+  const handleSubtaskToggle = async (taskId: string, subtaskId: string, completed: boolean) => {
+    try {
+      setOperationError(null);
+      const updatedTask = await toggleSubtask(taskId, subtaskId, completed);
+
+      setTasks(prevTasks => 
+        prevTasks.map(task => 
+          task.id === taskId ? updatedTask : task
+        )
+      );
+
+      if (selectedTask?.id === taskId) {
+        setSelectedTask(updatedTask);
+      }
+    } catch (error: any) {
+      setOperationError('Failed to update checklist. Please try again.');
+      console.error('Error updating checklist item:', error);
+    }
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -435,6 +472,34 @@ export function UpcomingPage() {
 
       {/* Tasks List with Enhanced Cards */}
       <div className="px-4 md:max-w-4xl lg:max-w-5xl md:mx-auto pb-8">
+        {(filteredTasks.length > 1 || courseOptions.length > 0) && (
+          <div className="flex justify-end gap-2 mb-3">
+            {courseOptions.length > 0 && (
+              <select
+                value={courseFilter}
+                onChange={(e) => setCourseFilter(e.target.value)}
+                className="px-3 py-1.5 rounded-lg text-xs font-medium border bg-white text-gray-600 border-gray-200 dark:bg-gray-800 dark:text-gray-300 dark:border-gray-700"
+                aria-label="Filter by course"
+              >
+                <option value="all">All courses</option>
+                {courseOptions.map(([id, code]) => (
+                  <option key={id} value={id}>{code}</option>
+                ))}
+              </select>
+            )}
+            <button
+              onClick={() => setSortMode(sortMode === 'next-up' ? 'default' : 'next-up')}
+              className={`inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium border transition-colors
+                ${sortMode === 'next-up'
+                  ? 'bg-blue-50 text-blue-700 border-blue-200 dark:bg-blue-900/30 dark:text-blue-300 dark:border-blue-700'
+                  : 'bg-white text-gray-600 border-gray-200 hover:text-gray-800 dark:bg-gray-800 dark:text-gray-300 dark:border-gray-700'}`}
+              title="Weighs due date, priority and remaining effort"
+            >
+              <Sparkles className="w-3.5 h-3.5" />
+              What should I do next?
+            </button>
+          </div>
+        )}
         {filteredTasks.length > 0 ? (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
             {filteredTasks.map((task) => {
@@ -491,6 +556,12 @@ export function UpcomingPage() {
                             <Crown className="w-3.5 h-3.5 text-amber-500 dark:text-amber-400" />
                           </div>
                         )}
+                        {(task.priority === 'high' || task.priority === 'critical') && task.status !== 'completed' && (
+                          <span className={`flex-shrink-0 inline-flex items-center gap-1 px-1.5 py-0.5 rounded-full text-[10px] font-medium capitalize ${getPriorityColor(task.priority)}`}>
+                            <Flag className="w-3 h-3" />
+                            {task.priority}
+                          </span>
+                        )}
                       </div>
                     </div>
 
@@ -606,6 +677,7 @@ export function UpcomingPage() {
           task={selectedTask}
           onClose={() => setSelectedTask(null)}
           onStatusUpdate={handleStatusUpdate}
+          onToggleSubtask={handleSubtaskToggle}
           isUpdating={isUpdating}
         />
       )}
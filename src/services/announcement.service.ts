@@ -2,6 +2,17 @@ import { supabase } from '../lib/supabase';
 import { sendAnnouncementNotification } from './telegram.service';
 import type { Announcement, NewAnnouncement } from '../types/announcement';
 
+function mapAnnouncementFromDB(dbAnnouncement: any): Announcement {
+  return {
+    id: dbAnnouncement.id,
+    title: dbAnnouncement.title,
+    content: dbAnnouncement.content,
+    createdAt: dbAnnouncement.created_at,
+    createdBy: dbAnnouncement.created_by,
+    targetSections: dbAnnouncement.target_sections || []
+  };
+}
+
 export async function fetchAnnouncements() {
   try {
     const { data, error } = await supabase
@@ -10,7 +21,7 @@ export async function fetchAnnouncements() {
       .order('created_at', { ascending: false });
 
     if (error) throw error;
-    return data as Announcement[];
+    return (data || []).map(mapAnnouncementFromDB);
   } catch (error) {
     console.error('Error fetching announcements:', error);
     return [];
@@ -29,6 +40,7 @@ export async function createAnnouncement(announcement: NewAnnouncement) {
       .insert({
         title: announcement.title,
         content: announcement.content,
+        target_sections: announcement.targetSections?.length ? announcement.targetSections : null,
         created_by: user.id,
         created_at: timestamp
       })
@@ -37,10 +49,7 @@ export async function createAnnouncement(announcement: NewAnnouncement) {
 
     if (error) throw error;
 
-    const newAnnouncement = {
-      ...data,
-      createdAt: timestamp
-    } as Announcement;
+    const newAnnouncement = mapAnnouncementFromDB(data);
 
     // Send Telegram notification
     await sendAnnouncementNotification(newAnnouncement);
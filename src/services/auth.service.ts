@@ -126,12 +126,32 @@ export async function loginUser({ email, password }: LoginCredentials): Promise<
   }
 }
 
-export async function signupUser({ email, password, name, phone, studentId }: SignupCredentials): Promise<User> {
+// Sections students can sign up for, as used by courses and the admin audience picker
+export async function fetchKnownSections(): Promise<string[]> {
   try {
-    if (!email || !password || !name || !phone || !studentId) {
+    const { data, error } = await supabase.rpc('get_known_sections');
+
+    if (error) throw error;
+    return (data || []) as string[];
+  } catch (error: any) {
+    console.error('Error fetching sections:', error);
+    throw new Error(error.message || 'Failed to fetch sections');
+  }
+}
+
+export async function signupUser({ email, password, name, phone, studentId, section: rawSection }: SignupCredentials): Promise<User> {
+  try {
+    // Section-scoped content compares exact values, so "63_A " would match nothing
+    const section = rawSection?.trim();
+    if (!email || !password || !name || !phone || !studentId || !section) {
       throw new Error('All fields are required');
     }
 
+    const knownSections = await fetchKnownSections();
+    if (knownSections.length > 0 && !knownSections.includes(section)) {
+      throw new Error('invalid_section');
+    }
+
     const { data: authData, error: authError } = await supabase.auth.signUp({
       email,
       password,
@@ -140,7 +160,8 @@ export async function signupUser({ email, password, name, phone, studentId }: Si
           name,
           role: 'user',
           phone,
-          studentId
+          studentId,
+          section
         },
       },
     });
@@ -169,6 +190,7 @@ export async function signupUser({ email, password, name, phone, studentId }: Si
         email: authData.user.email!,
         name,
         role: 'user',
+        section,
         created_at: new Date().toISOString(),
         last_active: new Date().toISOString()
       };
@@ -192,6 +214,7 @@ export async function signupUser({ email, password, name, phone, studentId }: Si
         id: newProfile.id,
         email: newProfile.email,
         name: newProfile.name,
+        section: newProfile.section ?? undefined,
         role: newProfile.role,
         createdAt: newProfile.created_at
       };
@@ -203,6 +226,7 @@ export async function signupUser({ email, password, name, phone, studentId }: Si
       name: profile.name,
       phone: profile.phone,
       studentId: profile.student_id,
+      section: profile.section ?? undefined,
       role: profile.role,
       createdAt: profile.created_at
     };
@@ -321,11 +345,36 @@ function mapDbUserToUser(dbUser: DbUser): User {
     email: dbUser.email,
     name: dbUser.name || '',
     role: dbUser.role as 'user' | 'admin',
+    section: dbUser.section ?? undefined,
     createdAt: dbUser.created_at,
     lastActive: dbUser.last_active
   };
 }
 
+// Section lives in both the profile and the auth metadata that useAuth reads
+export async function updateUserSection(userId: string, section: string): Promise<void> {
+  try {
+    const trimmed = section.trim();
+    if (!trimmed) throw new Error('Section is required');
+
+    const { error: profileError } = await supabase
+      .from('users')
+      .update({ section: trimmed })
+      .eq('id', userId);
+
+    if (profileError) throw profileError;
+
+    const { error: authError } = await supabase.auth.updateUser({
+      data: { section: trimmed }
+    });
+
+    if (authError) throw authError;
+  } catch (error: any) {
+    console.error('Error updating section:', error);
+    throw new Error(error.message || 'Failed to update section');
+  }
+}
+
 export async function resetPassword(email: string): Promise<void> {
   try {
     if (!email) {
@@ -0,0 +1,47 @@
+import { supabase } from '../lib/supabase';
+
+function buildFeedUrl(token: string) {
+  return `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-feed?token=${token}`;
+}
+
+// Creates the user's feed token on first use
+export async function getCalendarFeedUrl(userId: string): Promise<string> {
+  try {
+    const { data, error } = await supabase
+      .from('calendar_feeds')
+      .select('token')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (data) return buildFeedUrl(data.token);
+
+    const { data: created, error: createError } = await supabase
+      .from('calendar_feeds')
+      .insert({ user_id: userId })
+      .select('token')
+      .single();
+
+    if (createError) throw createError;
+    return buildFeedUrl(created.token);
+  } catch (error: any) {
+    console.error('Error fetching calendar feed:', error);
+    throw new Error(error.message || 'Failed to fetch calendar feed');
+  }
+}
+
+// Replaces the token so any previously shared feed URL stops working
+export async function resetCalendarFeedUrl(userId: string): Promise<string> {
+  try {
+    const { error } = await supabase
+      .from('calendar_feeds')
+      .delete()
+      .eq('user_id', userId);
+
+    if (error) throw error;
+    return await getCalendarFeedUrl(userId);
+  } catch (error: any) {
+    console.error('Error resetting calendar feed:', error);
+    throw new Error(error.message || 'Failed to reset calendar feed');
+  }
+}
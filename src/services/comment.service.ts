@@ -0,0 +1,92 @@
+import { supabase } from '../lib/supabase';
+import type { TaskComment } from '../types/task';
+
+function mapCommentFromDB(dbComment: any): TaskComment {
+  return {
+    id: dbComment.id,
+    taskId: dbComment.task_id,
+    userId: dbComment.user_id,
+    userName: dbComment.users?.name || 'Unknown user',
+    content: dbComment.content,
+    isPinned: dbComment.is_pinned,
+    createdAt: dbComment.created_at
+  };
+}
+
+export async function fetchTaskComments(taskId: string): Promise<TaskComment[]> {
+  try {
+    const { data, error } = await supabase
+      .from('task_comments')
+      .select('*, users(name)')
+      .eq('task_id', taskId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(mapCommentFromDB);
+  } catch (error: any) {
+    console.error('Error fetching task comments:', error);
+    throw new Error(error.message || 'Failed to fetch comments');
+  }
+}
+
+export async function addTaskComment(taskId: string, userId: string, content: string): Promise<TaskComment> {
+  try {
+    const { data, error } = await supabase
+      .from('task_comments')
+      .insert({
+        task_id: taskId,
+        user_id: userId,
+        content: content.trim()
+      })
+      .select('*, users(name)')
+      .single();
+
+    if (error) throw error;
+    return mapCommentFromDB(data);
+  } catch (error: any) {
+    console.error('Error adding task comment:', error);
+    throw new Error(error.message || 'Failed to add comment');
+  }
+}
+
+export async function deleteTaskComment(commentId: string) {
+  try {
+    const { data, error } = await supabase
+      .from('task_comments')
+      .delete()
+      .eq('id', commentId)
+      .select('id');
+
+    if (error) throw error;
+    // RLS skips comments the user may not delete instead of raising an error
+    if (!data?.length) throw new Error('Comment not found or not deletable');
+  } catch (error: any) {
+    console.error('Error deleting task comment:', error);
+    throw new Error(error.message || 'Failed to delete comment');
+  }
+}
+
+// A task has at most one official answer, so pinning replaces the previous one
+export async function setTaskCommentPinned(taskId: string, commentId: string, pinned: boolean) {
+  try {
+    if (pinned) {
+      const { error: unpinError } = await supabase
+        .from('task_comments')
+        .update({ is_pinned: false })
+        .eq('task_id', taskId)
+        .eq('is_pinned', true);
+
+      if (unpinError) throw unpinError;
+    }
+
+    const { error } = await supabase
+      .from('task_comments')
+      .update({ is_pinned: pinned })
+      .eq('id', commentId);
+
+    if (error) throw error;
+  } catch (error: any) {
+    console.error('Error pinning task comment:', error);
+    throw new Error(error.message || 'Failed to pin comment');
+  }
+}
@@ -1,5 +1,5 @@
 import { supabase } from '../lib/supabase';
-import type { Course, NewCourse, StudyMaterial, NewStudyMaterial } from '../types/course';
+import type { Course, NewCourse, StudyMaterial, NewStudyMaterial, StudyMaterialSearchResult, StudyMaterialVersion } from '../types/course';
 import { checkTeacherNameExists } from './teacher.service';
 import { NewTeacher } from '../types/teacher';
 
@@ -131,7 +131,8 @@ export async function fetchStudyMaterials(): Promise<StudyMaterial[]> {
           blc_enroll_key,
           created_at,
           created_by
-        )
+        ),
+        updater:users!updated_by (name)
       `)
       .order('created_at', { ascending: false });
 
@@ -145,6 +146,10 @@ export async function fetchStudyMaterials(): Promise<StudyMaterial[]> {
       category: material.category,
       fileUrls: material.file_urls || [],
       originalFileNames: material.original_file_names || [],
+      versionNumber: material.version_number || 1,
+      changeNote: material.change_note || undefined,
+      updatedAt: material.updated_at || undefined,
+      updatedByName: material.updater?.name,
       createdAt: material.created_at,
       createdBy: material.created_by,
       course: material.course ? mapCourseFromDB(material.course) : undefined
@@ -195,6 +200,10 @@ export async function createStudyMaterial(material: NewStudyMaterial): Promise<S
       throw new Error('No data returned from database after creating study material');
     }
 
+    if (data.file_urls?.length) {
+      indexStudyMaterialText(data.id);
+    }
+
     return {
       id: data.id,
       title: data.title,
@@ -203,6 +212,10 @@ export async function createStudyMaterial(material: NewStudyMaterial): Promise<S
       category: data.category,
       fileUrls: data.file_urls || [],
       originalFileNames: data.original_file_names || [],
+      versionNumber: data.version_number || 1,
+      changeNote: data.change_note || undefined,
+      updatedAt: data.updated_at || undefined,
+      updatedByName: data.updater?.name,
       createdAt: data.created_at,
       createdBy: data.created_by,
       course: data.course ? mapCourseFromDB(data.course) : undefined
@@ -223,7 +236,8 @@ export async function updateStudyMaterial(id: string, updates: Partial<StudyMate
         course_id: updates.courseid,
         category: updates.category,
         file_urls: updates.fileUrls,
-        original_file_names: updates.originalFileNames
+        original_file_names: updates.originalFileNames,
+        change_note: updates.changeNote
       })
       .eq('id', id)
       .select(`
@@ -239,12 +253,17 @@ export async function updateStudyMaterial(id: string, updates: Partial<StudyMate
           blc_enroll_key,
           created_at,
           created_by
-        )
+        ),
+        updater:users!updated_by (name)
       `)
       .single();
 
     if (error) throw error;
 
+    if (updates.fileUrls) {
+      indexStudyMaterialText(id);
+    }
+
     return {
       id: data.id,
       title: data.title,
@@ -253,6 +272,10 @@ export async function updateStudyMaterial(id: string, updates: Partial<StudyMate
       category: data.category,
       fileUrls: data.file_urls || [],
       originalFileNames: data.original_file_names || [],
+      versionNumber: data.version_number || 1,
+      changeNote: data.change_note || undefined,
+      updatedAt: data.updated_at || undefined,
+      updatedByName: data.updater?.name,
       createdAt: data.created_at,
       createdBy: data.created_by,
       course: data.course ? mapCourseFromDB(data.course) : undefined
@@ -277,6 +300,185 @@ export async function deleteStudyMaterial(id: string): Promise<void> {
   }
 }
 
+// supabase-js uploads with fetch, which reports no progress, so post to the Storage API directly
+function uploadWithProgress(
+  bucket: string,
+  path: string,
+  file: File,
+  accessToken: string,
+  onProgress: (percent: number) => void
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/object/${bucket}/${path}`);
+    xhr.setRequestHeader('Authorization', `Bearer ${accessToken}`);
+    xhr.setRequestHeader('apikey', import.meta.env.VITE_SUPABASE_ANON_KEY);
+    xhr.setRequestHeader('Cache-Control', 'max-age=3600');
+    xhr.setRequestHeader('Content-Type', file.type || 'application/octet-stream');
+    xhr.setRequestHeader('x-upsert', 'false');
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress((event.loaded / event.total) * 100);
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve();
+        return;
+      }
+      let message = xhr.statusText || `status ${xhr.status}`;
+      try {
+        const body = JSON.parse(xhr.responseText);
+        message = body.message || body.error || message;
+      } catch {
+        // Not a JSON error body
+      }
+      reject(new Error(message));
+    };
+    xhr.onerror = () => reject(new Error('Network error'));
+    xhr.send(file);
+  });
+}
+
+/**
+ * Uploads a study material file to storage and returns its public URL.
+ * Each upload gets a fresh name, so replaced files stay downloadable from older versions.
+ */
+export async function uploadStudyMaterialFile(
+  file: File,
+  onProgress?: (percent: number) => void
+): Promise<{ url: string; originalFileName: string }> {
+  const fileExt = file.name.split('.').pop();
+  const filePath = `${crypto.randomUUID()}.${fileExt}`;
+
+  try {
+    if (onProgress) {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new Error('You must be signed in to upload files');
+      await uploadWithProgress('task-attachments', filePath, file, session.access_token, onProgress);
+    } else {
+      const { error } = await supabase.storage
+        .from('task-attachments')
+        .upload(filePath, file, {
+          cacheControl: '3600',
+          upsert: false
+        });
+
+      if (error) throw error;
+    }
+  } catch (error: any) {
+    console.error('Upload error:', error);
+    throw new Error(`File upload error: ${error.message}`);
+  }
+
+  const { data: { publicUrl } } = supabase.storage
+    .from('task-attachments')
+    .getPublicUrl(filePath);
+
+  return { url: publicUrl, originalFileName: file.name };
+}
+
+// Earlier versions of a material's files, newest first; the current version is on the material itself
+export async function fetchStudyMaterialVersions(materialId: string): Promise<StudyMaterialVersion[]> {
+  try {
+    const { data, error } = await supabase
+      .from('study_material_versions')
+      .select(`
+        *,
+        uploader:users!uploaded_by (name)
+      `)
+      .eq('material_id', materialId)
+      .order('version_number', { ascending: false });
+
+    if (error) throw error;
+
+    return (data || []).map(version => ({
+      id: version.id,
+      materialId: version.material_id,
+      versionNumber: version.version_number,
+      title: version.title,
+      fileUrls: version.file_urls || [],
+      originalFileNames: version.original_file_names || [],
+      changeNote: version.change_note || undefined,
+      uploadedByName: version.uploader?.name,
+      uploadedAt: version.uploaded_at
+    }));
+  } catch (error: any) {
+    console.error('Error fetching study material versions:', error);
+    throw new Error(error.message || 'Failed to fetch study material versions');
+  }
+}
+
+// Extracting text from large files takes a while, so indexing runs in the background
+async function indexStudyMaterialText(materialId: string) {
+  try {
+    const { error } = await supabase.functions.invoke('study-material-index', {
+      body: { materialId }
+    });
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error indexing study material text:', error);
+  }
+}
+
+// Maximum batches per call, so one admin visit can't keep the edge function busy indefinitely
+const MAX_PENDING_INDEX_BATCHES = 10;
+
+/**
+ * Indexes materials that have files but were never indexed, such as those uploaded
+ * before search existed. Runs in the background; the edge function handles a batch per call.
+ */
+export async function indexPendingStudyMaterials() {
+  try {
+    for (let batch = 0; batch < MAX_PENDING_INDEX_BATCHES; batch++) {
+      const { data, error } = await supabase.functions.invoke('study-material-index', {
+        body: { pending: true }
+      });
+
+      if (error) throw error;
+      if (!data?.remaining) return;
+    }
+  } catch (error) {
+    console.error('Error indexing pending study materials:', error);
+  }
+}
+
+/**
+ * Full-text search over study material titles, descriptions and file contents.
+ * Results are grouped per material, best match first.
+ */
+export async function searchStudyMaterials(query: string, maxResults = 50): Promise<StudyMaterialSearchResult[]> {
+  try {
+    const { data, error } = await supabase.rpc('search_study_materials', {
+      search_query: query,
+      max_results: maxResults
+    });
+
+    if (error) throw error;
+
+    const results = new Map<string, StudyMaterialSearchResult>();
+    (data || []).forEach((row: any) => {
+      const result: StudyMaterialSearchResult = results.get(row.material_id) || {
+        materialId: row.material_id,
+        rank: row.rank,
+        matches: []
+      };
+      result.matches.push({
+        fileIndex: row.file_index ?? undefined,
+        fileName: row.file_name ?? undefined,
+        pageNumber: row.page_number ?? undefined,
+        snippet: row.snippet
+      });
+      results.set(row.material_id, result);
+    });
+
+    return [...results.values()];
+  } catch (error: any) {
+    console.error('Error searching study materials:', error);
+    throw new Error(error.message || 'Failed to search study materials');
+  }
+}
+
 // Helper function to map database fields to camelCase
 function mapCourseFromDB(data: any): Course {
   // Parse class times from the string format back to array
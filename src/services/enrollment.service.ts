@@ -0,0 +1,53 @@
+import { supabase } from '../lib/supabase';
+import type { CourseEnrollment } from '../types/course';
+
+export async function fetchEnrollments(userId: string): Promise<CourseEnrollment[]> {
+  try {
+    const { data, error } = await supabase
+      .from('course_enrollments')
+      .select('course_id, section')
+      .eq('user_id', userId);
+
+    if (error) throw error;
+    return (data || []).map(row => ({
+      courseId: row.course_id,
+      section: row.section || undefined
+    }));
+  } catch (error: any) {
+    console.error('Error fetching enrollments:', error);
+    throw new Error(error.message || 'Failed to fetch enrolled courses');
+  }
+}
+
+// Replaces the whole course list, so removed courses are dropped. The new set is written
+// before anything is deleted, so a failed save never leaves the student with no courses.
+export async function saveEnrollments(userId: string, enrollments: CourseEnrollment[]): Promise<void> {
+  try {
+    if (enrollments.length > 0) {
+      const { error } = await supabase
+        .from('course_enrollments')
+        .upsert(enrollments.map(enrollment => ({
+          user_id: userId,
+          course_id: enrollment.courseId,
+          section: enrollment.section || null
+        })), { onConflict: 'user_id,course_id' });
+
+      if (error) throw error;
+    }
+
+    let removeQuery = supabase
+      .from('course_enrollments')
+      .delete()
+      .eq('user_id', userId);
+
+    if (enrollments.length > 0) {
+      removeQuery = removeQuery.not('course_id', 'in', `(${enrollments.map(enrollment => enrollment.courseId).join(',')})`);
+    }
+
+    const { error: deleteError } = await removeQuery;
+    if (deleteError) throw deleteError;
+  } catch (error: any) {
+    console.error('Error saving enrollments:', error);
+    throw new Error(error.message || 'Failed to save enrolled courses');
+  }
+}
@@ -0,0 +1,94 @@
+import { supabase } from '../lib/supabase';
+
+// Offsets are minutes before a task's deadline
+export const REMINDER_OFFSET_OPTIONS = [
+  { minutes: 2880, label: '2 days' },
+  { minutes: 1440, label: '24 hours' },
+  { minutes: 360, label: '6 hours' },
+  { minutes: 180, label: '3 hours' },
+  { minutes: 60, label: '1 hour' },
+  { minutes: 30, label: '30 minutes' },
+];
+
+export const DEFAULT_REMINDER_OFFSETS = [1440, 180, 30];
+
+export async function fetchReminderPreferences(userId: string): Promise<number[]> {
+  try {
+    const { data, error } = await supabase
+      .from('reminder_preferences')
+      .select('offsets')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data?.offsets ?? DEFAULT_REMINDER_OFFSETS;
+  } catch (error: any) {
+    console.error('Error fetching reminder preferences:', error);
+    throw new Error(error.message || 'Failed to fetch reminder preferences');
+  }
+}
+
+export async function saveReminderPreferences(userId: string, offsets: number[]) {
+  try {
+    const { error } = await supabase
+      .from('reminder_preferences')
+      .upsert({
+        user_id: userId,
+        offsets,
+        updated_at: new Date().toISOString()
+      });
+
+    if (error) throw error;
+  } catch (error: any) {
+    console.error('Error saving reminder preferences:', error);
+    throw new Error(error.message || 'Failed to save reminder preferences');
+  }
+}
+
+// Returns null when the task follows the user's default offsets
+export async function fetchTaskReminderOffsets(taskId: string, userId: string): Promise<number[] | null> {
+  try {
+    const { data, error } = await supabase
+      .from('task_reminder_overrides')
+      .select('offsets')
+      .eq('task_id', taskId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data?.offsets ?? null;
+  } catch (error: any) {
+    console.error('Error fetching task reminders:', error);
+    throw new Error(error.message || 'Failed to fetch task reminders');
+  }
+}
+
+// Pass null to go back to the user's default offsets
+export async function saveTaskReminderOffsets(taskId: string, userId: string, offsets: number[] | null) {
+  try {
+    if (offsets === null) {
+      const { error } = await supabase
+        .from('task_reminder_overrides')
+        .delete()
+        .eq('task_id', taskId)
+        .eq('user_id', userId);
+
+      if (error) throw error;
+      return;
+    }
+
+    const { error } = await supabase
+      .from('task_reminder_overrides')
+      .upsert({
+        task_id: taskId,
+        user_id: userId,
+        offsets,
+        updated_at: new Date().toISOString()
+      });
+
+    if (error) throw error;
+  } catch (error: any) {
+    console.error('Error saving task reminders:', error);
+    throw new Error(error.message || 'Failed to save task reminders');
+  }
+}
@@ -1,5 +1,15 @@
 import { supabase } from '../lib/supabase';
-import type { Routine, RoutineSlot } from '../types/routine';
+import { getClashTypes, describeClash } from '../utils/routineClashes';
+import type {
+  Routine,
+  RoutineSlot,
+  RoutineClash,
+  RoutineSlotSaveOptions,
+  RoutineSlotOverride,
+  NewRoutineSlotOverride,
+  RoutineVersion,
+  RoutineCloneOptions
+} from '../types/routine';
 
 export async function fetchRoutines(): Promise<Routine[]> {
   try {
@@ -149,9 +159,107 @@ export async function deleteRoutine(id: string): Promise<void> {
   }
 }
 
+/**
+ * Finds slots in active routines (and the slot's own routine) that clash with the given slot
+ * @param routineId The routine the slot belongs to
+ * @param slot The slot being added or edited
+ * @param excludeSlotId The slot's own ID when editing, so it does not clash with itself
+ */
+export async function findRoutineSlotClashes(
+  routineId: string,
+  slot: Pick<RoutineSlot, 'dayOfWeek' | 'startTime' | 'endTime' | 'teacherId' | 'roomNumber' | 'section' | 'courseName' | 'teacherName'>,
+  excludeSlotId?: string
+): Promise<RoutineClash[]> {
+  try {
+    const [slotsResponse, routineResponse] = await Promise.all([
+      supabase
+        .from('routine_slots')
+        .select('*, routine:routines!inner(name, is_active)')
+        .eq('day_of_week', slot.dayOfWeek),
+      supabase
+        .from('routines')
+        .select('name')
+        .eq('id', routineId)
+        .single()
+    ]);
+
+    if (slotsResponse.error) throw slotsResponse.error;
+
+    const routineName = routineResponse.data?.name || '';
+    const candidate: RoutineSlot = {
+      ...slot,
+      id: excludeSlotId || '',
+      routineId,
+      createdAt: ''
+    };
+
+    const clashingRows = (slotsResponse.data || []).filter((row: any) =>
+      row.id !== excludeSlotId &&
+      (row.routine.is_active || row.routine_id === routineId) &&
+      getClashTypes(candidate, {
+        dayOfWeek: row.day_of_week,
+        startTime: row.start_time,
+        endTime: row.end_time,
+        teacherId: row.teacher_id,
+        roomNumber: row.room_number,
+        section: row.section
+      }).length > 0
+    );
+
+    if (clashingRows.length === 0) return [];
+
+    // Older databases lack the course_name column, so look up names for the clashing slots
+    const courseIds = [...new Set(clashingRows.map((row: any) => row.course_id).filter(Boolean))];
+    const { data: courses } = courseIds.length > 0
+      ? await supabase.from('courses').select('id, name').in('id', courseIds)
+      : { data: [] };
+    const courseMap = new Map((courses || []).map(course => [course.id, course.name]));
+
+    return clashingRows.map((row: any) => {
+      const conflictingSlot: RoutineSlot = {
+        id: row.id,
+        routineId: row.routine_id,
+        courseId: row.course_id,
+        teacherId: row.teacher_id,
+        courseName: row.course_name || courseMap.get(row.course_id) || '',
+        teacherName: row.teacher_name || '',
+        dayOfWeek: row.day_of_week,
+        startTime: row.start_time,
+        endTime: row.end_time,
+        roomNumber: row.room_number,
+        section: row.section,
+        createdAt: row.created_at
+      };
+
+      return {
+        types: getClashTypes(candidate, conflictingSlot),
+        slot: candidate,
+        routineName,
+        conflictingSlot,
+        conflictingRoutineName: row.routine.name
+      };
+    });
+  } catch (error: any) {
+    console.error('Error checking routine slot clashes:', error);
+    throw new Error(error.message || 'Failed to check for schedule clashes');
+  }
+}
+
+async function assertNoClashes(
+  routineId: string,
+  slot: Parameters<typeof findRoutineSlotClashes>[1],
+  excludeSlotId?: string
+) {
+  const clashes = await findRoutineSlotClashes(routineId, slot, excludeSlotId);
+  if (clashes.length > 0) {
+    throw new Error(`Schedule clash: ${clashes.map(describeClash).join('; ')}`);
+  }
+}
+
 export async function addRoutineSlot(
   routineId: string,
-  slot: Omit<RoutineSlot, 'id' | 'routineId' | 'createdAt'>
+  slot: Omit<RoutineSlot, 'id' | 'routineId' | 'createdAt'>,
+  options: RoutineSlotSaveOptions = {}
 ): Promise<RoutineSlot> {
   try {
     console.log('Service: Adding routine slot', { routineId, slot });
@@ -181,6 +289,10 @@ export async function addRoutineSlot(
       throw new Error('End time is required');
     }
 
+    if (!options.allowClashes) {
+      await assertNoClashes(routineId, slot);
+    }
+
     // Get course name if not provided but courseId is
     let courseName = slot.courseName || '';
     if (slot.courseId && !courseName) {
@@ -317,10 +429,33 @@ export async function addRoutineSlot(
 export async function updateRoutineSlot(
   routineId: string,
   slotId: string,
-  updates: Partial<RoutineSlot>
+  updates: Partial<RoutineSlot>,
+  options: RoutineSlotSaveOptions = {}
 ): Promise<void> {
   try {
     console.log('Updating routine slot:', { routineId, slotId, updates });
+
+    const affectsClashes = ['dayOfWeek', 'startTime', 'endTime', 'teacherId', 'roomNumber', 'section']
+      .some(field => updates[field as keyof RoutineSlot] !== undefined);
+
+    if (!options.allowClashes && affectsClashes) {
+      const { data: current, error: currentError } = await supabase
+        .from('routine_slots')
+        .select('*')
+        .eq('id', slotId)
+        .single();
+
+      if (currentError) throw currentError;
+
+      await assertNoClashes(routineId, {
+        dayOfWeek: updates.dayOfWeek ?? current.day_of_week,
+        startTime: updates.startTime ?? current.start_time,
+        endTime: updates.endTime ?? current.end_time,
+        teacherId: updates.teacherId ?? current.teacher_id,
+        roomNumber: updates.roomNumber ?? current.room_number,
+        section: updates.section ?? current.section
+      }, slotId);
+    }
     
     // Get course name if not provided but courseId is updated
     let courseName = updates.courseName;
@@ -470,6 +605,69 @@ export async function deactivateRoutine(routineId: string): Promise<void> {
   }
 }
 
+/**
+ * Copies a routine and all its slots into a new semester, optionally remapping
+ * teachers, rooms and sections. The copy is filled before it is activated, so
+ * students never see an empty routine.
+ * @param sourceRoutineId The routine to copy
+ * @param options Name, semester, remapping and whether to activate the copy
+ * @returns The new routine
+ */
+export async function cloneRoutine(sourceRoutineId: string, options: RoutineCloneOptions): Promise<Routine> {
+  const { teacherMap = {}, roomMap = {}, sectionMap = {} } = options;
+
+  try {
+    const { data: sourceSlots, error: slotsError } = await supabase
+      .from('routine_slots')
+      .select('*')
+      .eq('routine_id', sourceRoutineId);
+
+    if (slotsError) throw slotsError;
+
+    const routine = await createRoutine({
+      name: options.name,
+      description: options.description,
+      semester: options.semester,
+      isActive: false
+    });
+
+    try {
+      if (sourceSlots && sourceSlots.length > 0) {
+        const { error: insertError } = await supabase
+          .from('routine_slots')
+          .insert(sourceSlots.map(slot => ({
+            routine_id: routine.id,
+            course_id: slot.course_id,
+            teacher_id: slot.teacher_id && slot.teacher_id in teacherMap
+              ? teacherMap[slot.teacher_id]
+              : slot.teacher_id,
+            day_of_week: slot.day_of_week,
+            start_time: slot.start_time,
+            end_time: slot.end_time,
+            room_number: slot.room_number ? roomMap[slot.room_number] || slot.room_number : slot.room_number,
+            section: slot.section ? sectionMap[slot.section] || slot.section : slot.section
+          })));
+
+        if (insertError) throw insertError;
+      }
+    } catch (error) {
+      // Don't leave a half-copied routine behind
+      await deleteRoutine(routine.id);
+      throw error;
+    }
+
+    if (options.activate) {
+      await updateRoutine(routine.id, { isActive: true });
+      await deactivateRoutine(sourceRoutineId);
+    }
+
+    return { ...routine, isActive: !!options.activate };
+  } catch (error: any) {
+    console.error('Error cloning routine:', error);
+    throw new Error(error.message || 'Failed to clone routine');
+  }
+}
+
 /**
  * Converts 12-hour format time (e.g. "09:30 AM") to 24-hour format (e.g. "09:30:00")
  */
@@ -821,4 +1019,180 @@ export async function getRoutinesBySemester(semester: string): Promise<any[]> {
     console.error('Error fetching routines by semester:', error);
     return [];
   }
-}
\ No newline at end of file
+}
+
+function mapOverrideFromDB(dbOverride: any): RoutineSlotOverride {
+  return {
+    id: dbOverride.id,
+    routineId: dbOverride.routine_id,
+    slotId: dbOverride.slot_id || undefined,
+    date: dbOverride.date,
+    type: dbOverride.type,
+    newDate: dbOverride.new_date || undefined,
+    startTime: dbOverride.start_time || undefined,
+    endTime: dbOverride.end_time || undefined,
+    roomNumber: dbOverride.room_number || undefined,
+    courseId: dbOverride.course_id || undefined,
+    teacherId: dbOverride.teacher_id || undefined,
+    section: dbOverride.section || undefined,
+    note: dbOverride.note || undefined,
+    createdAt: dbOverride.created_at
+  };
+}
+
+/**
+ * Fetches overrides that affect any date in a range, including classes rescheduled into it
+ * @param routineId The routine to fetch overrides for
+ * @param fromDate First date of the range (yyyy-MM-dd)
+ * @param toDate Last date of the range (yyyy-MM-dd)
+ */
+export async function fetchRoutineOverrides(routineId: string, fromDate: string, toDate: string): Promise<RoutineSlotOverride[]> {
+  try {
+    const { data, error } = await supabase
+      .from('routine_slot_overrides')
+      .select('*')
+      .eq('routine_id', routineId)
+      .or(`and(date.gte.${fromDate},date.lte.${toDate}),and(new_date.gte.${fromDate},new_date.lte.${toDate})`)
+      .order('date', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(mapOverrideFromDB);
+  } catch (error: any) {
+    console.error('Error fetching routine overrides:', error);
+    throw new Error(error.message || 'Failed to fetch routine changes');
+  }
+}
+
+/**
+ * Saves a one-off change to the routine and notifies the affected students
+ */
+export async function createRoutineOverride(override: NewRoutineSlotOverride): Promise<RoutineSlotOverride> {
+  try {
+    const { data, error } = await supabase
+      .from('routine_slot_overrides')
+      .insert({
+        routine_id: override.routineId,
+        slot_id: override.slotId || null,
+        date: override.date,
+        type: override.type,
+        new_date: override.newDate || null,
+        start_time: override.startTime || null,
+        end_time: override.endTime || null,
+        room_number: override.roomNumber || null,
+        course_id: override.courseId || null,
+        teacher_id: override.teacherId || null,
+        section: override.section || null,
+        note: override.note || null
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    const newOverride = mapOverrideFromDB(data);
+    await sendRoutineOverrideNotification(newOverride.id);
+
+    return newOverride;
+  } catch (error: any) {
+    console.error('Error creating routine override:', error);
+    throw new Error(error.message || 'Failed to save routine change');
+  }
+}
+
+export async function deleteRoutineOverride(overrideId: string): Promise<void> {
+  try {
+    const { data, error } = await supabase
+      .from('routine_slot_overrides')
+      .delete()
+      .eq('id', overrideId)
+      .select('id');
+
+    if (error) throw error;
+    // RLS skips changes the user may not remove instead of raising an error
+    if (!data?.length) throw new Error('Routine change not found or not removable');
+  } catch (error: any) {
+    console.error('Error deleting routine override:', error);
+    throw new Error(error.message || 'Failed to remove routine change');
+  }
+}
+
+// Push subscriptions are private to each user, so the edge function looks up the recipients
+async function sendRoutineOverrideNotification(overrideId: string) {
+  try {
+    const { error } = await supabase.functions.invoke('routine-override-notify', {
+      body: { overrideId }
+    });
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error sending routine change notification:', error);
+  }
+}
+
+function mapVersionFromDB(dbVersion: any): RoutineVersion {
+  const snapshot = dbVersion.snapshot || {};
+
+  return {
+    id: dbVersion.id,
+    routineId: dbVersion.routine_id,
+    versionNumber: dbVersion.version_number,
+    snapshot: {
+      name: snapshot.name,
+      description: snapshot.description || undefined,
+      semester: snapshot.semester,
+      slots: (snapshot.slots || []).map((slot: any) => ({
+        id: slot.id,
+        routineId: dbVersion.routine_id,
+        courseId: slot.course_id || undefined,
+        teacherId: slot.teacher_id || undefined,
+        dayOfWeek: slot.day_of_week,
+        startTime: slot.start_time,
+        endTime: slot.end_time,
+        roomNumber: slot.room_number || undefined,
+        section: slot.section || undefined,
+        createdAt: dbVersion.created_at
+      }))
+    },
+    changedBy: dbVersion.changed_by || undefined,
+    changedByName: dbVersion.users?.name,
+    changeCount: dbVersion.change_count,
+    revertedFrom: dbVersion.reverted_from ?? undefined,
+    createdAt: dbVersion.created_at,
+    updatedAt: dbVersion.updated_at
+  };
+}
+
+/**
+ * Fetches a routine's saved versions, newest first
+ */
+export async function fetchRoutineVersions(routineId: string): Promise<RoutineVersion[]> {
+  try {
+    const { data, error } = await supabase
+      .from('routine_versions')
+      .select('*, users(name)')
+      .eq('routine_id', routineId)
+      .order('version_number', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(mapVersionFromDB);
+  } catch (error: any) {
+    console.error('Error fetching routine versions:', error);
+    throw new Error(error.message || 'Failed to fetch routine history');
+  }
+}
+
+/**
+ * Restores a routine and its slots to an earlier version; the revert is saved as a new version
+ * @returns The new version number
+ */
+export async function revertRoutineVersion(versionId: string): Promise<number> {
+  try {
+    const { data, error } = await supabase.rpc('revert_routine_version', { version_id: versionId });
+
+    if (error) throw error;
+    return data;
+  } catch (error: any) {
+    console.error('Error reverting routine:', error);
+    throw new Error(error.message || 'Failed to revert routine');
+  }
+}
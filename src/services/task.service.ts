@@ -1,18 +1,61 @@
 import { supabase } from '../lib/supabase';
 import { sendTaskNotification } from './telegram.service';
-import type { Task, NewTask } from '../types/task';
-import { mapTaskFromDB } from '../utils/taskMapper';
+import { addDays, format, parseISO } from 'date-fns';
+import type { Task, NewTask, TaskStatus, TaskCategory, Subtask, TaskAttachment, TaskUpdates, BulkTaskResult } from '../types/task';
+import { mapTaskFromDB, mapSubtaskFromDB, mapAttachmentFromDB } from '../utils/taskMapper';
+import { generateOccurrenceDates, exceedsMaxOccurrences, MAX_OCCURRENCES } from '../utils/recurrence';
+
+const ATTACHMENTS_BUCKET = 'task-attachments';
+const ARCHIVE_PAGE_SIZE = 200;
+
+// Tasks are always loaded together with their checklist items and attachments
+const TASK_SELECT = '*, course:courses(code, name), task_subtasks(id, title, position), task_attachments(id, file_name, file_size, mime_type, storage_path, created_at)';
+
+// Admin tasks are shared rows, so each user's status and checklist ticks are stored separately
+async function withUserProgress(userId: string, rows: any[]): Promise<Task[]> {
+  const { data: progress, error: progressError } = await supabase
+    .from('task_progress')
+    .select('task_id, status')
+    .eq('user_id', userId);
+
+  if (progressError) throw progressError;
+
+  const statusByTask = new Map<string, TaskStatus>(
+    (progress || []).map(row => [row.task_id, row.status])
+  );
+
+  // Checklist ticks are per user as well
+  const { data: completions, error: completionsError } = await supabase
+    .from('task_subtask_completions')
+    .select('subtask_id')
+    .eq('user_id', userId);
+
+  if (completionsError) throw completionsError;
+
+  const completedSubtasks = new Set((completions || []).map(row => row.subtask_id));
+
+  return rows.map(dbTask => mapTaskFromDB({
+    ...dbTask,
+    status: dbTask.is_admin_task ? statusByTask.get(dbTask.id) ?? 'my-tasks' : dbTask.status,
+    task_subtasks: (dbTask.task_subtasks || []).map((subtask: any) => ({
+      ...subtask,
+      completed: completedSubtasks.has(subtask.id)
+    }))
+  }));
+}
 
 export async function fetchTasks(userId: string) {
   try {
     const { data, error } = await supabase
       .from('tasks')
-      .select('*')
+      .select(TASK_SELECT)
       .or(`user_id.eq.${userId},is_admin_task.eq.true`)
+      .is('archived_at', null)
       .order('created_at', { ascending: false });
 
     if (error) throw error;
-    return (data || []).map(mapTaskFromDB);
+
+    return await withUserProgress(userId, data || []);
   } catch (error) {
     console.error('Error fetching tasks:', error);
     throw error;
@@ -26,70 +69,159 @@ async function uploadFile(file: File): Promise<string> {
     const filePath = `task-files/${fileName}`;
 
     const { error: uploadError } = await supabase.storage
-      .from('task-attachments')
-      .upload(filePath, file);
+      .from(ATTACHMENTS_BUCKET)
+      .upload(filePath, file, { contentType: file.type || undefined });
 
     if (uploadError) throw uploadError;
 
-    const { data: { publicUrl } } = supabase.storage
-      .from('task-attachments')
-      .getPublicUrl(filePath);
-
-    return publicUrl;
+    return filePath;
   } catch (error) {
     console.error('Error uploading file:', error);
     throw error;
   }
 }
 
+// Uploads each file once and records it against every given task
+async function uploadAttachments(taskIds: string[], files: File[], userId: string) {
+  const rows = [];
+  for (const file of files) {
+    const storagePath = await uploadFile(file);
+    rows.push(...taskIds.map(taskId => ({
+      task_id: taskId,
+      file_name: file.name,
+      file_size: file.size,
+      mime_type: file.type || null,
+      storage_path: storagePath,
+      uploaded_by: userId
+    })));
+  }
+
+  const { data, error } = await supabase
+    .from('task_attachments')
+    .insert(rows)
+    .select();
+
+  if (error) {
+    await removeUnreferencedFiles(rows.map(row => row.storage_path));
+    throw error;
+  }
+
+  return data || [];
+}
+
+// Removes stored files that no attachment row points to any more (series occurrences share files)
+async function removeUnreferencedFiles(storagePaths: string[]) {
+  const uniquePaths = [...new Set(storagePaths)];
+  if (uniquePaths.length === 0) return;
+
+  try {
+    const { data, error } = await supabase
+      .from('task_attachments')
+      .select('storage_path')
+      .in('storage_path', uniquePaths);
+
+    if (error) throw error;
+
+    const stillUsed = new Set((data || []).map(row => row.storage_path));
+    const orphaned = uniquePaths.filter(path => !stillUsed.has(path));
+    if (orphaned.length === 0) return;
+
+    const { error: removeError } = await supabase.storage
+      .from(ATTACHMENTS_BUCKET)
+      .remove(orphaned);
+
+    if (removeError) throw removeError;
+  } catch (error) {
+    // The task change already succeeded, so a leftover file is only logged
+    console.error('Error removing attachment files:', error);
+  }
+}
+
+// Collects the stored files of a task, or of a series' occurrences, before they are deleted
+async function fetchAttachmentPaths(column: 'id' | 'series_id', value: string, upcomingOnly = false) {
+  let query = supabase
+    .from('tasks')
+    .select('task_attachments(storage_path)')
+    .eq(column, value);
+
+  if (upcomingOnly) {
+    query = query.gte('due_date', format(new Date(), 'yyyy-MM-dd'));
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return (data || []).flatMap((row: any) =>
+    (row.task_attachments || []).map((attachment: any) => attachment.storage_path as string)
+  );
+}
+
+export function getTaskAttachmentUrl(attachment: TaskAttachment): string {
+  const { data: { publicUrl } } = supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .getPublicUrl(attachment.storagePath);
+
+  return publicUrl;
+}
+
+export async function downloadTaskAttachment(attachment: TaskAttachment): Promise<Blob> {
+  try {
+    const { data, error } = await supabase.storage
+      .from(ATTACHMENTS_BUCKET)
+      .download(attachment.storagePath);
+
+    if (error) throw error;
+    if (!data) throw new Error('File not found');
+
+    return data;
+  } catch (error: any) {
+    console.error('Error downloading attachment:', error);
+    throw new Error(error.message || 'Failed to download attachment');
+  }
+}
+
 export async function createTask(userId: string, task: NewTask) {
   try {
     const { data: { user } } = await supabase.auth.getUser();
     const isAdmin = user?.user_metadata?.role === 'admin';
 
-    // Extract file information from description
-    const fileMatches = task.description.match(/\[.*?\]\(blob:.*?\)/g) || [];
-    let description = task.description;
-
-    // Upload each file and update description with permanent URLs
-    for (const match of fileMatches) {
-      const [, fileName, blobUrl] = match.match(/\[(.*?)\]\((blob:.*?)\)/) || [];
-      if (fileName && blobUrl) {
-        try {
-          const response = await fetch(blobUrl);
-          const blob = await response.blob();
-          const file = new File([blob], fileName, { type: blob.type });
-          const permanentUrl = await uploadFile(file);
-          description = description.replace(match, `[${fileName}](${permanentUrl})`);
-        } catch (error) {
-          console.error('Error processing file:', error);
-        }
-      }
-    }
-
     const { data, error } = await supabase
       .from('tasks')
       .insert({
         name: task.name,
         category: task.category,
         due_date: task.dueDate,
-        description: description,
+        description: task.description,
         status: task.status,
+        priority: task.priority || 'normal',
+        estimated_hours: task.estimatedHours ?? null,
+        course_id: task.courseId || null,
+        target_sections: isAdmin && task.targetSections?.length ? task.targetSections : null,
         user_id: userId,
         is_admin_task: isAdmin
       })
-      .select()
+      .select(TASK_SELECT)
       .single();
 
     if (error) throw error;
     if (!data) throw new Error('No data returned after creating task');
 
     const newTask = mapTaskFromDB(data);
+    if (task.subtasks?.length) {
+      newTask.subtasks = await saveSubtasks(newTask.id, task.subtasks);
+    }
+    if (task.files?.length) {
+      const attachments = await uploadAttachments([newTask.id], task.files, userId);
+      newTask.attachments = attachments.map(mapAttachmentFromDB);
+    }
 
     // Send notifications if it's an admin task
     if (isAdmin) {
       await sendPushNotifications(newTask);
-      await sendTaskNotification(newTask);
+      // The Telegram channel reaches every section
+      if (!newTask.targetSections?.length) {
+        await sendTaskNotification(newTask);
+      }
     }
 
     return newTask;
@@ -99,13 +231,116 @@ export async function createTask(userId: string, task: NewTask) {
   }
 }
 
+export async function createTaskSeries(userId: string, task: NewTask) {
+  try {
+    if (!task.recurrence) {
+      throw new Error('Recurrence rule is required');
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    const isAdmin = user?.user_metadata?.role === 'admin';
+
+    const dueDates = generateOccurrenceDates(task.dueDate, task.recurrence);
+    if (dueDates.length === 0) {
+      throw new Error('Recurrence rule does not produce any occurrences');
+    }
+    if (exceedsMaxOccurrences(task.dueDate, task.recurrence)) {
+      throw new Error(`A series can have at most ${MAX_OCCURRENCES} occurrences`);
+    }
+
+    const { data: series, error: seriesError } = await supabase
+      .from('task_series')
+      .insert({
+        frequency: task.recurrence.frequency,
+        weekday: task.recurrence.frequency === 'weekly' ? task.recurrence.weekday : null,
+        interval_days: task.recurrence.frequency === 'interval' ? task.recurrence.intervalDays : null,
+        until_date: task.recurrence.untilDate || null,
+        occurrences: task.recurrence.untilDate ? null : task.recurrence.occurrences,
+        created_by: userId
+      })
+      .select()
+      .single();
+
+    if (seriesError) throw seriesError;
+
+    // Generate every occurrence up front so students see them all in their calendar
+    const { data, error } = await supabase
+      .from('tasks')
+      .insert(dueDates.map(dueDate => ({
+        name: task.name,
+        category: task.category,
+        due_date: dueDate,
+        description: task.description,
+        status: task.status,
+        priority: task.priority || 'normal',
+        estimated_hours: task.estimatedHours ?? null,
+        course_id: task.courseId || null,
+        target_sections: isAdmin && task.targetSections?.length ? task.targetSections : null,
+        user_id: userId,
+        is_admin_task: isAdmin,
+        series_id: series.id
+      })))
+      .select(TASK_SELECT);
+
+    if (error) throw error;
+
+    const newTasks = (data || []).map(mapTaskFromDB);
+
+    // Every occurrence gets its own copy of the checklist
+    if (task.subtasks?.length) {
+      for (const newTask of newTasks) {
+        newTask.subtasks = await saveSubtasks(
+          newTask.id,
+          task.subtasks.map(subtask => ({ ...subtask, id: crypto.randomUUID(), completed: false }))
+        );
+      }
+    }
+
+    // Occurrences share the uploaded files
+    if (task.files?.length && newTasks.length > 0) {
+      const attachments = await uploadAttachments(newTasks.map(newTask => newTask.id), task.files, userId);
+      for (const newTask of newTasks) {
+        newTask.attachments = attachments
+          .filter(attachment => attachment.task_id === newTask.id)
+          .map(mapAttachmentFromDB);
+      }
+    }
+
+    // Only announce the series once, using the first occurrence
+    if (isAdmin && newTasks.length > 0) {
+      await sendPushNotifications(newTasks[0]);
+      if (!newTasks[0].targetSections?.length) {
+        await sendTaskNotification(newTasks[0]);
+      }
+    }
+
+    return newTasks;
+  } catch (error: any) {
+    console.error('Error creating task series:', error);
+    throw new Error(error.message || 'Failed to create task series');
+  }
+}
+
 async function sendPushNotifications(task: Task) {
   try {
-    // Get all push subscriptions
-    const { data: subscriptions, error } = await supabase
+    // Section-targeted tasks only reach students in those sections
+    let subscriptionsQuery = supabase
       .from('push_subscriptions')
       .select('subscription');
 
+    if (task.targetSections?.length) {
+      const { data: users, error: usersError } = await supabase
+        .from('users')
+        .select('id')
+        .in('section', task.targetSections);
+
+      if (usersError) throw usersError;
+      if (!users?.length) return;
+      subscriptionsQuery = subscriptionsQuery.in('user_id', users.map(user => user.id));
+    }
+
+    const { data: subscriptions, error } = await subscriptionsQuery;
+
     if (error) throw error;
     if (!subscriptions?.length) return;
 
@@ -160,7 +395,7 @@ async function sendPushNotifications(task: Task) {
   }
 }
 
-export async function updateTask(taskId: string, updates: Partial<Task>) {
+export async function updateTask(taskId: string, updates: TaskUpdates) {
   try {
     // Convert camelCase to snake_case for database fields
     const dbUpdates: Record<string, any> = {};
@@ -169,14 +404,38 @@ export async function updateTask(taskId: string, updates: Partial<Task>) {
     if (updates.dueDate !== undefined) dbUpdates.due_date = updates.dueDate;
     if (updates.description !== undefined) dbUpdates.description = updates.description;
     if (updates.status !== undefined) dbUpdates.status = updates.status;
+    if (updates.priority !== undefined) dbUpdates.priority = updates.priority;
+    if ('estimatedHours' in updates) dbUpdates.estimated_hours = updates.estimatedHours ?? null;
+    if ('courseId' in updates) dbUpdates.course_id = updates.courseId || null;
+    if ('targetSections' in updates) dbUpdates.target_sections = updates.targetSections?.length ? updates.targetSections : null;
 
-    // Update task
-    const { data, error } = await supabase
-      .from('tasks')
-      .update(dbUpdates)
-      .eq('id', taskId)
-      .select('id, name, category, due_date, description, status, created_at, is_admin_task')
-      .single();
+    if (updates.subtasks !== undefined) {
+      await saveSubtasks(taskId, updates.subtasks);
+    }
+
+    if (updates.attachments !== undefined) {
+      await removeAttachments(taskId, updates.attachments.map(attachment => attachment.id));
+    }
+
+    if (updates.files?.length) {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('You must be signed in to upload files');
+      await uploadAttachments([taskId], updates.files, user.id);
+    }
+
+    // Update task, or just reload it when only the checklist or attachments changed
+    const { data, error } = Object.keys(dbUpdates).length > 0
+      ? await supabase
+          .from('tasks')
+          .update(dbUpdates)
+          .eq('id', taskId)
+          .select(TASK_SELECT)
+          .single()
+      : await supabase
+          .from('tasks')
+          .select(TASK_SELECT)
+          .eq('id', taskId)
+          .single();
 
     if (error) {
       console.error('Database error:', error);
@@ -187,33 +446,316 @@ export async function updateTask(taskId: string, updates: Partial<Task>) {
       throw new Error('Task not found');
     }
 
-    // Map the response to our Task type
-    return {
-      id: data.id,
-      name: data.name,
-      category: data.category,
-      dueDate: data.due_date,
-      description: data.description,
-      status: data.status,
-      createdAt: data.created_at,
-      isAdminTask: data.is_admin_task
-    };
+    return mapTaskFromDB(data);
   } catch (error: any) {
     console.error('Error updating task:', error);
     throw error;
   }
 }
 
-export async function deleteTask(taskId: string) {
+// Deletes a task's attachments other than the ones being kept, along with their files
+async function removeAttachments(taskId: string, keepIds: string[]) {
+  let query = supabase
+    .from('task_attachments')
+    .delete()
+    .eq('task_id', taskId);
+
+  if (keepIds.length > 0) {
+    query = query.not('id', 'in', `(${keepIds.join(',')})`);
+  }
+
+  const { data, error } = await query.select('storage_path');
+  if (error) throw error;
+
+  await removeUnreferencedFiles((data || []).map(row => row.storage_path));
+}
+
+// Replaces a task's checklist: items are upserted by id and missing ones are removed
+async function saveSubtasks(taskId: string, subtasks: Subtask[]): Promise<Subtask[]> {
+  const rows = subtasks.map((subtask, index) => ({
+    id: subtask.id,
+    task_id: taskId,
+    title: subtask.title,
+    position: index
+  }));
+
+  const removeQuery = supabase
+    .from('task_subtasks')
+    .delete()
+    .eq('task_id', taskId);
+
+  const { error: deleteError } = rows.length > 0
+    ? await removeQuery.not('id', 'in', `(${rows.map(row => row.id).join(',')})`)
+    : await removeQuery;
+
+  if (deleteError) throw deleteError;
+  if (rows.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('task_subtasks')
+    .upsert(rows)
+    .select('id, title, position');
+
+  if (error) throw error;
+
+  const completedIds = new Set(subtasks.filter(subtask => subtask.completed).map(subtask => subtask.id));
+  return (data || [])
+    .map(row => mapSubtaskFromDB({ ...row, completed: completedIds.has(row.id) }))
+    .sort((a, b) => a.position - b.position);
+}
+
+export async function setSubtaskCompleted(subtaskId: string, userId: string, completed: boolean) {
+  try {
+    const { error } = completed
+      ? await supabase
+          .from('task_subtask_completions')
+          // Already ticked (double tap, another device) is fine; completions are never updated
+          .upsert({ subtask_id: subtaskId, user_id: userId }, { onConflict: 'subtask_id,user_id', ignoreDuplicates: true })
+      : await supabase
+          .from('task_subtask_completions')
+          .delete()
+          .eq('subtask_id', subtaskId)
+          .eq('user_id', userId);
+
+    if (error) throw error;
+  } catch (error: any) {
+    console.error('Error updating subtask:', error);
+    throw new Error(error.message || 'Failed to update subtask');
+  }
+}
+
+export async function updateTaskProgress(taskId: string, userId: string, status: TaskStatus) {
+  try {
+    const { error } = await supabase
+      .from('task_progress')
+      .upsert({
+        task_id: taskId,
+        user_id: userId,
+        status,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'task_id,user_id' });
+
+    if (error) throw error;
+  } catch (error: any) {
+    console.error('Error updating task progress:', error);
+    throw new Error(error.message || 'Failed to update task progress');
+  }
+}
+
+// Applies shared edits to every occurrence in a series that isn't due yet
+export async function updateTaskSeries(seriesId: string, updates: Partial<Task>) {
+  try {
+    const dbUpdates: Record<string, any> = {};
+    if (updates.name !== undefined) dbUpdates.name = updates.name;
+    if (updates.category !== undefined) dbUpdates.category = updates.category;
+    if (updates.description !== undefined) dbUpdates.description = updates.description;
+    if (updates.status !== undefined) dbUpdates.status = updates.status;
+    if (updates.priority !== undefined) dbUpdates.priority = updates.priority;
+    if ('estimatedHours' in updates) dbUpdates.estimated_hours = updates.estimatedHours ?? null;
+    if ('courseId' in updates) dbUpdates.course_id = updates.courseId || null;
+    if ('targetSections' in updates) dbUpdates.target_sections = updates.targetSections?.length ? updates.targetSections : null;
+
+    const { data, error } = await supabase
+      .from('tasks')
+      .update(dbUpdates)
+      .eq('series_id', seriesId)
+      .gte('due_date', format(new Date(), 'yyyy-MM-dd'))
+      .select(TASK_SELECT);
+
+    if (error) throw error;
+    return (data || []).map(mapTaskFromDB);
+  } catch (error: any) {
+    console.error('Error updating task series:', error);
+    throw new Error(error.message || 'Failed to update task series');
+  }
+}
+
+// Cancels a series: upcoming occurrences are removed, past ones are kept for history
+export async function deleteTaskSeries(seriesId: string) {
   try {
+    const storagePaths = await fetchAttachmentPaths('series_id', seriesId, true);
+
     const { error } = await supabase
       .from('tasks')
       .delete()
-      .eq('id', taskId);
+      .eq('series_id', seriesId)
+      .gte('due_date', format(new Date(), 'yyyy-MM-dd'));
+
+    if (error) throw error;
+
+    await removeUnreferencedFiles(storagePaths);
+
+    const { error: seriesError } = await supabase
+      .from('task_series')
+      .delete()
+      .eq('id', seriesId);
+
+    if (seriesError) throw seriesError;
+  } catch (error: any) {
+    console.error('Error deleting task series:', error);
+    throw new Error(error.message || 'Failed to delete task series');
+  }
+}
+
+export async function deleteTask(taskId: string) {
+  try {
+    const storagePaths = await fetchAttachmentPaths('id', taskId);
+
+    const { data, error } = await supabase
+      .from('tasks')
+      .delete()
+      .eq('id', taskId)
+      .select('id');
 
     if (error) throw error;
+    // RLS filters rows the user may not delete instead of raising an error
+    if (!data?.length) throw new Error('Task not found or not deletable');
+
+    // Attachment rows cascade with the task; clean up the stored files too
+    await removeUnreferencedFiles(storagePaths);
   } catch (error: any) {
     console.error('Error deleting task:', error);
     throw new Error(error.message || 'Failed to delete task');
   }
-}
\ No newline at end of file
+}
+
+// Archived tasks matching `search` in their name or description, most recent first
+export async function fetchArchivedTasks(userId: string, search = '') {
+  try {
+    let query = supabase
+      .from('tasks')
+      .select(TASK_SELECT)
+      .or(`user_id.eq.${userId},is_admin_task.eq.true`)
+      .not('archived_at', 'is', null);
+
+    // Commas and parentheses would break the filter syntax
+    const term = search.replace(/[,()]/g, ' ').trim();
+    if (term) {
+      query = query.or(`name.ilike.%${term}%,description.ilike.%${term}%`);
+    }
+
+    const { data, error } = await query
+      .order('due_date', { ascending: false })
+      .limit(ARCHIVE_PAGE_SIZE);
+
+    if (error) throw error;
+
+    return await withUserProgress(userId, data || []);
+  } catch (error: any) {
+    console.error('Error fetching archived tasks:', error);
+    throw new Error(error.message || 'Failed to fetch archived tasks');
+  }
+}
+
+// Archives every active task due before the cutoff; returns how many were archived
+export async function closeSemester(cutoffDate: string): Promise<number> {
+  try {
+    const { data, error } = await supabase.rpc('close_semester', { cutoff_date: cutoffDate });
+
+    if (error) throw error;
+    return data ?? 0;
+  } catch (error: any) {
+    console.error('Error closing semester:', error);
+    throw new Error(error.message || 'Failed to close semester');
+  }
+}
+
+export async function restoreArchivedTask(taskId: string) {
+  try {
+    await updateTaskRow(taskId, { archived_at: null });
+  } catch (error: any) {
+    console.error('Error restoring task:', error);
+    throw new Error(error.message || 'Failed to restore task');
+  }
+}
+
+// Inserts imported rows one at a time so a bad row doesn't block the rest.
+// Imports skip the per-task notifications; a term schedule would otherwise send dozens of pushes.
+export async function bulkImportTasks(userId: string, tasks: NewTask[]): Promise<{ success: number; errors: any[] }> {
+  const errors: any[] = [];
+  let successCount = 0;
+
+  const { data: { user } } = await supabase.auth.getUser();
+  const isAdmin = user?.user_metadata?.role === 'admin';
+
+  for (let i = 0; i < tasks.length; i++) {
+    const task = tasks[i];
+    try {
+      const { error } = await supabase
+        .from('tasks')
+        .insert({
+          name: task.name,
+          category: task.category,
+          due_date: task.dueDate,
+          description: task.description,
+          status: task.status,
+          priority: task.priority || 'normal',
+          estimated_hours: task.estimatedHours ?? null,
+          course_id: task.courseId || null,
+          target_sections: isAdmin && task.targetSections?.length ? task.targetSections : null,
+          user_id: userId,
+          is_admin_task: isAdmin
+        });
+
+      if (error) throw error;
+      successCount++;
+    } catch (error: any) {
+      console.error(`Error importing task #${i + 1}:`, error);
+      errors.push({
+        message: `Task #${i + 1} (${task.name}): ${error.message || 'Unknown error'}`
+      });
+    }
+  }
+
+  return { success: successCount, errors };
+}
+
+// Runs the operation for each task on its own so one failing row doesn't stop the rest
+async function runPerTask(taskIds: string[], operation: (taskId: string) => Promise<void>): Promise<BulkTaskResult[]> {
+  const results: BulkTaskResult[] = [];
+
+  for (const taskId of taskIds) {
+    try {
+      await operation(taskId);
+      results.push({ taskId, success: true });
+    } catch (error: any) {
+      results.push({ taskId, success: false, error: error.message || 'Unknown error' });
+    }
+  }
+
+  return results;
+}
+
+// RLS hides rows the user may not change, so an update that matched nothing counts as a failure
+async function updateTaskRow(taskId: string, dbUpdates: Record<string, any>) {
+  const { data, error } = await supabase
+    .from('tasks')
+    .update(dbUpdates)
+    .eq('id', taskId)
+    .select('id');
+
+  if (error) throw error;
+  if (!data?.length) throw new Error('Task not found or not editable');
+}
+
+export async function bulkDeleteTasks(taskIds: string[]): Promise<BulkTaskResult[]> {
+  return runPerTask(taskIds, deleteTask);
+}
+
+export async function bulkArchiveTasks(taskIds: string[]): Promise<BulkTaskResult[]> {
+  const archivedAt = new Date().toISOString();
+  return runPerTask(taskIds, taskId => updateTaskRow(taskId, { archived_at: archivedAt }));
+}
+
+export async function bulkUpdateTaskCategory(taskIds: string[], category: TaskCategory): Promise<BulkTaskResult[]> {
+  return runPerTask(taskIds, taskId => updateTaskRow(taskId, { category }));
+}
+
+// Moves each due date by `days`; negative values move them earlier
+export async function bulkShiftTaskDueDates(tasks: Pick<Task, 'id' | 'dueDate'>[], days: number): Promise<BulkTaskResult[]> {
+  const dueDates = new Map(tasks.map(task => [task.id, task.dueDate]));
+
+  return runPerTask(tasks.map(task => task.id), taskId => updateTaskRow(taskId, {
+    due_date: format(addDays(parseISO(dueDates.get(taskId)!), days), 'yyyy-MM-dd')
+  }));
+}
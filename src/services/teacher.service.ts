@@ -45,6 +45,7 @@ export async function fetchTeachers(): Promise<Teacher[]> {
         phone: teacher.phone,
         department: teacher.department,
         officeRoom: teacher.office_room,
+        consultationHours: teacher.consultation_hours || [],
         createdAt: teacher.created_at,
         createdBy: teacher.created_by,
         courses: processedCourses
@@ -92,7 +93,8 @@ export async function createTeacher(teacher: NewTeacher, courseIds: string[]): P
         email: teacher.email,
         phone: teacher.phone,
         department: teacher.department,
-        office_room: teacher.officeRoom
+        office_room: teacher.officeRoom,
+        consultation_hours: teacher.consultationHours || []
       })
       .select()
       .single();
@@ -120,6 +122,7 @@ export async function createTeacher(teacher: NewTeacher, courseIds: string[]): P
       phone: newTeacher.phone,
       department: newTeacher.department,
       officeRoom: newTeacher.office_room,
+      consultationHours: newTeacher.consultation_hours || [],
       createdAt: newTeacher.created_at,
       createdBy: newTeacher.created_by,
       courses: []
@@ -164,7 +167,8 @@ export async function updateTeacher(
         email: updates.email,
         phone: updates.phone,
         department: updates.department,
-        office_room: updates.officeRoom
+        office_room: updates.officeRoom,
+        consultation_hours: updates.consultationHours
       })
       .eq('id', id);
 
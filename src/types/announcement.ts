@@ -4,6 +4,7 @@ export interface Announcement {
   content: string;
   createdAt: string;
   createdBy: string;
+  targetSections?: string[]; // empty means everyone
 }
 
-export type NewAnnouncement = Pick<Announcement, 'title' | 'content'>;
\ No newline at end of file
+export type NewAnnouncement = Pick<Announcement, 'title' | 'content' | 'targetSections'>;
\ No newline at end of file
@@ -4,6 +4,7 @@ export interface User {
   name: string;
   phone?: string;
   studentId?: string;
+  section?: string;
   role: 'user' | 'admin';
   createdAt: string;
   lastActive?: string;
@@ -24,4 +25,5 @@ export interface SignupCredentials extends LoginCredentials {
   name: string;
   phone: string;
   studentId: string;
+  section: string;
 }
@@ -25,6 +25,11 @@ export interface ClassTime {
 
 export type NewCourse = Omit<Course, 'id' | 'createdAt' | 'createdBy'>;
 
+export interface CourseEnrollment {
+  courseId: string;
+  section?: string; // set when taken with another section, e.g. a retake
+}
+
 export type StudyMaterialCategory = 
   | 'Task'
   | 'Presentation'
@@ -51,6 +56,10 @@ export interface StudyMaterial {
   category: StudyMaterialCategory;
   fileUrls: string[];
   originalFileNames: string[];
+  versionNumber?: number;
+  changeNote?: string; // what changed in the current version
+  updatedAt?: string; // when the current files replaced the previous version
+  updatedByName?: string;
   createdAt: string;
   createdBy: string;
   course?: Course;
@@ -59,4 +68,31 @@ export interface StudyMaterial {
   _isOfflineDeleted?: boolean;
 }
 
-export type NewStudyMaterial = Omit<StudyMaterial, 'id' | 'createdAt' | 'createdBy' | 'course' | '_isOffline' | '_isOfflineUpdated' | '_isOfflineDeleted'>;
\ No newline at end of file
+export type NewStudyMaterial = Omit<StudyMaterial, 'id' | 'versionNumber' | 'changeNote' | 'updatedAt' | 'updatedByName' | 'createdAt' | 'createdBy' | 'course' | '_isOffline' | '_isOfflineUpdated' | '_isOfflineDeleted'>;
+
+// An earlier version of a material's files, kept when they were replaced
+export interface StudyMaterialVersion {
+  id: string;
+  materialId: string;
+  versionNumber: number;
+  title: string;
+  fileUrls: string[];
+  originalFileNames: string[];
+  changeNote?: string;
+  uploadedByName?: string;
+  uploadedAt: string;
+}
+
+// One place a search matched: the title/description, or a page of one of the files
+export interface StudyMaterialSearchMatch {
+  fileIndex?: number; // index into fileUrls; unset for title/description matches
+  fileName?: string;
+  pageNumber?: number;
+  snippet: string; // matched words are wrapped in <mark></mark>
+}
+
+export interface StudyMaterialSearchResult {
+  materialId: string;
+  rank: number;
+  matches: StudyMaterialSearchMatch[];
+}
@@ -1 +1 @@
-export type NavPage = 'home' | 'upcoming' | 'notifications' | 'search' | 'study-materials' | 'courses' | 'admin' | 'routine';
\ No newline at end of file
+export type NavPage = 'home' | 'upcoming' | 'notifications' | 'search' | 'study-materials' | 'courses' | 'admin' | 'routine' | 'rooms' | 'archive';
\ No newline at end of file
@@ -32,4 +32,86 @@ export interface Routine {
   _isOffline?: boolean;
   _isOfflineUpdated?: boolean;
   _isOfflineDeleted?: boolean;
-}
\ No newline at end of file
+}
+
+export type RoutineClashType = 'teacher' | 'room' | 'section';
+
+// Two slots in active routines that overlap in time and share a teacher, room or section
+export interface RoutineClash {
+  types: RoutineClashType[];
+  slot: RoutineSlot;
+  routineName: string;
+  conflictingSlot: RoutineSlot;
+  conflictingRoutineName: string;
+}
+
+export interface RoutineSlotSaveOptions {
+  allowClashes?: boolean; // save even when the slot clashes with another booking
+}
+
+export type RoutineOverrideType = 'cancelled' | 'rescheduled' | 'room-changed' | 'extra';
+
+// Changes the weekly routine for one date; `slotId` is empty for extra classes
+export interface RoutineSlotOverride {
+  id: string;
+  routineId: string;
+  slotId?: string;
+  date: string; // yyyy-MM-dd
+  type: RoutineOverrideType;
+  newDate?: string; // rescheduled only
+  startTime?: string;
+  endTime?: string;
+  roomNumber?: string;
+  courseId?: string; // extra classes only
+  teacherId?: string; // extra classes only
+  section?: string; // extra classes only
+  note?: string;
+  createdAt: string;
+}
+
+export type NewRoutineSlotOverride = Omit<RoutineSlotOverride, 'id' | 'createdAt'>;
+
+// A routine and its slots as saved in one version
+export interface RoutineSnapshot {
+  name: string;
+  description?: string;
+  semester: string;
+  slots: RoutineSlot[];
+}
+
+export interface RoutineVersion {
+  id: string;
+  routineId: string;
+  versionNumber: number;
+  snapshot: RoutineSnapshot;
+  changedBy?: string;
+  changedByName?: string;
+  changeCount: number; // row changes grouped into this version
+  revertedFrom?: number; // version number this one restored
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RoutineSlotMove {
+  before: RoutineSlot;
+  after: RoutineSlot;
+}
+
+export interface RoutineDiff {
+  added: RoutineSlot[];
+  removed: RoutineSlot[];
+  moved: RoutineSlotMove[]; // same class at another day, time, room or teacher
+  unchanged: number;
+  detailChanges: string[]; // routine name, semester or description
+}
+
+// Copies a routine's slots into a new semester; maps replace old values with new ones
+export interface RoutineCloneOptions {
+  name: string;
+  semester: string;
+  description?: string;
+  teacherMap?: Record<string, string | null>; // teacher id -> new teacher id, null to leave empty
+  roomMap?: Record<string, string>;
+  sectionMap?: Record<string, string>;
+  activate?: boolean; // activate the copy and deactivate the source
+}
@@ -36,12 +36,33 @@ export interface Database {
           is_admin_task?: boolean;
         };
       };
+      task_progress: {
+        Row: {
+          task_id: string;
+          user_id: string;
+          status: string;
+          updated_at: string;
+        };
+        Insert: {
+          task_id: string;
+          user_id: string;
+          status?: string;
+          updated_at?: string;
+        };
+        Update: {
+          task_id?: string;
+          user_id?: string;
+          status?: string;
+          updated_at?: string;
+        };
+      };
       users: {
         Row: {
           id: string;
           email: string;
           name: string | null;
           role: string;
+          section: string | null;
           created_at: string;
           last_active: string;
         };
@@ -50,6 +71,7 @@ export interface Database {
           email: string;
           name?: string | null;
           role?: string;
+          section?: string | null;
           created_at?: string;
           last_active?: string;
         };
@@ -58,6 +80,7 @@ export interface Database {
           email?: string;
           name?: string | null;
           role?: string;
+          section?: string | null;
           created_at?: string;
           last_active?: string;
         };
@@ -123,6 +146,10 @@ export interface Database {
           new_this_week: number;
         };
       };
+      close_semester: {
+        Args: { cutoff_date: string };
+        Returns: number;
+      };
     };
   };
 }
\ No newline at end of file
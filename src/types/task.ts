@@ -17,6 +17,34 @@ export type TaskCategory =
 
 export type TaskStatus = 'my-tasks' | 'in-progress' | 'completed';
 
+export type TaskPriority = 'low' | 'normal' | 'high' | 'critical';
+
+export type RecurrenceFrequency = 'weekly' | 'interval';
+
+export interface TaskRecurrence {
+  frequency: RecurrenceFrequency;
+  weekday?: number; // 0 = Sunday, used by weekly rules
+  intervalDays?: number; // used by interval rules
+  untilDate?: string;
+  occurrences?: number;
+}
+
+export interface Subtask {
+  id: string;
+  title: string;
+  position: number;
+  completed: boolean; // ticked by the current user
+}
+
+export interface TaskAttachment {
+  id: string;
+  fileName: string;
+  fileSize: number;
+  mimeType: string;
+  storagePath: string;
+  createdAt: string;
+}
+
 export interface Task {
   id: string;
   name: string;
@@ -26,6 +54,47 @@ export interface Task {
   status: TaskStatus;
   createdAt: string;
   isAdminTask: boolean;
+  priority?: TaskPriority;
+  estimatedHours?: number;
+  courseId?: string;
+  courseCode?: string; // read-only, joined from courses
+  courseName?: string; // read-only, joined from courses
+  targetSections?: string[]; // admin tasks only; empty means everyone
+  seriesId?: string;
+  archivedAt?: string;
+  subtasks?: Subtask[];
+  attachments?: TaskAttachment[];
+}
+
+export interface TaskComment {
+  id: string;
+  taskId: string;
+  userId: string;
+  userName: string; // read-only, joined from users
+  content: string;
+  isPinned: boolean; // the admin's official answer
+  createdAt: string;
+}
+
+export type NewTask = Omit<Task, 'id' | 'createdAt' | 'isAdminTask' | 'attachments' | 'courseCode' | 'courseName'> & {
+  recurrence?: TaskRecurrence;
+  files?: File[];
+};
+
+// Admin actions applied to several selected tasks at once
+export type BulkTaskAction =
+  | { type: 'delete' }
+  | { type: 'archive' }
+  | { type: 'set-category'; category: TaskCategory }
+  | { type: 'shift-due-date'; days: number };
+
+export interface BulkTaskResult {
+  taskId: string;
+  success: boolean;
+  error?: string;
 }
 
-export type NewTask = Omit<Task, 'id' | 'createdAt' | 'isAdminTask'>;
\ No newline at end of file
+// Edits to a task; `attachments` lists the files to keep and `files` the new uploads
+export type TaskUpdates = Partial<Task> & {
+  files?: File[];
+};
\ No newline at end of file
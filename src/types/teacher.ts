@@ -1,5 +1,12 @@
 import { Course } from './course';
 
+// A weekly time the teacher is available in their office; times are HH:mm
+export interface ConsultationHour {
+  dayOfWeek: string;
+  startTime: string;
+  endTime: string;
+}
+
 export interface Teacher {
   id: string;
   name: string;
@@ -7,6 +14,7 @@ export interface Teacher {
   phone: string;
   department?: string;
   officeRoom?: string;
+  consultationHours?: ConsultationHour[];
   createdAt: string;
   createdBy: string;
   courses?: Course[];
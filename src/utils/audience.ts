@@ -0,0 +1,24 @@
+import type { User } from '../types/auth';
+import type { Course } from '../types/course';
+
+/**
+ * Section used to filter section-targeted admin content
+ * @param user Signed-in user
+ * @returns undefined for admins (no filtering), otherwise the user's section or null when unset
+ */
+export function getAudienceSection(user: User | null | undefined): string | null | undefined {
+  if (!user || user.role === 'admin') return undefined;
+  return user.section ?? null;
+}
+
+// Content without target sections is meant for everyone
+export function isInAudience(targetSections: string[] | undefined, section: string | null | undefined): boolean {
+  if (section === undefined || !targetSections?.length) return true;
+  return section !== null && targetSections.includes(section);
+}
+
+// Sections offered as audience options, taken from the course catalogue
+export function getKnownSections(courses: Course[]): string[] {
+  return Array.from(new Set(courses.map(course => course.section?.trim()).filter((section): section is string => !!section)))
+    .sort((a, b) => a.localeCompare(b));
+}
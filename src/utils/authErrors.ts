@@ -5,6 +5,7 @@ export const AUTH_ERROR_MESSAGES = {
   invalid_email: 'Please enter a valid email address.',
   invalid_phone: 'Please enter a valid phone number.',
   invalid_student_id: 'Please enter a valid student ID.',
+  invalid_section: 'Please choose your section from the list.',
   'Invalid login credentials': 'Invalid email or password. Please try again.',
   'Email already registered': 'This email is already registered. Please try logging in instead.',
   'Password should be at least 6 characters': 'Password must be at least 6 characters long.',
@@ -0,0 +1,55 @@
+/**
+ * Parses CSV text into one object per row, keyed by the header row
+ * @param text CSV content; quoted fields may contain commas, newlines and doubled quotes
+ * @returns Rows with trimmed values; blank lines are skipped
+ */
+export function parseCSV(text: string): Record<string, string>[] {
+  // Excel starts UTF-8 exports with a byte order mark, which would end up in the first header
+  if (text.charCodeAt(0) === 0xfeff) text = text.slice(1);
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...body] = rows.filter(r => r.some(value => value.trim()));
+  if (!header) return [];
+
+  const keys = header.map(key => key.trim().toLowerCase());
+  return body.map(values =>
+    Object.fromEntries(keys.map((key, index) => [key, (values[index] ?? '').trim()]))
+  );
+}
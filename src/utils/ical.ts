@@ -0,0 +1,215 @@
+import { addDays, format, parseISO, startOfWeek } from 'date-fns';
+import type { RoutineSlot } from '../types/routine';
+import type { Task } from '../types/task';
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const ICAL_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+export type CalendarSlot = RoutineSlot & { courseCode?: string };
+
+interface CalendarOptions {
+  name: string;
+  slots: CalendarSlot[];
+  tasks: Task[];
+  timeZone?: string; // IANA zone the routine times are in; defaults to floating local time
+}
+
+// Escape commas, semicolons, backslashes and newlines as RFC 5545 requires
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 characters are continued on the next line with a leading space
+function foldLine(line: string): string {
+  if (line.length <= 75) return line;
+
+  const parts = [line.slice(0, 75)];
+  for (let i = 75; i < line.length; i += 74) {
+    parts.push(` ${line.slice(i, i + 74)}`);
+  }
+  return parts.join('\r\n');
+}
+
+function formatTime(time: string): string {
+  const [hours, minutes] = time.split(':');
+  return `${hours.padStart(2, '0')}${minutes.padStart(2, '0')}00`;
+}
+
+// Minutes east of UTC in the zone at the given instant
+function getZoneOffset(timeZone: string, time: number): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric'
+  }).formatToParts(new Date(time));
+  const value = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  const wallClock = Date.UTC(value('year'), value('month') - 1, value('day'), value('hour'), value('minute'));
+
+  return Math.round((wallClock - Math.floor(time / 60000) * 60000) / 60000);
+}
+
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const abs = Math.abs(minutes);
+  return `${sign}${String(Math.floor(abs / 60)).padStart(2, '0')}${String(abs % 60).padStart(2, '0')}`;
+}
+
+function formatUtcDateTime(time: number): string {
+  return new Date(time).toISOString().replace(/[-:]/g, '').slice(0, 15);
+}
+
+/**
+ * Describes the zone's UTC offsets and daylight saving changes as a VTIMEZONE, which
+ * RFC 5545 requires for every TZID used. The changes are found by probing this year's
+ * offsets and repeat yearly on the same weekday of the month.
+ */
+function buildTimeZone(timeZone: string, year: number): string[] {
+  const yearStart = Date.UTC(year, 0, 1);
+  const yearEnd = Date.UTC(year + 1, 0, 1);
+  const week = 7 * 86400000;
+  const transitions: number[] = [];
+
+  for (let from = yearStart; from < yearEnd; from += week) {
+    let low = from;
+    let high = Math.min(from + week, yearEnd);
+    if (getZoneOffset(timeZone, low) === getZoneOffset(timeZone, high)) continue;
+
+    // Narrow down to the first minute with the new offset
+    while (high - low > 60000) {
+      const mid = low + Math.floor((high - low) / 120000) * 60000;
+      if (getZoneOffset(timeZone, mid) === getZoneOffset(timeZone, low)) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+    transitions.push(high);
+  }
+
+  if (transitions.length === 0) {
+    const offset = formatOffset(getZoneOffset(timeZone, yearStart));
+    return [
+      'BEGIN:VTIMEZONE',
+      `TZID:${timeZone}`,
+      'BEGIN:STANDARD',
+      'DTSTART:19700101T000000',
+      `TZOFFSETFROM:${offset}`,
+      `TZOFFSETTO:${offset}`,
+      'END:STANDARD',
+      'END:VTIMEZONE'
+    ];
+  }
+
+  const observances = transitions.flatMap(time => {
+    const before = getZoneOffset(timeZone, time - 60000);
+    const after = getZoneOffset(timeZone, time);
+    const kind = after > before ? 'DAYLIGHT' : 'STANDARD';
+    // DTSTART is the wall-clock time just before the change
+    const local = new Date(time + before * 60000);
+    const day = local.getUTCDate();
+    const daysInMonth = new Date(Date.UTC(local.getUTCFullYear(), local.getUTCMonth() + 1, 0)).getUTCDate();
+    const nth = day + 7 > daysInMonth ? -1 : Math.ceil(day / 7);
+
+    return [
+      `BEGIN:${kind}`,
+      `DTSTART:${formatUtcDateTime(local.getTime())}`,
+      `RRULE:FREQ=YEARLY;BYMONTH=${local.getUTCMonth() + 1};BYDAY=${nth}${ICAL_WEEKDAYS[local.getUTCDay()]}`,
+      `TZOFFSETFROM:${formatOffset(before)}`,
+      `TZOFFSETTO:${formatOffset(after)}`,
+      `END:${kind}`
+    ];
+  });
+
+  return ['BEGIN:VTIMEZONE', `TZID:${timeZone}`, ...observances, 'END:VTIMEZONE'];
+}
+
+function slotToEvent(slot: CalendarSlot, weekStart: Date, stamp: string, timeZone?: string): string[] {
+  const dayIndex = WEEKDAYS.indexOf(slot.dayOfWeek);
+  if (dayIndex < 0) return [];
+
+  const date = format(addDays(weekStart, dayIndex), 'yyyyMMdd');
+  const tzParam = timeZone ? `;TZID=${timeZone}` : '';
+  const title = slot.courseCode ? `${slot.courseName || slot.courseCode} (${slot.courseCode})` : slot.courseName || 'Class';
+  const details = [
+    slot.teacherName && `Teacher: ${slot.teacherName}`,
+    slot.section && `Section: ${slot.section}`,
+    slot.roomNumber && `Room: ${slot.roomNumber}`
+  ].filter(Boolean).join('\n');
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:slot-${slot.id}@nesttask`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART${tzParam}:${date}T${formatTime(slot.startTime)}`,
+    `DTEND${tzParam}:${date}T${formatTime(slot.endTime)}`,
+    `RRULE:FREQ=WEEKLY;BYDAY=${ICAL_WEEKDAYS[dayIndex]}`,
+    `SUMMARY:${escapeText(title)}`,
+    ...(slot.roomNumber ? [`LOCATION:${escapeText(slot.roomNumber)}`] : []),
+    ...(details ? [`DESCRIPTION:${escapeText(details)}`] : []),
+    'END:VEVENT'
+  ];
+}
+
+function taskToEvent(task: Task, stamp: string): string[] {
+  const dueDate = parseISO(task.dueDate);
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:task-${task.id}@nesttask`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;VALUE=DATE:${format(dueDate, 'yyyyMMdd')}`,
+    `DTEND;VALUE=DATE:${format(addDays(dueDate, 1), 'yyyyMMdd')}`,
+    `SUMMARY:${escapeText(`Due: ${task.name}`)}`,
+    `CATEGORIES:${escapeText(task.category)}`,
+    ...(task.description ? [`DESCRIPTION:${escapeText(task.description)}`] : []),
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT'
+  ];
+}
+
+/**
+ * Builds an iCalendar file with each routine slot as a weekly recurring event
+ * and each task as an all-day event on its due date.
+ */
+export function buildCalendar({ name, slots, tasks, timeZone }: CalendarOptions): string {
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  // Recurrences start this week so past weeks stay empty
+  const weekStart = startOfWeek(new Date(), { weekStartsOn: 0 });
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//NestTask//Routine//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...(timeZone ? [`X-WR-TIMEZONE:${timeZone}`, ...buildTimeZone(timeZone, weekStart.getFullYear())] : []),
+    ...slots.flatMap(slot => slotToEvent(slot, weekStart, stamp, timeZone)),
+    ...tasks.filter(task => task.dueDate).flatMap(task => taskToEvent(task, stamp)),
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+export function downloadCalendar(content: string, filename: string) {
+  const blob = new Blob([content], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename.endsWith('.ics') ? filename : `${filename}.ics`;
+  document.body.appendChild(a);
+  a.click();
+
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,51 @@
+import { slotsOverlap } from './routineClashes';
+import type { RoutineSlot } from '../types/routine';
+import type { CourseEnrollment } from '../types/course';
+
+function sameSection(a?: string, b?: string) {
+  return (a || '').trim().toLowerCase() === (b || '').trim().toLowerCase();
+}
+
+/**
+ * Picks the slots a student attends: their section's classes for each enrolled course,
+ * or the other section's classes for courses taken elsewhere (retakes).
+ * Without enrollments every class of the student's section is included.
+ */
+export function buildMyRoutine<T extends RoutineSlot>(
+  slots: T[],
+  section: string | undefined,
+  enrollments: CourseEnrollment[]
+): T[] {
+  if (enrollments.length === 0) {
+    return section ? slots.filter(slot => !slot.section || sameSection(slot.section, section)) : [];
+  }
+
+  const enrolled = new Map(enrollments.map(enrollment => [enrollment.courseId, enrollment]));
+
+  return slots.filter(slot => {
+    const enrollment = slot.courseId ? enrolled.get(slot.courseId) : undefined;
+    if (!enrollment) return false;
+
+    return !slot.section || sameSection(slot.section, enrollment.section || section);
+  });
+}
+
+export interface MyRoutineClash {
+  slot: RoutineSlot;
+  conflictingSlot: RoutineSlot;
+}
+
+// Overlapping classes in a personal routine, which happen when a retake collides with a regular class
+export function findMyRoutineClashes(slots: RoutineSlot[]): MyRoutineClash[] {
+  const clashes: MyRoutineClash[] = [];
+
+  for (let i = 0; i < slots.length; i++) {
+    for (let j = i + 1; j < slots.length; j++) {
+      if (slotsOverlap(slots[i], slots[j])) {
+        clashes.push({ slot: slots[i], conflictingSlot: slots[j] });
+      }
+    }
+  }
+
+  return clashes;
+}
@@ -0,0 +1,59 @@
+import { addDays, format } from 'date-fns';
+import { applyRoutineOverrides, type ScheduledSlot } from './routineOverrides';
+import { toMinutes } from './routineClashes';
+import type { RoutineSlot, RoutineSlotOverride } from '../types/routine';
+
+export interface ClassStatus<T extends RoutineSlot = RoutineSlot> {
+  current?: { slot: ScheduledSlot & T; minutesLeft: number };
+  next?: { slot: ScheduledSlot & T; date: Date; minutesUntil: number };
+}
+
+/**
+ * Works out which class is running at `now` and which one comes after it,
+ * looking up to a week ahead. Cancelled classes are skipped.
+ */
+export function getClassStatus<T extends RoutineSlot>(
+  slots: T[],
+  overrides: RoutineSlotOverride[],
+  now: Date
+): ClassStatus<T> {
+  const status: ClassStatus<T> = {};
+  const nowMinutes = now.getHours() * 60 + now.getMinutes();
+
+  for (let offset = 0; offset < 7 && !status.next; offset++) {
+    const date = addDays(now, offset);
+    const daySlots = applyRoutineOverrides(slots, overrides, format(date, 'yyyy-MM-dd'))
+      .filter(slot => !slot.isCancelled && slot.startTime && slot.endTime) as (ScheduledSlot & T)[];
+
+    for (const slot of daySlots) {
+      const start = toMinutes(slot.startTime) + offset * 24 * 60;
+      const end = toMinutes(slot.endTime) + offset * 24 * 60;
+
+      if (start <= nowMinutes && nowMinutes < end) {
+        if (!status.current) status.current = { slot, minutesLeft: end - nowMinutes };
+      } else if (start > nowMinutes) {
+        status.next = { slot, date, minutesUntil: start - nowMinutes };
+        break;
+      }
+    }
+  }
+
+  return status;
+}
+
+export function formatClassTime(time: string) {
+  const [hours, minutes] = time.split(':').map(Number);
+  const suffix = hours >= 12 ? 'PM' : 'AM';
+  return `${hours % 12 || 12}:${String(minutes).padStart(2, '0')} ${suffix}`;
+}
+
+export function formatDuration(minutes: number) {
+  if (minutes < 60) return `${minutes} min`;
+
+  const days = Math.floor(minutes / (24 * 60));
+  const hours = Math.floor((minutes % (24 * 60)) / 60);
+  const rest = minutes % 60;
+
+  if (days > 0) return `${days}d ${hours}h`;
+  return rest > 0 ? `${hours}h ${rest}m` : `${hours}h`;
+}
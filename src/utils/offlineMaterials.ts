@@ -0,0 +1,220 @@
+import type { StudyMaterial } from '../types/course';
+
+// Shared with public/service-worker.js, which serves these files before going to the network
+export const OFFLINE_MATERIALS_CACHE = 'nesttask-offline-materials';
+
+const PINNED_MATERIALS_KEY = 'nesttask_pinned_materials';
+const PINNED_MATERIALS_EVENT = 'pinned-materials-changed';
+
+export interface PinnedFile {
+  url: string;
+  name: string;
+  size: number; // bytes
+}
+
+export interface PinnedMaterial {
+  materialId: string;
+  title: string;
+  courseName?: string;
+  versionNumber: number;
+  files: PinnedFile[];
+  pinnedAt: string;
+}
+
+export type PinStatus = 'none' | 'saved' | 'outdated';
+
+export interface StorageEstimate {
+  usage: number;
+  quota: number;
+}
+
+export function isOfflineStorageSupported() {
+  return typeof window !== 'undefined' && 'caches' in window;
+}
+
+export function getPinnedMaterials(): PinnedMaterial[] {
+  try {
+    return JSON.parse(localStorage.getItem(PINNED_MATERIALS_KEY) || '[]');
+  } catch {
+    return [];
+  }
+}
+
+function savePinnedMaterials(pinned: PinnedMaterial[]) {
+  localStorage.setItem(PINNED_MATERIALS_KEY, JSON.stringify(pinned));
+  window.dispatchEvent(new CustomEvent(PINNED_MATERIALS_EVENT));
+}
+
+export function subscribeToPinnedMaterials(onChange: () => void) {
+  window.addEventListener(PINNED_MATERIALS_EVENT, onChange);
+  return () => window.removeEventListener(PINNED_MATERIALS_EVENT, onChange);
+}
+
+// 'outdated' when the material's files were replaced after it was saved
+export function getPinStatus(material: StudyMaterial, pinned: PinnedMaterial[]): PinStatus {
+  const record = pinned.find(p => p.materialId === material.id);
+  if (!record) return 'none';
+
+  const savedUrls = record.files.map(file => file.url);
+  const isCurrent = material.fileUrls.length === savedUrls.length &&
+    material.fileUrls.every(url => savedUrls.includes(url));
+  return isCurrent ? 'saved' : 'outdated';
+}
+
+export function isFilePinned(url: string) {
+  return getPinnedMaterials().some(material => material.files.some(file => file.url === url));
+}
+
+// Deletes cached files that no remaining pinned material uses
+async function deleteUnusedFiles(urls: string[], pinned: PinnedMaterial[]) {
+  const stillUsed = new Set(pinned.flatMap(material => material.files.map(file => file.url)));
+  const cache = await caches.open(OFFLINE_MATERIALS_CACHE);
+  await Promise.all(urls.filter(url => !stillUsed.has(url)).map(url => cache.delete(url)));
+}
+
+/**
+ * Downloads all files of a material into Cache Storage. Saving a material again
+ * replaces the copies of an older version.
+ */
+export async function pinMaterial(
+  material: StudyMaterial,
+  onProgress?: (saved: number, total: number) => void
+): Promise<PinnedMaterial> {
+  if (!isOfflineStorageSupported()) {
+    throw new Error('This browser cannot save files for offline use');
+  }
+
+  // Ask the browser not to clear saved files when it runs low on space; it may say no
+  navigator.storage?.persist?.().catch(() => undefined);
+
+  const cache = await caches.open(OFFLINE_MATERIALS_CACHE);
+  const files: PinnedFile[] = [];
+
+  try {
+    for (const [index, url] of material.fileUrls.entries()) {
+      onProgress?.(index, material.fileUrls.length);
+
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`Download failed with status ${response.status}`);
+
+      const blob = await response.blob();
+      await cache.put(url, new Response(blob, {
+        headers: {
+          'Content-Type': blob.type || 'application/octet-stream',
+          'Content-Length': String(blob.size)
+        }
+      }));
+
+      files.push({
+        url,
+        name: material.originalFileNames?.[index] || decodeURIComponent(url.split('/').pop() || 'file'),
+        size: blob.size
+      });
+    }
+  } catch (error: any) {
+    // Do not leave half a material behind
+    await deleteUnusedFiles(files.map(file => file.url), getPinnedMaterials());
+
+    if (error?.name === 'QuotaExceededError') {
+      throw new Error('Not enough storage space. Remove some offline files in Settings and try again.');
+    }
+    throw new Error(error.message || 'Failed to save files for offline use');
+  }
+
+  onProgress?.(material.fileUrls.length, material.fileUrls.length);
+
+  const record: PinnedMaterial = {
+    materialId: material.id,
+    title: material.title,
+    courseName: material.course?.name,
+    versionNumber: material.versionNumber || 1,
+    files,
+    pinnedAt: new Date().toISOString()
+  };
+
+  const previous = getPinnedMaterials().find(p => p.materialId === material.id);
+  const pinned = [...getPinnedMaterials().filter(p => p.materialId !== material.id), record];
+  savePinnedMaterials(pinned);
+
+  if (previous) {
+    await deleteUnusedFiles(previous.files.map(file => file.url), pinned);
+  }
+
+  return record;
+}
+
+export async function unpinMaterial(materialId: string) {
+  const removed = getPinnedMaterials().find(p => p.materialId === materialId);
+  if (!removed) return;
+
+  const pinned = getPinnedMaterials().filter(p => p.materialId !== materialId);
+  savePinnedMaterials(pinned);
+
+  if (isOfflineStorageSupported()) {
+    await deleteUnusedFiles(removed.files.map(file => file.url), pinned);
+  }
+}
+
+export async function unpinAllMaterials() {
+  savePinnedMaterials([]);
+  if (isOfflineStorageSupported()) {
+    await caches.delete(OFFLINE_MATERIALS_CACHE);
+  }
+}
+
+// The browser may clear Cache Storage on its own, so drop records whose files are gone
+export async function removeMissingPinnedMaterials() {
+  if (!isOfflineStorageSupported()) return;
+
+  const cache = await caches.open(OFFLINE_MATERIALS_CACHE);
+  const pinned = getPinnedMaterials();
+  const present = await Promise.all(pinned.map(async material => {
+    const matches = await Promise.all(material.files.map(file => cache.match(file.url)));
+    return matches.every(Boolean);
+  }));
+
+  if (present.some(isPresent => !isPresent)) {
+    savePinnedMaterials(pinned.filter((_, index) => present[index]));
+  }
+}
+
+/**
+ * Opens the saved copy of a file in a new tab. The tab is opened before reading the
+ * cache so popup blockers still see it as a response to the click.
+ */
+export async function openPinnedFile(url: string) {
+  const tab = window.open('', '_blank');
+
+  try {
+    const cache = await caches.open(OFFLINE_MATERIALS_CACHE);
+    const response = await cache.match(url);
+    if (!response) throw new Error('File is not saved for offline use');
+
+    const objectUrl = URL.createObjectURL(await response.blob());
+    if (tab) {
+      tab.location.href = objectUrl;
+    } else {
+      window.open(objectUrl, '_blank');
+    }
+    // The new tab has loaded the file by then
+    setTimeout(() => URL.revokeObjectURL(objectUrl), 60 * 1000);
+  } catch (error) {
+    console.error('Error opening offline file:', error);
+    tab?.close();
+    throw error;
+  }
+}
+
+export async function getStorageEstimate(): Promise<StorageEstimate | null> {
+  if (!navigator.storage?.estimate) return null;
+
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+}
+
+export function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+}
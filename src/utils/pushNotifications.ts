@@ -117,4 +117,37 @@ export async function unsubscribeFromPushNotifications(userId: string) {
     console.error('Error unsubscribing from push notifications:', error);
     return false;
   }
-}
\ No newline at end of file
+}
+
+const CLASS_STATUS_TAG = 'class-status';
+
+// Show or refresh the ongoing "now and next class" notification; the tag makes each update replace the last one
+export async function showClassStatusNotification(title: string, body: string) {
+  try {
+    if (!('serviceWorker' in navigator) || Notification.permission !== 'granted') return;
+
+    const registration = await navigator.serviceWorker.ready;
+    await registration.showNotification(title, {
+      body,
+      tag: CLASS_STATUS_TAG,
+      icon: '/icons/icon-192x192.png',
+      silent: true,
+      requireInteraction: true,
+      data: { url: '/', type: 'class-status' }
+    });
+  } catch (error) {
+    console.error('Error showing class status notification:', error);
+  }
+}
+
+export async function clearClassStatusNotification() {
+  try {
+    if (!('serviceWorker' in navigator)) return;
+
+    const registration = await navigator.serviceWorker.ready;
+    const notifications = await registration.getNotifications({ tag: CLASS_STATUS_TAG });
+    notifications.forEach(notification => notification.close());
+  } catch (error) {
+    console.error('Error clearing class status notification:', error);
+  }
+}
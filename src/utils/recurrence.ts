@@ -0,0 +1,52 @@
+import { addDays, format, parseISO } from 'date-fns';
+import type { TaskRecurrence } from '../types/task';
+
+// Upper bound on generated occurrences so a far-off end date can't flood the tasks table;
+// longer series are rejected rather than cut short
+export const MAX_OCCURRENCES = 52;
+
+/**
+ * Expands a recurrence rule into the due dates of each occurrence
+ * @param startDate First due date (YYYY-MM-DD); weekly rules start on the first matching weekday from here
+ * @param rule Recurrence rule to expand
+ * @param maxCount Stop after this many occurrences
+ * @returns Due dates in YYYY-MM-DD format, earliest first
+ */
+export function generateOccurrenceDates(startDate: string, rule: TaskRecurrence, maxCount = MAX_OCCURRENCES): string[] {
+  let current = parseISO(startDate);
+  let step = Math.max(1, rule.intervalDays || 1);
+
+  if (rule.frequency === 'weekly') {
+    const weekday = rule.weekday ?? current.getDay();
+    current = addDays(current, (weekday - current.getDay() + 7) % 7);
+    step = 7;
+  }
+
+  const until = rule.untilDate ? parseISO(rule.untilDate) : null;
+  const limit = Math.min(rule.occurrences || maxCount, maxCount);
+  const dates: string[] = [];
+
+  while (dates.length < limit && (!until || current <= until)) {
+    dates.push(format(current, 'yyyy-MM-dd'));
+    current = addDays(current, step);
+  }
+
+  return dates;
+}
+
+// True when the rule would produce more than MAX_OCCURRENCES tasks
+export function exceedsMaxOccurrences(startDate: string, rule: TaskRecurrence): boolean {
+  return generateOccurrenceDates(startDate, rule, MAX_OCCURRENCES + 1).length > MAX_OCCURRENCES;
+}
+
+export function describeRecurrence(rule: TaskRecurrence): string {
+  const weekdays = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+  const base = rule.frequency === 'weekly'
+    ? `Every ${weekdays[rule.weekday ?? 0]}`
+    : `Every ${rule.intervalDays} day${rule.intervalDays === 1 ? '' : 's'}`;
+
+  if (rule.untilDate) {
+    return `${base} until ${format(parseISO(rule.untilDate), 'MMM d, yyyy')}`;
+  }
+  return `${base}, ${rule.occurrences} times`;
+}
@@ -0,0 +1,119 @@
+import { slotsOverlap, toMinutes } from './routineClashes';
+import type { RoutineSlot } from '../types/routine';
+
+export interface RoomSchedule<T extends RoutineSlot = RoutineSlot> {
+  room: string;
+  slots: T[];
+}
+
+export interface FreeRoom<T extends RoutineSlot = RoutineSlot> extends RoomSchedule<T> {
+  freeUntil?: string; // start of the next class that day, if any
+}
+
+export interface BusyRoom<T extends RoutineSlot = RoutineSlot> extends RoomSchedule<T> {
+  conflicts: T[];
+}
+
+export interface DayOccupancy<T extends RoutineSlot = RoutineSlot> {
+  day: string;
+  slots: T[];
+  bookedMinutes: number;
+  percent: number; // of the teaching day
+}
+
+function roomKey(room: string) {
+  return room.trim().toLowerCase();
+}
+
+/**
+ * Groups slots by room number. Room numbers are matched case-insensitively and
+ * the first spelling seen is kept for display; slots without a room are left out.
+ */
+export function indexSlotsByRoom<T extends RoutineSlot>(slots: T[]): RoomSchedule<T>[] {
+  const rooms = new Map<string, RoomSchedule<T>>();
+
+  slots.forEach(slot => {
+    if (!slot.roomNumber?.trim()) return;
+
+    const key = roomKey(slot.roomNumber);
+    const schedule = rooms.get(key) || { room: slot.roomNumber.trim(), slots: [] };
+    schedule.slots.push(slot);
+    rooms.set(key, schedule);
+  });
+
+  return [...rooms.values()].sort((a, b) => a.room.localeCompare(b.room, undefined, { numeric: true }));
+}
+
+/**
+ * Splits the rooms into those free for the whole of day/start-end and those with a class in it
+ */
+export function findFreeRooms<T extends RoutineSlot>(
+  rooms: RoomSchedule<T>[],
+  day: string,
+  startTime: string,
+  endTime: string
+): { free: FreeRoom<T>[]; busy: BusyRoom<T>[] } {
+  const range = { dayOfWeek: day, startTime, endTime };
+  const free: FreeRoom<T>[] = [];
+  const busy: BusyRoom<T>[] = [];
+
+  rooms.forEach(schedule => {
+    const conflicts = schedule.slots.filter(slot => slotsOverlap(slot, range));
+
+    if (conflicts.length > 0) {
+      busy.push({ ...schedule, conflicts: conflicts.sort((a, b) => a.startTime.localeCompare(b.startTime)) });
+      return;
+    }
+
+    const nextClass = schedule.slots
+      .filter(slot => slot.dayOfWeek === day && toMinutes(slot.startTime) >= toMinutes(endTime))
+      .sort((a, b) => a.startTime.localeCompare(b.startTime))[0];
+    free.push({ ...schedule, freeUntil: nextClass?.startTime });
+  });
+
+  return { free, busy };
+}
+
+// Earliest start and latest end across all slots, used as the bounds of the teaching day
+export function getTeachingDay(slots: RoutineSlot[]): { start: number; end: number } {
+  if (slots.length === 0) return { start: 8 * 60, end: 17 * 60 };
+
+  return {
+    start: Math.min(...slots.map(slot => toMinutes(slot.startTime))),
+    end: Math.max(...slots.map(slot => toMinutes(slot.endTime)))
+  };
+}
+
+/**
+ * Booked time per day for one room, as minutes and as a share of the teaching day.
+ * Overlapping bookings (double bookings) are only counted once.
+ */
+export function getRoomOccupancy<T extends RoutineSlot>(
+  schedule: RoomSchedule<T>,
+  days: string[],
+  teachingDay: { start: number; end: number }
+): DayOccupancy<T>[] {
+  const dayLength = Math.max(1, teachingDay.end - teachingDay.start);
+
+  return days.map(day => {
+    const slots = schedule.slots
+      .filter(slot => slot.dayOfWeek === day)
+      .sort((a, b) => a.startTime.localeCompare(b.startTime));
+
+    let bookedMinutes = 0;
+    let coveredUntil = 0;
+    slots.forEach(slot => {
+      const start = Math.max(toMinutes(slot.startTime), coveredUntil);
+      const end = toMinutes(slot.endTime);
+      if (end > start) bookedMinutes += end - start;
+      coveredUntil = Math.max(coveredUntil, end);
+    });
+
+    return {
+      day,
+      slots,
+      bookedMinutes,
+      percent: Math.min(100, Math.round((bookedMinutes / dayLength) * 100))
+    };
+  });
+}
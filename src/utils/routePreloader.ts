@@ -8,6 +8,8 @@ const importNotificationsPage = () => import('../pages/NotificationsPage').then(
 const importCoursePage = () => import('../pages/CoursePage').then(module => ({ default: module.CoursePage }));
 const importStudyMaterialsPage = () => import('../pages/StudyMaterialsPage').then(module => ({ default: module.StudyMaterialsPage }));
 const importRoutinePage = () => import('../pages/RoutinePage').then(module => ({ default: module.RoutinePage }));
+const importRoomFinderPage = () => import('../pages/RoomFinderPage').then(module => ({ default: module.RoomFinderPage }));
+const importArchivePage = () => import('../pages/ArchivePage').then(module => ({ default: module.ArchivePage }));
 
 // Map of route keys to import functions
 const routeImports = {
@@ -17,7 +19,9 @@ const routeImports = {
   'notifications': importNotificationsPage,
   'courses': importCoursePage,
   'study-materials': importStudyMaterialsPage,
-  'routine': importRoutinePage
+  'routine': importRoutinePage,
+  'rooms': importRoomFinderPage,
+  'archive': importArchivePage
 };
 
 // Complete list of all possible app routes for refresh handling
@@ -30,6 +34,8 @@ export const APP_ROUTES = [
   'courses',
   'study-materials',
   'routine',
+  'rooms',
+  'archive',
   'settings',
   'profile'
 ];
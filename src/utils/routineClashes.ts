@@ -0,0 +1,86 @@
+import type { Routine, RoutineSlot, RoutineClash, RoutineClashType } from '../types/routine';
+
+type ClashCandidate = Pick<RoutineSlot, 'dayOfWeek' | 'startTime' | 'endTime' | 'teacherId' | 'roomNumber' | 'section'>;
+
+export const CLASH_TYPE_LABELS: Record<RoutineClashType, string> = {
+  teacher: 'Teacher',
+  room: 'Room',
+  section: 'Section'
+};
+
+// Accepts both "08:00" from the form and "08:00:00" from the database
+export function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+function normalize(value?: string): string {
+  return value?.trim().toLowerCase() || '';
+}
+
+// Back-to-back slots (one ends as the next starts) do not overlap
+export function slotsOverlap(
+  a: Pick<RoutineSlot, 'dayOfWeek' | 'startTime' | 'endTime'>,
+  b: Pick<RoutineSlot, 'dayOfWeek' | 'startTime' | 'endTime'>
+): boolean {
+  return a.dayOfWeek === b.dayOfWeek &&
+    toMinutes(a.startTime) < toMinutes(b.endTime) &&
+    toMinutes(b.startTime) < toMinutes(a.endTime);
+}
+
+// Slots clash when they overlap on the same day and share a teacher, room or section
+export function getClashTypes(a: ClashCandidate, b: ClashCandidate): RoutineClashType[] {
+  if (!slotsOverlap(a, b)) return [];
+
+  const types: RoutineClashType[] = [];
+  if (a.teacherId && a.teacherId === b.teacherId) types.push('teacher');
+  if (normalize(a.roomNumber) && normalize(a.roomNumber) === normalize(b.roomNumber)) types.push('room');
+  if (normalize(a.section) && normalize(a.section) === normalize(b.section)) types.push('section');
+  return types;
+}
+
+/**
+ * Lists every clash between slots of the given routines.
+ * Each pair is reported once.
+ */
+export function findRoutineClashes(routines: Routine[]): RoutineClash[] {
+  const slotsByDay = new Map<string, { slot: RoutineSlot; routineName: string }[]>();
+
+  routines.forEach(routine => {
+    (routine.slots || []).forEach(slot => {
+      const daySlots = slotsByDay.get(slot.dayOfWeek) || [];
+      daySlots.push({ slot, routineName: routine.name });
+      slotsByDay.set(slot.dayOfWeek, daySlots);
+    });
+  });
+
+  const clashes: RoutineClash[] = [];
+
+  slotsByDay.forEach(daySlots => {
+    for (let i = 0; i < daySlots.length; i++) {
+      for (let j = i + 1; j < daySlots.length; j++) {
+        const types = getClashTypes(daySlots[i].slot, daySlots[j].slot);
+        if (types.length === 0) continue;
+
+        clashes.push({
+          types,
+          slot: daySlots[i].slot,
+          routineName: daySlots[i].routineName,
+          conflictingSlot: daySlots[j].slot,
+          conflictingRoutineName: daySlots[j].routineName
+        });
+      }
+    }
+  });
+
+  return clashes;
+}
+
+export function describeClash(clash: RoutineClash): string {
+  const { conflictingSlot } = clash;
+  const what = clash.types.map(type => CLASH_TYPE_LABELS[type].toLowerCase()).join(', ');
+  const course = conflictingSlot.courseName || 'another class';
+
+  return `${what} already booked for ${course} in "${clash.conflictingRoutineName}" ` +
+    `(${conflictingSlot.dayOfWeek} ${conflictingSlot.startTime.slice(0, 5)}-${conflictingSlot.endTime.slice(0, 5)})`;
+}
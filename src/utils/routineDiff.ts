@@ -0,0 +1,109 @@
+import type { Routine, RoutineSlot, RoutineSnapshot, RoutineDiff, RoutineSlotMove } from '../types/routine';
+
+const WEEKDAYS = ['Saturday', 'Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'];
+
+function slotContent(slot: RoutineSlot) {
+  return [
+    slot.courseId || '',
+    slot.teacherId || '',
+    slot.dayOfWeek,
+    slot.startTime.slice(0, 5),
+    slot.endTime.slice(0, 5),
+    (slot.roomNumber || '').trim().toLowerCase(),
+    (slot.section || '').trim().toLowerCase()
+  ].join('|');
+}
+
+function compareSlots(a: RoutineSlot, b: RoutineSlot) {
+  return WEEKDAYS.indexOf(a.dayOfWeek) - WEEKDAYS.indexOf(b.dayOfWeek) || a.startTime.localeCompare(b.startTime);
+}
+
+// Pairs up slots from both lists with the same key, removing them from the pools
+function pairBy(
+  before: RoutineSlot[],
+  after: RoutineSlot[],
+  key: (slot: RoutineSlot) => string | undefined
+): [RoutineSlot, RoutineSlot][] {
+  const pairs: [RoutineSlot, RoutineSlot][] = [];
+  const pool = new Map<string, RoutineSlot[]>();
+
+  before.forEach(slot => {
+    const slotKey = key(slot);
+    if (slotKey) pool.set(slotKey, [...(pool.get(slotKey) || []), slot]);
+  });
+
+  for (const slot of [...after]) {
+    const slotKey = key(slot);
+    const match = slotKey ? pool.get(slotKey)?.shift() : undefined;
+    if (!match) continue;
+
+    pairs.push([match, slot]);
+    before.splice(before.indexOf(match), 1);
+    after.splice(after.indexOf(slot), 1);
+  }
+
+  return pairs;
+}
+
+/**
+ * Compares two sets of slots. Slots are matched by id first (versions of the same routine),
+ * then by identical details, then by course and section; matches whose details differ are moves.
+ */
+export function diffRoutineSlots(beforeSlots: RoutineSlot[], afterSlots: RoutineSlot[]): Omit<RoutineDiff, 'detailChanges'> {
+  const before = [...beforeSlots].sort(compareSlots);
+  const after = [...afterSlots].sort(compareSlots);
+  const moved: RoutineSlotMove[] = [];
+  let unchanged = 0;
+
+  pairBy(before, after, slot => slot.id).forEach(([a, b]) => {
+    if (slotContent(a) === slotContent(b)) {
+      unchanged++;
+    } else {
+      moved.push({ before: a, after: b });
+    }
+  });
+
+  unchanged += pairBy(before, after, slotContent).length;
+
+  pairBy(before, after, slot => slot.courseId && `${slot.courseId}|${(slot.section || '').trim().toLowerCase()}`)
+    .forEach(([a, b]) => moved.push({ before: a, after: b }));
+
+  return {
+    added: after,
+    removed: before,
+    moved: moved.sort((a, b) => compareSlots(a.after, b.after)),
+    unchanged
+  };
+}
+
+export function diffRoutineSnapshots(before: RoutineSnapshot, after: RoutineSnapshot): RoutineDiff {
+  const detailChanges: string[] = [];
+
+  if (before.name !== after.name) {
+    detailChanges.push(`Name changed from "${before.name}" to "${after.name}"`);
+  }
+  if (before.semester !== after.semester) {
+    detailChanges.push(`Semester changed from "${before.semester}" to "${after.semester}"`);
+  }
+  if ((before.description || '') !== (after.description || '')) {
+    detailChanges.push('Description changed');
+  }
+
+  return {
+    ...diffRoutineSlots(before.slots, after.slots),
+    detailChanges
+  };
+}
+
+export function snapshotFromRoutine(routine: Routine): RoutineSnapshot {
+  return {
+    name: routine.name,
+    description: routine.description,
+    semester: routine.semester,
+    slots: routine.slots || []
+  };
+}
+
+export function isEmptyDiff(diff: RoutineDiff) {
+  return diff.added.length === 0 && diff.removed.length === 0 && diff.moved.length === 0 && diff.detailChanges.length === 0;
+}
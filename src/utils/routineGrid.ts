@@ -0,0 +1,258 @@
+import { getInitials } from './stringUtils';
+import type { RoutineSlot } from '../types/routine';
+
+export type GridSlot = RoutineSlot & { courseCode?: string };
+
+export interface RoutineGrid {
+  days: string[];
+  periods: { startTime: string; endTime: string }[];
+  cells: Map<string, GridSlot[]>; // keyed by `${day}|${period index}`
+}
+
+interface GridImageOptions {
+  title: string;
+  subtitle?: string;
+  showSections?: boolean; // label each class with its section when several are shown
+}
+
+// The university week runs Saturday to Thursday; Friday only appears when it has classes
+export const WEEK = ['Saturday', 'Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'];
+
+const SCALE = 2; // render at twice the size so prints and zoomed posts stay sharp
+const DAY_COLUMN_WIDTH = 110;
+const PERIOD_COLUMN_WIDTH = 150;
+const HEADER_ROW_HEIGHT = 44;
+const SLOT_HEIGHT = 54;
+const PADDING = 24;
+const TITLE_HEIGHT = 64;
+const FOOTER_HEIGHT = 32;
+
+function formatTime(time: string) {
+  const [hours, minutes] = time.split(':').map(Number);
+  const suffix = hours >= 12 ? 'PM' : 'AM';
+  return `${hours % 12 || 12}:${String(minutes).padStart(2, '0')} ${suffix}`;
+}
+
+export function buildRoutineGrid(slots: GridSlot[]): RoutineGrid {
+  const days = WEEK.filter(day => day !== 'Friday' || slots.some(slot => slot.dayOfWeek === 'Friday'));
+
+  const periodKeys = [...new Set(slots.map(slot => `${slot.startTime.slice(0, 5)}|${slot.endTime.slice(0, 5)}`))].sort();
+  const periods = periodKeys.map(key => {
+    const [startTime, endTime] = key.split('|');
+    return { startTime, endTime };
+  });
+
+  const cells = new Map<string, GridSlot[]>();
+  slots.forEach(slot => {
+    const period = periodKeys.indexOf(`${slot.startTime.slice(0, 5)}|${slot.endTime.slice(0, 5)}`);
+    const key = `${slot.dayOfWeek}|${period}`;
+    cells.set(key, [...(cells.get(key) || []), slot]);
+  });
+
+  return { days, periods, cells };
+}
+
+function fitText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number) {
+  if (ctx.measureText(text).width <= maxWidth) return text;
+
+  let fitted = text;
+  while (fitted.length > 1 && ctx.measureText(`${fitted}…`).width > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted}…`;
+}
+
+/**
+ * Draws the week grid (days down, class periods across) onto a canvas
+ */
+export function renderRoutineGrid(slots: GridSlot[], options: GridImageOptions): HTMLCanvasElement {
+  const grid = buildRoutineGrid(slots);
+  const rowHeights = grid.days.map(day => {
+    const busiest = Math.max(1, ...grid.periods.map((_, index) => grid.cells.get(`${day}|${index}`)?.length || 0));
+    return busiest * SLOT_HEIGHT + 8;
+  });
+
+  const tableWidth = DAY_COLUMN_WIDTH + Math.max(1, grid.periods.length) * PERIOD_COLUMN_WIDTH;
+  const tableHeight = HEADER_ROW_HEIGHT + rowHeights.reduce((sum, height) => sum + height, 0);
+  const width = tableWidth + PADDING * 2;
+  const height = TITLE_HEIGHT + tableHeight + FOOTER_HEIGHT + PADDING * 2;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width * SCALE;
+  canvas.height = height * SCALE;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported in this browser');
+  ctx.scale(SCALE, SCALE);
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+  ctx.textBaseline = 'middle';
+
+  // Title
+  ctx.fillStyle = '#111827';
+  ctx.font = 'bold 22px system-ui, sans-serif';
+  ctx.fillText(fitText(ctx, options.title, tableWidth), PADDING, PADDING + 16);
+  if (options.subtitle) {
+    ctx.fillStyle = '#6b7280';
+    ctx.font = '14px system-ui, sans-serif';
+    ctx.fillText(fitText(ctx, options.subtitle, tableWidth), PADDING, PADDING + 44);
+  }
+
+  const top = PADDING + TITLE_HEIGHT;
+
+  // Header row with class periods
+  ctx.fillStyle = '#eff6ff';
+  ctx.fillRect(PADDING, top, tableWidth, HEADER_ROW_HEIGHT);
+  ctx.fillStyle = '#1e3a8a';
+  ctx.font = 'bold 13px system-ui, sans-serif';
+  ctx.fillText('Day / Time', PADDING + 10, top + HEADER_ROW_HEIGHT / 2);
+  grid.periods.forEach((period, index) => {
+    const x = PADDING + DAY_COLUMN_WIDTH + index * PERIOD_COLUMN_WIDTH;
+    ctx.fillText(
+      fitText(ctx, `${formatTime(period.startTime)} - ${formatTime(period.endTime)}`, PERIOD_COLUMN_WIDTH - 16),
+      x + 8,
+      top + HEADER_ROW_HEIGHT / 2
+    );
+  });
+
+  // Day rows
+  let y = top + HEADER_ROW_HEIGHT;
+  grid.days.forEach((day, dayIndex) => {
+    const rowHeight = rowHeights[dayIndex];
+
+    if (dayIndex % 2 === 1) {
+      ctx.fillStyle = '#f9fafb';
+      ctx.fillRect(PADDING, y, tableWidth, rowHeight);
+    }
+
+    ctx.fillStyle = '#111827';
+    ctx.font = 'bold 13px system-ui, sans-serif';
+    ctx.fillText(day, PADDING + 10, y + rowHeight / 2);
+
+    grid.periods.forEach((_, periodIndex) => {
+      const x = PADDING + DAY_COLUMN_WIDTH + periodIndex * PERIOD_COLUMN_WIDTH;
+      const cellSlots = grid.cells.get(`${day}|${periodIndex}`) || [];
+
+      cellSlots.forEach((slot, slotIndex) => {
+        const slotTop = y + 4 + slotIndex * SLOT_HEIGHT;
+        const maxWidth = PERIOD_COLUMN_WIDTH - 20;
+
+        ctx.fillStyle = '#dbeafe';
+        ctx.fillRect(x + 4, slotTop, PERIOD_COLUMN_WIDTH - 8, SLOT_HEIGHT - 4);
+
+        ctx.fillStyle = '#1e40af';
+        ctx.font = 'bold 13px system-ui, sans-serif';
+        const code = slot.courseCode || slot.courseName || 'Class';
+        ctx.fillText(fitText(ctx, options.showSections && slot.section ? `${code} (${slot.section})` : code, maxWidth), x + 10, slotTop + 15);
+
+        ctx.fillStyle = '#374151';
+        ctx.font = '12px system-ui, sans-serif';
+        const details = [
+          slot.teacherName && getInitials(slot.teacherName),
+          slot.roomNumber && `Room ${slot.roomNumber}`
+        ].filter(Boolean).join(' · ');
+        ctx.fillText(fitText(ctx, details, maxWidth), x + 10, slotTop + 34);
+      });
+    });
+
+    y += rowHeight;
+  });
+
+  // Grid lines
+  ctx.strokeStyle = '#d1d5db';
+  ctx.lineWidth = 1;
+  ctx.strokeRect(PADDING, top, tableWidth, tableHeight);
+  let lineY = top + HEADER_ROW_HEIGHT;
+  rowHeights.forEach(rowHeight => {
+    ctx.beginPath();
+    ctx.moveTo(PADDING, lineY);
+    ctx.lineTo(PADDING + tableWidth, lineY);
+    ctx.stroke();
+    lineY += rowHeight;
+  });
+  for (let column = 0; column <= grid.periods.length; column++) {
+    const x = PADDING + DAY_COLUMN_WIDTH + column * PERIOD_COLUMN_WIDTH;
+    ctx.beginPath();
+    ctx.moveTo(x, top);
+    ctx.lineTo(x, top + tableHeight);
+    ctx.stroke();
+  }
+
+  ctx.fillStyle = '#9ca3af';
+  ctx.font = '11px system-ui, sans-serif';
+  ctx.fillText(`Generated by NestTask on ${new Date().toLocaleDateString()}`, PADDING, height - PADDING - FOOTER_HEIGHT / 2 + 8);
+
+  return canvas;
+}
+
+export function canvasToPng(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to create image'))), 'image/png');
+  });
+}
+
+/**
+ * Wraps the canvas in a single-page A4 landscape PDF. The image is embedded as JPEG,
+ * which PDF readers decode natively, so no PDF library is needed.
+ */
+export function canvasToPdf(canvas: HTMLCanvasElement): Blob {
+  const jpeg = atob(canvas.toDataURL('image/jpeg', 0.92).split(',')[1]);
+  const imageBytes = Uint8Array.from(jpeg, char => char.charCodeAt(0));
+
+  const pageWidth = 842;
+  const pageHeight = 595;
+  const margin = 24;
+  const scale = Math.min((pageWidth - margin * 2) / canvas.width, (pageHeight - margin * 2) / canvas.height);
+  const drawWidth = canvas.width * scale;
+  const drawHeight = canvas.height * scale;
+  const drawX = (pageWidth - drawWidth) / 2;
+  const drawY = (pageHeight - drawHeight) / 2;
+  const content = `q ${drawWidth.toFixed(2)} 0 0 ${drawHeight.toFixed(2)} ${drawX.toFixed(2)} ${drawY.toFixed(2)} cm /Im0 Do Q`;
+
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const startObject = () => offsets.push(length);
+
+  write('%PDF-1.4\n');
+  startObject();
+  write('1 0 obj\n<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+  startObject();
+  write('2 0 obj\n<< /Type /Pages /Kids [3 0 R] /Count 1 >>\nendobj\n');
+  startObject();
+  write(`3 0 obj\n<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] /Resources << /XObject << /Im0 4 0 R >> >> /Contents 5 0 R >>\nendobj\n`);
+  startObject();
+  write(`4 0 obj\n<< /Type /XObject /Subtype /Image /Width ${canvas.width} /Height ${canvas.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${imageBytes.length} >>\nstream\n`);
+  write(imageBytes);
+  write('\nendstream\nendobj\n');
+  startObject();
+  write(`5 0 obj\n<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+
+  const xrefOffset = length;
+  write(`xref\n0 ${offsets.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach(offset => write(`${String(offset).padStart(10, '0')} 00000 n \n`));
+  write(`trailer\n<< /Size ${offsets.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(chunks, { type: 'application/pdf' });
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,82 @@
+import { format, parseISO } from 'date-fns';
+import type { RoutineSlot, RoutineSlotOverride, RoutineOverrideType } from '../types/routine';
+
+// A routine slot as it actually happens on one date
+export interface ScheduledSlot extends RoutineSlot {
+  override?: RoutineSlotOverride;
+  isCancelled?: boolean; // cancelled, or moved away from this date
+  movedFrom?: string; // rescheduled into this date from another one
+}
+
+export const OVERRIDE_TYPE_LABELS: Record<RoutineOverrideType, string> = {
+  cancelled: 'Cancelled',
+  rescheduled: 'Rescheduled',
+  'room-changed': 'Room changed',
+  extra: 'Extra class'
+};
+
+/**
+ * Applies date-specific overrides to the weekly routine for one date (yyyy-MM-dd).
+ * Cancelled and moved-away slots stay in the list, marked `isCancelled`, so students can see what changed.
+ */
+export function applyRoutineOverrides(
+  slots: RoutineSlot[],
+  overrides: RoutineSlotOverride[],
+  date: string
+): ScheduledSlot[] {
+  const dayOfWeek = format(parseISO(date), 'EEEE');
+  const slotsById = new Map(slots.map(slot => [slot.id, slot]));
+
+  const scheduled: ScheduledSlot[] = slots
+    .filter(slot => slot.dayOfWeek === dayOfWeek)
+    .map(slot => {
+      const override = overrides.find(o => o.slotId === slot.id && o.date === date);
+      if (!override) return slot;
+
+      switch (override.type) {
+        case 'cancelled':
+        case 'rescheduled':
+          return { ...slot, override, isCancelled: true };
+        case 'room-changed':
+          return { ...slot, override, roomNumber: override.roomNumber };
+        default:
+          return slot;
+      }
+    });
+
+  overrides.forEach(override => {
+    if (override.type === 'rescheduled' && override.newDate === date && override.slotId) {
+      const slot = slotsById.get(override.slotId);
+      if (!slot) return;
+
+      scheduled.push({
+        ...slot,
+        id: override.id,
+        dayOfWeek,
+        startTime: override.startTime || slot.startTime,
+        endTime: override.endTime || slot.endTime,
+        roomNumber: override.roomNumber || slot.roomNumber,
+        override,
+        movedFrom: override.date
+      });
+    }
+
+    if (override.type === 'extra' && override.date === date) {
+      scheduled.push({
+        id: override.id,
+        routineId: override.routineId,
+        courseId: override.courseId,
+        teacherId: override.teacherId,
+        dayOfWeek,
+        startTime: override.startTime || '',
+        endTime: override.endTime || '',
+        roomNumber: override.roomNumber,
+        section: override.section,
+        createdAt: override.createdAt,
+        override
+      });
+    }
+  });
+
+  return scheduled.sort((a, b) => a.startTime.localeCompare(b.startTime));
+}
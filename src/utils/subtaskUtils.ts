@@ -0,0 +1,18 @@
+import type { Subtask, TaskStatus } from '../types/task';
+
+export function getSubtaskProgress(subtasks: Subtask[] = []) {
+  const done = subtasks.filter(subtask => subtask.completed).length;
+  return { done, total: subtasks.length };
+}
+
+/**
+ * Derives a task status from its checklist
+ * @param subtasks Checklist items with the current user's ticks
+ * @returns completed when every item is ticked, in-progress when some are, my-tasks otherwise
+ */
+export function getStatusFromSubtasks(subtasks: Subtask[]): TaskStatus {
+  const { done, total } = getSubtaskProgress(subtasks);
+  if (total > 0 && done === total) return 'completed';
+  if (done > 0) return 'in-progress';
+  return 'my-tasks';
+}
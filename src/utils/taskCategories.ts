@@ -0,0 +1,23 @@
+import type { TaskCategory } from '../types/task';
+
+// Categories an admin can assign, in the order the task forms list them
+export const TASK_CATEGORY_OPTIONS: { value: Exclude<TaskCategory, 'all'>; label: string }[] = [
+  { value: 'assignment', label: 'Assignment' },
+  { value: 'blc', label: 'BLC' },
+  { value: 'documents', label: 'Documents' },
+  { value: 'final-exam', label: 'Final Exam' },
+  { value: 'groups', label: 'Groups' },
+  { value: 'lab-final', label: 'Lab Final' },
+  { value: 'lab-performance', label: 'Lab Performance' },
+  { value: 'lab-report', label: 'Lab Report' },
+  { value: 'midterm', label: 'Midterm' },
+  { value: 'presentation', label: 'Presentation' },
+  { value: 'project', label: 'Project' },
+  { value: 'quiz', label: 'Quiz' },
+  { value: 'task', label: 'Task' },
+  { value: 'others', label: 'Others' },
+];
+
+export function isTaskCategory(value: string): value is Exclude<TaskCategory, 'all'> {
+  return TASK_CATEGORY_OPTIONS.some(option => option.value === value);
+}
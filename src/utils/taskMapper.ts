@@ -1,4 +1,4 @@
-import type { Task } from '../types';
+import type { Task, Subtask, TaskAttachment } from '../types';
 
 export function mapTaskFromDB(dbTask: any): Task {
   return {
@@ -9,6 +9,38 @@ export function mapTaskFromDB(dbTask: any): Task {
     description: dbTask.description,
     status: dbTask.status,
     createdAt: dbTask.created_at,
-    isAdminTask: dbTask.is_admin_task
+    isAdminTask: dbTask.is_admin_task,
+    priority: dbTask.priority || 'normal',
+    estimatedHours: dbTask.estimated_hours ?? undefined,
+    courseId: dbTask.course_id ?? undefined,
+    courseCode: dbTask.course?.code,
+    courseName: dbTask.course?.name,
+    targetSections: dbTask.target_sections || [],
+    archivedAt: dbTask.archived_at ?? undefined,
+    seriesId: dbTask.series_id ?? undefined,
+    subtasks: (dbTask.task_subtasks || [])
+      .map(mapSubtaskFromDB)
+      .sort((a: Subtask, b: Subtask) => a.position - b.position),
+    attachments: (dbTask.task_attachments || []).map(mapAttachmentFromDB)
+  };
+}
+
+export function mapSubtaskFromDB(dbSubtask: any): Subtask {
+  return {
+    id: dbSubtask.id,
+    title: dbSubtask.title,
+    position: dbSubtask.position,
+    completed: Boolean(dbSubtask.completed)
+  };
+}
+
+export function mapAttachmentFromDB(dbAttachment: any): TaskAttachment {
+  return {
+    id: dbAttachment.id,
+    fileName: dbAttachment.file_name,
+    fileSize: dbAttachment.file_size,
+    mimeType: dbAttachment.mime_type || 'application/octet-stream',
+    storagePath: dbAttachment.storage_path,
+    createdAt: dbAttachment.created_at
   };
 }
\ No newline at end of file
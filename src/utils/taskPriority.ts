@@ -0,0 +1,73 @@
+import { differenceInCalendarDays, parseISO, startOfDay } from 'date-fns';
+import { isOverdue } from './dateUtils';
+import { getSubtaskProgress } from './subtaskUtils';
+import type { Task, TaskPriority } from '../types';
+
+export const TASK_PRIORITIES: { value: TaskPriority; label: string }[] = [
+  { value: 'low', label: 'Low' },
+  { value: 'normal', label: 'Normal' },
+  { value: 'high', label: 'High' },
+  { value: 'critical', label: 'Critical' },
+];
+
+const PRIORITY_WEIGHTS: Record<TaskPriority, number> = {
+  low: 0,
+  normal: 10,
+  high: 25,
+  critical: 45,
+};
+
+export function getPriorityColor(priority: TaskPriority = 'normal'): string {
+  switch (priority) {
+    case 'critical':
+      return 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400';
+    case 'high':
+      return 'bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-400';
+    case 'low':
+      return 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300';
+    default:
+      return 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400';
+  }
+}
+
+/**
+ * Estimates the hours still needed for a task
+ * @param task Task to estimate
+ * @returns Estimated hours scaled down by the share of checklist items already done
+ */
+export function getRemainingHours(task: Task): number {
+  if (!task.estimatedHours || task.status === 'completed') return 0;
+
+  const { done, total } = getSubtaskProgress(task.subtasks);
+  if (total === 0) return task.estimatedHours;
+
+  return task.estimatedHours * (1 - done / total);
+}
+
+/**
+ * Scores how urgently a task should be worked on; higher means sooner
+ * Combines how close the due date is, the priority and how much work is left
+ * relative to the days remaining before the deadline
+ */
+export function getNextUpScore(task: Task): number {
+  const daysLeft = differenceInCalendarDays(parseISO(task.dueDate), startOfDay(new Date()));
+
+  const dueScore = isOverdue(task.dueDate) ? 60 : Math.max(0, 40 - daysLeft * 4);
+  const priorityScore = PRIORITY_WEIGHTS[task.priority || 'normal'];
+  const effortScore = Math.min(20, (getRemainingHours(task) / Math.max(1, daysLeft + 1)) * 5);
+
+  return dueScore + priorityScore + effortScore;
+}
+
+// "What should I do next" order: open tasks by score, completed tasks last
+export function sortTasksByNextUp(tasks: Task[]): Task[] {
+  return [...tasks].sort((a, b) => {
+    if (a.status === 'completed' && b.status !== 'completed') return 1;
+    if (a.status !== 'completed' && b.status === 'completed') return -1;
+
+    const scoreDiff = getNextUpScore(b) - getNextUpScore(a);
+    if (scoreDiff !== 0) return scoreDiff;
+
+    return new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime();
+  });
+}
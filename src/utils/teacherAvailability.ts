@@ -0,0 +1,82 @@
+import { addDays, format } from 'date-fns';
+import { toMinutes } from './routineClashes';
+import type { RoutineSlot } from '../types/routine';
+import type { ConsultationHour } from '../types/teacher';
+
+export interface FreeWindow {
+  date: Date;
+  start: number; // minutes since midnight
+  end: number;
+}
+
+export interface TeacherAvailability {
+  teachingNow?: RoutineSlot;
+  freeNow: boolean; // in consultation hours and not teaching
+  nextFree?: FreeWindow; // the current window when free now, otherwise the next one
+}
+
+// Parts of a consultation hour that are not taken by a class
+function freeParts(hour: ConsultationHour, classes: RoutineSlot[]) {
+  let parts = [{ start: toMinutes(hour.startTime), end: toMinutes(hour.endTime) }];
+
+  classes.forEach(slot => {
+    const classStart = toMinutes(slot.startTime);
+    const classEnd = toMinutes(slot.endTime);
+    parts = parts.flatMap(part => {
+      if (classEnd <= part.start || classStart >= part.end) return [part];
+      return [
+        { start: part.start, end: classStart },
+        { start: classEnd, end: part.end }
+      ].filter(piece => piece.end > piece.start);
+    });
+  });
+
+  return parts;
+}
+
+/**
+ * Works out whether a teacher is teaching, free in consultation hours, or neither at `now`,
+ * and the next consultation window (up to a week ahead) that does not clash with a class
+ */
+export function getTeacherAvailability(
+  slots: RoutineSlot[],
+  consultationHours: ConsultationHour[],
+  now: Date
+): TeacherAvailability {
+  const nowMinutes = now.getHours() * 60 + now.getMinutes();
+  const today = format(now, 'EEEE');
+
+  const teachingNow = slots.find(slot =>
+    slot.dayOfWeek === today && toMinutes(slot.startTime) <= nowMinutes && nowMinutes < toMinutes(slot.endTime)
+  );
+
+  for (let offset = 0; offset < 7; offset++) {
+    const date = addDays(now, offset);
+    const day = format(date, 'EEEE');
+    const classes = slots.filter(slot => slot.dayOfWeek === day);
+
+    const windows = consultationHours
+      .filter(hour => hour.dayOfWeek === day)
+      .flatMap(hour => freeParts(hour, classes))
+      .filter(part => offset > 0 || part.end > nowMinutes)
+      .sort((a, b) => a.start - b.start);
+
+    if (windows.length > 0) {
+      const nextFree = { date, ...windows[0] };
+      return {
+        teachingNow,
+        freeNow: offset === 0 && nextFree.start <= nowMinutes,
+        nextFree
+      };
+    }
+  }
+
+  return { teachingNow, freeNow: false };
+}
+
+// Every row needs its end after its start
+export function validateConsultationHours(hours: ConsultationHour[]): string | undefined {
+  return hours.some(hour => !hour.startTime || !hour.endTime || hour.startTime >= hour.endTime)
+    ? 'Each consultation time needs an end after its start'
+    : undefined;
+}
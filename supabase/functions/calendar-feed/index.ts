@@ -0,0 +1,316 @@
+import { serve } from 'https://deno.fresh.dev/std@v9.6.1/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// Calendar apps fetch this URL without a session, so deploy with --no-verify-jwt;
+// the secret token in the query string identifies the user instead.
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
+const SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+const CALENDAR_TIMEZONE = Deno.env.get('CALENDAR_TIMEZONE') || 'Asia/Dhaka';
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const ICAL_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const supabase = createClient(SUPABASE_URL, SERVICE_ROLE_KEY);
+
+interface FeedSlot {
+  id: string;
+  day_of_week: string;
+  start_time: string;
+  end_time: string;
+  room_number: string | null;
+  section: string | null;
+  course_id: string | null;
+  teacher_id: string | null;
+}
+
+interface FeedTask {
+  id: string;
+  name: string;
+  category: string;
+  description: string | null;
+  due_date: string;
+  is_admin_task: boolean;
+  target_sections: string[] | null;
+}
+
+function escapeText(value: string) {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function foldLine(line: string) {
+  if (line.length <= 75) return line;
+
+  const parts = [line.slice(0, 75)];
+  for (let i = 75; i < line.length; i += 74) {
+    parts.push(` ${line.slice(i, i + 74)}`);
+  }
+  return parts.join('\r\n');
+}
+
+function formatDate(date: Date) {
+  return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+function formatTime(time: string) {
+  const [hours, minutes] = time.split(':');
+  return `${hours.padStart(2, '0')}${minutes.padStart(2, '0')}00`;
+}
+
+// Minutes east of UTC in the zone at the given instant
+function getZoneOffset(timeZone: string, time: number): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric'
+  }).formatToParts(new Date(time));
+  const value = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  const wallClock = Date.UTC(value('year'), value('month') - 1, value('day'), value('hour'), value('minute'));
+
+  return Math.round((wallClock - Math.floor(time / 60000) * 60000) / 60000);
+}
+
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const abs = Math.abs(minutes);
+  return `${sign}${String(Math.floor(abs / 60)).padStart(2, '0')}${String(abs % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Describes the zone's UTC offsets and daylight saving changes as a VTIMEZONE, which
+ * RFC 5545 requires for every TZID used. The changes are found by probing this year's
+ * offsets and repeat yearly on the same weekday of the month.
+ */
+function buildTimeZone(timeZone: string, year: number): string[] {
+  const yearStart = Date.UTC(year, 0, 1);
+  const yearEnd = Date.UTC(year + 1, 0, 1);
+  const week = 7 * 86400000;
+  const transitions: number[] = [];
+
+  for (let from = yearStart; from < yearEnd; from += week) {
+    let low = from;
+    let high = Math.min(from + week, yearEnd);
+    if (getZoneOffset(timeZone, low) === getZoneOffset(timeZone, high)) continue;
+
+    // Narrow down to the first minute with the new offset
+    while (high - low > 60000) {
+      const mid = low + Math.floor((high - low) / 120000) * 60000;
+      if (getZoneOffset(timeZone, mid) === getZoneOffset(timeZone, low)) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+    transitions.push(high);
+  }
+
+  if (transitions.length === 0) {
+    const offset = formatOffset(getZoneOffset(timeZone, yearStart));
+    return [
+      'BEGIN:VTIMEZONE',
+      `TZID:${timeZone}`,
+      'BEGIN:STANDARD',
+      'DTSTART:19700101T000000',
+      `TZOFFSETFROM:${offset}`,
+      `TZOFFSETTO:${offset}`,
+      'END:STANDARD',
+      'END:VTIMEZONE'
+    ];
+  }
+
+  const observances = transitions.flatMap(time => {
+    const before = getZoneOffset(timeZone, time - 60000);
+    const after = getZoneOffset(timeZone, time);
+    const kind = after > before ? 'DAYLIGHT' : 'STANDARD';
+    // DTSTART is the wall-clock time just before the change
+    const local = new Date(time + before * 60000);
+    const day = local.getUTCDate();
+    const daysInMonth = new Date(Date.UTC(local.getUTCFullYear(), local.getUTCMonth() + 1, 0)).getUTCDate();
+    const nth = day + 7 > daysInMonth ? -1 : Math.ceil(day / 7);
+
+    return [
+      `BEGIN:${kind}`,
+      `DTSTART:${local.toISOString().replace(/[-:]/g, '').slice(0, 15)}`,
+      `RRULE:FREQ=YEARLY;BYMONTH=${local.getUTCMonth() + 1};BYDAY=${nth}${ICAL_WEEKDAYS[local.getUTCDay()]}`,
+      `TZOFFSETFROM:${formatOffset(before)}`,
+      `TZOFFSETTO:${formatOffset(after)}`,
+      `END:${kind}`
+    ];
+  });
+
+  return ['BEGIN:VTIMEZONE', `TZID:${timeZone}`, ...observances, 'END:VTIMEZONE'];
+}
+
+function sameSection(a: string | null, b: string | null) {
+  return (a || '').trim().toLowerCase() === (b || '').trim().toLowerCase();
+}
+
+async function buildFeed(token: string) {
+  const { data: feed, error: feedError } = await supabase
+    .from('calendar_feeds')
+    .select('user_id')
+    .eq('token', token)
+    .maybeSingle();
+
+  if (feedError) throw feedError;
+  if (!feed) return null;
+
+  const { data: user, error: userError } = await supabase
+    .from('users')
+    .select('id, section, role')
+    .eq('id', feed.user_id)
+    .single();
+
+  if (userError) throw userError;
+
+  const [slotsResult, tasksResult, coursesResult, teachersResult, enrollmentsResult] = await Promise.all([
+    supabase
+      .from('routine_slots')
+      .select('id, day_of_week, start_time, end_time, room_number, section, course_id, teacher_id, routines!inner(is_active)')
+      .eq('routines.is_active', true),
+    supabase
+      .from('tasks')
+      .select('id, name, category, description, due_date, is_admin_task, target_sections')
+      .or(`user_id.eq.${user.id},is_admin_task.eq.true`)
+      .is('archived_at', null),
+    supabase.from('courses').select('id, name, code'),
+    supabase.from('teachers').select('id, name'),
+    supabase.from('course_enrollments').select('course_id, section').eq('user_id', user.id)
+  ]);
+
+  for (const result of [slotsResult, tasksResult, coursesResult, teachersResult, enrollmentsResult]) {
+    if (result.error) throw result.error;
+  }
+
+  const courses = new Map((coursesResult.data || []).map(course => [course.id, course]));
+  const teachers = new Map((teachersResult.data || []).map(teacher => [teacher.id, teacher.name]));
+
+  // Same picks as the app's "My Routine" (utils/myRoutine.ts): students with enrolled courses get
+  // exactly those classes, in the section they take each one; otherwise their own section's classes.
+  // Like the download, fall back to everything when that leaves nothing.
+  const allSlots = (slotsResult.data || []) as FeedSlot[];
+  const enrollments = new Map((enrollmentsResult.data || []).map(row => [row.course_id, row.section as string | null]));
+  const mySlots = enrollments.size > 0
+    ? allSlots.filter(slot => {
+        if (!slot.course_id || !enrollments.has(slot.course_id)) return false;
+        const section = enrollments.get(slot.course_id) || user.section;
+        return !slot.section || sameSection(slot.section, section);
+      })
+    : user.section
+      ? allSlots.filter(slot => !slot.section || sameSection(slot.section, user.section))
+      : [];
+  const slots = mySlots.length > 0 ? mySlots : allSlots;
+
+  // Admins see every admin task, as in the app
+  const tasks = ((tasksResult.data || []) as FeedTask[]).filter(task =>
+    user.role === 'admin' ||
+    !task.is_admin_task ||
+    !task.target_sections?.length ||
+    task.target_sections.includes(user.section ?? '')
+  );
+
+  const now = new Date();
+  const stamp = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const weekStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - now.getUTCDay()));
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//NestTask//Routine//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:NestTask',
+    `X-WR-TIMEZONE:${CALENDAR_TIMEZONE}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT6H',
+    ...buildTimeZone(CALENDAR_TIMEZONE, weekStart.getUTCFullYear())
+  ];
+
+  for (const slot of slots) {
+    const dayIndex = WEEKDAYS.indexOf(slot.day_of_week);
+    if (dayIndex < 0) continue;
+
+    const course = slot.course_id ? courses.get(slot.course_id) : undefined;
+    const teacherName = slot.teacher_id ? teachers.get(slot.teacher_id) : undefined;
+    const date = formatDate(new Date(weekStart.getTime() + dayIndex * 86400000));
+    const title = course ? `${course.name} (${course.code})` : 'Class';
+    const details = [
+      teacherName && `Teacher: ${teacherName}`,
+      slot.section && `Section: ${slot.section}`,
+      slot.room_number && `Room: ${slot.room_number}`
+    ].filter(Boolean).join('\n');
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:slot-${slot.id}@nesttask`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;TZID=${CALENDAR_TIMEZONE}:${date}T${formatTime(slot.start_time)}`,
+      `DTEND;TZID=${CALENDAR_TIMEZONE}:${date}T${formatTime(slot.end_time)}`,
+      `RRULE:FREQ=WEEKLY;BYDAY=${ICAL_WEEKDAYS[dayIndex]}`,
+      `SUMMARY:${escapeText(title)}`,
+      ...(slot.room_number ? [`LOCATION:${escapeText(slot.room_number)}`] : []),
+      ...(details ? [`DESCRIPTION:${escapeText(details)}`] : []),
+      'END:VEVENT'
+    );
+  }
+
+  for (const task of tasks) {
+    const dueDate = new Date(`${task.due_date}T00:00:00Z`);
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:task-${task.id}@nesttask`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${formatDate(dueDate)}`,
+      `DTEND;VALUE=DATE:${formatDate(new Date(dueDate.getTime() + 86400000))}`,
+      `SUMMARY:${escapeText(`Due: ${task.name}`)}`,
+      `CATEGORIES:${escapeText(task.category)}`,
+      ...(task.description ? [`DESCRIPTION:${escapeText(task.description)}`] : []),
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'GET',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      },
+    });
+  }
+
+  try {
+    const token = new URL(req.url).searchParams.get('token');
+    const calendar = token ? await buildFeed(token) : null;
+
+    if (!calendar) {
+      return new Response('Calendar feed not found', { status: 404 });
+    }
+
+    return new Response(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="nesttask.ics"',
+        'Cache-Control': 'private, max-age=900',
+        'Access-Control-Allow-Origin': '*'
+      }
+    });
+  } catch (error) {
+    console.error('Error building calendar feed:', error);
+
+    return new Response('Failed to build calendar feed', { status: 500 });
+  }
+});
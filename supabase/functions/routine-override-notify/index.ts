@@ -0,0 +1,165 @@
+import { serve } from 'https://deno.fresh.dev/std@v9.6.1/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
+const SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabase = createClient(SUPABASE_URL, SERVICE_ROLE_KEY);
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, apikey, x-client-info',
+};
+
+interface Override {
+  id: string;
+  slot_id: string | null;
+  date: string;
+  type: 'cancelled' | 'rescheduled' | 'room-changed' | 'extra';
+  new_date: string | null;
+  start_time: string | null;
+  room_number: string | null;
+  course_id: string | null;
+  section: string | null;
+  note: string | null;
+}
+
+function formatDate(date: string) {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-GB', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    timeZone: 'UTC'
+  });
+}
+
+function formatTime(time: string | null) {
+  return time ? time.slice(0, 5) : '';
+}
+
+function buildMessage(override: Override, className: string, slotStart: string | null) {
+  switch (override.type) {
+    case 'cancelled':
+      return { title: 'Class Cancelled', body: `${className} on ${formatDate(override.date)} is cancelled` };
+    case 'rescheduled':
+      return {
+        title: 'Class Rescheduled',
+        body: `${className} moved from ${formatDate(override.date)} to ${formatDate(override.new_date!)} ${formatTime(override.start_time || slotStart)}`.trim()
+      };
+    case 'room-changed':
+      return { title: 'Room Changed', body: `${className} on ${formatDate(override.date)} is in room ${override.room_number}` };
+    default:
+      return { title: 'Extra Class', body: `${className} on ${formatDate(override.date)} at ${formatTime(override.start_time)}` };
+  }
+}
+
+async function isAdminRequest(req: Request) {
+  const jwt = req.headers.get('Authorization')?.replace('Bearer ', '');
+  if (!jwt) return false;
+
+  const { data: { user } } = await supabase.auth.getUser(jwt);
+  return user?.user_metadata?.role === 'admin';
+}
+
+async function notifyOverride(overrideId: string) {
+  const { data: override, error: overrideError } = await supabase
+    .from('routine_slot_overrides')
+    .select('id, slot_id, date, type, new_date, start_time, room_number, course_id, section, note')
+    .eq('id', overrideId)
+    .single();
+
+  if (overrideError) throw overrideError;
+
+  const { data: slot } = override.slot_id
+    ? await supabase
+        .from('routine_slots')
+        .select('course_id, section, start_time')
+        .eq('id', override.slot_id)
+        .single()
+    : { data: null };
+
+  const courseId = override.course_id || slot?.course_id;
+  const { data: course } = courseId
+    ? await supabase.from('courses').select('name, code').eq('id', courseId).single()
+    : { data: null };
+
+  const className = course ? `${course.code} ${course.name}` : 'Your class';
+  const section = override.section || slot?.section;
+
+  // Only students in the slot's section are affected; unsectioned slots reach everyone
+  let usersQuery = supabase.from('users').select('id');
+  if (section) usersQuery = usersQuery.eq('section', section);
+  const { data: users, error: usersError } = await usersQuery;
+  if (usersError) throw usersError;
+  if (!users?.length) return 0;
+
+  const { data: subscriptions, error: subscriptionsError } = await supabase
+    .from('push_subscriptions')
+    .select('subscription')
+    .in('user_id', users.map(user => user.id));
+
+  if (subscriptionsError) throw subscriptionsError;
+
+  const message = buildMessage(override as Override, className, slot?.start_time ?? null);
+  const payload = {
+    title: message.title,
+    body: override.note ? `${message.body}. ${override.note}` : message.body,
+    tag: `routine-override-${override.id}`,
+    data: {
+      url: '/',
+      type: 'routine-override'
+    },
+    requireInteraction: true
+  };
+
+  const results = await Promise.allSettled((subscriptions || []).map(async ({ subscription }) => {
+    const response = await fetch(`${SUPABASE_URL}/functions/v1/push-notification`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${SERVICE_ROLE_KEY}`
+      },
+      body: JSON.stringify({
+        subscription: JSON.parse(subscription),
+        payload
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Push failed with status ${response.status}`);
+    }
+  }));
+
+  return results.filter(result => result.status === 'fulfilled').length;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (!(await isAdminRequest(req))) {
+      return new Response(
+        JSON.stringify({ error: 'Only admins can send routine notifications' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { overrideId } = await req.json();
+    const delivered = await notifyOverride(overrideId);
+
+    return new Response(
+      JSON.stringify({ success: true, delivered }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error sending routine change notification:', error);
+
+    return new Response(
+      JSON.stringify({ error: 'Failed to send routine change notification' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
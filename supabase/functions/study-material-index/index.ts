@@ -0,0 +1,279 @@
+import { serve } from 'https://deno.fresh.dev/std@v9.6.1/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import JSZip from 'https://esm.sh/jszip@3.10.1';
+import { extractText, getDocumentProxy } from 'https://esm.sh/unpdf@0.12.1';
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
+const SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabase = createClient(SUPABASE_URL, SERVICE_ROLE_KEY);
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, apikey, x-client-info',
+};
+
+// Materials indexed per request when catching up on ones that were never indexed
+const PENDING_BATCH_SIZE = 10;
+
+// Plain text files have no pages, so they are split into chunks of about this many characters
+const TEXT_PAGE_SIZE = 3000;
+
+interface ExtractedPage {
+  pageNumber: number;
+  content: string;
+}
+
+function decodeXml(text: string) {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+}
+
+// Text of the given run elements (<w:t>, <a:t>, <t>), with paragraph ends as line breaks
+function xmlText(xml: string, runTag: string, paragraphTag: string) {
+  const runPattern = new RegExp(`<${runTag}(?:\\s[^>]*)?>([^<]*)</${runTag}>|</${paragraphTag}>`, 'g');
+  let text = '';
+  for (const match of xml.matchAll(runPattern)) {
+    text += match[1] !== undefined ? decodeXml(match[1]) : '\n';
+  }
+  return text.replace(/\n{3,}/g, '\n\n').trim();
+}
+
+function toPages(texts: string[]): ExtractedPage[] {
+  return texts
+    .map((content, index) => ({ pageNumber: index + 1, content: content.trim() }))
+    .filter(page => page.content.length > 0);
+}
+
+async function extractPdf(bytes: Uint8Array) {
+  const pdf = await getDocumentProxy(bytes);
+  const { text } = await extractText(pdf, { mergePages: false });
+  return toPages(text as string[]);
+}
+
+// Word only records page breaks it has rendered, so page numbers are as of the last save in Word
+async function extractDocx(bytes: Uint8Array) {
+  const zip = await JSZip.loadAsync(bytes);
+  const xml = await zip.file('word/document.xml')?.async('string');
+  if (!xml) return [];
+
+  const pages = xml.split(/<w:br [^>]*w:type="page"[^>]*\/>|<w:lastRenderedPageBreak\/>/);
+  return toPages(pages.map(page => xmlText(page, 'w:t', 'w:p')));
+}
+
+async function extractPptx(bytes: Uint8Array) {
+  const zip = await JSZip.loadAsync(bytes);
+  const slides = Object.keys(zip.files)
+    .map(path => ({ path, match: path.match(/^ppt\/slides\/slide(\d+)\.xml$/) }))
+    .filter(slide => slide.match)
+    .sort((a, b) => Number(a.match![1]) - Number(b.match![1]));
+
+  const texts: string[] = [];
+  for (const slide of slides) {
+    texts[Number(slide.match![1]) - 1] = xmlText(await zip.file(slide.path)!.async('string'), 'a:t', 'a:p');
+  }
+  return toPages(Array.from(texts, text => text || ''));
+}
+
+// Cell text lives in the shared strings table; sheets are not told apart
+async function extractXlsx(bytes: Uint8Array) {
+  const zip = await JSZip.loadAsync(bytes);
+  const xml = await zip.file('xl/sharedStrings.xml')?.async('string');
+  return xml ? toPages([xmlText(xml, 't', 'si')]) : [];
+}
+
+function extractPlainText(text: string) {
+  const chunks: string[] = [];
+  let rest = text;
+  while (rest.length > 0) {
+    let end = Math.min(rest.length, TEXT_PAGE_SIZE);
+    if (end < rest.length) {
+      const breakAt = rest.lastIndexOf('\n', end);
+      if (breakAt > TEXT_PAGE_SIZE / 2) end = breakAt;
+    }
+    chunks.push(rest.slice(0, end));
+    rest = rest.slice(end);
+  }
+  return toPages(chunks);
+}
+
+function stripRtf(rtf: string) {
+  return rtf
+    .replace(/\{\\\*[^{}]*\}/g, '')
+    .replace(/\\par[d]?/g, '\n')
+    .replace(/\\'([0-9a-f]{2})/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/\\[a-z]+-?\d* ?/gi, '')
+    .replace(/[{}]/g, '');
+}
+
+// Older binary Office formats (.doc, .ppt, .xls) are not supported and return null
+async function extractPages(fileName: string, bytes: Uint8Array): Promise<ExtractedPage[] | null> {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  const text = () => new TextDecoder().decode(bytes);
+
+  switch (extension) {
+    case 'pdf':
+      return extractPdf(bytes);
+    case 'docx':
+      return extractDocx(bytes);
+    case 'pptx':
+      return extractPptx(bytes);
+    case 'xlsx':
+      return extractXlsx(bytes);
+    case 'txt':
+    case 'md':
+      return extractPlainText(text());
+    case 'rtf':
+      return extractPlainText(stripRtf(text()));
+    default:
+      return null;
+  }
+}
+
+async function isAdminRequest(req: Request) {
+  const jwt = req.headers.get('Authorization')?.replace('Bearer ', '');
+  if (!jwt) return false;
+
+  const { data: { user } } = await supabase.auth.getUser(jwt);
+  return user?.user_metadata?.role === 'admin';
+}
+
+async function indexMaterial(materialId: string) {
+  const { data: material, error: materialError } = await supabase
+    .from('study_materials')
+    .select('id, file_urls, original_file_names')
+    .eq('id', materialId)
+    .single();
+
+  if (materialError) throw materialError;
+
+  const fileUrls: string[] = material.file_urls || [];
+  const fileNames: string[] = material.original_file_names || [];
+  const rows: { material_id: string; file_index: number; file_name: string; page_number: number; content: string }[] = [];
+  const problems: string[] = [];
+
+  for (const [fileIndex, url] of fileUrls.entries()) {
+    const fileName = fileNames[fileIndex] || decodeURIComponent(url.split('/').pop() || 'file');
+
+    try {
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`download failed with status ${response.status}`);
+
+      const pages = await extractPages(fileName, new Uint8Array(await response.arrayBuffer()));
+      if (pages === null) {
+        problems.push(`${fileName}: file type not supported`);
+        continue;
+      }
+
+      pages.forEach(page => rows.push({
+        material_id: materialId,
+        file_index: fileIndex,
+        file_name: fileName,
+        page_number: page.pageNumber,
+        content: page.content
+      }));
+    } catch (error) {
+      console.error(`Error extracting text from ${fileName}:`, error);
+      problems.push(`${fileName}: ${error instanceof Error ? error.message : 'could not read file'}`);
+    }
+  }
+
+  // Replace the previous text so removed files and pages drop out of search
+  const { error: deleteError } = await supabase
+    .from('study_material_pages')
+    .delete()
+    .eq('material_id', materialId);
+
+  if (deleteError) throw deleteError;
+
+  if (rows.length > 0) {
+    const { error: insertError } = await supabase
+      .from('study_material_pages')
+      .insert(rows);
+
+    if (insertError) throw insertError;
+  }
+
+  const { error: updateError } = await supabase
+    .from('study_materials')
+    .update({
+      text_indexed_at: new Date().toISOString(),
+      text_index_error: problems.length > 0 ? problems.join('; ') : null
+    })
+    .eq('id', materialId);
+
+  if (updateError) throw updateError;
+
+  return { pages: rows.length, problems };
+}
+
+// Materials uploaded before search existed, or whose indexing never ran
+async function indexPendingMaterials() {
+  const { data: pending, error } = await supabase
+    .from('study_materials')
+    .select('id')
+    .is('text_indexed_at', null)
+    .neq('file_urls', '{}')
+    .order('created_at', { ascending: false })
+    .limit(PENDING_BATCH_SIZE + 1);
+
+  if (error) throw error;
+
+  const batch = (pending || []).slice(0, PENDING_BATCH_SIZE);
+  for (const material of batch) {
+    try {
+      await indexMaterial(material.id);
+    } catch (error) {
+      // Record the attempt so the next batch moves on instead of retrying the same failures;
+      // uploading new files for the material indexes it again
+      console.error(`Error indexing study material ${material.id}:`, error);
+      const { error: updateError } = await supabase
+        .from('study_materials')
+        .update({
+          text_indexed_at: new Date().toISOString(),
+          text_index_error: error instanceof Error ? error.message : 'Indexing failed'
+        })
+        .eq('id', material.id);
+
+      if (updateError) throw updateError;
+    }
+  }
+
+  return { indexed: batch.length, remaining: (pending || []).length > PENDING_BATCH_SIZE };
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (!(await isAdminRequest(req))) {
+      return new Response(
+        JSON.stringify({ error: 'Only admins can index study materials' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { materialId, pending } = await req.json();
+    const result = pending ? await indexPendingMaterials() : await indexMaterial(materialId);
+
+    return new Response(
+      JSON.stringify({ success: true, ...result }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error indexing study material:', error);
+
+    return new Response(
+      JSON.stringify({ error: 'Failed to index study material' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,209 @@
+import { serve } from 'https://deno.fresh.dev/std@v9.6.1/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
+const SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+// Tasks only carry a due date, so the deadline is the end of that day in campus time
+const DEADLINE_UTC_OFFSET = Deno.env.get('TASK_DEADLINE_UTC_OFFSET') || '+06:00';
+const DEFAULT_OFFSETS = [1440, 180, 30];
+const LOOKAHEAD_DAYS = 8;
+
+const supabase = createClient(SUPABASE_URL, SERVICE_ROLE_KEY);
+
+interface ReminderTask {
+  id: string;
+  name: string;
+  due_date: string;
+  user_id: string;
+  status: string;
+  is_admin_task: boolean;
+  target_sections: string[] | null;
+}
+
+function getDeadline(dueDate: string) {
+  return new Date(`${dueDate}T23:59:59${DEADLINE_UTC_OFFSET}`);
+}
+
+function formatOffset(minutes: number) {
+  if (minutes % 1440 === 0) return `${minutes / 1440} day${minutes === 1440 ? '' : 's'}`;
+  if (minutes % 60 === 0) return `${minutes / 60} hour${minutes === 60 ? '' : 's'}`;
+  return `${minutes} minutes`;
+}
+
+async function sendPush(subscription: string, task: ReminderTask, offset: number) {
+  const payload = {
+    title: 'Task Reminder',
+    body: `${task.name} is due in ${formatOffset(offset)}`,
+    tag: `task-reminder-${task.id}`,
+    data: {
+      url: '/',
+      taskId: task.id,
+      type: 'task-reminder'
+    },
+    requireInteraction: true,
+    actions: [
+      {
+        action: 'view',
+        title: 'View Task'
+      }
+    ]
+  };
+
+  const response = await fetch(`${SUPABASE_URL}/functions/v1/push-notification`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${SERVICE_ROLE_KEY}`
+    },
+    body: JSON.stringify({
+      subscription: JSON.parse(subscription),
+      payload
+    })
+  });
+
+  if (!response.ok) {
+    throw new Error(`Push failed with status ${response.status}`);
+  }
+}
+
+async function sendDueReminders() {
+  const now = new Date();
+  const today = now.toISOString().split('T')[0];
+  const horizon = new Date(now.getTime() + LOOKAHEAD_DAYS * 86400000).toISOString().split('T')[0];
+
+  const { data: tasks, error: tasksError } = await supabase
+    .from('tasks')
+    .select('id, name, due_date, user_id, status, is_admin_task, target_sections')
+    .gte('due_date', today)
+    .lte('due_date', horizon)
+    .is('archived_at', null);
+
+  if (tasksError) throw tasksError;
+  if (!tasks?.length) return 0;
+
+  const taskIds = tasks.map(task => task.id);
+
+  const [subscriptionsResult, preferencesResult, overridesResult, logResult, progressResult, usersResult] = await Promise.all([
+    supabase.from('push_subscriptions').select('user_id, subscription'),
+    supabase.from('reminder_preferences').select('user_id, offsets'),
+    supabase.from('task_reminder_overrides').select('task_id, user_id, offsets').in('task_id', taskIds),
+    supabase.from('task_reminder_log').select('task_id, user_id, offset_minutes').in('task_id', taskIds),
+    supabase.from('task_progress').select('task_id, user_id, status').in('task_id', taskIds),
+    supabase.from('users').select('id, section')
+  ]);
+
+  for (const result of [subscriptionsResult, preferencesResult, overridesResult, logResult, progressResult, usersResult]) {
+    if (result.error) throw result.error;
+  }
+
+  const subscriptionsByUser = new Map<string, string[]>();
+  for (const row of subscriptionsResult.data || []) {
+    const list = subscriptionsByUser.get(row.user_id) || [];
+    list.push(row.subscription);
+    subscriptionsByUser.set(row.user_id, list);
+  }
+
+  const preferences = new Map<string, number[]>(
+    (preferencesResult.data || []).map(row => [row.user_id, row.offsets])
+  );
+  const overrides = new Map<string, number[]>(
+    (overridesResult.data || []).map(row => [`${row.task_id}:${row.user_id}`, row.offsets])
+  );
+  const sent = new Set(
+    (logResult.data || []).map(row => `${row.task_id}:${row.user_id}:${row.offset_minutes}`)
+  );
+  const completed = new Set(
+    (progressResult.data || [])
+      .filter(row => row.status === 'completed')
+      .map(row => `${row.task_id}:${row.user_id}`)
+  );
+
+  const sections = new Map<string, string | null>(
+    (usersResult.data || []).map(row => [row.id, row.section])
+  );
+
+  let delivered = 0;
+
+  for (const task of tasks as ReminderTask[]) {
+    const deadline = getDeadline(task.due_date);
+    if (deadline <= now) continue;
+
+    // Admin tasks remind every subscribed student in the target sections, personal tasks only their owner
+    const recipients = task.is_admin_task
+      ? [...subscriptionsByUser.keys()].filter(userId =>
+          !task.target_sections?.length || task.target_sections.includes(sections.get(userId) ?? '')
+        )
+      : subscriptionsByUser.has(task.user_id) ? [task.user_id] : [];
+
+    for (const userId of recipients) {
+      const key = `${task.id}:${userId}`;
+      const isCompleted = task.is_admin_task ? completed.has(key) : task.status === 'completed';
+      if (isCompleted) continue;
+
+      const offsets = overrides.get(key) ?? preferences.get(userId) ?? DEFAULT_OFFSETS;
+      const dueOffsets = offsets.filter(offset =>
+        !sent.has(`${key}:${offset}`) && deadline.getTime() - offset * 60000 <= now.getTime()
+      );
+      if (dueOffsets.length === 0) continue;
+
+      // After downtime several offsets can be due at once; only push the closest one
+      const offset = Math.min(...dueOffsets);
+      const results = await Promise.allSettled(
+        (subscriptionsByUser.get(userId) || []).map(subscription => sendPush(subscription, task, offset))
+      );
+      if (results.some(result => result.status === 'fulfilled')) delivered++;
+
+      const { error: logError } = await supabase
+        .from('task_reminder_log')
+        .upsert(dueOffsets.map(offsetMinutes => ({
+          task_id: task.id,
+          user_id: userId,
+          offset_minutes: offsetMinutes
+        })));
+
+      if (logError) console.error('Error logging reminder:', logError);
+    }
+  }
+
+  return delivered;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      },
+    });
+  }
+
+  try {
+    const delivered = await sendDueReminders();
+
+    return new Response(
+      JSON.stringify({ success: true, delivered }),
+      {
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*'
+        }
+      }
+    );
+  } catch (error) {
+    console.error('Error sending task reminders:', error);
+
+    return new Response(
+      JSON.stringify({ error: 'Failed to send task reminders' }),
+      {
+        status: 500,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*'
+        }
+      }
+    );
+  }
+});
@@ -0,0 +1,50 @@
+/*
+  # Add per-user progress for admin tasks
+
+  1. New Tables
+    - `task_progress` stores each user's own status for a task
+      - Keyed by (task_id, user_id)
+      - Lets students track admin tasks without touching the shared row
+
+  2. Security
+    - Enable RLS
+    - Users manage their own progress rows
+    - Admins can read everyone's progress
+*/
+
+CREATE TABLE IF NOT EXISTS task_progress (
+  task_id uuid REFERENCES tasks(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'my-tasks'
+    CHECK (status IN ('my-tasks', 'in-progress', 'completed')),
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (task_id, user_id)
+);
+
+-- Enable RLS
+ALTER TABLE task_progress ENABLE ROW LEVEL SECURITY;
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_task_progress_user ON task_progress(user_id);
+
+-- Policies for task_progress
+CREATE POLICY "Enable read access for own progress or admin"
+  ON task_progress FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id OR is_admin());
+
+CREATE POLICY "Enable insert for own progress"
+  ON task_progress FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Enable update for own progress"
+  ON task_progress FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Enable delete for own progress"
+  ON task_progress FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
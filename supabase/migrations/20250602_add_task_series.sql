@@ -0,0 +1,58 @@
+/*
+  # Add recurring task series
+
+  1. New Tables
+    - `task_series` stores the recurrence rule an admin set up
+      - weekly on a given weekday, or every N days
+      - ends on a given date or after N occurrences
+
+  2. Changes
+    - Add series_id to tasks so generated occurrences link back to their series
+
+  3. Security
+    - Enable RLS
+    - Admins manage series, authenticated users can read them
+*/
+
+CREATE TABLE IF NOT EXISTS task_series (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  frequency text NOT NULL CHECK (frequency IN ('weekly', 'interval')),
+  weekday integer CHECK (weekday BETWEEN 0 AND 6),
+  interval_days integer CHECK (interval_days > 0),
+  until_date date,
+  occurrences integer CHECK (occurrences > 0),
+  created_at timestamptz DEFAULT now(),
+  created_by uuid REFERENCES auth.users(id) ON DELETE CASCADE
+);
+
+-- Link task occurrences to their series
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS series_id uuid REFERENCES task_series(id) ON DELETE SET NULL;
+
+-- Enable RLS
+ALTER TABLE task_series ENABLE ROW LEVEL SECURITY;
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_tasks_series ON tasks(series_id);
+
+-- Policies for task_series
+CREATE POLICY "Enable read access for all authenticated users on task_series"
+  ON task_series FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Enable insert for admin users on task_series"
+  ON task_series FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Enable update for admin users on task_series"
+  ON task_series FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Enable delete for admin users on task_series"
+  ON task_series FOR DELETE
+  TO authenticated
+  USING (is_admin());
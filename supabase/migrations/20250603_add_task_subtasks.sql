@@ -0,0 +1,83 @@
+/*
+  # Add subtask checklists to tasks
+
+  1. New Tables
+    - `task_subtasks` holds the ordered checklist items of a task
+    - `task_subtask_completions` records which items each user has ticked
+      - Keyed by (subtask_id, user_id) so students tick admin tasks independently
+
+  2. Security
+    - Enable RLS
+    - Anyone who can see a task can read its checklist
+    - Task owners and admins manage checklist items
+    - Users manage their own completions
+*/
+
+CREATE TABLE IF NOT EXISTS task_subtasks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id uuid NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  title text NOT NULL,
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS task_subtask_completions (
+  subtask_id uuid REFERENCES task_subtasks(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  completed_at timestamptz DEFAULT now(),
+  PRIMARY KEY (subtask_id, user_id)
+);
+
+-- Enable RLS
+ALTER TABLE task_subtasks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE task_subtask_completions ENABLE ROW LEVEL SECURITY;
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_task_subtasks_task ON task_subtasks(task_id, position);
+CREATE INDEX IF NOT EXISTS idx_task_subtask_completions_user ON task_subtask_completions(user_id);
+
+-- Policies for task_subtasks
+CREATE POLICY "Enable read access for visible tasks on task_subtasks"
+  ON task_subtasks FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM tasks
+      WHERE tasks.id = task_subtasks.task_id
+      AND (tasks.user_id = auth.uid() OR tasks.is_admin_task = true OR is_admin())
+    )
+  );
+
+CREATE POLICY "Enable management for task owners and admins on task_subtasks"
+  ON task_subtasks FOR ALL
+  TO authenticated
+  USING (
+    is_admin() OR EXISTS (
+      SELECT 1 FROM tasks
+      WHERE tasks.id = task_subtasks.task_id
+      AND tasks.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    is_admin() OR EXISTS (
+      SELECT 1 FROM tasks
+      WHERE tasks.id = task_subtasks.task_id
+      AND tasks.user_id = auth.uid()
+    )
+  );
+
+-- Policies for task_subtask_completions
+CREATE POLICY "Enable read access for own completions or admin"
+  ON task_subtask_completions FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id OR is_admin());
+
+CREATE POLICY "Enable insert for own completions"
+  ON task_subtask_completions FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Enable delete for own completions"
+  ON task_subtask_completions FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
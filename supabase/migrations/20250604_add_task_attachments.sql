@@ -0,0 +1,81 @@
+/*
+  # Add structured task attachments
+
+  1. New Tables
+    - `task_attachments` tracks files uploaded to the task-attachments bucket
+      - file name, size, MIME type and storage path per file
+      - Replaces markdown links embedded in task descriptions
+
+  2. Security
+    - Enable RLS
+    - Anyone who can see a task can read its attachments
+    - Task owners and admins manage attachments
+    - Storage policies for the task-attachments bucket
+*/
+
+CREATE TABLE IF NOT EXISTS task_attachments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id uuid NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  file_name text NOT NULL,
+  file_size bigint NOT NULL DEFAULT 0,
+  mime_type text,
+  storage_path text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  uploaded_by uuid REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+-- Enable RLS
+ALTER TABLE task_attachments ENABLE ROW LEVEL SECURITY;
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_task_attachments_task ON task_attachments(task_id);
+CREATE INDEX IF NOT EXISTS idx_task_attachments_path ON task_attachments(storage_path);
+
+-- Policies for task_attachments
+CREATE POLICY "Enable read access for visible tasks on task_attachments"
+  ON task_attachments FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM tasks
+      WHERE tasks.id = task_attachments.task_id
+      AND (tasks.user_id = auth.uid() OR tasks.is_admin_task = true OR is_admin())
+    )
+  );
+
+CREATE POLICY "Enable management for task owners and admins on task_attachments"
+  ON task_attachments FOR ALL
+  TO authenticated
+  USING (
+    is_admin() OR EXISTS (
+      SELECT 1 FROM tasks
+      WHERE tasks.id = task_attachments.task_id
+      AND tasks.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    is_admin() OR EXISTS (
+      SELECT 1 FROM tasks
+      WHERE tasks.id = task_attachments.task_id
+      AND tasks.user_id = auth.uid()
+    )
+  );
+
+-- Storage policies for the task-attachments bucket
+DROP POLICY IF EXISTS "Give public access to task attachments" ON storage.objects;
+CREATE POLICY "Give public access to task attachments"
+ON storage.objects FOR SELECT
+TO public
+USING (bucket_id = 'task-attachments');
+
+DROP POLICY IF EXISTS "Allow authenticated users to upload task attachments" ON storage.objects;
+CREATE POLICY "Allow authenticated users to upload task attachments"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (bucket_id = 'task-attachments');
+
+DROP POLICY IF EXISTS "Allow owners and admins to delete task attachments" ON storage.objects;
+CREATE POLICY "Allow owners and admins to delete task attachments"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (bucket_id = 'task-attachments' AND (auth.uid() = owner OR is_admin()));
@@ -0,0 +1,22 @@
+/*
+  # Add priority and effort estimate to tasks
+
+  1. Changes
+    - Add `priority` column to tasks (low, normal, high, critical)
+    - Add `estimated_hours` column to tasks for the expected effort
+    - Existing tasks default to normal priority with no estimate
+
+  2. Security
+    - Covered by the existing tasks policies
+*/
+
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS priority text NOT NULL DEFAULT 'normal'
+  CHECK (priority IN ('low', 'normal', 'high', 'critical'));
+
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS estimated_hours numeric(5,1)
+  CHECK (estimated_hours > 0);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_tasks_priority ON tasks(priority);
@@ -0,0 +1,90 @@
+/*
+  # Add deadline reminders
+
+  1. New Tables
+    - `reminder_preferences` stores each student's default reminder offsets
+      - offsets are minutes before the deadline (e.g. 1440, 180, 30)
+    - `task_reminder_overrides` stores per-task offsets that replace the defaults
+      - an empty array turns reminders off for that task
+    - `task_reminder_log` records which reminders were already pushed
+
+  2. Scheduling
+    - pg_cron calls the `task-reminders` edge function every 5 minutes
+    - The function reads `app.settings.functions_url` and `app.settings.service_role_key`
+
+  3. Security
+    - Enable RLS
+    - Users manage their own preferences and overrides
+    - The reminder log is only written by the service role
+*/
+
+CREATE TABLE IF NOT EXISTS reminder_preferences (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  offsets integer[] NOT NULL DEFAULT '{1440,180,30}',
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS task_reminder_overrides (
+  task_id uuid REFERENCES tasks(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  offsets integer[] NOT NULL DEFAULT '{}',
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (task_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS task_reminder_log (
+  task_id uuid REFERENCES tasks(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  offset_minutes integer NOT NULL,
+  sent_at timestamptz DEFAULT now(),
+  PRIMARY KEY (task_id, user_id, offset_minutes)
+);
+
+-- Enable RLS
+ALTER TABLE reminder_preferences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE task_reminder_overrides ENABLE ROW LEVEL SECURITY;
+ALTER TABLE task_reminder_log ENABLE ROW LEVEL SECURITY;
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_task_reminder_overrides_user ON task_reminder_overrides(user_id);
+
+-- Policies for reminder_preferences
+CREATE POLICY "Users can manage their own reminder preferences"
+  ON reminder_preferences
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Policies for task_reminder_overrides
+CREATE POLICY "Users can manage their own task reminder overrides"
+  ON task_reminder_overrides
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Policies for task_reminder_log
+CREATE POLICY "Users can read their own reminder log"
+  ON task_reminder_log FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Schedule the reminder job
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'send-task-reminders',
+  '*/5 * * * *',
+  $$
+  SELECT net.http_post(
+    url := current_setting('app.settings.functions_url') || '/task-reminders',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || current_setting('app.settings.service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,16 @@
+/*
+  # Link tasks to courses
+
+  1. Changes
+    - Add optional `course_id` to tasks referencing courses
+    - Tasks keep existing when their course is deleted
+
+  2. Security
+    - Covered by the existing tasks policies
+*/
+
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS course_id uuid REFERENCES courses(id) ON DELETE SET NULL;
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_tasks_course ON tasks(course_id);
@@ -0,0 +1,105 @@
+/*
+  # Target admin tasks and announcements at sections
+
+  1. Changes
+    - Add `section` to users, filled from signup metadata
+    - Add `target_sections` to tasks and announcements
+      - NULL or empty means everyone
+    - Add `is_in_audience()` helper that checks the current user's section
+    - Add `get_known_sections()` so the signup form can offer the sections courses use
+
+  2. Security
+    - Students only see admin tasks and announcements aimed at their section
+    - Admins keep seeing everything
+*/
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS section text;
+
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS target_sections text[];
+
+ALTER TABLE announcements
+ADD COLUMN IF NOT EXISTS target_sections text[];
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_users_section ON users(section);
+
+-- Store the section chosen at signup
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.users (id, email, name, phone, student_id, section, role)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    COALESCE(NEW.raw_user_meta_data->>'name', split_part(NEW.email, '@', 1)),
+    NEW.raw_user_meta_data->>'phone',
+    NEW.raw_user_meta_data->>'studentId',
+    NULLIF(trim(NEW.raw_user_meta_data->>'section'), ''),
+    COALESCE(NEW.raw_user_meta_data->>'role', 'user')
+  );
+  RETURN NEW;
+END;
+$$;
+
+-- Sections taken from the course catalogue; callable before sign in, when courses are not readable
+CREATE OR REPLACE FUNCTION get_known_sections()
+RETURNS SETOF text
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT DISTINCT trim(section)
+  FROM courses
+  WHERE trim(coalesce(section, '')) <> ''
+  ORDER BY 1;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_known_sections() TO anon, authenticated;
+
+-- Check whether the current user belongs to a target audience
+CREATE OR REPLACE FUNCTION is_in_audience(target_sections text[])
+RETURNS boolean
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+STABLE
+AS $$
+BEGIN
+  RETURN (
+    target_sections IS NULL
+    OR cardinality(target_sections) = 0
+    OR COALESCE((SELECT section FROM users WHERE id = auth.uid()) = ANY(target_sections), false)
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION is_in_audience TO authenticated;
+
+-- Update tasks read policy
+DROP POLICY IF EXISTS "tasks_select_policy" ON tasks;
+
+CREATE POLICY "tasks_select_policy"
+  ON tasks
+  FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() = user_id OR
+    (is_admin_task = true AND is_in_audience(target_sections)) OR
+    is_admin()
+  );
+
+-- Update announcements read policy
+DROP POLICY IF EXISTS "Allow users to read announcements" ON announcements;
+
+CREATE POLICY "Allow users to read announcements"
+  ON announcements
+  FOR SELECT
+  TO authenticated
+  USING (is_in_audience(target_sections) OR is_admin());
@@ -0,0 +1,17 @@
+/*
+  # Add task archiving
+
+  1. Changes
+    - Add `archived_at` to tasks
+      - NULL while the task is active
+      - Archived tasks are left out of the regular task list
+
+  2. Security
+    - No policy changes; archiving is an update covered by the existing task policies
+*/
+
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS archived_at timestamptz;
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_tasks_archived_at ON tasks(archived_at);
@@ -0,0 +1,39 @@
+/*
+  # Close semester
+
+  1. Changes
+    - Add `close_semester()` which archives every active task due before a cutoff date
+      - Covers personal tasks as well as admin tasks
+      - Returns the number of archived tasks
+
+  2. Security
+    - Only admins may call `close_semester()`
+*/
+
+CREATE OR REPLACE FUNCTION close_semester(cutoff_date date)
+RETURNS integer
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  archived_count integer;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can close a semester';
+  END IF;
+
+  UPDATE tasks
+  SET archived_at = now()
+  WHERE archived_at IS NULL
+    AND due_date < cutoff_date;
+
+  GET DIAGNOSTICS archived_count = ROW_COUNT;
+  RETURN archived_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION close_semester TO authenticated;
+
+-- Speeds up the archive search
+CREATE INDEX IF NOT EXISTS idx_tasks_archived_due_date ON tasks(due_date) WHERE archived_at IS NOT NULL;
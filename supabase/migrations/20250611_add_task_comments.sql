@@ -0,0 +1,88 @@
+/*
+  # Add task comments
+
+  1. New Tables
+    - `task_comments` stores clarification threads on tasks
+      - `task_owner_id` is copied from the task so its creator can subscribe to new comments
+      - `is_pinned` marks the official answer, at most one per task
+
+  2. Realtime
+    - Add `task_comments` to the `supabase_realtime` publication
+
+  3. Security
+    - Enable RLS
+    - Anyone who can see a task can read and post comments on it
+    - Users can delete their own comments
+    - Only admins can pin comments or delete other users' comments
+*/
+
+CREATE TABLE IF NOT EXISTS task_comments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id uuid NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  task_owner_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  content text NOT NULL CHECK (char_length(trim(content)) > 0),
+  is_pinned boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE task_comments ENABLE ROW LEVEL SECURITY;
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_task_comments_task ON task_comments(task_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_task_comments_owner ON task_comments(task_owner_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_task_comments_one_pinned
+  ON task_comments(task_id)
+  WHERE is_pinned;
+
+-- Fill in the task owner so clients never have to send it
+CREATE OR REPLACE FUNCTION set_task_comment_owner()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT user_id INTO NEW.task_owner_id FROM tasks WHERE id = NEW.task_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_task_comment_owner
+  BEFORE INSERT ON task_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION set_task_comment_owner();
+
+-- Policies for task_comments
+-- The subquery runs under the tasks select policy, so comments follow task visibility
+CREATE POLICY "Users can read comments on visible tasks"
+  ON task_comments FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM tasks WHERE tasks.id = task_comments.task_id) OR
+    is_admin()
+  );
+
+CREATE POLICY "Users can comment on visible tasks"
+  ON task_comments FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id AND
+    is_pinned = false AND
+    EXISTS (SELECT 1 FROM tasks WHERE tasks.id = task_comments.task_id)
+  );
+
+CREATE POLICY "Admins can pin comments"
+  ON task_comments FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Users can delete their own comments"
+  ON task_comments FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id OR is_admin());
+
+-- Stream new and pinned comments to open task popups
+ALTER PUBLICATION supabase_realtime ADD TABLE task_comments;
@@ -0,0 +1,31 @@
+/*
+  # Add calendar feeds
+
+  1. New Tables
+    - `calendar_feeds` stores one secret token per user
+      - The token is the only credential for the `calendar-feed` edge function,
+        since calendar apps cannot sign in
+
+  2. Security
+    - Enable RLS
+    - Users can read, create and reset only their own feed token
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  user_id uuid PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  token text NOT NULL UNIQUE DEFAULT encode(gen_random_bytes(24), 'hex'),
+  created_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+-- Policies for calendar_feeds
+CREATE POLICY "Users can manage their own calendar feed"
+  ON calendar_feeds
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,82 @@
+/*
+  # Add date-specific routine overrides
+
+  1. New Tables
+    - `routine_slot_overrides` changes the weekly routine for a single date
+      - `cancelled`: the slot does not take place on `date`
+      - `rescheduled`: the slot moves from `date` to `new_date`, optionally with new times and room
+      - `room-changed`: the slot takes place in `room_number` on `date`
+      - `extra`: a one-off class on `date` that is not tied to a slot
+
+  2. Realtime
+    - Add `routine_slot_overrides` to the `supabase_realtime` publication
+
+  3. Security
+    - Enable RLS
+    - Everyone signed in can read overrides
+    - Only admins can create, update or delete them
+*/
+
+CREATE TABLE IF NOT EXISTS routine_slot_overrides (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  routine_id uuid NOT NULL REFERENCES routines(id) ON DELETE CASCADE,
+  slot_id uuid REFERENCES routine_slots(id) ON DELETE CASCADE,
+  date date NOT NULL,
+  type text NOT NULL,
+  new_date date,
+  start_time time,
+  end_time time,
+  room_number text,
+  course_id uuid REFERENCES courses(id) ON DELETE SET NULL,
+  teacher_id uuid REFERENCES teachers(id) ON DELETE SET NULL,
+  section text,
+  note text,
+  created_by uuid REFERENCES auth.users(id) DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT valid_override_type CHECK (
+    type IN ('cancelled', 'rescheduled', 'room-changed', 'extra')
+  ),
+  CONSTRAINT override_target CHECK (
+    (type = 'extra' AND slot_id IS NULL AND start_time IS NOT NULL AND end_time IS NOT NULL) OR
+    (type <> 'extra' AND slot_id IS NOT NULL)
+  ),
+  CONSTRAINT rescheduled_needs_date CHECK (type <> 'rescheduled' OR new_date IS NOT NULL),
+  CONSTRAINT room_change_needs_room CHECK (type <> 'room-changed' OR room_number IS NOT NULL)
+);
+
+-- Enable RLS
+ALTER TABLE routine_slot_overrides ENABLE ROW LEVEL SECURITY;
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_routine_slot_overrides_routine_date ON routine_slot_overrides(routine_id, date);
+CREATE INDEX IF NOT EXISTS idx_routine_slot_overrides_new_date ON routine_slot_overrides(routine_id, new_date)
+  WHERE new_date IS NOT NULL;
+-- A slot can only be changed once per date
+CREATE UNIQUE INDEX IF NOT EXISTS idx_routine_slot_overrides_slot_date
+  ON routine_slot_overrides(slot_id, date)
+  WHERE slot_id IS NOT NULL;
+
+-- Policies for routine_slot_overrides
+CREATE POLICY "Everyone can read routine overrides"
+  ON routine_slot_overrides FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can create routine overrides"
+  ON routine_slot_overrides FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update routine overrides"
+  ON routine_slot_overrides FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can delete routine overrides"
+  ON routine_slot_overrides FOR DELETE
+  TO authenticated
+  USING (is_admin());
+
+-- Stream changes to open routine pages
+ALTER PUBLICATION supabase_realtime ADD TABLE routine_slot_overrides;
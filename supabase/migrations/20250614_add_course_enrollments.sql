@@ -0,0 +1,40 @@
+/*
+  # Add course enrollments
+
+  1. New Tables
+    - `course_enrollments` lists the courses a student takes this semester
+      - `section` is set when the course is taken with another section (e.g. a retake);
+        NULL means the student's own section
+
+  2. Security
+    - Enable RLS
+    - Students manage their own enrollments
+    - Admins can read all enrollments
+*/
+
+CREATE TABLE IF NOT EXISTS course_enrollments (
+  user_id uuid REFERENCES users(id) ON DELETE CASCADE,
+  course_id uuid REFERENCES courses(id) ON DELETE CASCADE,
+  section text,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (user_id, course_id)
+);
+
+-- Enable RLS
+ALTER TABLE course_enrollments ENABLE ROW LEVEL SECURITY;
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_course_enrollments_course ON course_enrollments(course_id);
+
+-- Policies for course_enrollments
+CREATE POLICY "Users can manage their own enrollments"
+  ON course_enrollments
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Admins can read all enrollments"
+  ON course_enrollments FOR SELECT
+  TO authenticated
+  USING (is_admin());
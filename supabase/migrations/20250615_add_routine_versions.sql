@@ -0,0 +1,254 @@
+/*
+  # Add routine version history
+
+  1. New Tables
+    - `routine_versions` holds a snapshot of a routine and its slots after each change
+      - `version_number` counts up per routine
+      - `changed_by` is the admin who made the change
+      - `change_count` is how many row changes the version groups together
+      - `reverted_from` is set when the version restores an earlier one
+
+  2. Triggers
+    - Changes to `routines` (name, description, semester) and `routine_slots` record a version
+    - Changes by the same admin within a minute, such as a bulk import, update the latest version
+      instead of adding a new one
+
+  3. Functions
+    - `revert_routine_version(version_id)` restores a routine and its slots to an earlier version
+      - Slots that still exist keep their ids, so their date overrides survive
+      - Returns the new version number
+
+  4. Realtime
+    - Add `routine_versions` to the `supabase_realtime` publication
+
+  5. Security
+    - Enable RLS
+    - Only admins can read versions; they are written by the triggers only
+    - Only admins may call `revert_routine_version()`
+*/
+
+CREATE TABLE IF NOT EXISTS routine_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  routine_id uuid NOT NULL REFERENCES routines(id) ON DELETE CASCADE,
+  version_number integer NOT NULL,
+  snapshot jsonb NOT NULL,
+  changed_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  change_count integer NOT NULL DEFAULT 1,
+  reverted_from integer,
+  txid bigint NOT NULL DEFAULT txid_current(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (routine_id, version_number)
+);
+
+-- Enable RLS
+ALTER TABLE routine_versions ENABLE ROW LEVEL SECURITY;
+
+-- Policies for routine_versions
+CREATE POLICY "Admins can read routine versions"
+  ON routine_versions FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- The routine and its slots as stored in a version
+CREATE OR REPLACE FUNCTION routine_snapshot(p_routine_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'name', r.name,
+    'description', r.description,
+    'semester', r.semester,
+    'slots', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', s.id,
+        'course_id', s.course_id,
+        'teacher_id', s.teacher_id,
+        'day_of_week', s.day_of_week,
+        'start_time', s.start_time,
+        'end_time', s.end_time,
+        'room_number', s.room_number,
+        'section', s.section
+      ) ORDER BY s.day_of_week, s.start_time, s.id)
+      FROM routine_slots s
+      WHERE s.routine_id = r.id
+    ), '[]'::jsonb)
+  )
+  FROM routines r
+  WHERE r.id = p_routine_id;
+$$;
+
+CREATE OR REPLACE FUNCTION record_routine_version()
+RETURNS trigger
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_routine_id uuid;
+  v_snapshot jsonb;
+  v_latest routine_versions%ROWTYPE;
+BEGIN
+  IF TG_TABLE_NAME = 'routines' THEN
+    v_routine_id := NEW.id;
+  ELSIF TG_OP = 'DELETE' THEN
+    v_routine_id := OLD.routine_id;
+  ELSE
+    v_routine_id := NEW.routine_id;
+  END IF;
+
+  v_snapshot := routine_snapshot(v_routine_id);
+
+  -- Slots removed along with their routine
+  IF v_snapshot IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_latest
+  FROM routine_versions
+  WHERE routine_id = v_routine_id
+  ORDER BY version_number DESC
+  LIMIT 1;
+
+  IF FOUND AND v_latest.snapshot = v_snapshot THEN
+    RETURN NULL;
+  END IF;
+
+  IF FOUND AND (
+    v_latest.txid = txid_current() OR (
+      v_latest.reverted_from IS NULL AND
+      v_latest.changed_by IS NOT DISTINCT FROM auth.uid() AND
+      v_latest.updated_at > now() - interval '1 minute'
+    )
+  ) THEN
+    UPDATE routine_versions
+    SET snapshot = v_snapshot,
+        change_count = change_count + 1,
+        updated_at = now()
+    WHERE id = v_latest.id;
+  ELSE
+    INSERT INTO routine_versions (routine_id, version_number, snapshot, changed_by)
+    VALUES (
+      v_routine_id,
+      COALESCE(v_latest.version_number, 0) + 1,
+      v_snapshot,
+      (SELECT id FROM users WHERE id = auth.uid())
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER record_routine_version
+  AFTER INSERT OR UPDATE OF name, description, semester ON routines
+  FOR EACH ROW
+  EXECUTE FUNCTION record_routine_version();
+
+CREATE TRIGGER record_routine_slot_version
+  AFTER INSERT OR UPDATE OR DELETE ON routine_slots
+  FOR EACH ROW
+  EXECUTE FUNCTION record_routine_version();
+
+CREATE OR REPLACE FUNCTION revert_routine_version(version_id uuid)
+RETURNS integer
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_version routine_versions%ROWTYPE;
+  v_version_number integer;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can revert a routine';
+  END IF;
+
+  SELECT * INTO v_version FROM routine_versions WHERE id = version_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Routine version not found';
+  END IF;
+
+  -- Open the new version first so the triggers below record into it
+  SELECT max(version_number) + 1 INTO v_version_number
+  FROM routine_versions
+  WHERE routine_id = v_version.routine_id;
+
+  INSERT INTO routine_versions (routine_id, version_number, snapshot, changed_by, change_count, reverted_from)
+  VALUES (
+    v_version.routine_id,
+    v_version_number,
+    routine_snapshot(v_version.routine_id),
+    (SELECT id FROM users WHERE id = auth.uid()),
+    0,
+    v_version.version_number
+  );
+
+  UPDATE routines
+  SET name = v_version.snapshot->>'name',
+      description = v_version.snapshot->>'description',
+      semester = v_version.snapshot->>'semester'
+  WHERE id = v_version.routine_id;
+
+  DELETE FROM routine_slots
+  WHERE routine_id = v_version.routine_id
+    AND id NOT IN (
+      SELECT (slot->>'id')::uuid
+      FROM jsonb_array_elements(v_version.snapshot->'slots') AS slot
+    );
+
+  -- Courses and teachers deleted since the version was saved are left empty
+  INSERT INTO routine_slots (id, routine_id, course_id, teacher_id, day_of_week, start_time, end_time, room_number, section)
+  SELECT
+    s.id,
+    v_version.routine_id,
+    (SELECT c.id FROM courses c WHERE c.id = s.course_id),
+    (SELECT t.id FROM teachers t WHERE t.id = s.teacher_id),
+    s.day_of_week,
+    s.start_time,
+    s.end_time,
+    s.room_number,
+    s.section
+  FROM jsonb_to_recordset(v_version.snapshot->'slots') AS s(
+    id uuid,
+    course_id uuid,
+    teacher_id uuid,
+    day_of_week text,
+    start_time time,
+    end_time time,
+    room_number text,
+    section text
+  )
+  ON CONFLICT (id) DO UPDATE
+  SET course_id = EXCLUDED.course_id,
+      teacher_id = EXCLUDED.teacher_id,
+      day_of_week = EXCLUDED.day_of_week,
+      start_time = EXCLUDED.start_time,
+      end_time = EXCLUDED.end_time,
+      room_number = EXCLUDED.room_number,
+      section = EXCLUDED.section
+  WHERE (routine_slots.course_id, routine_slots.teacher_id, routine_slots.day_of_week, routine_slots.start_time,
+         routine_slots.end_time, routine_slots.room_number, routine_slots.section)
+    IS DISTINCT FROM
+        (EXCLUDED.course_id, EXCLUDED.teacher_id, EXCLUDED.day_of_week, EXCLUDED.start_time,
+         EXCLUDED.end_time, EXCLUDED.room_number, EXCLUDED.section);
+
+  RETURN v_version_number;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION revert_routine_version TO authenticated;
+
+-- Existing routines start their history from their current state
+INSERT INTO routine_versions (routine_id, version_number, snapshot, changed_by, change_count)
+SELECT r.id, 1, routine_snapshot(r.id), u.id, 0
+FROM routines r
+LEFT JOIN users u ON u.id = r.created_by
+ON CONFLICT (routine_id, version_number) DO NOTHING;
+
+CREATE INDEX IF NOT EXISTS idx_routine_versions_routine ON routine_versions(routine_id, version_number DESC);
+
+-- Stream new versions to open history views
+ALTER PUBLICATION supabase_realtime ADD TABLE routine_versions;
@@ -0,0 +1,17 @@
+/*
+  # Add teacher consultation hours
+
+  1. Changes
+    - Add `consultation_hours` to `teachers`: a list of weekly times the teacher
+      is available in their office, as [{ "dayOfWeek", "startTime", "endTime" }]
+
+  2. Security
+    - Covered by the existing teacher policies
+*/
+
+ALTER TABLE teachers
+  ADD COLUMN IF NOT EXISTS consultation_hours jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE teachers
+  ADD CONSTRAINT teachers_consultation_hours_is_array
+  CHECK (jsonb_typeof(consultation_hours) = 'array');
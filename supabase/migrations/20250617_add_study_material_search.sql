@@ -0,0 +1,131 @@
+/*
+  # Add full-text search for study materials
+
+  1. New Tables
+    - `study_material_pages` holds the text extracted from each uploaded file,
+      one row per PDF page, slide or document page
+      - `file_index` points into `study_materials.file_urls`
+
+  2. Changes
+    - `study_materials.search_vector`: title and description, title weighted higher
+    - `study_materials.text_indexed_at` / `text_index_error`: when the files were last
+      indexed and why indexing failed, if it did
+
+  3. Functions
+    - `search_study_materials(search_query, max_results)` returns the `max_results` best
+      matching materials, each with up to three matching pages and highlighted snippets
+      (matches wrapped in <mark></mark>)
+
+  4. Security
+    - Enable RLS on `study_material_pages`
+    - Authenticated users can read extracted text, like the materials themselves
+    - Only the indexing edge function (service role) writes it
+*/
+
+ALTER TABLE study_materials
+  ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'B')
+  ) STORED,
+  ADD COLUMN IF NOT EXISTS text_indexed_at timestamptz,
+  ADD COLUMN IF NOT EXISTS text_index_error text;
+
+CREATE TABLE IF NOT EXISTS study_material_pages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  material_id uuid NOT NULL REFERENCES study_materials(id) ON DELETE CASCADE,
+  file_index integer NOT NULL,
+  file_name text NOT NULL,
+  page_number integer NOT NULL,
+  content text NOT NULL,
+  search_vector tsvector GENERATED ALWAYS AS (to_tsvector('english', content)) STORED,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (material_id, file_index, page_number)
+);
+
+-- Enable RLS
+ALTER TABLE study_material_pages ENABLE ROW LEVEL SECURITY;
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_study_materials_search ON study_materials USING gin(search_vector);
+CREATE INDEX IF NOT EXISTS idx_study_material_pages_search ON study_material_pages USING gin(search_vector);
+CREATE INDEX IF NOT EXISTS idx_study_material_pages_material ON study_material_pages(material_id);
+
+-- Policies for study_material_pages
+CREATE POLICY "Authenticated users can read study material text"
+  ON study_material_pages
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Ranks title/description hits above page hits and only builds snippets for the rows returned
+CREATE OR REPLACE FUNCTION search_study_materials(search_query text, max_results integer DEFAULT 50)
+RETURNS TABLE (
+  material_id uuid,
+  rank real,
+  file_index integer,
+  file_name text,
+  page_number integer,
+  snippet text
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', search_query) AS q
+  ),
+  hits AS (
+    SELECT m.id AS material_id,
+           ts_rank(m.search_vector, query.q) * 2 AS rank,
+           NULL::integer AS file_index,
+           NULL::text AS file_name,
+           NULL::integer AS page_number,
+           m.title || ' - ' || m.description AS content
+    FROM study_materials m, query
+    WHERE m.search_vector @@ query.q
+
+    UNION ALL
+
+    SELECT p.material_id,
+           ts_rank(p.search_vector, query.q),
+           p.file_index,
+           p.file_name,
+           p.page_number,
+           p.content
+    FROM study_material_pages p, query
+    WHERE p.search_vector @@ query.q
+  ),
+  -- Limit materials, not pages, so one long document can't crowd out the others
+  ranked AS (
+    SELECT hits.*,
+           row_number() OVER (PARTITION BY hits.material_id ORDER BY hits.rank DESC) AS hit_order
+    FROM hits
+  ),
+  top_materials AS (
+    SELECT ranked.material_id, ranked.rank AS best_rank
+    FROM ranked
+    WHERE ranked.hit_order = 1
+    ORDER BY ranked.rank DESC
+    LIMIT max_results
+  ),
+  top_hits AS (
+    SELECT ranked.*, top_materials.best_rank
+    FROM ranked
+    JOIN top_materials ON top_materials.material_id = ranked.material_id
+    WHERE ranked.hit_order <= 3
+  )
+  SELECT top_hits.material_id,
+         top_hits.rank,
+         top_hits.file_index,
+         top_hits.file_name,
+         top_hits.page_number,
+         ts_headline(
+           'english',
+           top_hits.content,
+           query.q,
+           'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" ... "'
+         ) AS snippet
+  FROM top_hits, query
+  ORDER BY top_hits.best_rank DESC, top_hits.material_id, top_hits.hit_order;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_study_materials(text, integer) TO authenticated;
@@ -0,0 +1,101 @@
+/*
+  # Add study material versions
+
+  1. Changes
+    - `study_materials` gets `version_number`, `change_note`, `updated_at` and `updated_by`
+      for its current version
+
+  2. New Tables
+    - `study_material_versions` keeps every earlier version of a material's files,
+      with who uploaded it, when, and their change note
+
+  3. Triggers
+    - Replacing a material's files copies the old version into `study_material_versions`
+      and bumps `version_number`; edits that keep the files do not create a version.
+      Old files stay in storage so earlier versions can still be downloaded.
+
+  4. Security
+    - Enable RLS on `study_material_versions`
+    - Authenticated users can read versions, like the materials themselves
+    - Versions are only written by the trigger
+*/
+
+ALTER TABLE study_materials
+  ADD COLUMN IF NOT EXISTS version_number integer NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS change_note text,
+  ADD COLUMN IF NOT EXISTS updated_at timestamptz,
+  ADD COLUMN IF NOT EXISTS updated_by uuid REFERENCES users(id) ON DELETE SET NULL;
+
+CREATE TABLE IF NOT EXISTS study_material_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  material_id uuid NOT NULL REFERENCES study_materials(id) ON DELETE CASCADE,
+  version_number integer NOT NULL,
+  title text NOT NULL,
+  description text,
+  file_urls text[] NOT NULL DEFAULT ARRAY[]::text[],
+  original_file_names text[] NOT NULL DEFAULT ARRAY[]::text[],
+  change_note text,
+  uploaded_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  uploaded_at timestamptz NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (material_id, version_number)
+);
+
+-- Enable RLS
+ALTER TABLE study_material_versions ENABLE ROW LEVEL SECURITY;
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_study_material_versions_material ON study_material_versions(material_id, version_number DESC);
+
+-- Policies for study_material_versions
+CREATE POLICY "Authenticated users can read study material versions"
+  ON study_material_versions
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE OR REPLACE FUNCTION archive_study_material_version()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO study_material_versions (
+    material_id, version_number, title, description, file_urls, original_file_names,
+    change_note, uploaded_by, uploaded_at
+  )
+  VALUES (
+    OLD.id,
+    OLD.version_number,
+    OLD.title,
+    OLD.description,
+    COALESCE(OLD.file_urls, ARRAY[]::text[]),
+    COALESCE(OLD.original_file_names, ARRAY[]::text[]),
+    OLD.change_note,
+    (SELECT id FROM users WHERE id = COALESCE(OLD.updated_by, OLD.created_by)),
+    COALESCE(OLD.updated_at, OLD.created_at, now())
+  );
+
+  NEW.version_number := OLD.version_number + 1;
+  NEW.updated_at := now();
+  NEW.updated_by := (SELECT id FROM users WHERE id = auth.uid());
+
+  -- A note left over from the previous version does not describe this one
+  IF NEW.change_note IS NOT DISTINCT FROM OLD.change_note THEN
+    NEW.change_note := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS archive_study_material_version ON study_materials;
+CREATE TRIGGER archive_study_material_version
+  BEFORE UPDATE OF file_urls, original_file_names ON study_materials
+  FOR EACH ROW
+  WHEN (
+    OLD.file_urls IS DISTINCT FROM NEW.file_urls OR
+    OLD.original_file_names IS DISTINCT FROM NEW.original_file_names
+  )
+  EXECUTE FUNCTION archive_study_material_version();